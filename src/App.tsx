@@ -13,9 +13,18 @@ import AdminDashboardPage from './pages/admin/AdminDashboardPage';
 import UserManagementPage from './pages/admin/UserManagementPage';
 import ModerationPage from './pages/admin/ModerationPage';
 import SectionManagementPage from './pages/admin/SectionManagementPage';
+import ReactionManagementPage from './pages/admin/ReactionManagementPage';
+import AuditLogPage from './pages/admin/AuditLogPage';
 import CategoryPostsPage from './pages/CategoryPostsPage';
 import CreatePostPage from './pages/CreatePostPage';
 import PostDetailPage from './pages/PostDetailPage';
+import SearchPage from './pages/SearchPage';
+import NotificationsPage from './pages/NotificationsPage';
+import SubscriptionsPage from './pages/SubscriptionsPage';
+import MyReportsPage from './pages/MyReportsPage';
+import MembersPage from './pages/MembersPage';
+import MessagesPage from './pages/MessagesPage';
+import ConversationPage from './pages/ConversationPage';
 import ForgotPasswordPage from './pages/ForgotPasswordPage'; // New import
 import UpdatePasswordPage from './pages/UpdatePasswordPage'; // New import
 import { Toaster } from "@/components/ui/toaster";
@@ -38,6 +47,13 @@ function App() {
             <Route path="/forum/categorie/:categorySlug" element={<CategoryPostsPage />} />
             <Route path="/forum/nouveau-sujet/:categorySlug" element={<CreatePostPage />} />
             <Route path="/forum/sujet/:postId" element={<PostDetailPage />} />
+            <Route path="/recherche" element={<SearchPage />} />
+            <Route path="/notifications" element={<NotificationsPage />} />
+            <Route path="/abonnements" element={<SubscriptionsPage />} />
+            <Route path="/mes-signalements" element={<MyReportsPage />} />
+            <Route path="/membres" element={<MembersPage />} />
+            <Route path="/messages" element={<MessagesPage />} />
+            <Route path="/messages/:conversationId" element={<ConversationPage />} />
             <Route path="/profil/:userId" element={<ProfilePage />} />
             <Route path="/parametre" element={<SettingsPage />} />
           </Route>
@@ -51,6 +67,8 @@ function App() {
               <Route path="users" element={<UserManagementPage />} />
               <Route path="moderation" element={<ModerationPage />} />
               <Route path="sections" element={<SectionManagementPage />} />
+              <Route path="reactions" element={<ReactionManagementPage />} />
+              <Route path="audit" element={<AuditLogPage />} />
             </Route>
           </Route>
         </Route>
@@ -0,0 +1,138 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Loader2 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useDateFormatter } from '@/hooks/useDateFormatter';
+import {
+  ContentReport,
+  REPORTED_CONTENT_TYPE_LABELS,
+  REPORT_REASON_LABELS,
+  REPORT_STATUS_LABELS,
+  ReportReasonCategory,
+  ReportedContentType,
+} from '@/lib/reports';
+
+export interface ReportedContentRef {
+  type: ReportedContentType;
+  id: string;
+  label: string | null;
+}
+
+interface ContentReportsDialogProps {
+  content: ReportedContentRef | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const ContentReportsDialog: React.FC<ContentReportsDialogProps> = ({ content, onOpenChange }) => {
+  const { formatDateTime } = useDateFormatter();
+  const [reports, setReports] = useState<ContentReport[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!content) return;
+    let cancelled = false;
+    const fetchReports = async () => {
+      setIsLoading(true);
+      setReports([]);
+      const { data, error } = await supabase.rpc('get_content_reports', {
+        p_content_type: content.type,
+        p_content_id: content.id,
+      });
+      if (cancelled) return;
+      if (error) {
+        console.error('Error fetching content reports:', error);
+        toast({ title: "Erreur de chargement des signalements", description: error.message || "Impossible de charger les signalements de ce contenu.", variant: "destructive" });
+      } else {
+        setReports(data || []);
+      }
+      setIsLoading(false);
+    };
+    fetchReports();
+    return () => { cancelled = true; };
+  }, [content]);
+
+  const reasonCounts = reports.reduce<Partial<Record<ReportReasonCategory, number>>>((counts, report) => {
+    counts[report.reason_category] = (counts[report.reason_category] || 0) + 1;
+    return counts;
+  }, {});
+
+  return (
+    <Dialog open={!!content} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[900px] max-h-[85vh] overflow-y-auto dark:bg-gray-800">
+        <DialogHeader>
+          <DialogTitle className="dark:text-white">Signalements de ce contenu</DialogTitle>
+          <DialogDescription className="dark:text-gray-400">
+            {content && `${REPORTED_CONTENT_TYPE_LABELS[content.type]}${content.label ? ` : ${content.label}` : ''}`}
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="flex justify-center items-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : reports.length === 0 ? (
+          <p className="text-gray-500 dark:text-gray-400 text-center py-8">Aucun signalement pour ce contenu.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(reasonCounts) as ReportReasonCategory[]).map(reason => (
+                <Badge key={reason} variant="outline" className="dark:text-gray-300 dark:border-gray-600">
+                  {REPORT_REASON_LABELS[reason]} : {reasonCounts[reason]}
+                </Badge>
+              ))}
+            </div>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="dark:border-gray-700">
+                    <TableHead className="dark:text-gray-300">Date</TableHead>
+                    <TableHead className="dark:text-gray-300">Signalé par</TableHead>
+                    <TableHead className="dark:text-gray-300">Raison</TableHead>
+                    <TableHead className="dark:text-gray-300">Statut</TableHead>
+                    <TableHead className="dark:text-gray-300">Notes de modération</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {reports.map(report => (
+                    <TableRow key={report.report_id} className="dark:border-gray-700">
+                      <TableCell className="text-xs dark:text-gray-400">{formatDateTime(report.report_created_at)}</TableCell>
+                      <TableCell className="dark:text-gray-300">{report.reporter_username || 'Système'}</TableCell>
+                      <TableCell className="max-w-xs dark:text-gray-300">
+                        {REPORT_REASON_LABELS[report.reason_category]}
+                        {report.reason_details && (
+                          <p className="mt-1 whitespace-pre-wrap break-words text-xs text-gray-500 dark:text-gray-400">{report.reason_details}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm dark:text-gray-300">
+                        {REPORT_STATUS_LABELS[report.report_status]}
+                        {report.resolved_at && (
+                          <div className="text-xs text-muted-foreground dark:text-gray-400">
+                            {formatDateTime(report.resolved_at)}{report.resolver_username ? ` par ${report.resolver_username}` : ''}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="max-w-xs whitespace-pre-wrap break-words text-xs dark:text-gray-300">
+                        {report.moderator_notes || '—'}
+                        {report.report_status !== 'PENDING' && report.resolution_message && (
+                          <p className="mt-1 text-gray-500 dark:text-gray-400">Message au signaleur : {report.resolution_message}</p>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,200 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { supabase } from '@/lib/supabaseClient';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Loader2 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/usePermissions';
+import { Permission } from '@/constants/permissions';
+import { SANCTION_TYPE_LABELS, UserSanctionType } from '@/lib/sanctions';
+import { UserProfile } from '@/pages/admin/UserManagementPage';
+
+const sanctionTypes = ['WARNING', 'SUSPENSION', 'BAN'] as const;
+
+const SANCTION_TYPE_PERMISSIONS: Record<UserSanctionType, Permission> = {
+  WARNING: Permission.WARN_USER,
+  SUSPENSION: Permission.SUSPEND_USER,
+  BAN: Permission.BAN_USER,
+};
+
+const issueSanctionSchema = z.object({
+  sanction_type: z.enum(sanctionTypes, { errorMap: () => ({ message: "Type de sanction invalide." }) }),
+  duration_days: z.coerce.number().int({ message: "Nombre de jours entier attendu." }).min(1, { message: "Au moins 1 jour." }).max(365, { message: "Au plus 365 jours." }),
+  reason: z.string().trim().min(1, { message: "Le motif est obligatoire." }).max(1000, { message: "Le motif ne doit pas dépasser 1000 caractères." }),
+});
+
+type IssueSanctionFormData = z.infer<typeof issueSanctionSchema>;
+
+interface IssueSanctionDialogProps {
+  user: UserProfile | null;
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSanctionIssued: () => void;
+}
+
+export const IssueSanctionDialog: React.FC<IssueSanctionDialogProps> = ({ user, isOpen, onOpenChange, onSanctionIssued }) => {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { can } = usePermissions();
+  const allowedTypes = sanctionTypes.filter(type => can(SANCTION_TYPE_PERMISSIONS[type]));
+
+  const form = useForm<IssueSanctionFormData>({
+    resolver: zodResolver(issueSanctionSchema),
+    defaultValues: {
+      sanction_type: 'WARNING',
+      duration_days: 7,
+      reason: '',
+    },
+  });
+
+  useEffect(() => {
+    if (user && isOpen) {
+      form.reset({ sanction_type: 'WARNING', duration_days: 7, reason: '' });
+    }
+  }, [user, form, isOpen]);
+
+  const sanctionType = form.watch('sanction_type');
+
+  const onSubmit = async (data: IssueSanctionFormData) => {
+    if (!user) return;
+    if (!can(SANCTION_TYPE_PERMISSIONS[data.sanction_type])) {
+      toast({ title: "Action non autorisée", description: "Vous n'avez pas la permission d'appliquer cette sanction.", variant: "destructive" });
+      return;
+    }
+    setIsSubmitting(true);
+
+    try {
+      const endsAt = data.sanction_type === 'SUSPENSION'
+        ? new Date(Date.now() + data.duration_days * 24 * 60 * 60 * 1000).toISOString()
+        : null;
+      const { error } = await supabase.rpc('issue_user_sanction', {
+        p_user_id: user.id,
+        p_sanction_type: data.sanction_type,
+        p_reason: data.reason,
+        p_ends_at: endsAt,
+      });
+      if (error) throw error;
+
+      toast({
+        title: "Sanction appliquée",
+        description: `${SANCTION_TYPE_LABELS[data.sanction_type]} appliqué${data.sanction_type === 'SUSPENSION' ? 'e' : ''} à ${user.username || user.email || user.id}.`,
+        className: "bg-green-500 text-white dark:bg-green-700",
+      });
+      onSanctionIssued();
+      onOpenChange(false);
+    } catch (error: any) {
+      console.error("IssueSanctionDialog: Error issuing sanction:", error);
+      toast({
+        title: "Erreur",
+        description: error.message || "Impossible d'appliquer la sanction.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!user) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px] dark:bg-gray-800">
+        <DialogHeader>
+          <DialogTitle className="dark:text-white">Sanctionner un membre</DialogTitle>
+          <DialogDescription className="dark:text-gray-400">
+            Sanction envers {user.username || user.email || user.id}. Le motif est communiqué au membre.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="sanction_type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="dark:text-gray-300">Type</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger className="dark:bg-gray-700 dark:border-gray-600 dark:text-white">
+                        <SelectValue placeholder="Sélectionner un type" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent className="dark:bg-gray-800 dark:border-gray-700 dark:text-white">
+                      {sanctionTypes.map(type => (
+                        <SelectItem key={type} value={type} disabled={!allowedTypes.includes(type)} className="hover:dark:bg-gray-700">
+                          {SANCTION_TYPE_LABELS[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription className="dark:text-gray-400">
+                    {sanctionType === 'WARNING' && "Le membre est notifié, sans restriction."}
+                    {sanctionType === 'SUSPENSION' && "Le membre peut toujours lire le forum, mais ne peut plus publier jusqu'à la fin de la suspension."}
+                    {sanctionType === 'BAN' && "Le membre ne peut plus accéder au forum ni publier, sans date de fin."}
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {sanctionType === 'SUSPENSION' && (
+              <FormField
+                control={form.control}
+                name="duration_days"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="dark:text-gray-300">Durée (jours)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} max={365} {...field} className="dark:bg-gray-700 dark:border-gray-600 dark:text-white" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="dark:text-gray-300">Motif</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} rows={4} maxLength={1000} placeholder="Règle enfreinte, messages concernés..." className="dark:bg-gray-700 dark:border-gray-600 dark:text-white" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+                Annuler
+              </Button>
+              <Button type="submit" variant={sanctionType === 'WARNING' ? 'default' : 'destructive'} disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Appliquer
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,300 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/lib/supabaseClient';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { History, Layers, Loader2, RotateCcw } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useDateFormatter } from '@/hooks/useDateFormatter';
+import PaginationBar from '@/components/common/PaginationBar';
+import {
+  REPORTED_CONTENT_TYPE_LABELS,
+  REPORT_REASON_LABELS,
+  REPORT_STATUS_LABELS,
+  RESOLVED_REPORT_STATUSES,
+  ResolvedReport,
+  ResolvedReportStatus,
+  getReportedContentLink,
+} from '@/lib/reports';
+import { ReportedContentRef } from '@/components/admin/ContentReportsDialog';
+
+const REPORTS_PER_PAGE = 20;
+const ALL = 'all';
+
+interface StaffMember {
+  id: string;
+  username: string | null;
+}
+
+const STATUS_BADGE_CLASSES: Record<ResolvedReportStatus, string> = {
+  RESOLVED_APPROVED: 'bg-green-600 hover:bg-green-600 text-white',
+  RESOLVED_ACTION_TAKEN: 'bg-orange-600 hover:bg-orange-600 text-white',
+  RESOLVED_REJECTED: 'bg-gray-500 hover:bg-gray-500 text-white',
+};
+
+interface ResolvedReportsPanelProps {
+  // Reopened reports go back to the pending queue, which the parent page owns.
+  onReportReopened: () => void;
+  onShowContentReports: (content: ReportedContentRef) => void;
+}
+
+export const ResolvedReportsPanel: React.FC<ResolvedReportsPanelProps> = ({ onReportReopened, onShowContentReports }) => {
+  const { formatDateTime } = useDateFormatter();
+  const [reports, setReports] = useState<ResolvedReport[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [statusFilter, setStatusFilter] = useState<string>(ALL);
+  const [resolverFilter, setResolverFilter] = useState<string>(ALL);
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [reportToReopen, setReportToReopen] = useState<ResolvedReport | null>(null);
+  const [reopenReason, setReopenReason] = useState('');
+
+  const totalPages = Math.max(1, Math.ceil(totalCount / REPORTS_PER_PAGE));
+
+  useEffect(() => {
+    const fetchStaff = async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, username')
+        .in('role', ['MODERATOR', 'ADMIN', 'SUPER_ADMIN'])
+        .order('username', { ascending: true });
+      if (error) {
+        console.error('Error fetching staff members:', error);
+        return;
+      }
+      setStaff(data || []);
+    };
+    fetchStaff();
+  }, []);
+
+  const fetchReports = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('get_resolved_reports', {
+        p_status: statusFilter === ALL ? null : statusFilter,
+        p_resolved_by: resolverFilter === ALL ? null : resolverFilter,
+        p_page: currentPage,
+        p_limit: REPORTS_PER_PAGE,
+      });
+      if (error) throw error;
+      const rows: ResolvedReport[] = data || [];
+      setReports(rows);
+      setTotalCount(rows.length > 0 ? Number(rows[0].total_count) : 0);
+    } catch (err: any) {
+      console.error('Error fetching resolved reports:', err);
+      toast({ title: "Erreur de chargement des signalements traités", description: err.message || "Impossible de charger les signalements traités.", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentPage, statusFilter, resolverFilter]);
+
+  useEffect(() => {
+    fetchReports();
+  }, [fetchReports]);
+
+  const handleStatusFilterChange = (value: string) => {
+    setStatusFilter(value);
+    setCurrentPage(1);
+  };
+
+  const handleResolverFilterChange = (value: string) => {
+    setResolverFilter(value);
+    setCurrentPage(1);
+  };
+
+  const confirmReopenReport = async () => {
+    if (!reportToReopen) return;
+    if (!reopenReason.trim()) {
+      toast({ title: "Motif requis", description: "Indiquez pourquoi le signalement est rouvert.", variant: "destructive" });
+      return;
+    }
+    try {
+      const { error } = await supabase.rpc('reopen_report', {
+        p_report_id: reportToReopen.report_id,
+        p_reason: reopenReason.trim(),
+      });
+      if (error) throw error;
+      toast({ title: "Signalement rouvert", description: "Le signalement est de nouveau en attente de traitement.", className: "bg-green-500 text-white dark:bg-green-700" });
+      fetchReports();
+      onReportReopened();
+    } catch (err: any) {
+      console.error('Error reopening report:', err);
+      toast({ title: "Erreur", description: err.message || "Impossible de rouvrir le signalement.", variant: "destructive" });
+    } finally {
+      setReportToReopen(null);
+      setReopenReason('');
+    }
+  };
+
+  return (
+    <Card className="dark:bg-gray-800 shadow-md">
+      <CardHeader className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center text-xl text-gray-800 dark:text-white">
+            <History className="mr-2 h-6 w-6 text-blue-400" />
+            Signalements Traités
+          </CardTitle>
+          <CardDescription className="text-gray-600 dark:text-gray-400">
+            Historique des signalements résolus. Un signalement rouvert retourne dans la file d'attente.
+          </CardDescription>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Select value={statusFilter} onValueChange={handleStatusFilterChange}>
+            <SelectTrigger className="w-full sm:w-56 dark:bg-gray-700 dark:border-gray-600 dark:text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="dark:bg-gray-800 dark:border-gray-700 dark:text-white">
+              <SelectItem value={ALL}>Tous les statuts</SelectItem>
+              {RESOLVED_REPORT_STATUSES.map(status => (
+                <SelectItem key={status} value={status}>{REPORT_STATUS_LABELS[status]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={resolverFilter} onValueChange={handleResolverFilterChange}>
+            <SelectTrigger className="w-full sm:w-48 dark:bg-gray-700 dark:border-gray-600 dark:text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="dark:bg-gray-800 dark:border-gray-700 dark:text-white">
+              <SelectItem value={ALL}>Tous les modérateurs</SelectItem>
+              {staff.map(member => (
+                <SelectItem key={member.id} value={member.id}>{member.username || member.id.substring(0, 8)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center items-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : reports.length === 0 ? (
+          <p className="text-gray-500 dark:text-gray-400 text-center py-8">Aucun signalement traité ne correspond à ces filtres.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="dark:border-gray-700">
+                  <TableHead className="dark:text-gray-300">Traité le</TableHead>
+                  <TableHead className="dark:text-gray-300">Contenu</TableHead>
+                  <TableHead className="dark:text-gray-300">Raison</TableHead>
+                  <TableHead className="dark:text-gray-300">Statut</TableHead>
+                  <TableHead className="dark:text-gray-300">Notes de modération</TableHead>
+                  <TableHead className="text-right dark:text-gray-300">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reports.map(report => {
+                  const contentLink = getReportedContentLink(report.reported_content_type, report.reported_content_id, report.content_post_id);
+                  const contentLabel = report.content_title || report.content_excerpt;
+                  return (
+                    <TableRow key={report.report_id} className="dark:border-gray-700">
+                      <TableCell className="text-xs dark:text-gray-400">
+                        {report.resolved_at ? formatDateTime(report.resolved_at) : 'N/A'}
+                        <div className="text-muted-foreground">par {report.resolver_username || 'N/A'}</div>
+                      </TableCell>
+                      <TableCell className="max-w-xs dark:text-gray-300">
+                        <Badge variant="secondary" className="mb-1">{REPORTED_CONTENT_TYPE_LABELS[report.reported_content_type]}</Badge>
+                        <div className="truncate" title={contentLabel || ''}>
+                          {contentLink ? (
+                            <Link to={contentLink} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                              {contentLabel || 'N/A'}
+                            </Link>
+                          ) : (contentLabel || 'Contenu supprimé')}
+                        </div>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">Par: {report.content_author_username || 'Inconnu'}</p>
+                      </TableCell>
+                      <TableCell className="max-w-xs dark:text-gray-300">
+                        <span title={report.reason_details || ''}>{REPORT_REASON_LABELS[report.reason_category]}</span>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">Signalé par {report.reporter_username || 'Système'} le {formatDateTime(report.report_created_at)}</p>
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={STATUS_BADGE_CLASSES[report.report_status]}>
+                          {REPORT_STATUS_LABELS[report.report_status]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="max-w-xs whitespace-pre-wrap break-words text-xs dark:text-gray-300">
+                        {report.moderator_notes || '—'}
+                        {report.resolution_message && (
+                          <p className="mt-1 text-gray-500 dark:text-gray-400">Message au signaleur : {report.resolution_message}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right space-x-2 whitespace-nowrap">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => onShowContentReports({ type: report.reported_content_type, id: report.reported_content_id, label: contentLabel })}
+                          className="dark:text-gray-300 dark:hover:bg-gray-700"
+                          title="Tous les signalements de ce contenu"
+                        >
+                          <Layers className="h-4 w-4" />
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => setReportToReopen(report)} className="dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700">
+                          <RotateCcw className="mr-2 h-4 w-4" /> Rouvrir
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+        <PaginationBar
+          currentPage={currentPage}
+          totalPages={totalPages}
+          onPageChange={setCurrentPage}
+          className="mt-6"
+        />
+      </CardContent>
+
+      <AlertDialog open={!!reportToReopen} onOpenChange={(open) => { if (!open) { setReportToReopen(null); setReopenReason(''); } }}>
+        <AlertDialogContent className="dark:bg-gray-800">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="dark:text-white">Rouvrir le signalement</AlertDialogTitle>
+            <AlertDialogDescription className="dark:text-gray-300">
+              {reportToReopen && `Statut actuel : ${REPORT_STATUS_LABELS[reportToReopen.report_status]}. Le signalement retournera dans la file d'attente ; les notes de modération sont conservées.`}
+              <Textarea
+                value={reopenReason}
+                onChange={(e) => setReopenReason(e.target.value)}
+                placeholder="Raison de la réouverture (obligatoire, pour les logs de modération)"
+                className="mt-3 min-h-[80px] dark:bg-gray-700 dark:text-white dark:placeholder-gray-400"
+              />
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700">Annuler</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmReopenReport}
+              disabled={!reopenReason.trim()}
+              className="bg-blue-600 hover:bg-blue-700 text-white"
+            >
+              Rouvrir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
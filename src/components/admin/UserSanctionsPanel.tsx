@@ -0,0 +1,252 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/lib/supabaseClient';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Gavel, Loader2, Undo2 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useDateFormatter } from '@/hooks/useDateFormatter';
+import { usePermissions } from '@/hooks/usePermissions';
+import { Permission } from '@/constants/permissions';
+import PaginationBar from '@/components/common/PaginationBar';
+import { SANCTION_TYPE_LABELS, UserSanction, UserSanctionType, isSanctionActive } from '@/lib/sanctions';
+
+const SANCTIONS_PER_PAGE = 20;
+
+type SanctionFilter = 'active' | 'all';
+
+const SANCTION_BADGE_CLASSES: Record<UserSanctionType, string> = {
+  WARNING: 'bg-yellow-500 hover:bg-yellow-500 text-white',
+  SUSPENSION: 'bg-orange-600 hover:bg-orange-600 text-white',
+  BAN: 'bg-red-600 hover:bg-red-600 text-white',
+};
+
+export const UserSanctionsPanel: React.FC = () => {
+  const { formatDateTime } = useDateFormatter();
+  const { can } = usePermissions();
+  const canManageSanctions = can(Permission.MANAGE_USER_SANCTIONS);
+  const [sanctions, setSanctions] = useState<UserSanction[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [filter, setFilter] = useState<SanctionFilter>('active');
+  const [isLoading, setIsLoading] = useState(true);
+  const [sanctionToLift, setSanctionToLift] = useState<UserSanction | null>(null);
+  const [liftReason, setLiftReason] = useState('');
+
+  const totalPages = Math.max(1, Math.ceil(totalCount / SANCTIONS_PER_PAGE));
+
+  const fetchSanctions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const from = (currentPage - 1) * SANCTIONS_PER_PAGE;
+      let query = supabase
+        .from('user_sanctions')
+        .select(
+          'id, user_id, sanction_type, reason, starts_at, ends_at, lifted_at, lift_reason, created_at, user:profiles!user_id(username), issuer:profiles!issued_by(username), lifter:profiles!lifted_by(username)',
+          { count: 'exact' }
+        )
+        .order('created_at', { ascending: false })
+        .range(from, from + SANCTIONS_PER_PAGE - 1);
+
+      if (filter === 'active') {
+        query = query
+          .neq('sanction_type', 'WARNING')
+          .is('lifted_at', null)
+          .or(`ends_at.is.null,ends_at.gt.${new Date().toISOString()}`);
+      }
+
+      const { data, error, count } = await query;
+      if (error) throw error;
+      setSanctions((data as unknown as UserSanction[]) || []);
+      setTotalCount(count ?? 0);
+    } catch (err: any) {
+      console.error('Error fetching sanctions:', err);
+      toast({ title: "Erreur de chargement des sanctions", description: err.message || "Impossible de charger les sanctions.", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentPage, filter]);
+
+  useEffect(() => {
+    fetchSanctions();
+  }, [fetchSanctions]);
+
+  const handleFilterChange = (value: string) => {
+    setFilter(value as SanctionFilter);
+    setCurrentPage(1);
+  };
+
+  const confirmLiftSanction = async () => {
+    if (!sanctionToLift) return;
+    if (!liftReason.trim()) {
+      toast({ title: "Motif requis", description: "Indiquez pourquoi la sanction est levée.", variant: "destructive" });
+      return;
+    }
+    try {
+      const { error } = await supabase.rpc('lift_user_sanction', {
+        p_sanction_id: sanctionToLift.id,
+        p_lift_reason: liftReason.trim(),
+      });
+      if (error) throw error;
+      toast({ title: "Sanction levée", description: `La sanction de ${sanctionToLift.user?.username || 'ce membre'} a été levée.`, className: "bg-green-500 text-white dark:bg-green-700" });
+      fetchSanctions();
+    } catch (err: any) {
+      console.error('Error lifting sanction:', err);
+      toast({ title: "Erreur", description: err.message || "Impossible de lever la sanction.", variant: "destructive" });
+    } finally {
+      setSanctionToLift(null);
+      setLiftReason('');
+    }
+  };
+
+  const getSanctionStatus = (sanction: UserSanction) => {
+    if (sanction.lifted_at) {
+      return `Levée le ${formatDateTime(sanction.lifted_at)}${sanction.lifter?.username ? ` par ${sanction.lifter.username}` : ''}`;
+    }
+    if (sanction.sanction_type === 'WARNING') return '—';
+    if (!sanction.ends_at) return 'Active, sans date de fin';
+    return isSanctionActive(sanction)
+      ? `Active jusqu'au ${formatDateTime(sanction.ends_at)}`
+      : `Terminée le ${formatDateTime(sanction.ends_at)}`;
+  };
+
+  return (
+    <Card className="dark:bg-gray-800 shadow-lg">
+      <CardHeader className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center text-xl text-gray-800 dark:text-white">
+            <Gavel className="mr-2 h-6 w-6 text-red-500 dark:text-red-400" />
+            Sanctions
+          </CardTitle>
+          <CardDescription className="text-gray-600 dark:text-gray-400">
+            Avertissements, suspensions et bannissements. Les suspensions prennent fin automatiquement.
+          </CardDescription>
+        </div>
+        <Select value={filter} onValueChange={handleFilterChange}>
+          <SelectTrigger className="w-full md:w-56 dark:bg-gray-700 dark:border-gray-600 dark:text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="dark:bg-gray-800 dark:border-gray-700 dark:text-white">
+            <SelectItem value="active">Sanctions en cours</SelectItem>
+            <SelectItem value="all">Historique complet</SelectItem>
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center items-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : sanctions.length === 0 ? (
+          <p className="text-gray-500 dark:text-gray-400 text-center py-8">
+            {filter === 'active' ? "Aucune sanction en cours." : "Aucune sanction n'a été prononcée."}
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="dark:border-gray-700">
+                  <TableHead className="dark:text-gray-300">Membre</TableHead>
+                  <TableHead className="dark:text-gray-300">Type</TableHead>
+                  <TableHead className="dark:text-gray-300">Motif</TableHead>
+                  <TableHead className="dark:text-gray-300">Prononcée</TableHead>
+                  <TableHead className="dark:text-gray-300">État</TableHead>
+                  {canManageSanctions && <TableHead className="text-right dark:text-gray-300">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sanctions.map((sanction) => (
+                  <TableRow key={sanction.id} className="dark:border-gray-700 hover:dark:bg-gray-700/50">
+                    <TableCell className="dark:text-gray-200">
+                      <Link to={`/profil/${sanction.user_id}`} className="font-medium hover:underline">
+                        {sanction.user?.username || sanction.user_id.substring(0, 8)}
+                      </Link>
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={SANCTION_BADGE_CLASSES[sanction.sanction_type]}>
+                        {SANCTION_TYPE_LABELS[sanction.sanction_type]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="max-w-xs dark:text-gray-300">
+                      <p className="whitespace-pre-wrap break-words text-sm">{sanction.reason}</p>
+                      {sanction.lift_reason && (
+                        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Levée : {sanction.lift_reason}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm dark:text-gray-300">
+                      {formatDateTime(sanction.starts_at)}
+                      <div className="text-xs text-muted-foreground dark:text-gray-400">par {sanction.issuer?.username || 'N/A'}</div>
+                    </TableCell>
+                    <TableCell className="text-sm dark:text-gray-300">{getSanctionStatus(sanction)}</TableCell>
+                    {canManageSanctions && (
+                      <TableCell className="text-right">
+                        {isSanctionActive(sanction) && (
+                          <Button variant="outline" size="sm" onClick={() => setSanctionToLift(sanction)} className="dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700">
+                            <Undo2 className="mr-2 h-4 w-4" /> Lever
+                          </Button>
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+        <PaginationBar
+          currentPage={currentPage}
+          totalPages={totalPages}
+          onPageChange={setCurrentPage}
+          className="mt-6"
+        />
+      </CardContent>
+
+      <AlertDialog open={!!sanctionToLift} onOpenChange={(open) => { if (!open) { setSanctionToLift(null); setLiftReason(''); } }}>
+        <AlertDialogContent className="dark:bg-gray-800">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="dark:text-white">Lever la sanction</AlertDialogTitle>
+            <AlertDialogDescription className="dark:text-gray-300">
+              {sanctionToLift && `${SANCTION_TYPE_LABELS[sanctionToLift.sanction_type]} de ${sanctionToLift.user?.username || 'ce membre'}. Le membre pourra de nouveau publier immédiatement.`}
+              <Textarea
+                value={liftReason}
+                onChange={(e) => setLiftReason(e.target.value)}
+                placeholder="Raison de la levée (obligatoire, pour les logs de modération)"
+                className="mt-3 min-h-[80px] dark:bg-gray-700 dark:text-white dark:placeholder-gray-400"
+              />
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700">Annuler</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmLiftSanction}
+              disabled={!liftReason.trim()}
+              className="bg-green-600 hover:bg-green-700 text-white"
+            >
+              Lever la sanction
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
@@ -0,0 +1,32 @@
+import { ShieldAlert } from 'lucide-react';
+import { useDateFormatter } from '@/hooks/useDateFormatter';
+import { ActiveSanction } from '@/lib/sanctions';
+
+interface ActiveSanctionBannerProps {
+  sanction: ActiveSanction;
+}
+
+// Shown by MainLayout above every page while the member is suspended: reading stays possible.
+const ActiveSanctionBanner = ({ sanction }: ActiveSanctionBannerProps) => {
+  const { formatDateTime } = useDateFormatter();
+
+  return (
+    <div className="mb-6 flex items-start gap-3 rounded-md border border-red-500 bg-red-50 p-4 dark:border-red-700 dark:bg-red-900/30">
+      <ShieldAlert className="h-6 w-6 flex-shrink-0 text-red-600 dark:text-red-400" />
+      <div className="space-y-1 text-sm">
+        <p className="font-semibold text-red-700 dark:text-red-300">
+          Votre compte est suspendu{sanction.ends_at ? ` jusqu'au ${formatDateTime(sanction.ends_at)}` : ''}.
+        </p>
+        <p className="text-gray-700 dark:text-gray-300">
+          Vous pouvez lire le forum, mais pas publier, répondre, réagir, voter ni envoyer de messages privés.
+        </p>
+        <p className="whitespace-pre-wrap text-gray-700 dark:text-gray-300">
+          <span className="font-semibold">Motif : </span>
+          {sanction.reason}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ActiveSanctionBanner;
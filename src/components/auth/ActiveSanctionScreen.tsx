@@ -0,0 +1,47 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Ban, LogOut } from 'lucide-react';
+import { useUser } from '@/contexts/UserContext';
+import { useDateFormatter } from '@/hooks/useDateFormatter';
+import { ActiveSanction } from '@/lib/sanctions';
+
+interface ActiveSanctionScreenProps {
+  sanction: ActiveSanction;
+}
+
+// Shown by ProtectedRoute instead of the forum while the member is banned. Suspensions only get a banner.
+const ActiveSanctionScreen = ({ sanction }: ActiveSanctionScreenProps) => {
+  const { signOut } = useUser();
+  const { formatDateTime } = useDateFormatter();
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-100 dark:bg-gray-900 p-4">
+      <Card className="w-full max-w-lg border-red-500 dark:border-red-700 dark:bg-gray-800">
+        <CardHeader>
+          <div className="flex items-center text-red-600 dark:text-red-400">
+            <Ban className="h-7 w-7 mr-2" />
+            <CardTitle>Votre compte a été banni</CardTitle>
+          </div>
+          <CardDescription className="dark:text-gray-300">
+            Vous ne pouvez plus accéder au forum.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <p className="text-sm font-semibold text-gray-700 dark:text-gray-200">Motif</p>
+            <p className="mt-1 whitespace-pre-wrap text-gray-700 dark:text-gray-300">{sanction.reason}</p>
+          </div>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Sanction prononcée le {formatDateTime(sanction.starts_at)}. Si vous pensez qu'il s'agit d'une erreur, contactez un administrateur.
+          </p>
+          <Button variant="outline" className="w-full" onClick={signOut}>
+            <LogOut className="mr-2 h-4 w-4" />
+            Déconnexion
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ActiveSanctionScreen;
@@ -1,16 +1,25 @@
 import { Navigate, Outlet, useLocation } from 'react-router-dom';
 import { useUser } from '@/contexts/UserContext'; // Correct import
 import { Loader2 } from 'lucide-react';
+import { useActiveSanction } from '@/hooks/useActiveSanction';
+import ActiveSanctionScreen from '@/components/auth/ActiveSanctionScreen';
+import { ActiveSanction } from '@/lib/sanctions';
 
 console.log('[ProtectedRoute.tsx MODULE] Evaluating (v9.0 - UserContext)');
 
+// Passed to the nested layout, which shows a suspension as a banner.
+export interface ProtectedRouteContext {
+  activeSanction: ActiveSanction | null;
+}
+
 const ProtectedRoute = () => {
   // The error stack trace points to this call to useUser()
   const { session, profile, isLoadingAuth } = useUser(); 
+  const { activeSanction, isLoading: isLoadingSanction } = useActiveSanction();
   const location = useLocation();
   console.log(`[ProtectedRoute v9.0] Rendering. isLoadingAuth: ${isLoadingAuth}, session: ${session ? 'exists' : 'null'}, profile status: ${profile?.status}`);
 
-  if (isLoadingAuth) {
+  if (isLoadingAuth || (session && isLoadingSanction)) {
     console.log('[ProtectedRoute v9.0] Rendering: Loader (isLoadingAuth is true)');
     return (
       <div className="flex items-center justify-center h-screen bg-background text-foreground">
@@ -41,8 +50,16 @@ const ProtectedRoute = () => {
     return <Navigate to="/connexion" replace state={{ from: location, message }} />;
   }
 
+  // A ban closes the whole forum. A suspended member keeps read access: posting is refused by the
+  // database and MainLayout explains the suspension in a banner.
+  if (activeSanction?.sanction_type === 'BAN') {
+    console.log('[ProtectedRoute v9.0] Rendering: ActiveSanctionScreen (BAN)');
+    return <ActiveSanctionScreen sanction={activeSanction} />;
+  }
+
+  const outletContext: ProtectedRouteContext = { activeSanction };
   console.log('[ProtectedRoute v9.0] Rendering: Outlet (session and approved profile exist)');
-  return <Outlet />;
+  return <Outlet context={outletContext} />;
 };
 
 export default ProtectedRoute;
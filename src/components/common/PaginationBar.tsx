@@ -0,0 +1,88 @@
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+} from '@/components/ui/pagination';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+
+interface PaginationBarProps {
+  currentPage: number;
+  totalPages: number;
+  onPageChange: (page: number) => void;
+  // Used for the links' href so pages can be opened in a new tab; clicks are handled by onPageChange.
+  getPageHref?: (page: number) => string;
+  className?: string;
+}
+
+// Page numbers to display: first, last, and a window around the current page.
+const getVisiblePages = (currentPage: number, totalPages: number): (number | 'ellipsis')[] => {
+  const pages: (number | 'ellipsis')[] = [];
+  for (let page = 1; page <= totalPages; page++) {
+    if (page === 1 || page === totalPages || Math.abs(page - currentPage) <= 1) {
+      pages.push(page);
+    } else if (pages[pages.length - 1] !== 'ellipsis') {
+      pages.push('ellipsis');
+    }
+  }
+  return pages;
+};
+
+const PaginationBar = ({ currentPage, totalPages, onPageChange, getPageHref, className }: PaginationBarProps) => {
+  if (totalPages <= 1) return null;
+
+  const handleClick = (page: number) => (e: React.MouseEvent<HTMLAnchorElement>) => {
+    e.preventDefault();
+    if (page < 1 || page > totalPages || page === currentPage) return;
+    onPageChange(page);
+  };
+
+  const hrefFor = (page: number) => (getPageHref ? getPageHref(page) : '#');
+
+  return (
+    <Pagination className={className}>
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationLink
+            href={hrefFor(Math.max(1, currentPage - 1))}
+            onClick={handleClick(currentPage - 1)}
+            size="default"
+            aria-label="Page précédente"
+            aria-disabled={currentPage === 1}
+            className={`gap-1 pl-2.5 ${currentPage === 1 ? 'pointer-events-none opacity-50' : ''}`}
+          >
+            <ChevronLeft className="h-4 w-4" />
+            <span>Précédent</span>
+          </PaginationLink>
+        </PaginationItem>
+        {getVisiblePages(currentPage, totalPages).map((page, index) => (
+          <PaginationItem key={page === 'ellipsis' ? `ellipsis-${index}` : page}>
+            {page === 'ellipsis' ? (
+              <PaginationEllipsis />
+            ) : (
+              <PaginationLink href={hrefFor(page)} onClick={handleClick(page)} isActive={page === currentPage}>
+                {page}
+              </PaginationLink>
+            )}
+          </PaginationItem>
+        ))}
+        <PaginationItem>
+          <PaginationLink
+            href={hrefFor(Math.min(totalPages, currentPage + 1))}
+            onClick={handleClick(currentPage + 1)}
+            size="default"
+            aria-label="Page suivante"
+            aria-disabled={currentPage === totalPages}
+            className={`gap-1 pr-2.5 ${currentPage === totalPages ? 'pointer-events-none opacity-50' : ''}`}
+          >
+            <span>Suivant</span>
+            <ChevronRight className="h-4 w-4" />
+          </PaginationLink>
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+};
+
+export default PaginationBar;
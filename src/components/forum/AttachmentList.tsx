@@ -0,0 +1,96 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { Download, FileText, Paperclip } from 'lucide-react';
+import { ForumAttachment, formatFileSize, isImageAttachment } from '@/lib/attachments';
+import { ATTACHMENTS_BUCKET, ATTACHMENT_URL_EXPIRES_IN_SECONDS } from '@/constants/attachments';
+
+interface AttachmentListProps {
+  attachments: ForumAttachment[];
+}
+
+/** Image thumbnails and downloadable files attached to a message, served through signed URLs. */
+const AttachmentList = ({ attachments }: AttachmentListProps) => {
+  const [signedUrls, setSignedUrls] = useState<Record<string, string>>({});
+  const pathsKey = attachments.map(attachment => attachment.storage_path).join('|');
+
+  useEffect(() => {
+    const paths = pathsKey ? pathsKey.split('|') : [];
+    if (paths.length === 0) return;
+
+    let isCurrent = true;
+    const fetchSignedUrls = async () => {
+      const { data, error } = await supabase.storage
+        .from(ATTACHMENTS_BUCKET)
+        .createSignedUrls(paths, ATTACHMENT_URL_EXPIRES_IN_SECONDS);
+
+      if (error) {
+        console.error('Error creating attachment URLs:', error);
+        return;
+      }
+      if (!isCurrent) return;
+      setSignedUrls(Object.fromEntries(
+        (data || [])
+          .filter(entry => entry.path && entry.signedUrl)
+          .map(entry => [entry.path as string, entry.signedUrl])
+      ));
+    };
+
+    fetchSignedUrls();
+    return () => {
+      isCurrent = false;
+    };
+  }, [pathsKey]);
+
+  if (attachments.length === 0) return null;
+
+  const images = attachments.filter(attachment => isImageAttachment(attachment.mime_type));
+  const files = attachments.filter(attachment => !isImageAttachment(attachment.mime_type));
+
+  return (
+    <div className="mt-4 border-t pt-3 dark:border-gray-700">
+      <p className="mb-2 flex items-center text-xs font-medium text-gray-500 dark:text-gray-400">
+        <Paperclip className="mr-1 h-3 w-3" /> Pièces jointes ({attachments.length})
+      </p>
+      {images.length > 0 && (
+        <div className="mb-2 flex flex-wrap gap-2">
+          {images.map(image => {
+            const url = signedUrls[image.storage_path];
+            return (
+              <a
+                key={image.id}
+                href={url}
+                target="_blank"
+                rel="noopener noreferrer"
+                title={image.file_name}
+                className="block h-28 w-28 overflow-hidden rounded-md border bg-gray-100 dark:border-gray-600 dark:bg-gray-700"
+              >
+                {url && <img src={url} alt={image.file_name} loading="lazy" className="h-full w-full object-cover" />}
+              </a>
+            );
+          })}
+        </div>
+      )}
+      {files.length > 0 && (
+        <ul className="space-y-1">
+          {files.map(file => (
+            <li key={file.id} className="flex items-center gap-2 text-sm">
+              <FileText className="h-4 w-4 flex-shrink-0 text-gray-500" />
+              <a
+                href={signedUrls[file.storage_path]}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="truncate text-blue-600 hover:underline dark:text-blue-400"
+              >
+                {file.file_name}
+              </a>
+              <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">{formatFileSize(file.size_bytes)}</span>
+              <Download className="h-3 w-3 flex-shrink-0 text-gray-400" />
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AttachmentList;
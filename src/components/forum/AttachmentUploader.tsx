@@ -0,0 +1,121 @@
+import { useRef, useState, ChangeEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { FileText, Image as ImageIcon, Loader2, Paperclip, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  UploadedAttachment,
+  formatFileSize,
+  isImageAttachment,
+  removeUploadedAttachments,
+  uploadAttachment,
+  validateAttachmentFile,
+} from '@/lib/attachments';
+import { ATTACHMENT_ALLOWED_MIME_TYPES, ATTACHMENT_MAX_SIZE_BYTES, ATTACHMENTS_MAX_PER_MESSAGE } from '@/constants/attachments';
+
+interface AttachmentUploaderProps {
+  userId: string;
+  value: UploadedAttachment[];
+  onChange: (value: UploadedAttachment[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Uploads files to the attachments bucket as soon as they are picked.
+ * The parent attaches them to the message once it is published.
+ */
+const AttachmentUploader = ({ userId, value, onChange, disabled }: AttachmentUploaderProps) => {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const handleFilesSelected = async (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    const remainingSlots = ATTACHMENTS_MAX_PER_MESSAGE - value.length;
+    if (files.length > remainingSlots) {
+      toast({ title: "Trop de fichiers", description: `Vous pouvez joindre au maximum ${ATTACHMENTS_MAX_PER_MESSAGE} fichiers par message.`, variant: "destructive" });
+      return;
+    }
+
+    const invalidMessage = files.map(validateAttachmentFile).find(Boolean);
+    if (invalidMessage) {
+      toast({ title: "Fichier refusé", description: invalidMessage, variant: "destructive" });
+      return;
+    }
+
+    setIsUploading(true);
+    const uploaded: UploadedAttachment[] = [];
+    try {
+      for (const file of files) {
+        uploaded.push(await uploadAttachment(userId, file));
+      }
+    } catch (err: any) {
+      console.error('Error uploading attachment:', err);
+      toast({ title: "Erreur d'envoi", description: err.message || "Impossible d'envoyer le fichier.", variant: "destructive" });
+    } finally {
+      if (uploaded.length > 0) onChange([...value, ...uploaded]);
+      setIsUploading(false);
+    }
+  };
+
+  const handleRemove = (attachment: UploadedAttachment) => {
+    onChange(value.filter(a => a.storagePath !== attachment.storagePath));
+    removeUploadedAttachments([attachment.storagePath]);
+  };
+
+  return (
+    <div className="mt-2">
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        accept={ATTACHMENT_ALLOWED_MIME_TYPES.join(',')}
+        onChange={handleFilesSelected}
+        className="hidden"
+      />
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => inputRef.current?.click()}
+          disabled={disabled || isUploading || value.length >= ATTACHMENTS_MAX_PER_MESSAGE}
+        >
+          {isUploading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Paperclip className="mr-2 h-4 w-4" />}
+          Joindre un fichier
+        </Button>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          Images, PDF, texte ou documents Word/OpenDocument, {formatFileSize(ATTACHMENT_MAX_SIZE_BYTES)} maximum.
+        </span>
+      </div>
+      {value.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {value.map(attachment => (
+            <li key={attachment.storagePath} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              {isImageAttachment(attachment.mimeType)
+                ? <ImageIcon className="h-4 w-4 flex-shrink-0 text-gray-500" />
+                : <FileText className="h-4 w-4 flex-shrink-0 text-gray-500" />}
+              <span className="truncate">{attachment.fileName}</span>
+              <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">{formatFileSize(attachment.sizeBytes)}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => handleRemove(attachment)}
+                disabled={disabled}
+                className="h-6 p-1"
+                title="Retirer le fichier"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AttachmentUploader;
@@ -0,0 +1,120 @@
+import { Link } from 'react-router-dom';
+import ReactMarkdown, { Components, ExtraProps } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkBreaks from 'remark-breaks';
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
+import { cn } from '@/lib/utils';
+import { QUOTE_SOURCE_HREF_REGEX } from '@/lib/forumQuotes';
+
+// Subset of Markdown allowed in posts and replies. Raw HTML is never parsed
+// (react-markdown escapes it) and the resulting tree is sanitized on top of that.
+const sanitizeSchema = {
+  ...defaultSchema,
+  tagNames: [
+    'p', 'br', 'strong', 'em', 'del', 'a', 'blockquote', 'code', 'pre', 'hr',
+    'ul', 'ol', 'li', 'input',
+    'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+    'table', 'thead', 'tbody', 'tr', 'th', 'td',
+  ],
+  protocols: {
+    ...defaultSchema.protocols,
+    href: ['http', 'https', 'mailto'],
+  },
+};
+
+// Quotes inserted with "Citer" start with a link to the quoted message (see buildQuoteMarkdown).
+const isAttributedQuote = (node: ExtraProps['node']): boolean => {
+  const firstBlock = node?.children.find(child => child.type === 'element');
+  if (!firstBlock || firstBlock.type !== 'element' || firstBlock.tagName !== 'p') return false;
+  const firstInline = firstBlock.children[0];
+  return firstInline?.type === 'element'
+    && firstInline.tagName === 'a'
+    && typeof firstInline.properties?.href === 'string'
+    && QUOTE_SOURCE_HREF_REGEX.test(firstInline.properties.href);
+};
+
+const components: Components = {
+  h1: ({ node, ...props }) => <h1 className="text-2xl font-bold mt-4 mb-2" {...props} />,
+  h2: ({ node, ...props }) => <h2 className="text-xl font-bold mt-4 mb-2" {...props} />,
+  h3: ({ node, ...props }) => <h3 className="text-lg font-semibold mt-3 mb-2" {...props} />,
+  h4: ({ node, ...props }) => <h4 className="font-semibold mt-3 mb-1" {...props} />,
+  h5: ({ node, ...props }) => <h5 className="font-semibold mt-2 mb-1" {...props} />,
+  h6: ({ node, ...props }) => <h6 className="font-semibold mt-2 mb-1" {...props} />,
+  p: ({ node, ...props }) => <p className="mb-3 last:mb-0" {...props} />,
+  a: ({ node, href, ...props }) => {
+    // Mentions inserted by the editor: [@username](/profil/<user id>)
+    if (href && /^\/profil\/[^/?#]+$/.test(href)) {
+      return (
+        <Link
+          to={href}
+          className="font-medium text-blue-700 bg-blue-50 rounded px-0.5 hover:underline dark:text-blue-300 dark:bg-blue-900/40"
+          {...props}
+        />
+      );
+    }
+    // Other links within the forum (quote sources...) navigate without reloading the page.
+    if (href && href.startsWith('/')) {
+      return <Link to={href} className="text-blue-600 hover:underline dark:text-blue-400 break-words" {...props} />;
+    }
+    const isExternal = !!href && /^https?:\/\//i.test(href);
+    return (
+      <a
+        href={href}
+        className="text-blue-600 hover:underline dark:text-blue-400 break-words"
+        {...(isExternal ? { target: '_blank', rel: 'noopener noreferrer nofollow' } : {})}
+        {...props}
+      />
+    );
+  },
+  ul: ({ node, ...props }) => <ul className="list-disc pl-6 mb-3 space-y-1" {...props} />,
+  ol: ({ node, ...props }) => <ol className="list-decimal pl-6 mb-3 space-y-1" {...props} />,
+  blockquote: ({ node, ...props }) => (
+    isAttributedQuote(node) ? (
+      <blockquote
+        className="border-l-4 border-blue-400 dark:border-blue-600 bg-blue-50/60 dark:bg-blue-950/30 rounded-r-md px-4 py-2 my-3 text-gray-700 dark:text-gray-300 [&>p:first-child]:text-xs [&>p:first-child]:text-gray-500 [&>p:first-child]:dark:text-gray-400 [&>p:first-child]:mb-1"
+        {...props}
+      />
+    ) : (
+      <blockquote className="border-l-4 border-gray-300 dark:border-gray-600 pl-4 my-3 italic text-gray-600 dark:text-gray-400" {...props} />
+    )
+  ),
+  pre: ({ node, ...props }) => (
+    <pre className="bg-gray-100 dark:bg-gray-900 rounded-md p-3 my-3 overflow-x-auto text-sm [&>code]:bg-transparent [&>code]:p-0" {...props} />
+  ),
+  code: ({ node, className, ...props }) => (
+    <code className={cn('bg-gray-100 dark:bg-gray-900 rounded px-1 py-0.5 font-mono text-sm', className)} {...props} />
+  ),
+  hr: ({ node, ...props }) => <hr className="my-4 border-gray-200 dark:border-gray-700" {...props} />,
+  table: ({ node, ...props }) => (
+    <div className="overflow-x-auto my-3">
+      <table className="min-w-full border-collapse text-sm" {...props} />
+    </div>
+  ),
+  th: ({ node, ...props }) => <th className="border border-gray-300 dark:border-gray-600 px-3 py-1 text-left font-semibold bg-gray-50 dark:bg-gray-700" {...props} />,
+  td: ({ node, ...props }) => <td className="border border-gray-300 dark:border-gray-600 px-3 py-1" {...props} />,
+};
+
+interface MarkdownContentProps {
+  content: string;
+  className?: string;
+}
+
+/**
+ * Renders user-authored forum content as sanitized Markdown.
+ * Single line breaks are preserved so plain-text messages display as they were typed.
+ */
+const MarkdownContent = ({ content, className }: MarkdownContentProps) => {
+  return (
+    <div className={cn('break-words', className)}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkBreaks]}
+        rehypePlugins={[[rehypeSanitize, sanitizeSchema]]}
+        components={components}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+};
+
+export default MarkdownContent;
@@ -0,0 +1,54 @@
+import { useState } from 'react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import MarkdownContent from '@/components/forum/MarkdownContent';
+import MentionTextarea from '@/components/forum/MentionTextarea';
+
+interface MarkdownEditorProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  rows?: number;
+  required?: boolean;
+  disabled?: boolean;
+  className?: string;
+}
+
+const MarkdownEditor = ({ id, value, onChange, placeholder, rows, required, disabled, className }: MarkdownEditorProps) => {
+  const [activeTab, setActiveTab] = useState('write');
+
+  return (
+    <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+      <TabsList className="mb-2 dark:bg-gray-700">
+        <TabsTrigger value="write" className="text-xs">Écrire</TabsTrigger>
+        <TabsTrigger value="preview" className="text-xs">Aperçu</TabsTrigger>
+      </TabsList>
+      <TabsContent value="write" className="mt-0">
+        <MentionTextarea
+          id={id}
+          value={value}
+          onChange={onChange}
+          placeholder={placeholder}
+          required={required}
+          rows={rows}
+          disabled={disabled}
+          className={className}
+        />
+      </TabsContent>
+      <TabsContent value="preview" className="mt-0">
+        <div className="min-h-[100px] rounded-md border border-input px-3 py-2 text-sm text-gray-700 dark:text-gray-300 dark:border-gray-600">
+          {value.trim() ? (
+            <MarkdownContent content={value} />
+          ) : (
+            <p className="italic text-gray-500 dark:text-gray-400">Rien à prévisualiser.</p>
+          )}
+        </div>
+      </TabsContent>
+      <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+        Markdown pris en charge : **gras**, *italique*, [liens](https://…), listes, &gt; citations, `code`, tableaux et titres. Tapez @ pour mentionner un membre.
+      </p>
+    </Tabs>
+  );
+};
+
+export default MarkdownEditor;
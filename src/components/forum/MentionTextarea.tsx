@@ -0,0 +1,194 @@
+import { useEffect, useRef, useState, KeyboardEvent } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { getAvatarUrl } from '@/lib/avatars';
+import { Textarea } from '@/components/ui/textarea';
+import { Popover, PopoverAnchor, PopoverContent } from '@/components/ui/popover';
+import { Command, CommandEmpty, CommandGroup, CommandItem, CommandList } from '@/components/ui/command';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Loader2 } from 'lucide-react';
+
+interface MentionTextareaProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  rows?: number;
+  required?: boolean;
+  disabled?: boolean;
+  className?: string;
+}
+
+interface MentionCandidate {
+  id: string;
+  username: string;
+  avatar_url: string | null;
+}
+
+interface ActiveMention {
+  start: number; // index of the '@'
+  query: string;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+// '@' at the start of the text or after whitespace, followed by the characters typed so far.
+const MENTION_QUERY_REGEX = /(?:^|\s)@([\w.-]{0,30})$/;
+
+const getActiveMention = (text: string, caret: number): ActiveMention | null => {
+  const match = MENTION_QUERY_REGEX.exec(text.slice(0, caret));
+  if (!match) return null;
+  return { start: caret - match[1].length - 1, query: match[1] };
+};
+
+const escapeLikePattern = (value: string) => value.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+const escapeLinkText = (value: string) => value.replace(/[\\[\]]/g, (char) => `\\${char}`);
+
+/**
+ * Textarea with an autocomplete of approved members when typing `@`.
+ * A picked member is inserted as a Markdown link to their profile: `[@username](/profil/<id>)`.
+ */
+const MentionTextarea = ({ id, value, onChange, placeholder, rows, required, disabled, className }: MentionTextareaProps) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [activeMention, setActiveMention] = useState<ActiveMention | null>(null);
+  const [candidates, setCandidates] = useState<MentionCandidate[]>([]);
+  const [highlightedId, setHighlightedId] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const query = activeMention?.query ?? null;
+
+  useEffect(() => {
+    if (query === null) {
+      setCandidates([]);
+      return;
+    }
+
+    let isCurrent = true;
+    setLoading(true);
+    const timeoutId = setTimeout(async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, username, avatar_url')
+        .eq('status', 'approved')
+        .not('username', 'is', null)
+        .ilike('username', `${escapeLikePattern(query)}%`)
+        .order('username', { ascending: true })
+        .limit(MAX_SUGGESTIONS);
+
+      if (!isCurrent) return;
+      if (error) {
+        console.error('Error fetching mention candidates:', error);
+        setCandidates([]);
+      } else {
+        const results = (data as MentionCandidate[]) || [];
+        setCandidates(results);
+        setHighlightedId(results[0]?.id ?? '');
+      }
+      setLoading(false);
+    }, 150);
+
+    return () => {
+      isCurrent = false;
+      clearTimeout(timeoutId);
+    };
+  }, [query]);
+
+  const updateActiveMention = (text: string, caret: number | null) => {
+    setActiveMention(caret === null ? null : getActiveMention(text, caret));
+  };
+
+  const insertMention = (candidate: MentionCandidate) => {
+    const textarea = textareaRef.current;
+    if (!activeMention || !textarea) return;
+
+    const caret = textarea.selectionStart;
+    const mention = `[@${escapeLinkText(candidate.username)}](/profil/${candidate.id}) `;
+    const nextValue = value.slice(0, activeMention.start) + mention + value.slice(caret);
+    const nextCaret = activeMention.start + mention.length;
+
+    onChange(nextValue);
+    setActiveMention(null);
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!activeMention) return;
+
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      setActiveMention(null);
+      return;
+    }
+    if (candidates.length === 0) return;
+
+    const highlightedIndex = Math.max(0, candidates.findIndex(candidate => candidate.id === highlightedId));
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const offset = e.key === 'ArrowDown' ? 1 : candidates.length - 1;
+      setHighlightedId(candidates[(highlightedIndex + offset) % candidates.length].id);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      insertMention(candidates[highlightedIndex]);
+    }
+  };
+
+  return (
+    <Popover open={activeMention !== null} onOpenChange={(open) => !open && setActiveMention(null)}>
+      <PopoverAnchor asChild>
+        <Textarea
+          ref={textareaRef}
+          id={id}
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            updateActiveMention(e.target.value, e.target.selectionStart);
+          }}
+          onKeyDown={handleKeyDown}
+          onClick={(e) => updateActiveMention(e.currentTarget.value, e.currentTarget.selectionStart)}
+          onBlur={() => setActiveMention(null)}
+          placeholder={placeholder}
+          required={required}
+          rows={rows}
+          disabled={disabled}
+          className={className}
+        />
+      </PopoverAnchor>
+      <PopoverContent
+        align="start"
+        className="w-64 p-0"
+        onOpenAutoFocus={(e) => e.preventDefault()}
+        onMouseDown={(e) => e.preventDefault()} // keep the focus (and the caret) in the textarea
+      >
+        <Command shouldFilter={false} value={highlightedId} onValueChange={setHighlightedId}>
+          <CommandList>
+            {loading && candidates.length === 0 ? (
+              <div className="flex items-center justify-center py-4 text-sm text-gray-500 dark:text-gray-400">
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Recherche...
+              </div>
+            ) : (
+              <CommandEmpty>Aucun membre trouvé.</CommandEmpty>
+            )}
+            {candidates.length > 0 && (
+              <CommandGroup heading="Mentionner un membre">
+                {candidates.map(candidate => (
+                  <CommandItem key={candidate.id} value={candidate.id} onSelect={() => insertMention(candidate)}>
+                    <Avatar className="mr-2 h-6 w-6">
+                      <AvatarImage src={getAvatarUrl(candidate.avatar_url, 'small')} alt={candidate.username} />
+                      <AvatarFallback className="text-xs">{candidate.username.substring(0, 2).toUpperCase()}</AvatarFallback>
+                    </Avatar>
+                    <span className="truncate">{candidate.username}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default MentionTextarea;
@@ -0,0 +1,149 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Plus, X } from 'lucide-react';
+import { POLL_MAX_OPTIONS, POLL_MIN_OPTIONS } from '@/constants/forum';
+
+export interface PollDraft {
+  question: string;
+  options: string[];
+  allowsMultiple: boolean;
+  isAnonymous: boolean;
+  closesAt: string; // datetime-local value, empty for no closing date
+}
+
+export const EMPTY_POLL_DRAFT: PollDraft = {
+  question: '',
+  options: ['', ''],
+  allowsMultiple: false,
+  isAnonymous: true,
+  closesAt: '',
+};
+
+/** Returns an error message for an invalid poll, or null when it can be created. */
+export const validatePollDraft = (poll: PollDraft): string | null => {
+  const options = poll.options.map(option => option.trim()).filter(Boolean);
+  if (!poll.question.trim()) return 'La question du sondage est requise.';
+  if (options.length < POLL_MIN_OPTIONS || options.length > POLL_MAX_OPTIONS) {
+    return `Le sondage doit avoir entre ${POLL_MIN_OPTIONS} et ${POLL_MAX_OPTIONS} options.`;
+  }
+  if (new Set(options.map(option => option.toLowerCase())).size !== options.length) {
+    return 'Les options du sondage doivent être différentes.';
+  }
+  if (poll.closesAt && new Date(poll.closesAt) <= new Date()) {
+    return 'La date de clôture doit être dans le futur.';
+  }
+  return null;
+};
+
+interface PollEditorProps {
+  value: PollDraft;
+  onChange: (value: PollDraft) => void;
+  disabled?: boolean;
+}
+
+const PollEditor = ({ value, onChange, disabled }: PollEditorProps) => {
+  const update = (changes: Partial<PollDraft>) => onChange({ ...value, ...changes });
+
+  const updateOption = (index: number, label: string) => {
+    update({ options: value.options.map((option, i) => (i === index ? label : option)) });
+  };
+
+  return (
+    <div className="space-y-4 rounded-md border p-4 dark:border-gray-600">
+      <div>
+        <Label htmlFor="poll-question" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+          Question
+        </Label>
+        <Input
+          id="poll-question"
+          value={value.question}
+          onChange={(e) => update({ question: e.target.value })}
+          placeholder="Sur quoi voulez-vous faire voter ?"
+          maxLength={300}
+          className="dark:bg-gray-700 dark:text-white dark:border-gray-600"
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label className="block text-sm font-medium text-gray-700 dark:text-gray-200">
+          Options ({value.options.length}/{POLL_MAX_OPTIONS})
+        </Label>
+        {value.options.map((option, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              value={option}
+              onChange={(e) => updateOption(index, e.target.value)}
+              placeholder={`Option ${index + 1}`}
+              maxLength={200}
+              className="dark:bg-gray-700 dark:text-white dark:border-gray-600"
+              disabled={disabled}
+              aria-label={`Option ${index + 1}`}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => update({ options: value.options.filter((_, i) => i !== index) })}
+              disabled={disabled || value.options.length <= POLL_MIN_OPTIONS}
+              title="Retirer l'option"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => update({ options: [...value.options, ''] })}
+          disabled={disabled || value.options.length >= POLL_MAX_OPTIONS}
+        >
+          <Plus className="mr-1 h-4 w-4" /> Ajouter une option
+        </Button>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="flex items-center justify-between gap-2">
+          <Label htmlFor="poll-multiple" className="text-sm text-gray-700 dark:text-gray-200">Choix multiple</Label>
+          <Switch
+            id="poll-multiple"
+            checked={value.allowsMultiple}
+            onCheckedChange={(checked) => update({ allowsMultiple: checked })}
+            disabled={disabled}
+          />
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <Label htmlFor="poll-anonymous" className="text-sm text-gray-700 dark:text-gray-200">Votes anonymes</Label>
+          <Switch
+            id="poll-anonymous"
+            checked={value.isAnonymous}
+            onCheckedChange={(checked) => update({ isAnonymous: checked })}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="poll-closes-at" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+          Clôture (optionnel)
+        </Label>
+        <Input
+          id="poll-closes-at"
+          type="datetime-local"
+          value={value.closesAt}
+          onChange={(e) => update({ closesAt: e.target.value })}
+          className="w-auto dark:bg-gray-700 dark:text-white dark:border-gray-600"
+          disabled={disabled}
+        />
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          Sans date de clôture, le sondage reste ouvert. Les votes sont définitifs.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default PollEditor;
@@ -0,0 +1,189 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { BarChart3, Check, Loader2, Lock } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useDateFormatter } from '@/hooks/useDateFormatter';
+import { cn } from '@/lib/utils';
+
+interface PollOptionRow {
+  poll_id: string;
+  question: string;
+  allows_multiple: boolean;
+  is_anonymous: boolean;
+  closes_at: string | null;
+  total_voters: number;
+  option_id: string;
+  option_label: string;
+  option_position: number;
+  vote_count: number;
+  voters: string[] | null;
+  voted_by_me: boolean;
+}
+
+interface PollWidgetProps {
+  postId: string;
+  canVote: boolean;
+  // A locked topic closes its poll, whatever its closing date.
+  isLocked?: boolean;
+}
+
+const MAX_LISTED_VOTERS = 10;
+
+const PollWidget = ({ postId, canVote, isLocked = false }: PollWidgetProps) => {
+  const { toast } = useToast();
+  const { formatDateTime } = useDateFormatter();
+  const [options, setOptions] = useState<PollOptionRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isVoting, setIsVoting] = useState(false);
+  const [showResults, setShowResults] = useState(false);
+
+  const fetchPoll = useCallback(async () => {
+    const { data, error } = await supabase.rpc('get_post_poll', { p_post_id: postId });
+    if (error) {
+      console.error('Error fetching poll:', error);
+    } else {
+      setOptions(((data as PollOptionRow[]) || []).map(option => ({
+        ...option,
+        total_voters: Number(option.total_voters),
+        vote_count: Number(option.vote_count),
+      })));
+    }
+    setLoading(false);
+  }, [postId]);
+
+  useEffect(() => {
+    fetchPoll();
+  }, [fetchPoll]);
+
+  if (loading || options.length === 0) return null;
+
+  const poll = options[0];
+  const isPastClosingDate = !!poll.closes_at && new Date(poll.closes_at) <= new Date();
+  const isClosed = isLocked || isPastClosingDate;
+  const hasVoted = options.some(option => option.voted_by_me);
+  const canCastVote = canVote && !isClosed && !hasVoted;
+  const isShowingResults = !canCastVote || showResults;
+
+  const toggleOption = (optionId: string) => {
+    if (poll.allows_multiple) {
+      setSelectedIds(prev => prev.includes(optionId) ? prev.filter(id => id !== optionId) : [...prev, optionId]);
+    } else {
+      setSelectedIds([optionId]);
+    }
+  };
+
+  const handleVote = async () => {
+    if (selectedIds.length === 0) return;
+    setIsVoting(true);
+    try {
+      const { error } = await supabase.rpc('vote_in_poll', { p_poll_id: poll.poll_id, p_option_ids: selectedIds });
+      if (error) throw error;
+      toast({ title: "Vote enregistré", description: "Merci pour votre participation.", className: "bg-green-500 text-white dark:bg-green-700" });
+      setSelectedIds([]);
+      await fetchPoll();
+    } catch (err: any) {
+      console.error('Error voting in poll:', err);
+      toast({ title: "Erreur", description: err.message || "Impossible d'enregistrer votre vote.", variant: "destructive" });
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
+  const formatVoters = (voters: string[]) => {
+    const listed = voters.slice(0, MAX_LISTED_VOTERS).join(', ');
+    const others = voters.length - MAX_LISTED_VOTERS;
+    return others > 0 ? `${listed} et ${others} autre${others > 1 ? 's' : ''}` : listed;
+  };
+
+  return (
+    <div className="mt-6 rounded-md border border-blue-200 bg-blue-50/40 p-4 dark:border-blue-900 dark:bg-blue-950/20">
+      <div className="flex items-start justify-between gap-2 mb-3">
+        <h3 className="font-semibold text-gray-900 dark:text-white flex items-center">
+          <BarChart3 className="mr-2 h-5 w-5 flex-shrink-0 text-blue-600 dark:text-blue-400" />
+          {poll.question}
+        </h3>
+        {isClosed && (
+          <Badge variant="outline" className="flex-shrink-0 border-gray-400 text-gray-600 dark:text-gray-300">
+            <Lock className="mr-1 h-3 w-3" /> Clos
+          </Badge>
+        )}
+      </div>
+
+      {isShowingResults ? (
+        <ul className="space-y-3">
+          {options.map(option => {
+            const percent = poll.total_voters > 0 ? Math.round((option.vote_count / poll.total_voters) * 100) : 0;
+            return (
+              <li key={option.option_id}>
+                <div className="flex items-center justify-between text-sm mb-1">
+                  <span className={cn('text-gray-800 dark:text-gray-200', option.voted_by_me && 'font-semibold')}>
+                    {option.voted_by_me && <Check className="inline mr-1 h-4 w-4 text-blue-600 dark:text-blue-400" />}
+                    {option.option_label}
+                  </span>
+                  <span className="text-gray-500 dark:text-gray-400 flex-shrink-0 ml-2">
+                    {percent} % ({option.vote_count})
+                  </span>
+                </div>
+                <div className="h-2 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                  <div
+                    className={cn('h-full rounded-full', option.voted_by_me ? 'bg-blue-600 dark:bg-blue-500' : 'bg-blue-300 dark:bg-blue-800')}
+                    style={{ width: `${percent}%` }}
+                  />
+                </div>
+                {option.voters && option.voters.length > 0 && (
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{formatVoters(option.voters)}</p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <div className="space-y-2">
+          {options.map(option => (
+            <label
+              key={option.option_id}
+              className="flex items-center gap-2 rounded-md border bg-white px-3 py-2 text-sm cursor-pointer hover:border-blue-400 dark:bg-gray-800 dark:border-gray-600"
+            >
+              <input
+                type={poll.allows_multiple ? 'checkbox' : 'radio'}
+                name={`poll-${poll.poll_id}`}
+                checked={selectedIds.includes(option.option_id)}
+                onChange={() => toggleOption(option.option_id)}
+                disabled={isVoting}
+                className="h-4 w-4 accent-blue-600"
+              />
+              <span className="text-gray-800 dark:text-gray-200">{option.option_label}</span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-4 flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {poll.total_voters} votant{poll.total_voters > 1 ? 's' : ''}
+          {' · '}{poll.is_anonymous ? 'Votes anonymes' : 'Votes publics'}
+          {poll.allows_multiple && ' · Choix multiple'}
+          {poll.closes_at && ` · ${isPastClosingDate ? 'Clos' : 'Clôture'} le ${formatDateTime(poll.closes_at)}`}
+        </p>
+        {canCastVote && (
+          <div className="flex gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setShowResults(prev => !prev)}>
+              {showResults ? 'Voter' : 'Voir les résultats'}
+            </Button>
+            {!showResults && (
+              <Button size="sm" onClick={handleVote} disabled={isVoting || selectedIds.length === 0}>
+                {isVoting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Voter
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PollWidget;
@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { SmilePlus } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+export interface ReactionType {
+  id: string;
+  emoji: string;
+  label: string;
+}
+
+export interface ReactionSummary {
+  reply_id: string | null;
+  reaction_type_id: string;
+  emoji: string;
+  label: string;
+  reaction_count: number;
+  usernames: string[];
+  reacted_by_me: boolean;
+}
+
+interface ReactionBarProps {
+  reactions: ReactionSummary[];
+  reactionTypes: ReactionType[];
+  /** Called with the picked type, or null to remove the current reaction. */
+  onReact: (reactionTypeId: string | null) => void;
+  canReact: boolean;
+  disabled?: boolean;
+}
+
+const MAX_LISTED_USERNAMES = 10;
+
+const formatReactors = (usernames: string[]) => {
+  const listed = usernames.slice(0, MAX_LISTED_USERNAMES).join(', ');
+  const others = usernames.length - MAX_LISTED_USERNAMES;
+  return others > 0 ? `${listed} et ${others} autre${others > 1 ? 's' : ''}` : listed;
+};
+
+const ReactionBar = ({ reactions, reactionTypes, onReact, canReact, disabled }: ReactionBarProps) => {
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const myReactionTypeId = reactions.find(reaction => reaction.reacted_by_me)?.reaction_type_id ?? null;
+
+  if (reactions.length === 0 && !canReact) return null;
+
+  const toggle = (reactionTypeId: string) => {
+    onReact(reactionTypeId === myReactionTypeId ? null : reactionTypeId);
+  };
+
+  return (
+    <TooltipProvider delayDuration={200}>
+      <div className="flex flex-wrap items-center gap-1.5 mt-3">
+        {reactions.map(reaction => (
+          <Tooltip key={reaction.reaction_type_id}>
+            <TooltipTrigger asChild>
+              <button
+                type="button"
+                onClick={() => canReact && toggle(reaction.reaction_type_id)}
+                disabled={disabled}
+                className={cn(
+                  'inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-sm transition-colors',
+                  !canReact && 'cursor-default',
+                  reaction.reacted_by_me
+                    ? 'border-blue-400 bg-blue-50 text-blue-700 dark:border-blue-600 dark:bg-blue-900/40 dark:text-blue-300'
+                    : 'border-gray-200 bg-gray-50 text-gray-700 hover:bg-gray-100 dark:border-gray-600 dark:bg-gray-700/50 dark:text-gray-300 dark:hover:bg-gray-700'
+                )}
+                aria-pressed={reaction.reacted_by_me}
+                aria-label={`${reaction.label} : ${reaction.reaction_count}`}
+              >
+                <span>{reaction.emoji}</span>
+                <span className="text-xs font-medium">{reaction.reaction_count}</span>
+              </button>
+            </TooltipTrigger>
+            <TooltipContent className="max-w-xs">
+              <p className="font-semibold">{reaction.label}</p>
+              <p className="text-xs">{formatReactors(reaction.usernames)}</p>
+            </TooltipContent>
+          </Tooltip>
+        ))}
+        {canReact && reactionTypes.length > 0 && (
+          <Popover open={isPickerOpen} onOpenChange={setIsPickerOpen}>
+            <PopoverTrigger asChild>
+              <Button variant="ghost" size="sm" disabled={disabled} className="h-7 px-2 text-gray-500 hover:text-blue-600" title="Réagir">
+                <SmilePlus className="h-4 w-4" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="start" className="w-auto p-1">
+              <div className="flex gap-1">
+                {reactionTypes.map(type => (
+                  <button
+                    key={type.id}
+                    type="button"
+                    onClick={() => {
+                      toggle(type.id);
+                      setIsPickerOpen(false);
+                    }}
+                    className={cn(
+                      'rounded-md p-1.5 text-xl leading-none hover:bg-gray-100 dark:hover:bg-gray-700',
+                      type.id === myReactionTypeId && 'bg-blue-50 dark:bg-blue-900/40'
+                    )}
+                    title={type.label}
+                    aria-label={type.label}
+                  >
+                    {type.emoji}
+                  </button>
+                ))}
+              </div>
+            </PopoverContent>
+          </Popover>
+        )}
+      </div>
+    </TooltipProvider>
+  );
+};
+
+export default ReactionBar;
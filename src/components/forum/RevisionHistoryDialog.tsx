@@ -0,0 +1,174 @@
+import { useEffect, useState, useCallback } from 'react';
+import { diffWords } from 'diff';
+import { supabase } from '@/lib/supabaseClient';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Loader2, AlertTriangle, History } from 'lucide-react';
+import { useDateFormatter } from '@/hooks/useDateFormatter';
+import MarkdownContent from '@/components/forum/MarkdownContent';
+
+interface Revision {
+  id: string;
+  title: string | null;
+  content: string;
+  created_at: string;
+  editor: { username: string | null } | null;
+}
+
+// A version of the content as displayed in the dialog: the current text or one stored revision.
+interface ContentVersion {
+  key: string;
+  label: string;
+  title: string | null;
+  content: string;
+}
+
+interface RevisionHistoryDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  contentType: 'post' | 'reply';
+  contentId: string;
+  currentTitle?: string | null;
+  currentContent: string;
+}
+
+const RevisionHistoryDialog = ({ isOpen, onClose, contentType, contentId, currentTitle = null, currentContent }: RevisionHistoryDialogProps) => {
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const { formatDateTime } = useDateFormatter();
+
+  const fetchRevisions = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('forum_content_revisions')
+        .select('id, title, content, created_at, editor:profiles!edited_by_user_id(username)')
+        .eq(contentType === 'post' ? 'post_id' : 'reply_id', contentId)
+        .order('created_at', { ascending: false });
+
+      if (fetchError) throw fetchError;
+      setRevisions((data as unknown as Revision[]) || []);
+      setSelectedIndex(0);
+    } catch (err: any) {
+      console.error('Error fetching content revisions:', err);
+      setError(err.message || "Impossible de charger l'historique des modifications.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [contentType, contentId]);
+
+  useEffect(() => {
+    if (isOpen && contentId) {
+      fetchRevisions();
+    }
+  }, [isOpen, contentId, fetchRevisions]);
+
+  // Newest first: index 0 is the current content, then each stored revision.
+  const versions: ContentVersion[] = [
+    { key: 'current', label: 'Version actuelle', title: currentTitle, content: currentContent },
+    ...revisions.map((rev) => ({
+      key: rev.id,
+      label: `Remplacée le ${formatDateTime(rev.created_at)}${rev.editor?.username ? ` par ${rev.editor.username}` : ''}`,
+      title: rev.title,
+      content: rev.content,
+    })),
+  ];
+
+  const selected = versions[selectedIndex];
+  const newer = selectedIndex > 0 ? versions[selectedIndex - 1] : null;
+  const older = selectedIndex < versions.length - 1 ? versions[selectedIndex + 1] : null;
+  // Diff the selected version against the one it was replaced by, or the current one against its predecessor.
+  const diffFrom = newer ? selected : older;
+  const diffTo = newer ? newer : selected;
+
+  const renderDiff = (from: string, to: string) => (
+    <div className="whitespace-pre-wrap break-words text-sm font-mono">
+      {diffWords(from, to).map((part, index) => {
+        if (part.added) {
+          return <ins key={index} className="bg-green-100 text-green-800 no-underline dark:bg-green-900/40 dark:text-green-300">{part.value}</ins>;
+        }
+        if (part.removed) {
+          return <del key={index} className="bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300">{part.value}</del>;
+        }
+        return <span key={index}>{part.value}</span>;
+      })}
+    </div>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-3xl dark:bg-gray-800">
+        <DialogHeader>
+          <DialogTitle className="flex items-center dark:text-white">
+            <History className="mr-2 h-5 w-5" /> Historique des modifications
+          </DialogTitle>
+          <DialogDescription className="dark:text-gray-300">
+            {contentType === 'post' ? 'Versions précédentes de ce sujet.' : 'Versions précédentes de ce message.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && (
+          <div className="flex justify-center items-center py-10">
+            <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
+          </div>
+        )}
+        {error && !isLoading && (
+          <div className="text-red-600 dark:text-red-400 p-4 bg-red-50 dark:bg-red-900/30 rounded-md">
+            <AlertTriangle className="inline h-5 w-5 mr-2" /> {error}
+          </div>
+        )}
+        {!isLoading && !error && (
+          <div className="grid gap-4 md:grid-cols-[220px_1fr]">
+            <ul className="space-y-1 max-h-[60vh] overflow-y-auto">
+              {versions.map((version, index) => (
+                <li key={version.key}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedIndex(index)}
+                    className={`w-full text-left text-xs rounded-md px-2 py-2 ${index === selectedIndex ? 'bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-200' : 'text-gray-600 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700'}`}
+                  >
+                    {version.label}
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <Tabs defaultValue="content" className="min-w-0">
+              <TabsList className="dark:bg-gray-700">
+                <TabsTrigger value="content" className="text-xs">Contenu</TabsTrigger>
+                <TabsTrigger value="diff" className="text-xs" disabled={!diffFrom}>Différences</TabsTrigger>
+              </TabsList>
+              <TabsContent value="content" className="max-h-[55vh] overflow-y-auto text-gray-700 dark:text-gray-300">
+                {selected.title && <h3 className="text-lg font-semibold mb-2 dark:text-white">{selected.title}</h3>}
+                <MarkdownContent content={selected.content} />
+              </TabsContent>
+              <TabsContent value="diff" className="max-h-[55vh] overflow-y-auto text-gray-700 dark:text-gray-300">
+                {diffFrom && diffTo && (
+                  <>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                      Comparaison avec la version {newer ? 'suivante' : 'précédente'}.
+                    </p>
+                    {contentType === 'post' && diffFrom.title !== diffTo.title && (
+                      <div className="mb-3 font-semibold">{renderDiff(diffFrom.title || '', diffTo.title || '')}</div>
+                    )}
+                    {renderDiff(diffFrom.content, diffTo.content)}
+                  </>
+                )}
+              </TabsContent>
+            </Tabs>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RevisionHistoryDialog;
@@ -1,11 +1,14 @@
 import { Outlet, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
-import { LogOut, Home, Users, Settings, ShieldCheck, MessageSquareText, FolderKanban, ListOrdered, ShieldAlert } from 'lucide-react';
+import { LogOut, Home, Users, Settings, ShieldCheck, MessageSquareText, FolderKanban, ListOrdered, ShieldAlert, SmilePlus, ScrollText } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
+import { usePermissions } from '@/hooks/usePermissions';
+import { Permission } from '@/constants/permissions';
 
 const AdminLayout = () => {
   const navigate = useNavigate();
   const { signOut, profile, canAdminister, canModerate } = useAuth();
+  const { can } = usePermissions();
 
   const handleSignOut = async () => {
     await signOut();
@@ -55,6 +58,14 @@ const AdminLayout = () => {
                 <ListOrdered className="mr-3 h-5 w-5" />
                 Gestion des Sections
               </Button>
+              <Button
+                variant="ghost"
+                className="w-full justify-start text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+                onClick={() => navigate('/admin/reactions')}
+              >
+                <SmilePlus className="mr-3 h-5 w-5" />
+                Gestion des Réactions
+              </Button>
             </>
           )}
           
@@ -70,6 +81,17 @@ const AdminLayout = () => {
             </Button>
           )}
 
+          {can(Permission.VIEW_AUDIT_LOGS) && (
+            <Button
+              variant="ghost"
+              className="w-full justify-start text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+              onClick={() => navigate('/admin/audit')}
+            >
+              <ScrollText className="mr-3 h-5 w-5" />
+              Journal d'Audit
+            </Button>
+          )}
+
           {/* Example: Placeholder for other admin features */}
           <Button
             variant="ghost"
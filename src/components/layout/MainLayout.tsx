@@ -1,17 +1,42 @@
-import { Outlet, useNavigate } from 'react-router-dom';
+import { useEffect, useState } from 'react';
+import { Outlet, useNavigate, useLocation, useOutletContext } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth'; 
 import { Button } from '@/components/ui/button';
-import { LogOut, Home, Users, Settings, MessageSquare, LayoutGrid, ShieldCheck } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { useUnreadNotificationCount } from '@/hooks/useUnreadNotificationCount';
+import { useUnreadConversationCount } from '@/hooks/useUnreadConversationCount';
+import ActiveSanctionBanner from '@/components/auth/ActiveSanctionBanner';
+import type { ProtectedRouteContext } from '@/components/auth/ProtectedRoute';
+import { LogOut, Home, Users, Settings, MessageSquare, LayoutGrid, ShieldCheck, Search, Bell, Eye, Contact, Mail, Flag } from 'lucide-react';
 
 const MainLayout = () => {
   const navigate = useNavigate();
   const { signOut, canModerate, profile } = useAuth(); // Get signOut, canModerate and profile
+  const [searchQuery, setSearchQuery] = useState('');
+  const location = useLocation();
+  const { activeSanction } = useOutletContext<ProtectedRouteContext>();
+  const { unreadCount, refresh: refreshUnreadCount } = useUnreadNotificationCount();
+  const { unreadCount: unreadConversationCount, refresh: refreshUnreadConversationCount } = useUnreadConversationCount();
+
+  // Fallback when Realtime is unavailable: refresh the counters on every page change.
+  useEffect(() => {
+    refreshUnreadCount();
+    refreshUnreadConversationCount();
+  }, [location.pathname, refreshUnreadCount, refreshUnreadConversationCount]);
 
   const handleSignOut = async () => {
     await signOut();
     navigate('/connexion'); 
   };
 
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const query = searchQuery.trim();
+    if (!query) return;
+    navigate(`/recherche?q=${encodeURIComponent(query)}`);
+    setSearchQuery('');
+  };
+
   return (
     <div className="flex h-screen bg-gray-100 dark:bg-gray-900">
       {/* Sidebar */}
@@ -22,6 +47,19 @@ const MainLayout = () => {
             PRCF Forum
           </h1>
         </div>
+        <form onSubmit={handleSearch} className="px-4 pt-4" role="search">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              type="search"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Rechercher..."
+              aria-label="Rechercher dans le forum"
+              className="pl-9 dark:bg-gray-700 dark:text-white dark:border-gray-600"
+            />
+          </div>
+        </form>
         <nav className="flex-grow p-4 space-y-2">
           <Button
             variant="ghost"
@@ -39,6 +77,58 @@ const MainLayout = () => {
             <LayoutGrid className="mr-3 h-5 w-5" />
             Forum
           </Button>
+          <Button
+            variant="ghost"
+            className="w-full justify-start text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+            onClick={() => navigate('/membres')}
+          >
+            <Contact className="mr-3 h-5 w-5" />
+            Membres
+          </Button>
+          <Button
+            variant="ghost"
+            className="w-full justify-start text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+            onClick={() => navigate('/notifications')}
+            title={unreadCount > 0 ? `${unreadCount} notification${unreadCount > 1 ? 's' : ''} non lue${unreadCount > 1 ? 's' : ''}` : 'Notifications'}
+          >
+            <Bell className="mr-3 h-5 w-5" />
+            Notifications
+            {unreadCount > 0 && (
+              <span className="ml-auto rounded-full bg-red-600 px-2 py-0.5 text-xs font-semibold text-white">
+                {unreadCount > 99 ? '99+' : unreadCount}
+              </span>
+            )}
+          </Button>
+          <Button
+            variant="ghost"
+            className="w-full justify-start text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+            onClick={() => navigate('/messages')}
+            title={unreadConversationCount > 0 ? `${unreadConversationCount} conversation${unreadConversationCount > 1 ? 's' : ''} non lue${unreadConversationCount > 1 ? 's' : ''}` : 'Messages'}
+          >
+            <Mail className="mr-3 h-5 w-5" />
+            Messages
+            {unreadConversationCount > 0 && (
+              <span className="ml-auto rounded-full bg-red-600 px-2 py-0.5 text-xs font-semibold text-white">
+                {unreadConversationCount > 99 ? '99+' : unreadConversationCount}
+              </span>
+            )}
+          </Button>
+          <Button
+            variant="ghost"
+            className="w-full justify-start text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+            onClick={() => navigate('/abonnements')}
+          >
+            <Eye className="mr-3 h-5 w-5" />
+            Mes abonnements
+          </Button>
+          <Button
+            variant="ghost"
+            className="w-full justify-start text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+            onClick={() => navigate('/mes-signalements')}
+          >
+            <Flag className="mr-3 h-5 w-5" />
+            Mes signalements
+          </Button>
           <Button
             variant="ghost"
             className="w-full justify-start text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
@@ -87,6 +177,7 @@ const MainLayout = () => {
 
       {/* Main Content Area */}
       <main className="flex-1 p-6 overflow-auto">
+        {activeSanction && <ActiveSanctionBanner sanction={activeSanction} />}
         <Outlet /> {/* Content of nested routes will be rendered here */}
       </main>
     </div>
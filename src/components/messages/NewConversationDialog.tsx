@@ -0,0 +1,233 @@
+import { FormEvent, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/lib/supabaseClient';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, Send, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useUser } from '@/contexts/UserContext';
+import { getAvatarUrl } from '@/lib/avatars';
+import { ConversationMember } from '@/lib/messaging';
+import { CONVERSATION_MAX_RECIPIENTS, PRIVATE_MESSAGE_MAX_LENGTH } from '@/constants/forum';
+
+interface NewConversationDialogProps {
+  onClose: () => void;
+  initialRecipients?: ConversationMember[];
+}
+
+const MAX_SUGGESTIONS = 8;
+
+const escapeLikePattern = (value: string) => value.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+/**
+ * Writes a first message to one member, or to a small group. An existing one to one conversation is reused.
+ * Rendered only while open, so every opening starts from an empty form.
+ */
+const NewConversationDialog = ({ onClose, initialRecipients = [] }: NewConversationDialogProps) => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user } = useUser();
+  const [recipients, setRecipients] = useState<ConversationMember[]>(initialRecipients);
+  const [query, setQuery] = useState('');
+  const [candidates, setCandidates] = useState<ConversationMember[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [title, setTitle] = useState('');
+  const [content, setContent] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => {
+    const search = query.trim();
+    if (!search) {
+      setCandidates([]);
+      return;
+    }
+
+    let isCurrent = true;
+    setIsSearching(true);
+    const timeout = setTimeout(async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, username, avatar_url')
+        .eq('status', 'approved')
+        .not('username', 'is', null)
+        .ilike('username', `${escapeLikePattern(search)}%`)
+        .order('username', { ascending: true })
+        .limit(MAX_SUGGESTIONS + 1);
+
+      if (!isCurrent) return;
+      if (error) {
+        console.error('Error searching members:', error);
+        setCandidates([]);
+      } else {
+        setCandidates((data || []).filter((member: ConversationMember) => member.id !== user?.id).slice(0, MAX_SUGGESTIONS));
+      }
+      setIsSearching(false);
+    }, 250);
+
+    return () => {
+      isCurrent = false;
+      clearTimeout(timeout);
+    };
+  }, [query, user?.id]);
+
+  const addRecipient = (member: ConversationMember) => {
+    if (!recipients.some(recipient => recipient.id === member.id)) {
+      setRecipients([...recipients, member]);
+    }
+    setQuery('');
+  };
+
+  const removeRecipient = (memberId: string) => {
+    setRecipients(recipients.filter(recipient => recipient.id !== memberId));
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (recipients.length === 0 || !content.trim()) return;
+
+    setIsSending(true);
+    try {
+      const { data: conversationId, error } = await supabase.rpc('start_conversation', {
+        p_recipient_ids: recipients.map(recipient => recipient.id),
+        p_content: content.trim(),
+        p_title: recipients.length > 1 ? title.trim() || null : null,
+      });
+      if (error) throw error;
+
+      onClose();
+      navigate(`/messages/${conversationId}`);
+    } catch (err: any) {
+      console.error('Error starting conversation:', err);
+      toast({ title: "Erreur", description: err.message || "Impossible d'envoyer le message.", variant: "destructive" });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const isFull = recipients.length >= CONVERSATION_MAX_RECIPIENTS;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg dark:bg-gray-800">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle className="dark:text-white">Nouveau message</DialogTitle>
+            <DialogDescription className="dark:text-gray-300">
+              Seuls les participants peuvent lire la conversation. Jusqu'à {CONVERSATION_MAX_RECIPIENTS} destinataires.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div>
+              <Label htmlFor="new-conversation-recipient" className="dark:text-gray-200">Destinataires</Label>
+              {recipients.length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {recipients.map(recipient => (
+                    <span key={recipient.id} className="inline-flex items-center rounded-full bg-blue-100 dark:bg-blue-900/50 px-3 py-1 text-sm text-blue-800 dark:text-blue-200">
+                      {recipient.username}
+                      <button
+                        type="button"
+                        onClick={() => removeRecipient(recipient.id)}
+                        className="ml-1 rounded-full hover:text-blue-600 dark:hover:text-blue-100"
+                        aria-label={`Retirer ${recipient.username}`}
+                        disabled={isSending}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+              <Input
+                id="new-conversation-recipient"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder={isFull ? 'Nombre maximal de destinataires atteint' : "Rechercher un membre par nom d'utilisateur"}
+                autoComplete="off"
+                className="mt-2 dark:bg-gray-700 dark:text-white dark:border-gray-600"
+                disabled={isFull || isSending}
+              />
+              {query.trim() && (
+                <ul className="mt-1 max-h-48 overflow-y-auto rounded-md border dark:border-gray-600">
+                  {isSearching && (
+                    <li className="flex items-center px-3 py-2 text-sm text-gray-500 dark:text-gray-400">
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Recherche...
+                    </li>
+                  )}
+                  {!isSearching && candidates.length === 0 && (
+                    <li className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">Aucun membre trouvé.</li>
+                  )}
+                  {!isSearching && candidates.map(candidate => (
+                    <li key={candidate.id}>
+                      <button
+                        type="button"
+                        onClick={() => addRecipient(candidate)}
+                        className="flex w-full items-center px-3 py-2 text-left text-sm hover:bg-gray-100 dark:text-gray-200 dark:hover:bg-gray-700"
+                      >
+                        <Avatar className="mr-2 h-6 w-6">
+                          <AvatarImage src={getAvatarUrl(candidate.avatar_url, 'small')} alt={candidate.username || ''} />
+                          <AvatarFallback className="text-xs">{(candidate.username || 'U').charAt(0).toUpperCase()}</AvatarFallback>
+                        </Avatar>
+                        {candidate.username}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+            {recipients.length > 1 && (
+              <div>
+                <Label htmlFor="new-conversation-title" className="dark:text-gray-200">
+                  Titre <span className="text-xs text-gray-500 dark:text-gray-400">(optionnel)</span>
+                </Label>
+                <Input
+                  id="new-conversation-title"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  maxLength={100}
+                  placeholder="Sujet de la conversation de groupe"
+                  className="mt-1 dark:bg-gray-700 dark:text-white dark:border-gray-600"
+                  disabled={isSending}
+                />
+              </div>
+            )}
+            <div>
+              <Label htmlFor="new-conversation-content" className="dark:text-gray-200">Message</Label>
+              <Textarea
+                id="new-conversation-content"
+                value={content}
+                onChange={(e) => setContent(e.target.value)}
+                maxLength={PRIVATE_MESSAGE_MAX_LENGTH}
+                rows={5}
+                placeholder="Votre message..."
+                className="mt-1 dark:bg-gray-700 dark:text-white dark:border-gray-600"
+                disabled={isSending}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={isSending}>
+              Annuler
+            </Button>
+            <Button type="submit" disabled={isSending || recipients.length === 0 || !content.trim()}>
+              {isSending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+              Envoyer
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default NewConversationDialog;
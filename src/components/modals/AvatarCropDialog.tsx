@@ -0,0 +1,163 @@
+import { useEffect, useRef, useState, PointerEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Loader2, Save, ZoomIn } from 'lucide-react';
+import { AvatarCrop } from '@/lib/avatars';
+
+// Side of the square crop area, in screen pixels.
+const VIEWPORT_SIZE = 256;
+const MAX_ZOOM = 3;
+
+interface AvatarCropDialogProps {
+  file: File | null;
+  isSaving: boolean;
+  onClose: () => void;
+  onConfirm: (image: HTMLImageElement, crop: AvatarCrop) => void;
+}
+
+/** Lets the user pan and zoom the picked image to choose the square kept as avatar. */
+const AvatarCropDialog: React.FC<AvatarCropDialogProps> = ({ file, isSaving, onClose, onConfirm }) => {
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  const dragStart = useRef<{ pointerX: number; pointerY: number; x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    setImage(null);
+    if (!file) return;
+
+    const objectUrl = URL.createObjectURL(file);
+    const loadedImage = new Image();
+    loadedImage.onload = () => {
+      setImage(loadedImage);
+      setZoom(1);
+      const scale = VIEWPORT_SIZE / Math.min(loadedImage.naturalWidth, loadedImage.naturalHeight);
+      setOffset({
+        x: (VIEWPORT_SIZE - loadedImage.naturalWidth * scale) / 2,
+        y: (VIEWPORT_SIZE - loadedImage.naturalHeight * scale) / 2,
+      });
+    };
+    loadedImage.src = objectUrl;
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  // Pixels on screen per pixel of the source image; at zoom 1 the image just covers the crop area.
+  const scale = image ? (VIEWPORT_SIZE / Math.min(image.naturalWidth, image.naturalHeight)) * zoom : 1;
+  const displayedWidth = image ? image.naturalWidth * scale : 0;
+  const displayedHeight = image ? image.naturalHeight * scale : 0;
+
+  const clampOffset = (x: number, y: number, width = displayedWidth, height = displayedHeight) => ({
+    x: Math.min(0, Math.max(VIEWPORT_SIZE - width, x)),
+    y: Math.min(0, Math.max(VIEWPORT_SIZE - height, y)),
+  });
+
+  const handleZoomChange = (newZoom: number) => {
+    if (!image) return;
+    // Zoom around the centre of the crop area.
+    const ratio = newZoom / zoom;
+    const centre = VIEWPORT_SIZE / 2;
+    setOffset(clampOffset(
+      centre - (centre - offset.x) * ratio,
+      centre - (centre - offset.y) * ratio,
+      displayedWidth * ratio,
+      displayedHeight * ratio
+    ));
+    setZoom(newZoom);
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = { pointerX: e.clientX, pointerY: e.clientY, x: offset.x, y: offset.y };
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    if (!dragStart.current) return;
+    setOffset(clampOffset(
+      dragStart.current.x + e.clientX - dragStart.current.pointerX,
+      dragStart.current.y + e.clientY - dragStart.current.pointerY
+    ));
+  };
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+  };
+
+  const handleConfirm = () => {
+    if (!image) return;
+    onConfirm(image, {
+      x: -offset.x / scale,
+      y: -offset.y / scale,
+      size: VIEWPORT_SIZE / scale,
+    });
+  };
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => !open && !isSaving && onClose()}>
+      <DialogContent className="sm:max-w-[425px] dark:bg-gray-800">
+        <DialogHeader>
+          <DialogTitle className="dark:text-white">Recadrer l'avatar</DialogTitle>
+          <DialogDescription className="dark:text-gray-300">
+            Faites glisser l'image et ajustez le zoom pour choisir la partie affichée.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-col items-center gap-4 py-2">
+          <div
+            className="relative overflow-hidden rounded-full bg-gray-200 dark:bg-gray-700 cursor-move touch-none select-none"
+            style={{ width: VIEWPORT_SIZE, height: VIEWPORT_SIZE }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            {image ? (
+              <img
+                src={image.src}
+                alt="Aperçu de l'avatar"
+                draggable={false}
+                className="absolute max-w-none pointer-events-none"
+                style={{ left: offset.x, top: offset.y, width: displayedWidth, height: displayedHeight }}
+              />
+            ) : (
+              <div className="flex h-full items-center justify-center">
+                <Loader2 className="h-8 w-8 animate-spin text-gray-500" />
+              </div>
+            )}
+          </div>
+          <div className="w-full">
+            <Label htmlFor="avatar-zoom" className="flex items-center text-sm text-gray-700 dark:text-gray-300 mb-1">
+              <ZoomIn className="mr-1 h-4 w-4" /> Zoom
+            </Label>
+            <input
+              id="avatar-zoom"
+              type="range"
+              min={1}
+              max={MAX_ZOOM}
+              step={0.01}
+              value={zoom}
+              onChange={(e) => handleZoomChange(Number(e.target.value))}
+              disabled={!image || isSaving}
+              className="w-full accent-blue-600"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>Annuler</Button>
+          <Button type="button" onClick={handleConfirm} disabled={!image || isSaving}>
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Enregistrer l'avatar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AvatarCropDialog;
@@ -17,7 +17,7 @@ import { useState } from 'react';
     import { Loader2, Send } from 'lucide-react';
     import { useAuth } from '@/hooks/useAuth';
 
-    type ContentType = 'post' | 'reply';
+    type ContentType = 'post' | 'reply' | 'message';
     const reportReasonCategories = ['SPAM', 'HARASSMENT', 'OFFENSIVE_CONTENT', 'RULES_VIOLATION', 'OTHER'] as const;
     type ReportReasonCategory = typeof reportReasonCategories[number];
 
@@ -62,15 +62,25 @@ import { useState } from 'react';
             reportData.reported_post_id = contentId;
           } else if (contentType === 'reply') {
             reportData.reported_reply_id = contentId;
+          } else if (contentType === 'message') {
+            reportData.reported_message_id = contentId;
           }
 
           const { error } = await supabase.from('forum_reports').insert(reportData);
 
-          if (error) throw error;
+          if (error) {
+            // Only one pending report per member and content.
+            if (error.code === '23505') {
+              toast({ title: "Déjà signalé", description: "Vous avez déjà signalé ce contenu ; votre signalement est en attente de traitement." });
+              onClose();
+              return;
+            }
+            throw error;
+          }
 
           toast({
             title: "Signalement envoyé",
-            description: "Merci, votre signalement a été soumis à notre équipe de modération.",
+            description: "Merci, votre signalement a été soumis à notre équipe de modération. Suivez son traitement dans « Mes signalements ».",
             className: "bg-green-500 text-white dark:bg-green-700",
           });
           onClose();
@@ -96,6 +106,7 @@ import { useState } from 'react';
               <DialogDescription className="dark:text-gray-300">
                 Aidez-nous à maintenir une communauté sûre et respectueuse.
                 Votre signalement est anonyme pour l'auteur du contenu.
+                {contentType === 'message' && " Les modérateurs pourront lire ce message privé, mais pas le reste de la conversation."}
               </DialogDescription>
             </DialogHeader>
             <div className="grid gap-4 py-4">
@@ -0,0 +1,192 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/lib/supabaseClient';
+import { formatDistanceToNow } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { Edit3, Loader2, MessageSquare, PlusCircle, SmilePlus, Trash2 } from 'lucide-react';
+import PaginationBar from '@/components/common/PaginationBar';
+import { PROFILE_ACTIVITY_PER_PAGE } from '@/constants/forum';
+
+type ActivityType = 'new_topic' | 'new_reply' | 'reaction_received' | 'profile_update';
+
+// Row returned by the get_user_activity RPC.
+interface ActivityItem {
+  activity_type: ActivityType;
+  occurred_at: string;
+  post_id: string | null;
+  reply_id: string | null;
+  post_title: string | null;
+  category_name: string | null;
+  category_slug: string | null;
+  excerpt: string | null;
+  reaction_emoji: string | null;
+  reaction_label: string | null;
+  actor_id: string | null;
+  actor_username: string | null;
+  changed_fields: string[] | null;
+  is_deleted: boolean;
+  total_count: number;
+}
+
+const ACTIVITY_ICONS: Record<ActivityType, React.ElementType> = {
+  new_topic: PlusCircle,
+  new_reply: MessageSquare,
+  reaction_received: SmilePlus,
+  profile_update: Edit3,
+};
+
+const PROFILE_FIELD_LABELS: Record<string, string> = {
+  full_name: 'son nom complet',
+  avatar_url: 'son avatar',
+  biography: 'sa biographie',
+  signature: 'sa signature',
+};
+
+const formatChangedFields = (fields: string[]) => {
+  const labels = fields.map(field => PROFILE_FIELD_LABELS[field] ?? field);
+  if (labels.length <= 1) return labels.join('');
+  return `${labels.slice(0, -1).join(', ')} et ${labels[labels.length - 1]}`;
+};
+
+const getContentLink = (item: ActivityItem) =>
+  item.reply_id ? `/forum/sujet/${item.post_id}#reply-${item.reply_id}` : `/forum/sujet/${item.post_id}`;
+
+const renderDescription = (item: ActivityItem) => {
+  const topicLink = (
+    <Link to={getContentLink(item)} className="hover:underline font-medium">
+      {item.post_title || 'Sujet sans titre'}
+    </Link>
+  );
+
+  switch (item.activity_type) {
+    case 'new_topic':
+      return <>A créé le sujet {topicLink}</>;
+    case 'new_reply':
+      return <>A répondu dans le sujet {topicLink}</>;
+    case 'reaction_received':
+      return (
+        <>
+          <span title={item.reaction_label || undefined}>{item.reaction_emoji}</span>{' '}
+          {item.actor_id ? (
+            <Link to={`/profil/${item.actor_id}`} className="hover:underline font-medium">{item.actor_username || 'Un membre'}</Link>
+          ) : 'Un membre'}{' '}
+          a réagi à {item.reply_id ? 'sa réponse dans' : 'son sujet'} {topicLink}
+        </>
+      );
+    case 'profile_update':
+      return <>A mis à jour {formatChangedFields(item.changed_fields || [])}</>;
+  }
+};
+
+interface UserActivityFeedProps {
+  userId: string;
+}
+
+/** Paginated activity of a member, limited by the database to what the viewer is allowed to read. */
+const UserActivityFeed = ({ userId }: UserActivityFeedProps) => {
+  const [activities, setActivities] = useState<ActivityItem[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchActivity = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const { data, error: rpcError } = await supabase.rpc('get_user_activity', {
+        p_user_id: userId,
+        p_page: currentPage,
+        p_limit: PROFILE_ACTIVITY_PER_PAGE,
+      });
+      if (rpcError) throw rpcError;
+
+      const rows = (data as ActivityItem[]) || [];
+      setActivities(rows);
+      setTotalCount(rows.length > 0 ? Number(rows[0].total_count) : 0);
+    } catch (err: any) {
+      console.error('Error fetching user activity:', err);
+      setError(err.message || "Impossible de charger l'activité.");
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, currentPage]);
+
+  useEffect(() => {
+    fetchActivity();
+  }, [fetchActivity]);
+
+  const totalPages = Math.max(1, Math.ceil(totalCount / PROFILE_ACTIVITY_PER_PAGE));
+
+  if (loading) {
+    return (
+      <div className="flex justify-center p-4">
+        <Loader2 className="h-6 w-6 animate-spin text-purple-500" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-4 bg-gray-50 dark:bg-gray-750 rounded-lg text-center">
+        <p className="text-red-600 dark:text-red-400">{error}</p>
+      </div>
+    );
+  }
+
+  if (activities.length === 0) {
+    return (
+      <div className="p-4 bg-gray-50 dark:bg-gray-750 rounded-lg text-center">
+        <p className="text-gray-500 dark:text-gray-400 italic">Aucune activité récente à afficher.</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <ul className="space-y-4">
+        {activities.map((item, index) => {
+          const Icon = ACTIVITY_ICONS[item.activity_type];
+          return (
+            <li
+              key={`${item.activity_type}-${item.occurred_at}-${index}`}
+              className="flex items-start p-4 bg-gray-50 dark:bg-gray-750 rounded-lg shadow-sm hover:shadow-md transition-shadow duration-200"
+            >
+              <Icon className="w-6 h-6 mr-4 text-purple-500 dark:text-purple-400 flex-shrink-0 mt-1" />
+              <div className="flex-grow min-w-0">
+                <p className="text-sm text-gray-700 dark:text-gray-200">
+                  {renderDescription(item)}
+                  {item.is_deleted && (
+                    <span className="ml-2 inline-flex items-center text-xs text-red-600 dark:text-red-400">
+                      <Trash2 className="mr-1 h-3 w-3" /> Supprimé
+                    </span>
+                  )}
+                </p>
+                {item.excerpt && (item.activity_type === 'new_topic' || item.activity_type === 'new_reply') && (
+                  <p className="text-xs text-gray-600 dark:text-gray-400 mt-1 line-clamp-2">{item.excerpt}</p>
+                )}
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                  {formatDistanceToNow(new Date(item.occurred_at), { addSuffix: true, locale: fr })}
+                  {item.category_name && item.category_slug && (
+                    <>
+                      {' • '}
+                      <Link to={`/forum/categorie/${item.category_slug}`} className="hover:underline">{item.category_name}</Link>
+                    </>
+                  )}
+                </p>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+      <PaginationBar
+        currentPage={currentPage}
+        totalPages={totalPages}
+        onPageChange={setCurrentPage}
+        className="mt-6"
+      />
+    </>
+  );
+};
+
+export default UserActivityFeed;
@@ -0,0 +1,246 @@
+import { FormEvent, useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2, AtSign, Mail, KeyRound } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useUser } from '@/contexts/UserContext';
+
+// Same rule as the change_username function: mentions rely on these characters.
+// Same rule as change_username: no leading or trailing '.' or '-', which @mentions would cut off.
+const USERNAME_PATTERN = /^[A-Za-z0-9_][A-Za-z0-9_.-]{1,28}[A-Za-z0-9_]$/;
+const PASSWORD_MIN_LENGTH = 6;
+
+const successToast = { className: "bg-green-500 text-white dark:bg-green-700" };
+
+/** Username, email and password of the signed-in member. */
+const AccountSettingsCard = () => {
+  const { toast } = useToast();
+  const { user, profile, refreshProfile } = useUser();
+
+  const [username, setUsername] = useState(profile?.username || '');
+  const [isSavingUsername, setIsSavingUsername] = useState(false);
+  const [email, setEmail] = useState('');
+  const [isSavingEmail, setIsSavingEmail] = useState(false);
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isSavingPassword, setIsSavingPassword] = useState(false);
+
+  const handleUsernameSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    const newUsername = username.trim();
+    if (newUsername === profile?.username) return;
+    if (!USERNAME_PATTERN.test(newUsername)) {
+      toast({ title: "Nom d'utilisateur invalide", description: "Utilisez de 3 à 30 caractères : lettres sans accents, chiffres, points, tirets ou tirets bas, sans point ni tiret au début ou à la fin.", variant: "destructive" });
+      return;
+    }
+
+    setIsSavingUsername(true);
+    try {
+      const { data: isAvailable, error: availabilityError } = await supabase.rpc('is_username_available', { p_username: newUsername });
+      if (availabilityError) throw availabilityError;
+      if (!isAvailable) {
+        toast({ title: "Nom d'utilisateur indisponible", description: `« ${newUsername} » est déjà utilisé par un autre membre.`, variant: "destructive" });
+        return;
+      }
+
+      const { error } = await supabase.rpc('change_username', { p_new_username: newUsername });
+      if (error) {
+        // Taken between the check and the update.
+        if (error.code === '23505') {
+          toast({ title: "Nom d'utilisateur indisponible", description: `« ${newUsername} » est déjà utilisé par un autre membre.`, variant: "destructive" });
+          return;
+        }
+        throw error;
+      }
+
+      await refreshProfile();
+      toast({ title: "Nom d'utilisateur modifié", description: `Vous vous appelez désormais ${newUsername}.`, ...successToast });
+    } catch (err: any) {
+      console.error('Error changing username:', err);
+      toast({ title: "Erreur", description: err.message || "Impossible de modifier le nom d'utilisateur.", variant: "destructive" });
+    } finally {
+      setIsSavingUsername(false);
+    }
+  };
+
+  const handleEmailSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    const newEmail = email.trim();
+    if (!newEmail || newEmail === user?.email) return;
+
+    setIsSavingEmail(true);
+    try {
+      const { error } = await supabase.auth.updateUser(
+        { email: newEmail },
+        { emailRedirectTo: `${window.location.origin}/parametre` }
+      );
+      if (error) throw error;
+
+      setEmail('');
+      toast({
+        title: "Confirmation envoyée",
+        description: `Un lien de confirmation a été envoyé à ${newEmail}. Votre adresse sera modifiée une fois le lien ouvert.`,
+        ...successToast,
+      });
+    } catch (err: any) {
+      console.error('Error changing email:', err);
+      toast({ title: "Erreur", description: err.message || "Impossible de modifier l'adresse email.", variant: "destructive" });
+    } finally {
+      setIsSavingEmail(false);
+    }
+  };
+
+  const handlePasswordSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!user?.email) return;
+    if (newPassword.length < PASSWORD_MIN_LENGTH) {
+      toast({ title: "Mot de passe trop court", description: `Le nouveau mot de passe doit contenir au moins ${PASSWORD_MIN_LENGTH} caractères.`, variant: "destructive" });
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      toast({ title: "Erreur", description: "Les deux mots de passe ne correspondent pas.", variant: "destructive" });
+      return;
+    }
+
+    setIsSavingPassword(true);
+    try {
+      // Supabase does not check the current password on update, so verify it by signing in again.
+      const { error: verifyError } = await supabase.auth.signInWithPassword({ email: user.email, password: currentPassword });
+      if (verifyError) {
+        toast({ title: "Mot de passe actuel incorrect", description: "Vérifiez votre mot de passe actuel et réessayez.", variant: "destructive" });
+        return;
+      }
+
+      const { error } = await supabase.auth.updateUser({ password: newPassword });
+      if (error) throw error;
+
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      toast({ title: "Mot de passe modifié", description: "Votre mot de passe a été mis à jour.", ...successToast });
+    } catch (err: any) {
+      console.error('Error changing password:', err);
+      toast({ title: "Erreur", description: err.message || "Impossible de modifier le mot de passe.", variant: "destructive" });
+    } finally {
+      setIsSavingPassword(false);
+    }
+  };
+
+  return (
+    <Card className="dark:bg-gray-800">
+      <CardHeader>
+        <CardTitle className="text-2xl">Mon Compte</CardTitle>
+        <CardDescription>
+          Modifiez vos identifiants de connexion et votre nom d'utilisateur.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="divide-y dark:divide-gray-700">
+        <form onSubmit={handleUsernameSubmit} className="space-y-2 pb-6">
+          <Label htmlFor="settings-username" className="flex items-center text-base font-medium dark:text-gray-200">
+            <AtSign className="mr-2 h-4 w-4" /> Nom d'utilisateur
+          </Label>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Visible sur vos messages et utilisé pour vous mentionner. Les anciennes mentions restent liées à votre profil.
+          </p>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Input
+              id="settings-username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              maxLength={30}
+              autoComplete="username"
+              className="dark:bg-gray-700 dark:text-white dark:border-gray-600"
+              disabled={isSavingUsername}
+            />
+            <Button type="submit" disabled={isSavingUsername || !username.trim() || username.trim() === profile?.username}>
+              {isSavingUsername && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Enregistrer
+            </Button>
+          </div>
+        </form>
+
+        <form onSubmit={handleEmailSubmit} className="space-y-2 py-6">
+          <Label htmlFor="settings-email" className="flex items-center text-base font-medium dark:text-gray-200">
+            <Mail className="mr-2 h-4 w-4" /> Adresse email
+          </Label>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Adresse actuelle : <span className="font-medium">{user?.email || 'Non disponible'}</span>
+            {user?.new_email && <> — en attente de confirmation : <span className="font-medium">{user.new_email}</span></>}
+          </p>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Input
+              id="settings-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Nouvelle adresse email"
+              autoComplete="email"
+              className="dark:bg-gray-700 dark:text-white dark:border-gray-600"
+              disabled={isSavingEmail}
+            />
+            <Button type="submit" disabled={isSavingEmail || !email.trim()}>
+              {isSavingEmail && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Modifier
+            </Button>
+          </div>
+        </form>
+
+        <form onSubmit={handlePasswordSubmit} className="space-y-3 pt-6">
+          <Label className="flex items-center text-base font-medium dark:text-gray-200">
+            <KeyRound className="mr-2 h-4 w-4" /> Mot de passe
+          </Label>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <Label htmlFor="settings-current-password" className="text-sm text-gray-700 dark:text-gray-300">Mot de passe actuel</Label>
+              <Input
+                id="settings-current-password"
+                type="password"
+                value={currentPassword}
+                onChange={(e) => setCurrentPassword(e.target.value)}
+                autoComplete="current-password"
+                className="mt-1 dark:bg-gray-700 dark:text-white dark:border-gray-600"
+                disabled={isSavingPassword}
+              />
+            </div>
+            <div>
+              <Label htmlFor="settings-new-password" className="text-sm text-gray-700 dark:text-gray-300">Nouveau mot de passe</Label>
+              <Input
+                id="settings-new-password"
+                type="password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                autoComplete="new-password"
+                className="mt-1 dark:bg-gray-700 dark:text-white dark:border-gray-600"
+                disabled={isSavingPassword}
+              />
+            </div>
+            <div>
+              <Label htmlFor="settings-confirm-password" className="text-sm text-gray-700 dark:text-gray-300">Confirmer le mot de passe</Label>
+              <Input
+                id="settings-confirm-password"
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                autoComplete="new-password"
+                className="mt-1 dark:bg-gray-700 dark:text-white dark:border-gray-600"
+                disabled={isSavingPassword}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" disabled={isSavingPassword || !currentPassword || !newPassword || !confirmPassword}>
+              {isSavingPassword && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Changer le mot de passe
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AccountSettingsCard;
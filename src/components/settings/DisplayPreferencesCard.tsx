@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { useTheme } from 'next-themes';
+import { supabase } from '@/lib/supabaseClient';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useUser } from '@/contexts/UserContext';
+import { formatDateTime } from '@/lib/dateFormat';
+import {
+  DATE_FORMAT_OPTIONS,
+  DEFAULT_DATE_FORMAT,
+  DateFormatPreference,
+  THEME_OPTIONS,
+  TIMEZONE_OPTIONS,
+} from '@/constants/preferences';
+
+// Select value standing for "no preference" (profiles.timezone NULL).
+const BROWSER_TIMEZONE = 'browser';
+
+/** Theme (stored in the browser by next-themes), time zone and date format (stored on the profile). */
+const DisplayPreferencesCard = () => {
+  const { toast } = useToast();
+  const { theme, setTheme } = useTheme();
+  const { profile, refreshProfile } = useUser();
+  const [savingField, setSavingField] = useState<'timezone' | 'date_format' | null>(null);
+
+  const timezone = profile?.timezone ?? null;
+  const dateFormat = profile?.date_format ?? DEFAULT_DATE_FORMAT;
+  const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  const savePreference = async (field: 'timezone' | 'date_format', value: string | null) => {
+    if (!profile) return;
+    setSavingField(field);
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update({ [field]: value, updated_at: new Date().toISOString() })
+        .eq('id', profile.id);
+      if (error) throw error;
+      await refreshProfile();
+    } catch (err: any) {
+      console.error('Error saving display preference:', err);
+      toast({ title: "Erreur", description: err.message || "Impossible d'enregistrer la préférence.", variant: "destructive" });
+    } finally {
+      setSavingField(null);
+    }
+  };
+
+  return (
+    <Card className="dark:bg-gray-800">
+      <CardHeader>
+        <CardTitle className="text-2xl">Affichage</CardTitle>
+        <CardDescription>
+          Choisissez le thème de l'interface et la façon dont les dates sont affichées.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="settings-theme" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+              Thème
+            </Label>
+            <Select value={theme || 'light'} onValueChange={setTheme}>
+              <SelectTrigger id="settings-theme" className="dark:bg-gray-700 dark:text-white dark:border-gray-600">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="dark:bg-gray-800 dark:text-white">
+                {THEME_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="settings-timezone" className="flex items-center text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+              Fuseau horaire
+              {savingField === 'timezone' && <Loader2 className="ml-2 h-3 w-3 animate-spin" />}
+            </Label>
+            <Select
+              value={timezone ?? BROWSER_TIMEZONE}
+              onValueChange={(value) => savePreference('timezone', value === BROWSER_TIMEZONE ? null : value)}
+              disabled={savingField !== null}
+            >
+              <SelectTrigger id="settings-timezone" className="dark:bg-gray-700 dark:text-white dark:border-gray-600">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="dark:bg-gray-800 dark:text-white">
+                <SelectItem value={BROWSER_TIMEZONE}>Celui de mon navigateur ({browserTimezone})</SelectItem>
+                {TIMEZONE_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+                {timezone && !TIMEZONE_OPTIONS.some(option => option.value === timezone) && (
+                  <SelectItem value={timezone}>{timezone}</SelectItem>
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="settings-date-format" className="flex items-center text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+              Format des dates
+              {savingField === 'date_format' && <Loader2 className="ml-2 h-3 w-3 animate-spin" />}
+            </Label>
+            <Select
+              value={dateFormat}
+              onValueChange={(value) => savePreference('date_format', value as DateFormatPreference)}
+              disabled={savingField !== null}
+            >
+              <SelectTrigger id="settings-date-format" className="dark:bg-gray-700 dark:text-white dark:border-gray-600">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="dark:bg-gray-800 dark:text-white">
+                {DATE_FORMAT_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Aperçu : <span className="font-medium text-gray-700 dark:text-gray-200">{formatDateTime(new Date(), { timezone, dateFormat })}</span>
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DisplayPreferencesCard;
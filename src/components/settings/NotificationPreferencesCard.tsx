@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { NotificationType, NOTIFICATION_TYPE_SETTINGS } from '@/constants/notifications';
+
+interface NotificationPreferencesCardProps {
+  userId: string;
+}
+
+// Types without a row in notification_preferences are enabled.
+const NotificationPreferencesCard = ({ userId }: NotificationPreferencesCardProps) => {
+  const { toast } = useToast();
+  const [disabledTypes, setDisabledTypes] = useState<Set<NotificationType>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [savingType, setSavingType] = useState<NotificationType | null>(null);
+
+  useEffect(() => {
+    const fetchPreferences = async () => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('notification_preferences')
+        .select('type, is_enabled')
+        .eq('user_id', userId);
+
+      if (error) {
+        console.error('Error fetching notification preferences:', error);
+        toast({ title: "Erreur", description: "Impossible de charger vos préférences de notification.", variant: "destructive" });
+      } else {
+        setDisabledTypes(new Set(
+          ((data as { type: NotificationType; is_enabled: boolean }[]) || [])
+            .filter(preference => !preference.is_enabled)
+            .map(preference => preference.type)
+        ));
+      }
+      setLoading(false);
+    };
+
+    fetchPreferences();
+  }, [userId, toast]);
+
+  const handleToggle = async (type: NotificationType, isEnabled: boolean) => {
+    setSavingType(type);
+    try {
+      const { error } = await supabase
+        .from('notification_preferences')
+        .upsert(
+          { user_id: userId, type, is_enabled: isEnabled, updated_at: new Date().toISOString() },
+          { onConflict: 'user_id,type' }
+        );
+      if (error) throw error;
+
+      setDisabledTypes(prev => {
+        const next = new Set(prev);
+        if (isEnabled) {
+          next.delete(type);
+        } else {
+          next.add(type);
+        }
+        return next;
+      });
+    } catch (err: any) {
+      console.error('Error saving notification preference:', err);
+      toast({ title: "Erreur", description: err.message || "Impossible d'enregistrer la préférence.", variant: "destructive" });
+    } finally {
+      setSavingType(null);
+    }
+  };
+
+  return (
+    <Card className="dark:bg-gray-800">
+      <CardHeader>
+        <CardTitle className="text-2xl">Notifications</CardTitle>
+        <CardDescription>
+          Choisissez les événements pour lesquels vous souhaitez être notifié.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            <p className="ml-3 text-gray-600 dark:text-gray-300">Chargement des préférences...</p>
+          </div>
+        ) : (
+          <div className="divide-y dark:divide-gray-700">
+            {NOTIFICATION_TYPE_SETTINGS.map(setting => (
+              <div key={setting.type} className="flex items-center justify-between gap-4 py-4">
+                <div>
+                  <Label htmlFor={`notification-${setting.type}`} className="text-base font-medium dark:text-gray-200">
+                    {setting.label}
+                  </Label>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">{setting.description}</p>
+                </div>
+                <Switch
+                  id={`notification-${setting.type}`}
+                  checked={!disabledTypes.has(setting.type)}
+                  onCheckedChange={(checked) => handleToggle(setting.type, checked)}
+                  disabled={savingType === setting.type}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default NotificationPreferencesCard;
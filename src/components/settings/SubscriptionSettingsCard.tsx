@@ -0,0 +1,114 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+interface SubscriptionSettingsCardProps {
+  userId: string;
+}
+
+interface SubscriptionSettings {
+  auto_follow_created_topics: boolean;
+  auto_follow_replied_topics: boolean;
+}
+
+type SubscriptionSettingKey = keyof SubscriptionSettings;
+
+const SETTINGS: { key: SubscriptionSettingKey; label: string; description: string }[] = [
+  { key: 'auto_follow_created_topics', label: 'Suivre mes sujets', description: 'Suivre automatiquement les sujets que vous créez.' },
+  { key: 'auto_follow_replied_topics', label: 'Suivre les sujets auxquels je réponds', description: 'Suivre automatiquement un sujet dès que vous y répondez.' },
+];
+
+// Without a row in forum_subscription_settings, both options are enabled.
+const DEFAULT_SETTINGS: SubscriptionSettings = {
+  auto_follow_created_topics: true,
+  auto_follow_replied_topics: true,
+};
+
+const SubscriptionSettingsCard = ({ userId }: SubscriptionSettingsCardProps) => {
+  const { toast } = useToast();
+  const [settings, setSettings] = useState<SubscriptionSettings>(DEFAULT_SETTINGS);
+  const [loading, setLoading] = useState(true);
+  const [savingKey, setSavingKey] = useState<SubscriptionSettingKey | null>(null);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('forum_subscription_settings')
+        .select('auto_follow_created_topics, auto_follow_replied_topics')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching subscription settings:', error);
+        toast({ title: "Erreur", description: "Impossible de charger vos préférences d'abonnement.", variant: "destructive" });
+      } else {
+        setSettings(data ?? DEFAULT_SETTINGS);
+      }
+      setLoading(false);
+    };
+
+    fetchSettings();
+  }, [userId, toast]);
+
+  const handleToggle = async (key: SubscriptionSettingKey, value: boolean) => {
+    const nextSettings = { ...settings, [key]: value };
+    setSavingKey(key);
+    try {
+      const { error } = await supabase
+        .from('forum_subscription_settings')
+        .upsert({ user_id: userId, ...nextSettings, updated_at: new Date().toISOString() }, { onConflict: 'user_id' });
+      if (error) throw error;
+      setSettings(nextSettings);
+    } catch (err: any) {
+      console.error('Error saving subscription settings:', err);
+      toast({ title: "Erreur", description: err.message || "Impossible d'enregistrer la préférence.", variant: "destructive" });
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  return (
+    <Card className="dark:bg-gray-800">
+      <CardHeader>
+        <CardTitle className="text-2xl">Abonnements automatiques</CardTitle>
+        <CardDescription>
+          Les sujets suivis vous notifient de chaque nouvelle réponse.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            <p className="ml-3 text-gray-600 dark:text-gray-300">Chargement des préférences...</p>
+          </div>
+        ) : (
+          <div className="divide-y dark:divide-gray-700">
+            {SETTINGS.map(setting => (
+              <div key={setting.key} className="flex items-center justify-between gap-4 py-4">
+                <div>
+                  <Label htmlFor={`subscription-${setting.key}`} className="text-base font-medium dark:text-gray-200">
+                    {setting.label}
+                  </Label>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">{setting.description}</p>
+                </div>
+                <Switch
+                  id={`subscription-${setting.key}`}
+                  checked={settings[setting.key]}
+                  onCheckedChange={(checked) => handleToggle(setting.key, checked)}
+                  disabled={savingKey !== null}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SubscriptionSettingsCard;
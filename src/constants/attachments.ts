@@ -0,0 +1,21 @@
+// Attachment limits, kept in sync with the `forum-attachments` bucket settings in the database.
+export const ATTACHMENTS_BUCKET = 'forum-attachments';
+
+export const ATTACHMENT_MAX_SIZE_BYTES = 10 * 1024 * 1024;
+
+// Number of files that can be attached to a single topic or reply.
+export const ATTACHMENTS_MAX_PER_MESSAGE = 5;
+
+export const ATTACHMENT_IMAGE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+export const ATTACHMENT_ALLOWED_MIME_TYPES = [
+  ...ATTACHMENT_IMAGE_MIME_TYPES,
+  'application/pdf',
+  'text/plain',
+  'application/vnd.oasis.opendocument.text',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+];
+
+// Lifetime of the signed URLs used to display and download attachments.
+export const ATTACHMENT_URL_EXPIRES_IN_SECONDS = 60 * 60;
@@ -0,0 +1,15 @@
+// Avatar limits, kept in sync with the `avatars` bucket settings in the database.
+export const AVATARS_BUCKET = 'avatars';
+
+// Size of the picture picked by the user, before it is cropped and resized in the browser.
+export const AVATAR_SOURCE_MAX_SIZE_BYTES = 10 * 1024 * 1024;
+
+export const AVATAR_SOURCE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+// Standard sizes, in pixels, generated for every avatar. `large` is the one stored in profiles.avatar_url.
+export const AVATAR_SIZES = {
+  large: 256,
+  small: 64,
+} as const;
+
+export type AvatarSize = keyof typeof AVATAR_SIZES;
@@ -0,0 +1,27 @@
+// Forum display settings
+
+// Maximum nesting level of threaded replies. Deeper answers are shown at this level.
+export const REPLY_THREAD_MAX_DEPTH = 4;
+
+// Number of topics per page in a category.
+export const TOPICS_PER_PAGE = 20;
+
+// Number of results per page on the search page.
+export const SEARCH_RESULTS_PER_PAGE = 20;
+
+// Number of options allowed in a poll.
+export const POLL_MIN_OPTIONS = 2;
+export const POLL_MAX_OPTIONS = 20;
+
+// Number of activity items per page on a profile.
+export const PROFILE_ACTIVITY_PER_PAGE = 10;
+
+// Number of members per page in the member directory.
+export const MEMBERS_PER_PAGE = 24;
+
+// Private messaging: conversations per inbox page, messages loaded at once, recipients per conversation
+// and message length, kept in sync with the checks of `start_conversation` and `private_messages`.
+export const CONVERSATIONS_PER_PAGE = 20;
+export const CONVERSATION_MESSAGES_PAGE_SIZE = 50;
+export const CONVERSATION_MAX_RECIPIENTS = 9;
+export const PRIVATE_MESSAGE_MAX_LENGTH = 5000;
@@ -0,0 +1,59 @@
+// Moderation action types, kept in sync with the `moderation_action_type` enum in the database.
+export type ModerationActionType =
+  | 'CONTENT_SOFT_DELETE'
+  | 'CONTENT_RESTORE'
+  | 'CONTENT_PERMANENT_DELETE'
+  | 'CONTENT_EDIT_MODERATOR'
+  | 'USER_WARN'
+  | 'USER_SUSPEND_TEMP'
+  | 'USER_BAN_PERMA'
+  | 'USER_SANCTION_LIFT'
+  | 'USER_ROLE_CHANGE'
+  | 'USER_PROFILE_EDIT_ADMIN'
+  | 'USER_ACCOUNT_APPROVE'
+  | 'USER_ACCOUNT_REJECT'
+  | 'USER_ACCOUNT_CREATE_ADMIN'
+  | 'USER_ACCOUNT_DELETE_ADMIN'
+  | 'REPORT_STATUS_CHANGE_APPROVE'
+  | 'REPORT_STATUS_CHANGE_REJECT'
+  | 'REPORT_STATUS_CHANGE_RESOLVED'
+  | 'REPORT_REOPEN'
+  | 'TOPIC_PIN'
+  | 'TOPIC_UNPIN'
+  | 'TOPIC_LOCK'
+  | 'TOPIC_UNLOCK';
+
+// Labels shown in the audit log.
+export const MODERATION_ACTION_LABELS: Record<ModerationActionType, string> = {
+  CONTENT_SOFT_DELETE: 'Contenu masqué',
+  CONTENT_RESTORE: 'Contenu restauré',
+  CONTENT_PERMANENT_DELETE: 'Contenu supprimé définitivement',
+  CONTENT_EDIT_MODERATOR: 'Contenu modifié par la modération',
+  USER_WARN: 'Avertissement',
+  USER_SUSPEND_TEMP: 'Suspension',
+  USER_BAN_PERMA: 'Bannissement',
+  USER_SANCTION_LIFT: 'Sanction levée',
+  USER_ROLE_CHANGE: 'Changement de rôle',
+  USER_PROFILE_EDIT_ADMIN: 'Profil modifié par un administrateur',
+  USER_ACCOUNT_APPROVE: 'Compte approuvé',
+  USER_ACCOUNT_REJECT: 'Compte refusé',
+  USER_ACCOUNT_CREATE_ADMIN: 'Compte créé par un administrateur',
+  USER_ACCOUNT_DELETE_ADMIN: 'Compte supprimé par un administrateur',
+  REPORT_STATUS_CHANGE_APPROVE: 'Signalement approuvé',
+  REPORT_STATUS_CHANGE_REJECT: 'Signalement rejeté',
+  REPORT_STATUS_CHANGE_RESOLVED: 'Signalement résolu',
+  REPORT_REOPEN: 'Signalement rouvert',
+  TOPIC_PIN: 'Sujet épinglé',
+  TOPIC_UNPIN: 'Sujet désépinglé',
+  TOPIC_LOCK: 'Sujet verrouillé',
+  TOPIC_UNLOCK: 'Sujet déverrouillé',
+};
+
+// Number of entries per page in the audit log.
+export const AUDIT_LOG_ENTRIES_PER_PAGE = 25;
+
+// Maximum number of entries written to a CSV export of the audit log.
+export const AUDIT_LOG_EXPORT_LIMIT = 10000;
+
+// Number of reports per page on the "Mes signalements" page.
+export const MY_REPORTS_PER_PAGE = 20;
@@ -0,0 +1,24 @@
+// Notification types, kept in sync with the `notification_type` enum in the database.
+export type NotificationType =
+  | 'REPLY_TO_TOPIC'
+  | 'REPLY_TO_REPLY'
+  | 'MENTION'
+  | 'REPORT_RESOLVED'
+  | 'ACCOUNT_APPROVED'
+  | 'NEW_REPLY_IN_FOLLOWED_TOPIC'
+  | 'NEW_TOPIC_IN_FOLLOWED_CATEGORY'
+  | 'USER_WARNED';
+
+// Labels shown in the notification settings.
+export const NOTIFICATION_TYPE_SETTINGS: { type: NotificationType; label: string; description: string }[] = [
+  { type: 'REPLY_TO_TOPIC', label: 'Réponses à mes sujets', description: 'Quelqu\'un répond à un sujet que vous avez créé.' },
+  { type: 'REPLY_TO_REPLY', label: 'Réponses à mes messages', description: 'Quelqu\'un répond directement à l\'une de vos réponses.' },
+  { type: 'NEW_REPLY_IN_FOLLOWED_TOPIC', label: 'Sujets suivis', description: 'Une nouvelle réponse est publiée dans un sujet que vous suivez.' },
+  { type: 'NEW_TOPIC_IN_FOLLOWED_CATEGORY', label: 'Catégories suivies', description: 'Un nouveau sujet est créé dans une catégorie que vous suivez.' },
+  { type: 'MENTION', label: 'Mentions', description: 'Quelqu\'un vous mentionne avec @votre_nom.' },
+  { type: 'REPORT_RESOLVED', label: 'Signalements traités', description: 'Un modérateur a traité l\'un de vos signalements.' },
+  { type: 'ACCOUNT_APPROVED', label: 'Validation du compte', description: 'Votre compte a été approuvé par un administrateur.' },
+];
+
+// Number of notifications per page on the notifications page.
+export const NOTIFICATIONS_PER_PAGE = 20;
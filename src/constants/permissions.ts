@@ -17,6 +17,7 @@ export enum Permission {
       MANAGE_REPORTS = "MANAGE_REPORTS",
       EDIT_ANY_POST = "EDIT_ANY_POST",
       EDIT_ANY_REPLY = "EDIT_ANY_REPLY",
+      MANAGE_TOPICS = "MANAGE_TOPICS", // Pin/unpin and lock/unlock topics
 
       // Audit Log
       VIEW_AUDIT_LOGS = "VIEW_AUDIT_LOGS",
@@ -51,6 +52,7 @@ export enum Permission {
         Permission.MANAGE_REPORTS, // Typically includes changing status
         Permission.EDIT_ANY_POST, // If moderators can edit content
         Permission.EDIT_ANY_REPLY, // If moderators can edit content
+        Permission.MANAGE_TOPICS,
         Permission.WARN_USER,
         Permission.VIEW_USER_SANCTIONS,
       ],
@@ -71,6 +73,7 @@ export enum Permission {
         Permission.MANAGE_REPORTS,
         Permission.EDIT_ANY_POST,
         Permission.EDIT_ANY_REPLY,
+        Permission.MANAGE_TOPICS,
         
         Permission.VIEW_AUDIT_LOGS,
 
@@ -0,0 +1,48 @@
+// Display preferences stored on the profile, kept in sync with the `profiles.date_format` check constraint.
+
+export type DateFormatPreference = 'long' | 'short' | 'iso';
+
+export const DEFAULT_DATE_FORMAT: DateFormatPreference = 'long';
+
+// date-fns patterns for each preference; `date` is used alone, `dateTime` when the time matters.
+export const DATE_FORMAT_PATTERNS: Record<DateFormatPreference, { date: string; dateTime: string }> = {
+  long: { date: 'PPP', dateTime: 'PPP p' },
+  short: { date: 'dd/MM/yyyy', dateTime: 'dd/MM/yyyy HH:mm' },
+  iso: { date: 'yyyy-MM-dd', dateTime: 'yyyy-MM-dd HH:mm' },
+};
+
+export const DATE_FORMAT_OPTIONS: { value: DateFormatPreference; label: string }[] = [
+  { value: 'long', label: 'Long (12 mars 2025 à 14:05)' },
+  { value: 'short', label: 'Court (12/03/2025 14:05)' },
+  { value: 'iso', label: 'ISO (2025-03-12 14:05)' },
+];
+
+// Time zones offered in the settings; members without a preference see dates in their browser's time zone.
+export const TIMEZONE_OPTIONS: { value: string; label: string }[] = [
+  { value: 'Europe/Paris', label: 'France métropolitaine (Paris)' },
+  { value: 'America/Guadeloupe', label: 'Guadeloupe' },
+  { value: 'America/Martinique', label: 'Martinique' },
+  { value: 'America/Cayenne', label: 'Guyane' },
+  { value: 'Indian/Reunion', label: 'La Réunion' },
+  { value: 'Indian/Mayotte', label: 'Mayotte' },
+  { value: 'America/Miquelon', label: 'Saint-Pierre-et-Miquelon' },
+  { value: 'Pacific/Noumea', label: 'Nouvelle-Calédonie' },
+  { value: 'Pacific/Tahiti', label: 'Polynésie française (Tahiti)' },
+  { value: 'Pacific/Wallis', label: 'Wallis-et-Futuna' },
+  { value: 'Europe/Brussels', label: 'Belgique (Bruxelles)' },
+  { value: 'Europe/Zurich', label: 'Suisse (Zurich)' },
+  { value: 'Europe/Luxembourg', label: 'Luxembourg' },
+  { value: 'America/Toronto', label: 'Québec / Ontario (Toronto)' },
+  { value: 'Africa/Algiers', label: 'Algérie (Alger)' },
+  { value: 'Africa/Casablanca', label: 'Maroc (Casablanca)' },
+  { value: 'Africa/Tunis', label: 'Tunisie (Tunis)' },
+  { value: 'Africa/Dakar', label: 'Sénégal (Dakar)' },
+  { value: 'Africa/Abidjan', label: "Côte d'Ivoire (Abidjan)" },
+  { value: 'UTC', label: 'UTC' },
+];
+
+export const THEME_OPTIONS: { value: string; label: string }[] = [
+  { value: 'light', label: 'Clair' },
+  { value: 'dark', label: 'Sombre' },
+  { value: 'system', label: 'Selon le système' },
+];
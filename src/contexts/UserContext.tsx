@@ -1,6 +1,7 @@
 import { createContext, useContext, useEffect, useState, ReactNode, useCallback } from 'react';
 import { supabase } from '@/lib/supabaseClient';
 import { Session, User } from '@supabase/supabase-js';
+import { DateFormatPreference } from '@/constants/preferences';
 
 // Define the structure of the profile data we expect
 export interface Profile {
@@ -13,6 +14,8 @@ export interface Profile {
   biography?: string | null; // Added
   signature?: string | null; // Added
   created_at?: string; // For "Member since"
+  timezone?: string | null; // NULL: browser time zone
+  date_format?: DateFormatPreference | null;
 }
 
 interface UserContextType {
@@ -21,6 +24,7 @@ interface UserContextType {
   profile: Profile | null;
   isLoadingAuth: boolean;
   signOut: () => Promise<void>;
+  refreshProfile: () => Promise<void>; // Reloads the profile after the member changes it
 }
 
 // Create a unique sentinel object to use as a default value
@@ -41,7 +45,7 @@ export const UserProvider = ({ children }: { children: ReactNode }) => {
     
     const queryPromise = supabase
       .from('profiles')
-      .select('id, username, full_name, avatar_url, status, role, biography, signature, created_at') // Added biography, signature, created_at
+      .select('id, username, full_name, avatar_url, status, role, biography, signature, created_at, timezone, date_format') // Added biography, signature, created_at
       .eq('id', userId)
       .single();
 
@@ -166,12 +170,19 @@ export const UserProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  const refreshProfile = useCallback(async () => {
+    if (!session?.user) return;
+    const refreshedProfile = await fetchProfile(session.user.id);
+    if (refreshedProfile) setProfile(refreshedProfile);
+  }, [session, fetchProfile]);
+
   const value = {
     session,
     user,
     profile,
     isLoadingAuth,
     signOut,
+    refreshProfile,
   };
 
   return <UserContext.Provider value={value}>{children}</UserContext.Provider>;
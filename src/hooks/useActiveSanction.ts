@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { useUser } from '@/contexts/UserContext';
+import { ActiveSanction } from '@/lib/sanctions';
+
+// Longest delay accepted by setTimeout; later expiries are checked again after this delay.
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+// Suspension or ban currently restricting the current user. Refreshed when a suspension reaches its end.
+export const useActiveSanction = () => {
+  const { user } = useUser();
+  const userId = user?.id;
+  const [activeSanction, setActiveSanction] = useState<ActiveSanction | null>(null);
+  // User whose sanction was last checked, so a newly signed in user is not let through before the check.
+  const [checkedUserId, setCheckedUserId] = useState<string | null | undefined>(undefined);
+
+  const refresh = useCallback(async () => {
+    if (!userId) {
+      setActiveSanction(null);
+      setCheckedUserId(null);
+      return;
+    }
+
+    const { data, error } = await supabase.rpc('get_my_active_sanction');
+
+    if (error) {
+      console.error('[useActiveSanction] Error fetching active sanction:', error);
+    } else {
+      setActiveSanction((data as ActiveSanction[] | null)?.[0] ?? null);
+    }
+    setCheckedUserId(userId);
+  }, [userId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    if (!activeSanction?.ends_at) return;
+    const delay = Math.min(Math.max(new Date(activeSanction.ends_at).getTime() - Date.now(), 0) + 1000, MAX_TIMEOUT_MS);
+    const timeout = setTimeout(refresh, delay);
+    return () => clearTimeout(timeout);
+  }, [activeSanction, refresh]);
+
+  return { activeSanction, isLoading: checkedUserId !== (userId ?? null), refresh };
+};
@@ -0,0 +1,19 @@
+import { useMemo } from 'react';
+import { useUser } from '@/contexts/UserContext';
+import { formatDate, formatDateTime, formatMonthYear, DatePreferences } from '@/lib/dateFormat';
+
+/** Date formatting helpers bound to the current member's time zone and date format preferences. */
+export const useDateFormatter = () => {
+  const { profile } = useUser();
+  const timezone = profile?.timezone ?? null;
+  const dateFormat = profile?.date_format ?? null;
+
+  return useMemo(() => {
+    const preferences: DatePreferences = { timezone, dateFormat };
+    return {
+      formatDate: (value: string | Date) => formatDate(value, preferences),
+      formatDateTime: (value: string | Date) => formatDateTime(value, preferences),
+      formatMonthYear: (value: string | Date) => formatMonthYear(value, preferences),
+    };
+  }, [timezone, dateFormat]);
+};
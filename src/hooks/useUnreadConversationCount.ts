@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { useUser } from '@/contexts/UserContext';
+
+// Number of conversations of the current user with unread messages, kept up to date through Supabase Realtime.
+export const useUnreadConversationCount = () => {
+  const { user } = useUser();
+  const userId = user?.id;
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const refresh = useCallback(async () => {
+    if (!userId) {
+      setUnreadCount(0);
+      return;
+    }
+
+    const { data, error } = await supabase.rpc('get_unread_conversation_count');
+
+    if (error) {
+      console.error('[useUnreadConversationCount] Error fetching unread count:', error);
+      return;
+    }
+    setUnreadCount(data ?? 0);
+  }, [userId]);
+
+  useEffect(() => {
+    refresh();
+    if (!userId) return;
+
+    // RLS only delivers messages of the user's own conversations.
+    const channel = supabase
+      .channel(`private_messages:${userId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'private_messages' },
+        () => { refresh(); }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, refresh]);
+
+  return { unreadCount, refresh };
+};
@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { useUser } from '@/contexts/UserContext';
+
+// Number of unread notifications of the current user, kept up to date through Supabase Realtime.
+export const useUnreadNotificationCount = () => {
+  const { user } = useUser();
+  const userId = user?.id;
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const refresh = useCallback(async () => {
+    if (!userId) {
+      setUnreadCount(0);
+      return;
+    }
+
+    const { count, error } = await supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('is_read', false);
+
+    if (error) {
+      console.error('[useUnreadNotificationCount] Error fetching unread count:', error);
+      return;
+    }
+    setUnreadCount(count ?? 0);
+  }, [userId]);
+
+  useEffect(() => {
+    refresh();
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`notifications:${userId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+        () => { refresh(); }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, refresh]);
+
+  return { unreadCount, refresh };
+};
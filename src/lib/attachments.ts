@@ -0,0 +1,89 @@
+import { supabase } from '@/lib/supabaseClient';
+import {
+  ATTACHMENTS_BUCKET,
+  ATTACHMENT_ALLOWED_MIME_TYPES,
+  ATTACHMENT_IMAGE_MIME_TYPES,
+  ATTACHMENT_MAX_SIZE_BYTES,
+} from '@/constants/attachments';
+
+// File uploaded to the bucket while a message is being written, not attached yet.
+export interface UploadedAttachment {
+  storagePath: string;
+  fileName: string;
+  mimeType: string;
+  sizeBytes: number;
+}
+
+// Row of public.forum_attachments.
+export interface ForumAttachment {
+  id: string;
+  post_id: string;
+  reply_id: string | null;
+  storage_path: string;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+}
+
+export const isImageAttachment = (mimeType: string) => ATTACHMENT_IMAGE_MIME_TYPES.includes(mimeType);
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} o`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} Ko`;
+  return `${(bytes / (1024 * 1024)).toFixed(1).replace('.', ',')} Mo`;
+};
+
+/** Returns an error message when the file cannot be uploaded, or null. */
+export const validateAttachmentFile = (file: File): string | null => {
+  if (!ATTACHMENT_ALLOWED_MIME_TYPES.includes(file.type)) {
+    return `« ${file.name} » n'est pas d'un type autorisé (images, PDF, texte ou documents Word/OpenDocument).`;
+  }
+  if (file.size > ATTACHMENT_MAX_SIZE_BYTES) {
+    return `« ${file.name} » dépasse la taille maximale de ${formatFileSize(ATTACHMENT_MAX_SIZE_BYTES)}.`;
+  }
+  return null;
+};
+
+// Object names are <user id>/<random id>/<file name>; the storage policies rely on the first folder.
+const buildStoragePath = (userId: string, fileName: string) => {
+  const safeName = fileName.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\w.-]+/g, '_').slice(-100) || 'fichier';
+  return `${userId}/${crypto.randomUUID()}/${safeName}`;
+};
+
+export const uploadAttachment = async (userId: string, file: File): Promise<UploadedAttachment> => {
+  const storagePath = buildStoragePath(userId, file.name);
+  const { error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .upload(storagePath, file, { contentType: file.type, upsert: false });
+  if (error) throw error;
+
+  return { storagePath, fileName: file.name, mimeType: file.type, sizeBytes: file.size };
+};
+
+export const removeUploadedAttachments = async (storagePaths: string[]) => {
+  if (storagePaths.length === 0) return;
+  const { error } = await supabase.storage.from(ATTACHMENTS_BUCKET).remove(storagePaths);
+  if (error) console.error('Error removing uploaded attachments:', error);
+};
+
+/** Attaches uploaded files to a published topic (replyId null) or reply. */
+export const attachUploadsToMessage = async (
+  userId: string,
+  postId: string,
+  replyId: string | null,
+  uploads: UploadedAttachment[]
+) => {
+  if (uploads.length === 0) return;
+  const { error } = await supabase.from('forum_attachments').insert(
+    uploads.map(upload => ({
+      post_id: postId,
+      reply_id: replyId,
+      user_id: userId,
+      storage_path: upload.storagePath,
+      file_name: upload.fileName,
+      mime_type: upload.mimeType,
+      size_bytes: upload.sizeBytes,
+    }))
+  );
+  if (error) throw error;
+};
@@ -0,0 +1,100 @@
+import { supabase } from '@/lib/supabaseClient';
+import {
+  AVATARS_BUCKET,
+  AVATAR_SIZES,
+  AVATAR_SOURCE_MAX_SIZE_BYTES,
+  AVATAR_SOURCE_MIME_TYPES,
+  AvatarSize,
+} from '@/constants/avatars';
+
+// Square area of the source image to keep, in natural pixels.
+export interface AvatarCrop {
+  x: number;
+  y: number;
+  size: number;
+}
+
+/** Returns an error message when the picked file cannot be used as an avatar, or null. */
+export const validateAvatarFile = (file: File): string | null => {
+  if (!AVATAR_SOURCE_MIME_TYPES.includes(file.type)) {
+    return "Format non pris en charge. Choisissez une image JPEG, PNG, WebP ou GIF.";
+  }
+  if (file.size > AVATAR_SOURCE_MAX_SIZE_BYTES) {
+    return "L'image est trop lourde (10 Mo maximum).";
+  }
+  return null;
+};
+
+const renderSquare = (image: HTMLImageElement, crop: AvatarCrop, size: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      reject(new Error("Impossible de préparer l'image."));
+      return;
+    }
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(image, crop.x, crop.y, crop.size, crop.size, 0, 0, size, size);
+    // Browsers without WebP encoding fall back to PNG, which the bucket also accepts.
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error("Impossible de préparer l'image."))),
+      'image/webp',
+      0.9
+    );
+  });
+
+const getStoragePath = (avatarUrl: string) => {
+  const bucketUrl = supabase.storage.from(AVATARS_BUCKET).getPublicUrl('').data.publicUrl;
+  return avatarUrl.startsWith(bucketUrl) ? avatarUrl.slice(bucketUrl.length).replace(/^\/+/, '') : null;
+};
+
+/**
+ * URL of an avatar at one of the standard sizes. Avatars set before uploads existed are external
+ * URLs and are returned unchanged.
+ */
+export const getAvatarUrl = (avatarUrl: string | null | undefined, size: AvatarSize = 'large') => {
+  if (!avatarUrl) return undefined;
+  if (size === 'large' || !getStoragePath(avatarUrl)) return avatarUrl;
+  return avatarUrl.replace(new RegExp(`/${AVATAR_SIZES.large}\\.(\\w+)$`), `/${AVATAR_SIZES[size]}.$1`);
+};
+
+/** Crops and resizes the image to every standard size, uploads them and returns the URL to store in the profile. */
+export const uploadAvatar = async (userId: string, image: HTMLImageElement, crop: AvatarCrop) => {
+  const folder = `${userId}/${crypto.randomUUID()}`;
+  const bucket = supabase.storage.from(AVATARS_BUCKET);
+  const uploadedPaths: string[] = [];
+
+  try {
+    for (const size of Object.values(AVATAR_SIZES)) {
+      const blob = await renderSquare(image, crop, size);
+      const path = `${folder}/${size}.${blob.type === 'image/webp' ? 'webp' : 'png'}`;
+      const { error } = await bucket.upload(path, blob, { contentType: blob.type, upsert: false });
+      if (error) throw error;
+      uploadedPaths.push(path);
+    }
+  } catch (err) {
+    if (uploadedPaths.length > 0) await bucket.remove(uploadedPaths);
+    throw err;
+  }
+
+  return bucket.getPublicUrl(uploadedPaths[0]).data.publicUrl;
+};
+
+/** Deletes every size of a previously uploaded avatar. External URLs are ignored. */
+export const removeAvatarFiles = async (avatarUrl: string | null | undefined) => {
+  const path = avatarUrl ? getStoragePath(avatarUrl) : null;
+  if (!path) return;
+
+  const folder = path.slice(0, path.lastIndexOf('/'));
+  const bucket = supabase.storage.from(AVATARS_BUCKET);
+  const { data: files, error: listError } = await bucket.list(folder);
+  if (listError) {
+    console.error('Error listing previous avatar files:', listError);
+    return;
+  }
+
+  const { error } = await bucket.remove((files || []).map(file => `${folder}/${file.name}`));
+  if (error) console.error('Error removing previous avatar files:', error);
+};
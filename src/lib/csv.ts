@@ -0,0 +1,24 @@
+type CsvValue = string | number | boolean | null | undefined;
+
+const escapeCsvValue = (value: CsvValue) => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** Builds RFC 4180 CSV text from a header row and data rows. */
+export const toCsv = (header: string[], rows: CsvValue[][]) =>
+  [header, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n');
+
+/** Downloads CSV text as a file. The BOM lets spreadsheet software detect UTF-8 accents. */
+export const downloadCsv = (filename: string, csv: string) => {
+  const blob = new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,45 @@
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { DATE_FORMAT_PATTERNS, DEFAULT_DATE_FORMAT, DateFormatPreference } from '@/constants/preferences';
+
+export interface DatePreferences {
+  timezone?: string | null;
+  dateFormat?: DateFormatPreference | null;
+}
+
+/**
+ * Returns a Date whose local fields (year, month, day, hours...) are the wall-clock time in `timeZone`,
+ * so date-fns can format it as if the browser were in that time zone.
+ */
+export const toZonedDate = (date: Date, timeZone?: string | null) => {
+  if (!timeZone) return date;
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    }).formatToParts(date);
+    const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+    return new Date(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'), date.getMilliseconds());
+  } catch {
+    // Unknown time zone: fall back to the browser's.
+    return date;
+  }
+};
+
+const patternsFor = (preferences: DatePreferences) =>
+  DATE_FORMAT_PATTERNS[preferences.dateFormat ?? DEFAULT_DATE_FORMAT] ?? DATE_FORMAT_PATTERNS[DEFAULT_DATE_FORMAT];
+
+export const formatDate = (value: string | Date, preferences: DatePreferences = {}) =>
+  format(toZonedDate(new Date(value), preferences.timezone), patternsFor(preferences).date, { locale: fr });
+
+export const formatDateTime = (value: string | Date, preferences: DatePreferences = {}) =>
+  format(toZonedDate(new Date(value), preferences.timezone), patternsFor(preferences).dateTime, { locale: fr });
+
+export const formatMonthYear = (value: string | Date, preferences: DatePreferences = {}) =>
+  format(toZonedDate(new Date(value), preferences.timezone), 'MMM yyyy', { locale: fr });
@@ -0,0 +1,26 @@
+// A quote is a Markdown blockquote whose first line links back to the quoted message:
+//
+//   > [**alice** a écrit :](/forum/sujet/<post id>#reply-<reply id>)
+//   >
+//   > quoted text
+//
+// It stays readable as plain Markdown, and MarkdownContent renders it as an attributed quote.
+
+export const QUOTE_SOURCE_HREF_REGEX = /^\/forum\/sujet\/[^/?#]+#(sujet|reply-[^/?#]+)$/;
+
+/** Anchor of the original post of a topic in PostDetailPage. Replies use `reply-<id>`. */
+export const TOPIC_POST_ANCHOR = 'sujet';
+
+interface QuoteSource {
+  postId: string;
+  replyId?: string | null;
+  authorUsername: string | null;
+  content: string;
+}
+
+export const buildQuoteMarkdown = ({ postId, replyId, authorUsername, content }: QuoteSource): string => {
+  const anchor = replyId ? `reply-${replyId}` : TOPIC_POST_ANCHOR;
+  const author = (authorUsername || 'Utilisateur inconnu').replace(/[\\[\]*_`]/g, (char) => `\\${char}`);
+  const quotedLines = content.trim().split('\n').map(line => (line ? `> ${line}` : '>'));
+  return [`> [**${author}** a écrit :](/forum/sujet/${postId}#${anchor})`, '>', ...quotedLines].join('\n') + '\n\n';
+};
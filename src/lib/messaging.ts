@@ -0,0 +1,56 @@
+import { supabase } from '@/lib/supabaseClient';
+
+// Member taking part in a conversation, as returned in `get_my_conversations().participants`.
+export interface ConversationMember {
+  id: string;
+  username: string | null;
+  avatar_url: string | null;
+}
+
+// Row of get_my_conversations().
+export interface ConversationSummary {
+  conversation_id: string;
+  title: string | null;
+  is_group: boolean;
+  last_message_at: string;
+  participants: ConversationMember[];
+  last_message_excerpt: string | null;
+  last_message_sender_id: string | null;
+  last_message_is_deleted: boolean | null;
+  unread_count: number;
+  total_count: number;
+}
+
+// Row of public.private_messages.
+export interface PrivateMessage {
+  id: string;
+  conversation_id: string;
+  sender_id: string | null;
+  content: string;
+  created_at: string;
+  is_deleted: boolean;
+}
+
+/** Group title when set, otherwise the usernames of the other participants. */
+export const getConversationTitle = (title: string | null, otherParticipants: ConversationMember[]) => {
+  if (title) return title;
+  const names = otherParticipants.map(member => member.username || 'Membre supprimé');
+  return names.length > 0 ? names.join(', ') : 'Conversation';
+};
+
+export const isMemberBlocked = async (userId: string, memberId: string) => {
+  const { count, error } = await supabase
+    .from('user_blocks')
+    .select('blocked_id', { count: 'exact', head: true })
+    .eq('blocker_id', userId)
+    .eq('blocked_id', memberId);
+  if (error) throw error;
+  return (count ?? 0) > 0;
+};
+
+export const setMemberBlocked = async (userId: string, memberId: string, blocked: boolean) => {
+  const { error } = blocked
+    ? await supabase.from('user_blocks').insert({ blocker_id: userId, blocked_id: memberId })
+    : await supabase.from('user_blocks').delete().eq('blocker_id', userId).eq('blocked_id', memberId);
+  if (error) throw error;
+};
@@ -0,0 +1,108 @@
+// Report statuses and reasons, kept in sync with the `report_status_type` and `report_reason_category_type` enums.
+export type ReportStatus = 'PENDING' | 'RESOLVED_APPROVED' | 'RESOLVED_ACTION_TAKEN' | 'RESOLVED_REJECTED';
+export type ResolvedReportStatus = Exclude<ReportStatus, 'PENDING'>;
+export type ReportReasonCategory = 'SPAM' | 'HARASSMENT' | 'OFFENSIVE_CONTENT' | 'RULES_VIOLATION' | 'OTHER';
+export type ReportedContentType = 'post' | 'reply' | 'message';
+
+// Row of get_resolved_reports().
+export interface ResolvedReport {
+  report_id: string;
+  report_created_at: string;
+  reporter_id: string | null;
+  reporter_username: string | null;
+  reported_content_type: ReportedContentType;
+  reported_content_id: string;
+  content_post_id: string | null;
+  content_title: string | null;
+  content_excerpt: string | null;
+  content_author_id: string | null;
+  content_author_username: string | null;
+  reason_category: ReportReasonCategory;
+  reason_details: string | null;
+  report_status: ResolvedReportStatus;
+  resolved_at: string | null;
+  resolved_by_user_id: string | null;
+  resolver_username: string | null;
+  moderator_notes: string | null;
+  resolution_message: string | null;
+  total_count: number;
+}
+
+// Row of get_content_reports().
+export interface ContentReport {
+  report_id: string;
+  report_created_at: string;
+  reporter_id: string | null;
+  reporter_username: string | null;
+  reason_category: ReportReasonCategory;
+  reason_details: string | null;
+  report_status: ReportStatus;
+  resolved_at: string | null;
+  resolver_username: string | null;
+  moderator_notes: string | null;
+  resolution_message: string | null;
+}
+
+// Row of get_my_reports(): a report filed by the current member, without moderator notes.
+export interface MyReport {
+  report_id: string;
+  report_created_at: string;
+  reported_content_type: ReportedContentType;
+  reported_content_id: string;
+  content_post_id: string | null;
+  content_title: string | null;
+  content_excerpt: string | null;
+  reason_category: ReportReasonCategory;
+  reason_details: string | null;
+  report_status: ReportStatus;
+  resolved_at: string | null;
+  resolution_message: string | null;
+  total_count: number;
+}
+
+// Row of get_pending_report_groups(): pending reports on one content.
+export interface PendingReportGroup {
+  reported_content_type: ReportedContentType;
+  reported_content_id: string;
+  content_post_id: string | null;
+  content_title: string | null;
+  content_excerpt: string | null;
+  content_author_id: string | null;
+  content_author_username: string | null;
+  report_count: number;
+  reporter_count: number;
+  reporter_usernames: string[];
+  reason_counts: Partial<Record<ReportReasonCategory, number>>;
+  first_reported_at: string;
+  last_reported_at: string;
+}
+
+export const RESOLVED_REPORT_STATUSES: ResolvedReportStatus[] = ['RESOLVED_APPROVED', 'RESOLVED_ACTION_TAKEN', 'RESOLVED_REJECTED'];
+
+export const REPORT_STATUS_LABELS: Record<ReportStatus, string> = {
+  PENDING: 'En attente',
+  RESOLVED_APPROVED: 'Approuvé (aucune action)',
+  RESOLVED_ACTION_TAKEN: 'Mesures prises',
+  RESOLVED_REJECTED: 'Rejeté',
+};
+
+export const REPORT_REASON_LABELS: Record<ReportReasonCategory, string> = {
+  SPAM: 'Spam',
+  HARASSMENT: 'Harcèlement',
+  OFFENSIVE_CONTENT: 'Contenu offensant',
+  RULES_VIOLATION: 'Violation des règles',
+  OTHER: 'Autre',
+};
+
+export const REPORTED_CONTENT_TYPE_LABELS: Record<ReportedContentType, string> = {
+  post: 'Sujet',
+  reply: 'Message',
+  message: 'Message privé',
+};
+
+/** Link to reported forum content, or null for private messages and replies whose topic is unknown. */
+export const getReportedContentLink = (contentType: ReportedContentType, contentId: string, postId?: string | null) => {
+  if (contentType === 'post') return `/forum/sujet/${contentId}`;
+  if (contentType === 'reply' && postId) return `/forum/sujet/${postId}#reply-${contentId}`;
+  return null;
+};
@@ -0,0 +1,42 @@
+// Sanction types, kept in sync with the `user_sanction_type` enum in the database.
+export type UserSanctionType = 'WARNING' | 'SUSPENSION' | 'BAN';
+
+// Row of public.user_sanctions, with the usernames of the members involved.
+export interface UserSanction {
+  id: string;
+  user_id: string;
+  sanction_type: UserSanctionType;
+  reason: string;
+  starts_at: string;
+  ends_at: string | null;
+  lifted_at: string | null;
+  lift_reason: string | null;
+  created_at: string;
+  user: { username: string | null } | null;
+  issuer: { username: string | null } | null;
+  lifter: { username: string | null } | null;
+}
+
+// Row of get_my_active_sanction().
+export interface ActiveSanction {
+  id: string;
+  sanction_type: Exclude<UserSanctionType, 'WARNING'>;
+  reason: string;
+  starts_at: string;
+  ends_at: string | null;
+}
+
+export const SANCTION_TYPE_LABELS: Record<UserSanctionType, string> = {
+  WARNING: 'Avertissement',
+  SUSPENSION: 'Suspension',
+  BAN: 'Bannissement',
+};
+
+/**
+ * Whether a suspension or ban still restricts the member. Suspensions expire on their own at `ends_at`,
+ * warnings never restrict anything.
+ */
+export const isSanctionActive = (sanction: Pick<UserSanction, 'sanction_type' | 'ends_at' | 'lifted_at'>, now = new Date()) =>
+  sanction.sanction_type !== 'WARNING' &&
+  !sanction.lifted_at &&
+  (!sanction.ends_at || new Date(sanction.ends_at) > now);
@@ -1,11 +1,16 @@
-import { useEffect, useState } from 'react';
-import { useParams, Link, useNavigate } from 'react-router-dom';
+import { useEffect, useState, useCallback } from 'react';
+import { useParams, Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { supabase } from '@/lib/supabaseClient';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { MessageSquarePlus, ArrowLeft, Loader2, AlertTriangle, FileText, UserCircle, CalendarDays } from 'lucide-react';
+import { MessageSquarePlus, ArrowLeft, Loader2, AlertTriangle, FileText, UserCircle, CalendarDays, MessageSquare, Pin, Lock, CheckCheck, Bell, BellOff } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
 import { formatDistanceToNow } from 'date-fns';
 import { fr } from 'date-fns/locale';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import PaginationBar from '@/components/common/PaginationBar';
+import { TOPICS_PER_PAGE } from '@/constants/forum';
 
 interface ForumCategory {
   id: string;
@@ -22,6 +27,15 @@ interface ForumPostEntry { // Renamed from ForumPost to avoid confusion with det
   profiles: { 
     username: string | null;
   } | null;
+  is_pinned: boolean;
+  is_locked: boolean;
+  reply_count: number;
+  is_unread: boolean;
+  last_reply: {
+    id: string;
+    created_at: string;
+    username: string | null;
+  } | null;
 }
 
 interface RpcPostData {
@@ -30,15 +44,48 @@ interface RpcPostData {
   post_created_at: string;
   post_user_id: string;
   author_username: string | null;
+  is_pinned: boolean;
+  is_locked: boolean;
+  reply_count: number;
+  last_reply_id: string | null;
+  last_reply_at: string | null;
+  last_reply_user_id: string | null;
+  last_reply_username: string | null;
+  last_activity_at: string;
+  is_unread: boolean;
+  total_count: number;
 }
 
+type TopicSort = 'newest' | 'last_activity' | 'most_replies';
+
+const SORT_OPTIONS: { value: TopicSort; label: string }[] = [
+  { value: 'newest', label: 'Plus récents' },
+  { value: 'last_activity', label: 'Dernière activité' },
+  { value: 'most_replies', label: 'Plus de réponses' },
+];
+
+const isTopicSort = (value: string | null): value is TopicSort =>
+  SORT_OPTIONS.some(option => option.value === value);
+
 const CategoryPostsPage = () => {
   const { categorySlug } = useParams<{ categorySlug: string }>();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [category, setCategory] = useState<ForumCategory | null>(null);
   const [posts, setPosts] = useState<ForumPostEntry[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
   const [loading, setLoading] = useState(true);
+  const [postsLoading, setPostsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [isMarkingRead, setIsMarkingRead] = useState(false);
+  const [isFollowing, setIsFollowing] = useState(false);
+  const [isUpdatingFollow, setIsUpdatingFollow] = useState(false);
+  const { toast } = useToast();
+
+  const currentPage = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+  const sortParam = searchParams.get('sort');
+  const currentSort: TopicSort = isTopicSort(sortParam) ? sortParam : 'newest';
+  const totalPages = Math.max(1, Math.ceil(totalCount / TOPICS_PER_PAGE));
 
   useEffect(() => {
     if (!categorySlug) {
@@ -47,7 +94,7 @@ const CategoryPostsPage = () => {
       return;
     }
 
-    const fetchCategoryAndPosts = async () => {
+    const fetchCategory = async () => {
       setLoading(true);
       setError(null);
       try {
@@ -61,34 +108,177 @@ const CategoryPostsPage = () => {
         if (!categoryData) throw new Error("Catégorie non trouvée.");
         setCategory(categoryData);
 
-        const { data: rpcData, error: rpcError } = await supabase
-          .rpc('get_category_posts_with_author', { p_category_slug: categorySlug });
+        // RLS only returns the caller's own subscriptions.
+        const { data: subscriptionData, error: subscriptionError } = await supabase
+          .from('forum_category_subscriptions')
+          .select('category_id')
+          .eq('category_id', categoryData.id)
+          .maybeSingle();
 
-        if (rpcError) {
-          console.error('Supabase RPC error details:', rpcError);
-          throw rpcError;
+        if (subscriptionError) {
+          console.error('Error fetching category subscription:', subscriptionError);
+        } else {
+          setIsFollowing(!!subscriptionData);
         }
-        
-        const transformedPosts: ForumPostEntry[] = (rpcData as RpcPostData[] || []).map(p => ({
-          id: p.post_id,
-          title: p.post_title,
-          created_at: p.post_created_at,
-          user_id: p.post_user_id,
-          profiles: { username: p.author_username }
-        }));
-        setPosts(transformedPosts);
-
       } catch (err: any) {
-        console.error('Error fetching category or posts:', err);
+        console.error('Error fetching category:', err);
         setError(err.message || 'Impossible de charger les données de la catégorie. Veuillez réessayer plus tard.');
       } finally {
         setLoading(false);
       }
     };
 
-    fetchCategoryAndPosts();
+    fetchCategory();
   }, [categorySlug]);
 
+  const fetchPosts = useCallback(async () => {
+    if (!categorySlug) return;
+
+    setPostsLoading(true);
+    try {
+      const { data: rpcData, error: rpcError } = await supabase
+        .rpc('get_category_posts_with_author', {
+          p_category_slug: categorySlug,
+          p_page: currentPage,
+          p_limit: TOPICS_PER_PAGE,
+          p_sort: currentSort,
+        });
+
+      if (rpcError) {
+        console.error('Supabase RPC error details:', rpcError);
+        throw rpcError;
+      }
+
+      const rows = (rpcData as RpcPostData[]) || [];
+
+      // Past the last page (topics deleted since, or a hand-edited URL): the empty page carries no
+      // total_count, so read it from the first page and go to the last valid page instead.
+      if (rows.length === 0 && currentPage > 1) {
+        const { data: firstPageData, error: firstPageError } = await supabase
+          .rpc('get_category_posts_with_author', {
+            p_category_slug: categorySlug,
+            p_page: 1,
+            p_limit: 1,
+            p_sort: currentSort,
+          });
+        if (firstPageError) throw firstPageError;
+        const firstRows = (firstPageData as RpcPostData[]) || [];
+        const total = firstRows.length > 0 ? Number(firstRows[0].total_count) : 0;
+        const lastPage = Math.max(1, Math.ceil(total / TOPICS_PER_PAGE));
+        if (lastPage < currentPage) {
+          const next = new URLSearchParams(searchParams);
+          if (lastPage > 1) {
+            next.set('page', String(lastPage));
+          } else {
+            next.delete('page');
+          }
+          setSearchParams(next, { replace: true });
+          return;
+        }
+      }
+
+      const transformedPosts: ForumPostEntry[] = rows.map(p => ({
+        id: p.post_id,
+        title: p.post_title,
+        created_at: p.post_created_at,
+        user_id: p.post_user_id,
+        profiles: { username: p.author_username },
+        is_pinned: p.is_pinned,
+        is_locked: p.is_locked,
+        reply_count: Number(p.reply_count),
+        is_unread: p.is_unread,
+        last_reply: p.last_reply_id && p.last_reply_at
+          ? { id: p.last_reply_id, created_at: p.last_reply_at, username: p.last_reply_username }
+          : null,
+      }));
+      setPosts(transformedPosts);
+      setTotalCount(rows.length > 0 ? Number(rows[0].total_count) : 0);
+    } catch (err: any) {
+      console.error('Error fetching posts:', err);
+      setError(err.message || 'Impossible de charger les sujets de la catégorie. Veuillez réessayer plus tard.');
+    } finally {
+      setPostsLoading(false);
+    }
+  }, [categorySlug, currentPage, currentSort, searchParams, setSearchParams]);
+
+  useEffect(() => {
+    fetchPosts();
+  }, [fetchPosts]);
+
+  const updateSearchParams = (updates: { page?: number; sort?: TopicSort }) => {
+    const next = new URLSearchParams(searchParams);
+    if (updates.page !== undefined) {
+      if (updates.page > 1) {
+        next.set('page', String(updates.page));
+      } else {
+        next.delete('page');
+      }
+    }
+    if (updates.sort !== undefined) {
+      if (updates.sort !== 'newest') {
+        next.set('sort', updates.sort);
+      } else {
+        next.delete('sort');
+      }
+    }
+    setSearchParams(next);
+  };
+
+  const getPageHref = (page: number) => {
+    const next = new URLSearchParams(searchParams);
+    if (page > 1) {
+      next.set('page', String(page));
+    } else {
+      next.delete('page');
+    }
+    const query = next.toString();
+    return query ? `?${query}` : '?';
+  };
+
+  const handlePageChange = (page: number) => {
+    updateSearchParams({ page });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleMarkCategoryRead = async () => {
+    if (!category) return;
+    setIsMarkingRead(true);
+    try {
+      const { error: rpcError } = await supabase.rpc('mark_category_read', { p_category_id: category.id });
+      if (rpcError) throw rpcError;
+      setPosts(prev => prev.map(post => ({ ...post, is_unread: false })));
+      toast({ title: "Catégorie marquée comme lue", description: `Tous les sujets de « ${category.name} » sont désormais marqués comme lus.`, className: "bg-green-500 text-white dark:bg-green-700" });
+    } catch (err: any) {
+      console.error('Error marking category as read:', err);
+      toast({ title: "Erreur", description: err.message || "Impossible de marquer la catégorie comme lue.", variant: "destructive" });
+    } finally {
+      setIsMarkingRead(false);
+    }
+  };
+
+  const handleToggleFollow = async () => {
+    if (!category) return;
+    const newValue = !isFollowing;
+
+    setIsUpdatingFollow(true);
+    try {
+      const { error: rpcError } = await supabase.rpc('set_category_subscription', { p_category_id: category.id, p_subscribed: newValue });
+      if (rpcError) throw rpcError;
+
+      setIsFollowing(newValue);
+      toast({
+        title: "Succès",
+        description: newValue ? "Vous suivez cette catégorie : vous serez notifié des nouveaux sujets." : "Vous ne suivez plus cette catégorie.",
+        className: "bg-green-500 text-white dark:bg-green-700",
+      });
+    } catch (err: any) {
+      console.error('Error updating category subscription:', err);
+      toast({ title: "Erreur", description: err.message || "Impossible de mettre à jour l'abonnement.", variant: "destructive" });
+    } finally {
+      setIsUpdatingFollow(false);
+    }
+  };
+
   const handleCreatePost = () => {
     if (categorySlug) {
       navigate(`/forum/nouveau-sujet/${categorySlug}`);
@@ -154,17 +344,55 @@ const CategoryPostsPage = () => {
               </p>
             )}
           </div>
-          <Button 
-            onClick={handleCreatePost}
-            className="bg-green-600 hover:bg-green-700 dark:bg-green-500 dark:hover:bg-green-600"
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={handleToggleFollow} disabled={isUpdatingFollow}>
+              {isFollowing ? <BellOff className="mr-2 h-5 w-5" /> : <Bell className="mr-2 h-5 w-5" />}
+              {isFollowing ? 'Ne plus suivre' : 'Suivre la catégorie'}
+            </Button>
+            <Button 
+              onClick={handleCreatePost}
+              className="bg-green-600 hover:bg-green-700 dark:bg-green-500 dark:hover:bg-green-600"
+            >
+              <MessageSquarePlus className="mr-2 h-5 w-5" />
+              Nouveau Sujet
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2 mb-4">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {totalCount} sujet{totalCount > 1 ? 's' : ''}
+          {totalPages > 1 && ` • Page ${currentPage} sur ${totalPages}`}
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            variant="outline"
+            onClick={handleMarkCategoryRead}
+            disabled={isMarkingRead || postsLoading}
           >
-            <MessageSquarePlus className="mr-2 h-5 w-5" />
-            Nouveau Sujet
+            {isMarkingRead ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCheck className="mr-2 h-4 w-4" />}
+            Tout marquer comme lu
           </Button>
+          <Select value={currentSort} onValueChange={(value) => updateSearchParams({ sort: value as TopicSort, page: 1 })}>
+            <SelectTrigger className="w-[200px] dark:bg-gray-800 dark:text-white dark:border-gray-600">
+              <SelectValue placeholder="Trier par" />
+            </SelectTrigger>
+            <SelectContent className="dark:bg-gray-800 dark:text-white">
+              {SORT_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
-      </header>
+      </div>
 
-      {posts.length === 0 ? (
+      {postsLoading ? (
+        <div className="flex justify-center items-center py-10">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
+          <p className="ml-3 text-gray-500 dark:text-gray-400">Chargement des sujets...</p>
+        </div>
+      ) : posts.length === 0 ? (
         <div className="text-center py-10 border-2 border-dashed border-gray-300 dark:border-gray-700 rounded-lg">
           <FileText className="mx-auto h-16 w-16 text-gray-400 dark:text-gray-500 mb-4" />
           <p className="text-xl text-gray-600 dark:text-gray-300">Aucun sujet dans cette catégorie pour le moment.</p>
@@ -173,34 +401,67 @@ const CategoryPostsPage = () => {
       ) : (
         <div className="space-y-4">
           {posts.map((post) => (
-            <Card key={post.id} className="hover:shadow-lg transition-shadow duration-200 ease-in-out dark:bg-gray-800">
-              <CardContent className="p-4 md:p-6">
-                <Link 
-                  to={`/forum/sujet/${post.id}`} // Updated link to post detail page
-                  className="block mb-1"
-                >
-                  <h3 className="text-xl font-semibold text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-500 transition-colors">
-                    {post.title}
-                  </h3>
-                </Link>
-                <div className="flex items-center text-xs text-gray-500 dark:text-gray-400 space-x-3">
-                  <div className="flex items-center">
-                    <UserCircle className="h-4 w-4 mr-1" />
-                    {/* Consider linking to profile: <Link to={`/profil/${post.user_id}`}>{post.profiles?.username || 'Utilisateur inconnu'}</Link> */}
-                    <span>{post.profiles?.username || 'Utilisateur inconnu'}</span>
-                  </div>
-                  <div className="flex items-center">
-                    <CalendarDays className="h-4 w-4 mr-1" />
-                    <span>
-                      {formatDistanceToNow(new Date(post.created_at), { addSuffix: true, locale: fr })}
-                    </span>
+            <Card key={post.id} className={`hover:shadow-lg transition-shadow duration-200 ease-in-out dark:bg-gray-800 ${post.is_pinned ? 'border-blue-300 bg-blue-50/50 dark:border-blue-800 dark:bg-blue-950/30' : ''}`}>
+              <CardContent className="p-4 md:p-6 flex flex-col md:flex-row md:items-center gap-3">
+                <div className="flex-grow min-w-0">
+                  <Link 
+                    to={post.is_unread ? `/forum/sujet/${post.id}#non-lu` : `/forum/sujet/${post.id}`} // Unread topics open at the first unread message
+                    className="block mb-1"
+                  >
+                    <h3 className={`text-xl ${post.is_unread ? 'font-bold' : 'font-medium'} text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-500 transition-colors flex items-center gap-2`}>
+                      {post.is_pinned && <Pin className="h-4 w-4 flex-shrink-0" aria-label="Sujet épinglé" />}
+                      {post.is_locked && <Lock className="h-4 w-4 flex-shrink-0 text-gray-500" aria-label="Sujet verrouillé" />}
+                      <span>{post.title}</span>
+                      {post.is_unread && (
+                        <Badge className="flex-shrink-0 bg-blue-600 hover:bg-blue-600 dark:bg-blue-500">Nouveau</Badge>
+                      )}
+                    </h3>
+                  </Link>
+                  <div className="flex items-center text-xs text-gray-500 dark:text-gray-400 space-x-3">
+                    <div className="flex items-center">
+                      <UserCircle className="h-4 w-4 mr-1" />
+                      {/* Consider linking to profile: <Link to={`/profil/${post.user_id}`}>{post.profiles?.username || 'Utilisateur inconnu'}</Link> */}
+                      <span>{post.profiles?.username || 'Utilisateur inconnu'}</span>
+                    </div>
+                    <div className="flex items-center">
+                      <CalendarDays className="h-4 w-4 mr-1" />
+                      <span>
+                        {formatDistanceToNow(new Date(post.created_at), { addSuffix: true, locale: fr })}
+                      </span>
+                    </div>
+                    <div className="flex items-center">
+                      <MessageSquare className="h-4 w-4 mr-1" />
+                      <span>{post.reply_count} réponse{post.reply_count > 1 ? 's' : ''}</span>
+                    </div>
                   </div>
                 </div>
+                <div className="md:w-56 flex-shrink-0 text-xs text-gray-500 dark:text-gray-400 md:text-right">
+                  {post.last_reply ? (
+                    <Link to={`/forum/sujet/${post.id}#reply-${post.last_reply.id}`} className="hover:underline" title="Aller à la dernière réponse">
+                      <span className="block">
+                        Dernière réponse {formatDistanceToNow(new Date(post.last_reply.created_at), { addSuffix: true, locale: fr })}
+                      </span>
+                      <span className="block">par {post.last_reply.username || 'Utilisateur inconnu'}</span>
+                    </Link>
+                  ) : (
+                    <span className="italic">Aucune réponse</span>
+                  )}
+                </div>
               </CardContent>
             </Card>
           ))}
         </div>
       )}
+
+      {!postsLoading && (
+        <PaginationBar
+          currentPage={currentPage}
+          totalPages={totalPages}
+          onPageChange={handlePageChange}
+          getPageHref={getPageHref}
+          className="mt-8"
+        />
+      )}
     </div>
   );
 };
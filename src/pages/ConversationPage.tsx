@@ -0,0 +1,378 @@
+import { useEffect, useRef, useState, useCallback, FormEvent, KeyboardEvent } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { supabase } from '@/lib/supabaseClient';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { ArrowLeft, Loader2, AlertTriangle, Send, Flag, Ban, Users } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useUser } from '@/contexts/UserContext';
+import { useDateFormatter } from '@/hooks/useDateFormatter';
+import ReportModal from '@/components/modals/ReportModal';
+import MarkdownContent from '@/components/forum/MarkdownContent';
+import { ConversationMember, PrivateMessage, getConversationTitle, isMemberBlocked, setMemberBlocked } from '@/lib/messaging';
+import { getAvatarUrl } from '@/lib/avatars';
+import { CONVERSATION_MESSAGES_PAGE_SIZE, PRIVATE_MESSAGE_MAX_LENGTH } from '@/constants/forum';
+
+interface Conversation {
+  id: string;
+  title: string | null;
+  is_group: boolean;
+}
+
+// Row of conversation_participants joined with the participant's profile.
+interface ParticipantRow {
+  user_id: string;
+  profile: { id: string; username: string | null; avatar_url: string | null } | null;
+}
+
+const MESSAGE_COLUMNS = 'id, conversation_id, sender_id, content, created_at, is_deleted';
+
+const ConversationPage = () => {
+  const { conversationId } = useParams<{ conversationId: string }>();
+  const { toast } = useToast();
+  const { user } = useUser();
+  const { formatDateTime } = useDateFormatter();
+  const userId = user?.id;
+
+  const [conversation, setConversation] = useState<Conversation | null>(null);
+  const [members, setMembers] = useState<ConversationMember[]>([]);
+  const [messages, setMessages] = useState<PrivateMessage[]>([]);
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [newMessage, setNewMessage] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [isBlocked, setIsBlocked] = useState(false);
+  const [isUpdatingBlock, setIsUpdatingBlock] = useState(false);
+  const [reportedMessageId, setReportedMessageId] = useState<string | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const otherMembers = members.filter(member => member.id !== userId);
+  // One to one conversations only: in groups, blocking just hides the member's messages.
+  const correspondent = conversation && !conversation.is_group ? otherMembers[0] ?? null : null;
+  const membersById = new Map(members.map(member => [member.id, member]));
+
+  const markAsRead = useCallback(async () => {
+    if (!conversationId) return;
+    const { error: rpcError } = await supabase.rpc('mark_conversation_read', { p_conversation_id: conversationId });
+    if (rpcError) console.error('Error marking conversation as read:', rpcError);
+  }, [conversationId]);
+
+  const fetchConversation = useCallback(async () => {
+    if (!conversationId || !userId) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const { data: conversationData, error: conversationError } = await supabase
+        .from('conversations')
+        .select('id, title, is_group')
+        .eq('id', conversationId)
+        .maybeSingle();
+      if (conversationError) throw conversationError;
+      if (!conversationData) {
+        setConversation(null);
+        setError("Cette conversation n'existe pas ou vous n'y participez pas.");
+        return;
+      }
+
+      const { data: participantData, error: participantError } = await supabase
+        .from('conversation_participants')
+        .select('user_id, profile:profiles(id, username, avatar_url)')
+        .eq('conversation_id', conversationId);
+      if (participantError) throw participantError;
+
+      const { data: messageData, error: messageError } = await supabase
+        .from('private_messages')
+        .select(MESSAGE_COLUMNS)
+        .eq('conversation_id', conversationId)
+        .order('created_at', { ascending: false })
+        .limit(CONVERSATION_MESSAGES_PAGE_SIZE);
+      if (messageError) throw messageError;
+
+      const loadedMembers: ConversationMember[] = ((participantData as unknown as ParticipantRow[]) || []).map(participant => ({
+        id: participant.user_id,
+        username: participant.profile?.username ?? null,
+        avatar_url: participant.profile?.avatar_url ?? null,
+      }));
+
+      setConversation(conversationData as Conversation);
+      setMembers(loadedMembers);
+      setMessages(((messageData as PrivateMessage[]) || []).reverse());
+      setHasOlderMessages((messageData || []).length === CONVERSATION_MESSAGES_PAGE_SIZE);
+
+      const other = loadedMembers.find(member => member.id !== userId);
+      setIsBlocked(!conversationData.is_group && other ? await isMemberBlocked(userId, other.id) : false);
+
+      markAsRead();
+    } catch (err: any) {
+      console.error('Error fetching conversation:', err);
+      setError(err.message || 'Impossible de charger la conversation. Veuillez réessayer plus tard.');
+    } finally {
+      setLoading(false);
+    }
+  }, [conversationId, userId, markAsRead]);
+
+  useEffect(() => {
+    fetchConversation();
+  }, [fetchConversation]);
+
+  useEffect(() => {
+    if (!conversationId) return;
+
+    const channel = supabase
+      .channel(`conversation:${conversationId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'private_messages', filter: `conversation_id=eq.${conversationId}` },
+        (payload) => {
+          const message = payload.new as PrivateMessage;
+          setMessages(prev => (prev.some(m => m.id === message.id) ? prev : [...prev, message]));
+          if (message.sender_id !== userId) markAsRead();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [conversationId, userId, markAsRead]);
+
+  const lastMessageId = messages[messages.length - 1]?.id;
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [lastMessageId]);
+
+  const loadOlderMessages = async () => {
+    if (!conversationId || messages.length === 0) return;
+    setIsLoadingOlder(true);
+    try {
+      const { data, error: messageError } = await supabase
+        .from('private_messages')
+        .select(MESSAGE_COLUMNS)
+        .eq('conversation_id', conversationId)
+        .lt('created_at', messages[0].created_at)
+        .order('created_at', { ascending: false })
+        .limit(CONVERSATION_MESSAGES_PAGE_SIZE);
+      if (messageError) throw messageError;
+
+      const older = ((data as PrivateMessage[]) || []).reverse();
+      setMessages(prev => [...older, ...prev]);
+      setHasOlderMessages(older.length === CONVERSATION_MESSAGES_PAGE_SIZE);
+    } catch (err: any) {
+      console.error('Error loading older messages:', err);
+      toast({ title: "Erreur", description: err.message || "Impossible de charger les messages précédents.", variant: "destructive" });
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  };
+
+  const handleSend = async (e?: FormEvent) => {
+    e?.preventDefault();
+    const content = newMessage.trim();
+    if (!conversationId || !userId || !content) return;
+
+    setIsSending(true);
+    try {
+      const { data: messageId, error: rpcError } = await supabase.rpc('send_private_message', {
+        p_conversation_id: conversationId,
+        p_content: content,
+      });
+      if (rpcError) throw rpcError;
+
+      setMessages(prev => (prev.some(m => m.id === messageId) ? prev : [
+        ...prev,
+        { id: messageId, conversation_id: conversationId, sender_id: userId, content, created_at: new Date().toISOString(), is_deleted: false },
+      ]));
+      setNewMessage('');
+    } catch (err: any) {
+      console.error('Error sending private message:', err);
+      toast({ title: "Erreur", description: err.message || "Impossible d'envoyer le message.", variant: "destructive" });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleComposerKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  const handleToggleBlock = async () => {
+    if (!userId || !correspondent) return;
+    setIsUpdatingBlock(true);
+    try {
+      await setMemberBlocked(userId, correspondent.id, !isBlocked);
+      setIsBlocked(!isBlocked);
+      toast({
+        title: isBlocked ? "Membre débloqué" : "Membre bloqué",
+        description: isBlocked
+          ? `${correspondent.username} peut de nouveau vous écrire.`
+          : `${correspondent.username} ne peut plus vous écrire et ses messages vous sont masqués.`,
+        className: "bg-green-500 text-white dark:bg-green-700",
+      });
+      if (isBlocked) fetchConversation();
+    } catch (err: any) {
+      console.error('Error updating block:', err);
+      toast({ title: "Erreur", description: err.message || "Impossible de modifier le blocage.", variant: "destructive" });
+    } finally {
+      setIsUpdatingBlock(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-10">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
+        <p className="ml-3 text-gray-500 dark:text-gray-400">Chargement de la conversation...</p>
+      </div>
+    );
+  }
+
+  if (error || !conversation) {
+    return (
+      <div className="container mx-auto py-8 px-4 md:px-6">
+        <Card className="bg-red-50 border-red-500 dark:bg-red-900/30 dark:border-red-700">
+          <CardHeader>
+            <div className="flex items-center text-red-600 dark:text-red-400">
+              <AlertTriangle className="h-6 w-6 mr-2" />
+              <CardTitle>Erreur</CardTitle>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <p className="text-red-700 dark:text-red-300">{error || 'Conversation introuvable.'}</p>
+            <Button asChild variant="outline" className="mt-4">
+              <Link to="/messages"><ArrowLeft className="mr-2 h-4 w-4" /> Retour aux messages</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4 md:px-6 max-w-4xl">
+      <Link to="/messages" className="inline-flex items-center text-sm text-blue-600 hover:underline dark:text-blue-400 mb-4">
+        <ArrowLeft className="mr-1 h-4 w-4" /> Retour aux messages
+      </Link>
+
+      <Card className="dark:bg-gray-800">
+        <CardHeader className="border-b dark:border-gray-700">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <div className="min-w-0">
+              <CardTitle className="text-2xl text-gray-800 dark:text-white flex items-center">
+                {conversation.is_group && <Users className="mr-2 h-6 w-6 flex-shrink-0 text-blue-600 dark:text-blue-400" />}
+                <span className="truncate">{getConversationTitle(conversation.title, otherMembers)}</span>
+              </CardTitle>
+              <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                Avec{' '}
+                {otherMembers.map((member, index) => (
+                  <span key={member.id}>
+                    {index > 0 && ', '}
+                    <Link to={`/profil/${member.id}`} className="hover:underline">{member.username || 'Membre supprimé'}</Link>
+                  </span>
+                ))}
+              </p>
+            </div>
+            {correspondent && (
+              <Button variant="outline" size="sm" onClick={handleToggleBlock} disabled={isUpdatingBlock} className="flex-shrink-0">
+                {isUpdatingBlock ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Ban className="mr-2 h-4 w-4" />}
+                {isBlocked ? 'Débloquer' : 'Bloquer'}
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="p-4 md:p-6 space-y-4">
+          {hasOlderMessages && (
+            <div className="text-center">
+              <Button variant="ghost" size="sm" onClick={loadOlderMessages} disabled={isLoadingOlder}>
+                {isLoadingOlder && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Charger les messages précédents
+              </Button>
+            </div>
+          )}
+
+          {messages.length === 0 && (
+            <p className="text-center text-gray-500 dark:text-gray-400 py-6">Aucun message à afficher.</p>
+          )}
+
+          {messages.map(message => {
+            const isOwn = message.sender_id === userId;
+            const sender = message.sender_id ? membersById.get(message.sender_id) : undefined;
+            return (
+              <div key={message.id} className={`flex gap-3 ${isOwn ? 'flex-row-reverse' : ''}`}>
+                <Avatar className="h-8 w-8 flex-shrink-0">
+                  <AvatarImage src={getAvatarUrl(sender?.avatar_url, 'small')} alt={sender?.username || ''} />
+                  <AvatarFallback className="text-xs">{(sender?.username || 'U').charAt(0).toUpperCase()}</AvatarFallback>
+                </Avatar>
+                <div className={`max-w-[80%] rounded-lg px-4 py-2 ${isOwn ? 'bg-blue-50 dark:bg-blue-900/40' : 'bg-gray-100 dark:bg-gray-700'}`}>
+                  <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                    <span className="font-semibold text-gray-700 dark:text-gray-200">{isOwn ? 'Vous' : sender?.username || 'Membre supprimé'}</span>
+                    <span>{formatDateTime(message.created_at)}</span>
+                    {!isOwn && !message.is_deleted && (
+                      <button
+                        type="button"
+                        onClick={() => setReportedMessageId(message.id)}
+                        className="ml-auto hover:text-red-600"
+                        title="Signaler ce message"
+                        aria-label="Signaler ce message"
+                      >
+                        <Flag className="h-3 w-3" />
+                      </button>
+                    )}
+                  </div>
+                  {message.is_deleted ? (
+                    <p className="mt-1 text-sm italic text-gray-500 dark:text-gray-400">Ce message a été supprimé par la modération.</p>
+                  ) : (
+                    <MarkdownContent content={message.content} className="mt-1 text-gray-800 dark:text-gray-100" />
+                  )}
+                </div>
+              </div>
+            );
+          })}
+          <div ref={bottomRef} />
+        </CardContent>
+      </Card>
+
+      {isBlocked ? (
+        <p className="mt-4 text-center text-sm text-gray-500 dark:text-gray-400">
+          Vous avez bloqué ce membre. Débloquez-le pour lui écrire de nouveau.
+        </p>
+      ) : (
+        <form onSubmit={handleSend} className="mt-4 space-y-2">
+          <Textarea
+            value={newMessage}
+            onChange={(e) => setNewMessage(e.target.value)}
+            onKeyDown={handleComposerKeyDown}
+            maxLength={PRIVATE_MESSAGE_MAX_LENGTH}
+            rows={3}
+            placeholder="Votre message... (Ctrl+Entrée pour envoyer)"
+            className="dark:bg-gray-700 dark:text-white dark:border-gray-600"
+            disabled={isSending}
+          />
+          <div className="flex justify-end">
+            <Button type="submit" disabled={isSending || !newMessage.trim()}>
+              {isSending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+              Envoyer
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {reportedMessageId && (
+        <ReportModal
+          isOpen={!!reportedMessageId}
+          onClose={() => setReportedMessageId(null)}
+          contentType="message"
+          contentId={reportedMessageId}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ConversationPage;
@@ -3,12 +3,15 @@ import { useNavigate, useParams } from 'react-router-dom';
 import { supabase } from '@/lib/supabaseClient';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { useToast } from "@/hooks/use-toast";
 import { useUser } from '@/contexts/UserContext'; // Import useUser
-import { Loader2, ArrowLeft, Send, AlertTriangle, LockIcon } from 'lucide-react';
+import MarkdownEditor from '@/components/forum/MarkdownEditor';
+import PollEditor, { EMPTY_POLL_DRAFT, PollDraft, validatePollDraft } from '@/components/forum/PollEditor';
+import AttachmentUploader from '@/components/forum/AttachmentUploader';
+import { UploadedAttachment, attachUploadsToMessage } from '@/lib/attachments';
+import { Loader2, ArrowLeft, Send, AlertTriangle, LockIcon, BarChart3, X } from 'lucide-react';
 
 interface ForumCategory {
   id: string;
@@ -26,6 +29,9 @@ const CreatePostPage = () => {
   const [category, setCategory] = useState<ForumCategory | null>(null);
   const [title, setTitle] = useState('');
   const [content, setContent] = useState('');
+  const [withPoll, setWithPoll] = useState(false);
+  const [poll, setPoll] = useState<PollDraft>(EMPTY_POLL_DRAFT);
+  const [attachments, setAttachments] = useState<UploadedAttachment[]>([]);
   const [loadingPageData, setLoadingPageData] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -120,6 +126,12 @@ const CreatePostPage = () => {
       return;
     }
 
+    const pollError = withPoll ? validatePollDraft(poll) : null;
+    if (pollError) {
+      toast({ title: "Sondage incomplet", description: pollError, variant: "destructive" });
+      return;
+    }
+
     // Double-check lock status before submission, RLS will be the final guard
     if (category.is_locked_for_users && currentUserProfile.role === 'USER') {
       toast({
@@ -148,6 +160,40 @@ const CreatePostPage = () => {
       if (postError) throw postError;
       if (!postData || !postData.id) throw new Error("La création du sujet a échoué, ID manquant.");
 
+      try {
+        await attachUploadsToMessage(currentUserProfile.id, postData.id, null, attachments);
+      } catch (attachError) {
+        // The topic exists at this point: keep going and report the attachment failure.
+        console.error("Error attaching files:", attachError);
+        toast({
+          title: "Pièces jointes non ajoutées",
+          description: "Votre sujet a été publié, mais les fichiers joints n'ont pas pu y être rattachés.",
+          variant: "destructive",
+        });
+      }
+
+      if (withPoll) {
+        const { error: pollError } = await supabase.rpc('create_poll', {
+          p_post_id: postData.id,
+          p_question: poll.question.trim(),
+          p_options: poll.options.map(option => option.trim()).filter(Boolean),
+          p_allows_multiple: poll.allowsMultiple,
+          p_is_anonymous: poll.isAnonymous,
+          p_closes_at: poll.closesAt ? new Date(poll.closesAt).toISOString() : null,
+        });
+        if (pollError) {
+          // The topic exists at this point: open it anyway and report the poll failure.
+          console.error("Error creating poll:", pollError);
+          toast({
+            title: "Sondage non créé",
+            description: "Votre sujet a été publié, mais le sondage n'a pas pu être ajouté.",
+            variant: "destructive",
+          });
+          navigate(`/forum/sujet/${postData.id}`);
+          return;
+        }
+      }
+
       toast({
         title: "Succès !",
         description: "Votre sujet a été créé.",
@@ -281,19 +327,43 @@ const CreatePostPage = () => {
               <Label htmlFor="content" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
                 Contenu du sujet
               </Label>
-              <Textarea
+              <MarkdownEditor
                 id="content"
                 value={content}
-                onChange={(e) => setContent(e.target.value)}
+                onChange={setContent}
                 placeholder="Développez votre pensée ici..."
                 required
                 rows={10}
                 className="dark:bg-gray-700 dark:text-white dark:border-gray-600"
                 disabled={submitting}
               />
-              <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
-                Vous pouvez utiliser du texte simple. Le formatage Markdown sera bientôt disponible.
-              </p>
+              {currentUserProfile && (
+                <AttachmentUploader
+                  userId={currentUserProfile.id}
+                  value={attachments}
+                  onChange={setAttachments}
+                  disabled={submitting}
+                />
+              )}
+            </div>
+            <div>
+              {withPoll ? (
+                <>
+                  <div className="flex items-center justify-between mb-2">
+                    <Label className="text-sm font-medium text-gray-700 dark:text-gray-200 flex items-center">
+                      <BarChart3 className="mr-1 h-4 w-4" /> Sondage
+                    </Label>
+                    <Button type="button" variant="ghost" size="sm" onClick={() => setWithPoll(false)} disabled={submitting}>
+                      <X className="mr-1 h-4 w-4" /> Retirer le sondage
+                    </Button>
+                  </div>
+                  <PollEditor value={poll} onChange={setPoll} disabled={submitting} />
+                </>
+              ) : (
+                <Button type="button" variant="outline" size="sm" onClick={() => setWithPoll(true)} disabled={submitting}>
+                  <BarChart3 className="mr-2 h-4 w-4" /> Ajouter un sondage
+                </Button>
+              )}
             </div>
             <div className="flex justify-end">
               <Button 
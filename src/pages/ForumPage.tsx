@@ -1,9 +1,13 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useState, useCallback } from 'react';
 import { supabase } from '@/lib/supabaseClient';
 import { Link } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { FolderKanban, MessageSquarePlus, Loader2, AlertTriangle } from 'lucide-react'; // Added Loader2 and AlertTriangle
+import { Badge } from '@/components/ui/badge';
+import { FolderKanban, MessageSquarePlus, Loader2, AlertTriangle, Clock, CheckCheck } from 'lucide-react'; // Added Loader2 and AlertTriangle
+import { formatDistanceToNow } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { useToast } from '@/hooks/use-toast';
 
 interface ForumCategory {
   id: string;
@@ -11,37 +15,65 @@ interface ForumCategory {
   description: string | null;
   slug: string;
   created_at: string;
+  topic_count: number;
+  reply_count: number;
+  unread_count: number;
+  last_activity_at: string | null;
+  last_activity_post_id: string | null;
+  last_activity_post_title: string | null;
 }
 
 const ForumPage = () => {
   const [categories, setCategories] = useState<ForumCategory[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [isMarkingAllRead, setIsMarkingAllRead] = useState(false);
+  const { toast } = useToast();
 
-  useEffect(() => {
-    const fetchCategories = async () => {
-      setLoading(true);
-      setError(null);
-      try {
-        const { data, error: categoriesError } = await supabase
-          .from('forum_categories')
-          .select('*')
-          .order('name', { ascending: true });
+  const fetchCategories = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const { data, error: categoriesError } = await supabase
+        .rpc('get_forum_categories_with_stats');
 
-        if (categoriesError) {
-          throw categoriesError;
-        }
-        setCategories(data || []);
-      } catch (err: any) {
-        console.error('Error fetching categories:', err);
-        setError('Impossible de charger les catégories du forum. Veuillez réessayer plus tard.');
-      } finally {
-        setLoading(false);
+      if (categoriesError) {
+        throw categoriesError;
       }
-    };
+      setCategories(((data as ForumCategory[]) || []).map(category => ({
+        ...category,
+        topic_count: Number(category.topic_count),
+        reply_count: Number(category.reply_count),
+        unread_count: Number(category.unread_count),
+      })));
+    } catch (err: any) {
+      console.error('Error fetching categories:', err);
+      setError('Impossible de charger les catégories du forum. Veuillez réessayer plus tard.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
 
+  useEffect(() => {
     fetchCategories();
-  }, []);
+  }, [fetchCategories]);
+
+  const handleMarkAllRead = async () => {
+    setIsMarkingAllRead(true);
+    try {
+      const { error: rpcError } = await supabase.rpc('mark_all_categories_read');
+      if (rpcError) throw rpcError;
+      setCategories(prev => prev.map(category => ({ ...category, unread_count: 0 })));
+      toast({ title: "Forum marqué comme lu", description: "Tous les sujets sont désormais marqués comme lus.", className: "bg-green-500 text-white dark:bg-green-700" });
+    } catch (err: any) {
+      console.error('Error marking all categories as read:', err);
+      toast({ title: "Erreur", description: err.message || "Impossible de marquer le forum comme lu.", variant: "destructive" });
+    } finally {
+      setIsMarkingAllRead(false);
+    }
+  };
+
+  const totalUnread = categories.reduce((sum, category) => sum + category.unread_count, 0);
 
   return (
     <div className="container mx-auto py-8 px-4 md:px-6">
@@ -55,13 +87,23 @@ const ForumPage = () => {
               Parcourez les catégories et participez aux discussions.
             </p>
           </div>
-          <Button /* onClick={() => navigate('/forum/nouveau-sujet')} // TODO: Implement create post page */
-            className="bg-green-600 hover:bg-green-700 dark:bg-green-500 dark:hover:bg-green-600"
-            disabled // Temporarily disabled until functionality is ready
-          >
-            <MessageSquarePlus className="mr-2 h-5 w-5" />
-            Nouveau Sujet
-          </Button>
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              onClick={handleMarkAllRead}
+              disabled={isMarkingAllRead || totalUnread === 0}
+            >
+              {isMarkingAllRead ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <CheckCheck className="mr-2 h-5 w-5" />}
+              Tout marquer comme lu
+            </Button>
+            <Button /* onClick={() => navigate('/forum/nouveau-sujet')} // TODO: Implement create post page */
+              className="bg-green-600 hover:bg-green-700 dark:bg-green-500 dark:hover:bg-green-600"
+              disabled // Temporarily disabled until functionality is ready
+            >
+              <MessageSquarePlus className="mr-2 h-5 w-5" />
+              Nouveau Sujet
+            </Button>
+          </div>
         </div>
       </header>
 
@@ -102,6 +144,11 @@ const ForumPage = () => {
                 <div className="flex items-center text-blue-600 dark:text-blue-400 mb-2">
                   <FolderKanban className="h-7 w-7 mr-3 flex-shrink-0" />
                   <CardTitle className="text-2xl font-semibold leading-tight">{category.name}</CardTitle>
+                  {category.unread_count > 0 && (
+                    <Badge className="ml-auto flex-shrink-0 bg-blue-600 hover:bg-blue-600 dark:bg-blue-500" title="Sujets avec de nouveaux messages">
+                      {category.unread_count} non lu{category.unread_count > 1 ? 's' : ''}
+                    </Badge>
+                  )}
                 </div>
                 {category.description && (
                   <CardDescription className="text-gray-600 dark:text-gray-400 line-clamp-2">
@@ -110,8 +157,22 @@ const ForumPage = () => {
                 )}
               </CardHeader>
               <CardContent className="flex-grow flex flex-col justify-end">
-                {/* Placeholder for post count or last activity - to be implemented later */}
-                {/* <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">X Sujets • Y Messages</p> */}
+                <p className="text-sm text-gray-500 dark:text-gray-400 mb-1">
+                  {category.topic_count} sujet{category.topic_count > 1 ? 's' : ''} • {category.reply_count} réponse{category.reply_count > 1 ? 's' : ''}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-4 flex items-center">
+                  <Clock className="h-3 w-3 mr-1 flex-shrink-0" />
+                  {category.last_activity_at && category.last_activity_post_id ? (
+                    <span className="truncate">
+                      Activité {formatDistanceToNow(new Date(category.last_activity_at), { addSuffix: true, locale: fr })} dans{' '}
+                      <Link to={`/forum/sujet/${category.last_activity_post_id}`} className="text-blue-600 hover:underline dark:text-blue-400">
+                        {category.last_activity_post_title}
+                      </Link>
+                    </span>
+                  ) : (
+                    <span className="italic">Aucune activité</span>
+                  )}
+                </p>
                 <Button asChild variant="outline" className="w-full mt-auto border-blue-500 text-blue-500 hover:bg-blue-500 hover:text-white dark:border-blue-400 dark:text-blue-400 dark:hover:bg-blue-500 dark:hover:text-white">
                   <Link to={`/forum/categorie/${category.slug}`}>
                     Explorer {category.name}
@@ -0,0 +1,311 @@
+import { useEffect, useState, useCallback } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { supabase } from '@/lib/supabaseClient';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Search, Loader2, AlertTriangle, Users, CalendarDays, MessageSquare, X } from 'lucide-react';
+import { useDateFormatter } from '@/hooks/useDateFormatter';
+import PaginationBar from '@/components/common/PaginationBar';
+import { MEMBERS_PER_PAGE } from '@/constants/forum';
+import { getAvatarUrl } from '@/lib/avatars';
+
+type MemberRole = 'USER' | 'MODERATOR' | 'ADMIN' | 'SUPER_ADMIN';
+type MemberSort = 'username' | 'newest' | 'oldest' | 'posts';
+
+// Row returned by the get_member_directory RPC.
+interface Member {
+  id: string;
+  username: string | null;
+  full_name: string | null;
+  avatar_url: string | null;
+  role: MemberRole | null;
+  created_at: string | null;
+  post_count: number;
+  total_count: number;
+}
+
+interface MemberFilters {
+  search: string;
+  role: string;
+  sort: MemberSort;
+}
+
+const ALL_ROLES = 'all';
+
+const SORT_OPTIONS: { value: MemberSort; label: string }[] = [
+  { value: 'username', label: "Nom d'utilisateur (A → Z)" },
+  { value: 'newest', label: 'Inscrits récemment' },
+  { value: 'oldest', label: 'Membres les plus anciens' },
+  { value: 'posts', label: 'Nombre de messages' },
+];
+
+const ROLE_OPTIONS: { value: string; label: string }[] = [
+  { value: ALL_ROLES, label: 'Tous les rôles' },
+  { value: 'USER', label: 'Utilisateurs' },
+  { value: 'MODERATOR', label: 'Modérateurs' },
+  { value: 'ADMIN', label: 'Administrateurs' },
+];
+
+const filtersFromParams = (searchParams: URLSearchParams): MemberFilters => {
+  const sort = searchParams.get('tri') as MemberSort | null;
+  return {
+    search: searchParams.get('q') || '',
+    role: searchParams.get('role') || ALL_ROLES,
+    sort: sort && SORT_OPTIONS.some(option => option.value === sort) ? sort : 'username',
+  };
+};
+
+const getRoleBadgeVariant = (role: Member['role']) => {
+  switch (role) {
+    case 'ADMIN':
+    case 'SUPER_ADMIN':
+      return 'destructive';
+    case 'MODERATOR':
+      return 'secondary';
+    case 'USER':
+    default:
+      return 'outline';
+  }
+};
+
+const formatRoleForDisplay = (role: Member['role']) => {
+  switch (role) {
+    case 'SUPER_ADMIN': return 'Super Admin';
+    case 'ADMIN': return 'Admin';
+    case 'MODERATOR': return 'Modérateur';
+    default: return 'Membre';
+  }
+};
+
+const MembersPage = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { formatMonthYear } = useDateFormatter();
+  const [filters, setFilters] = useState<MemberFilters>(() => filtersFromParams(searchParams));
+  const [members, setMembers] = useState<Member[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const activeFilters = filtersFromParams(searchParams);
+  const currentPage = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+  const totalPages = Math.max(1, Math.ceil(totalCount / MEMBERS_PER_PAGE));
+
+  useEffect(() => {
+    setFilters(filtersFromParams(searchParams));
+  }, [searchParams]);
+
+  const fetchMembers = useCallback(async () => {
+    const { search, role, sort } = filtersFromParams(searchParams);
+    setLoading(true);
+    setError(null);
+    try {
+      const { data, error: rpcError } = await supabase.rpc('get_member_directory', {
+        p_search: search.trim() || null,
+        p_role: role !== ALL_ROLES ? role : null,
+        p_sort: sort,
+        p_page: currentPage,
+        p_limit: MEMBERS_PER_PAGE,
+      });
+      if (rpcError) throw rpcError;
+
+      const rows = (data as Member[]) || [];
+      setMembers(rows);
+      setTotalCount(rows.length > 0 ? Number(rows[0].total_count) : 0);
+    } catch (err: any) {
+      console.error('Error fetching members:', err);
+      setError(err.message || 'Impossible de charger la liste des membres.');
+    } finally {
+      setLoading(false);
+    }
+  }, [searchParams, currentPage]);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [fetchMembers]);
+
+  const buildParams = (values: MemberFilters, page: number) => {
+    const next = new URLSearchParams();
+    if (values.search.trim()) next.set('q', values.search.trim());
+    if (values.role !== ALL_ROLES) next.set('role', values.role);
+    if (values.sort !== 'username') next.set('tri', values.sort);
+    if (page > 1) next.set('page', String(page));
+    return next;
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearchParams(buildParams(filters, 1));
+  };
+
+  // Selects apply immediately; the text search waits for the form submission.
+  const handleSelectChange = (values: Partial<MemberFilters>) => {
+    setSearchParams(buildParams({ ...activeFilters, ...values }, 1));
+  };
+
+  const handleResetFilters = () => {
+    setSearchParams(new URLSearchParams());
+  };
+
+  const getPageHref = (page: number) => `?${buildParams(activeFilters, page).toString()}`;
+
+  const handlePageChange = (page: number) => {
+    setSearchParams(buildParams(activeFilters, page));
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const hasActiveFilters = activeFilters.search !== '' || activeFilters.role !== ALL_ROLES || activeFilters.sort !== 'username';
+
+  return (
+    <div className="container mx-auto py-8 px-4 md:px-6">
+      <header className="mb-8">
+        <h1 className="text-3xl md:text-4xl font-extrabold text-gray-800 dark:text-white">
+          Annuaire des Membres
+        </h1>
+        <p className="mt-2 text-md text-gray-600 dark:text-gray-300">
+          Retrouvez les membres du forum et consultez leurs profils.
+        </p>
+      </header>
+
+      <Card className="mb-8 dark:bg-gray-800">
+        <CardContent className="p-4 md:p-6">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="flex gap-2">
+              <Input
+                type="search"
+                value={filters.search}
+                onChange={(e) => setFilters({ ...filters, search: e.target.value })}
+                placeholder="Nom d'utilisateur ou nom complet"
+                aria-label="Rechercher un membre"
+                className="dark:bg-gray-700 dark:text-white dark:border-gray-600"
+              />
+              <Button type="submit" className="bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600">
+                <Search className="mr-2 h-4 w-4" />
+                Rechercher
+              </Button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="members-role" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+                  Rôle
+                </Label>
+                <Select value={filters.role} onValueChange={(value) => handleSelectChange({ role: value })}>
+                  <SelectTrigger id="members-role" className="dark:bg-gray-700 dark:text-white dark:border-gray-600">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="dark:bg-gray-800 dark:text-white">
+                    {ROLE_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="members-sort" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+                  Trier par
+                </Label>
+                <Select value={filters.sort} onValueChange={(value) => handleSelectChange({ sort: value as MemberSort })}>
+                  <SelectTrigger id="members-sort" className="dark:bg-gray-700 dark:text-white dark:border-gray-600">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="dark:bg-gray-800 dark:text-white">
+                    {SORT_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {hasActiveFilters && (
+              <Button type="button" variant="ghost" size="sm" onClick={handleResetFilters} className="text-gray-600 dark:text-gray-300">
+                <X className="mr-1 h-4 w-4" />
+                Réinitialiser les filtres
+              </Button>
+            )}
+          </form>
+        </CardContent>
+      </Card>
+
+      {error ? (
+        <Card className="bg-red-50 border-red-500 dark:bg-red-900/30 dark:border-red-700">
+          <CardHeader>
+            <div className="flex items-center text-red-600 dark:text-red-400">
+              <AlertTriangle className="h-6 w-6 mr-2" />
+              <CardTitle>Erreur</CardTitle>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <p className="text-red-700 dark:text-red-300">{error}</p>
+          </CardContent>
+        </Card>
+      ) : loading ? (
+        <div className="flex justify-center items-center py-10">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
+          <p className="ml-3 text-gray-500 dark:text-gray-400">Chargement des membres...</p>
+        </div>
+      ) : members.length === 0 ? (
+        <div className="text-center py-10 border-2 border-dashed border-gray-300 dark:border-gray-700 rounded-lg">
+          <Users className="mx-auto h-16 w-16 text-gray-400 dark:text-gray-500 mb-4" />
+          <p className="text-xl text-gray-600 dark:text-gray-300">Aucun membre ne correspond à votre recherche.</p>
+        </div>
+      ) : (
+        <>
+          <p className="mb-4 text-sm text-gray-600 dark:text-gray-400">
+            {totalCount} membre{totalCount > 1 ? 's' : ''}
+            {totalPages > 1 && ` • Page ${currentPage} sur ${totalPages}`}
+          </p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {members.map(member => (
+              <Link key={member.id} to={`/profil/${member.id}`} className="block">
+                <Card className="h-full hover:shadow-lg transition-shadow duration-200 dark:bg-gray-800 dark:hover:bg-gray-750">
+                  <CardContent className="p-4 flex items-center gap-4">
+                    <Avatar className="h-14 w-14">
+                      <AvatarImage src={getAvatarUrl(member.avatar_url)} alt={member.username || 'Membre'} />
+                      <AvatarFallback className="text-lg">{(member.username || member.full_name || 'U').charAt(0).toUpperCase()}</AvatarFallback>
+                    </Avatar>
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center gap-2">
+                        <p className="font-semibold text-gray-800 dark:text-white truncate">{member.username || 'Utilisateur inconnu'}</p>
+                        <Badge variant={getRoleBadgeVariant(member.role)} className="flex-shrink-0">
+                          {formatRoleForDisplay(member.role)}
+                        </Badge>
+                      </div>
+                      {member.full_name && (
+                        <p className="text-sm text-gray-600 dark:text-gray-300 truncate">{member.full_name}</p>
+                      )}
+                      <div className="mt-1 flex flex-wrap gap-x-3 text-xs text-gray-500 dark:text-gray-400">
+                        {member.created_at && (
+                          <span className="flex items-center">
+                            <CalendarDays className="mr-1 h-3 w-3" />
+                            Depuis {formatMonthYear(member.created_at)}
+                          </span>
+                        )}
+                        <span className="flex items-center">
+                          <MessageSquare className="mr-1 h-3 w-3" />
+                          {Number(member.post_count)} message{Number(member.post_count) > 1 ? 's' : ''}
+                        </span>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              </Link>
+            ))}
+          </div>
+          <PaginationBar
+            currentPage={currentPage}
+            totalPages={totalPages}
+            onPageChange={handlePageChange}
+            getPageHref={getPageHref}
+            className="mt-8"
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MembersPage;
@@ -0,0 +1,171 @@
+import { useEffect, useState, useCallback } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { supabase } from '@/lib/supabaseClient';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Mail, MailPlus, Loader2, AlertTriangle, Users, Clock } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { useUser } from '@/contexts/UserContext';
+import PaginationBar from '@/components/common/PaginationBar';
+import NewConversationDialog from '@/components/messages/NewConversationDialog';
+import { ConversationSummary, getConversationTitle } from '@/lib/messaging';
+import { getAvatarUrl } from '@/lib/avatars';
+import { CONVERSATIONS_PER_PAGE } from '@/constants/forum';
+
+const MessagesPage = () => {
+  const { user } = useUser();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isNewConversationOpen, setIsNewConversationOpen] = useState(false);
+
+  const currentPage = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+  const totalPages = Math.max(1, Math.ceil(totalCount / CONVERSATIONS_PER_PAGE));
+
+  const fetchConversations = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const { data, error: rpcError } = await supabase.rpc('get_my_conversations', {
+        p_page: currentPage,
+        p_limit: CONVERSATIONS_PER_PAGE,
+      });
+      if (rpcError) throw rpcError;
+
+      const rows = ((data as ConversationSummary[]) || []).map(conversation => ({
+        ...conversation,
+        unread_count: Number(conversation.unread_count),
+      }));
+      setConversations(rows);
+      setTotalCount(rows.length > 0 ? Number(rows[0].total_count) : 0);
+    } catch (err: any) {
+      console.error('Error fetching conversations:', err);
+      setError(err.message || 'Impossible de charger vos conversations. Veuillez réessayer plus tard.');
+    } finally {
+      setLoading(false);
+    }
+  }, [currentPage]);
+
+  useEffect(() => {
+    fetchConversations();
+  }, [fetchConversations]);
+
+  const handlePageChange = (page: number) => {
+    setSearchParams(page > 1 ? { page: String(page) } : {});
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const renderConversation = (conversation: ConversationSummary) => {
+    const isUnread = conversation.unread_count > 0;
+    const firstParticipant = conversation.participants[0];
+    const excerpt = conversation.last_message_is_deleted
+      ? 'Message supprimé par la modération.'
+      : conversation.last_message_excerpt;
+
+    return (
+      <Card key={conversation.conversation_id} className={`dark:bg-gray-800 ${isUnread ? 'border-blue-400 dark:border-blue-500' : ''}`}>
+        <CardContent className="p-4">
+          <Link to={`/messages/${conversation.conversation_id}`} className="flex items-center gap-3">
+            {conversation.is_group ? (
+              <div className="flex h-10 w-10 flex-shrink-0 items-center justify-center rounded-full bg-gray-200 dark:bg-gray-700">
+                <Users className="h-5 w-5 text-gray-600 dark:text-gray-300" />
+              </div>
+            ) : (
+              <Avatar className="h-10 w-10 flex-shrink-0">
+                <AvatarImage src={getAvatarUrl(firstParticipant?.avatar_url, 'small')} alt={firstParticipant?.username || ''} />
+                <AvatarFallback>{(firstParticipant?.username || 'U').charAt(0).toUpperCase()}</AvatarFallback>
+              </Avatar>
+            )}
+            <div className="flex-grow min-w-0">
+              <div className="flex items-center gap-2">
+                <span className={`truncate text-gray-800 dark:text-white ${isUnread ? 'font-bold' : 'font-medium'}`}>
+                  {getConversationTitle(conversation.title, conversation.participants)}
+                </span>
+                {isUnread && (
+                  <Badge className="flex-shrink-0 bg-blue-600 hover:bg-blue-600 dark:bg-blue-500">
+                    {conversation.unread_count} non lu{conversation.unread_count > 1 ? 's' : ''}
+                  </Badge>
+                )}
+              </div>
+              {excerpt && (
+                <p className={`truncate text-sm ${isUnread ? 'text-gray-800 dark:text-gray-200' : 'text-gray-500 dark:text-gray-400'}`}>
+                  {conversation.last_message_sender_id === user?.id && 'Vous : '}
+                  {excerpt}
+                </p>
+              )}
+            </div>
+            <span className="flex flex-shrink-0 items-center text-xs text-gray-500 dark:text-gray-400">
+              <Clock className="h-3 w-3 mr-1" />
+              {formatDistanceToNow(new Date(conversation.last_message_at), { addSuffix: true, locale: fr })}
+            </span>
+          </Link>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="container mx-auto py-8 px-4 md:px-6">
+      <header className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl md:text-4xl font-extrabold text-gray-800 dark:text-white flex items-center">
+            <Mail className="mr-3 h-8 w-8 text-blue-600 dark:text-blue-400" />
+            Messages
+          </h1>
+          <p className="mt-2 text-md text-gray-600 dark:text-gray-300">
+            Vos conversations privées. Elles ne sont visibles que par leurs participants.
+          </p>
+        </div>
+        <Button onClick={() => setIsNewConversationOpen(true)} className="bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600">
+          <MailPlus className="mr-2 h-4 w-4" />
+          Nouveau message
+        </Button>
+      </header>
+
+      {loading ? (
+        <div className="flex justify-center items-center py-10">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
+          <p className="ml-3 text-gray-500 dark:text-gray-400">Chargement des conversations...</p>
+        </div>
+      ) : error ? (
+        <Card className="bg-red-50 border-red-500 dark:bg-red-900/30 dark:border-red-700">
+          <CardHeader>
+            <div className="flex items-center text-red-600 dark:text-red-400">
+              <AlertTriangle className="h-6 w-6 mr-2" />
+              <CardTitle>Erreur</CardTitle>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <p className="text-red-700 dark:text-red-300">{error}</p>
+          </CardContent>
+        </Card>
+      ) : conversations.length === 0 ? (
+        <div className="text-center py-10 border-2 border-dashed border-gray-300 dark:border-gray-700 rounded-lg">
+          <Mail className="mx-auto h-16 w-16 text-gray-400 dark:text-gray-500 mb-4" />
+          <p className="text-xl text-gray-600 dark:text-gray-300">Vous n'avez aucune conversation.</p>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">Écrivez à un membre avec « Nouveau message » ou depuis son profil.</p>
+        </div>
+      ) : (
+        <>
+          <div className="space-y-2">{conversations.map(renderConversation)}</div>
+          <PaginationBar
+            currentPage={currentPage}
+            totalPages={totalPages}
+            onPageChange={handlePageChange}
+            getPageHref={(page) => (page > 1 ? `?page=${page}` : '?')}
+            className="mt-8"
+          />
+        </>
+      )}
+
+      {isNewConversationOpen && <NewConversationDialog onClose={() => setIsNewConversationOpen(false)} />}
+    </div>
+  );
+};
+
+export default MessagesPage;
@@ -0,0 +1,177 @@
+import { useEffect, useState, useCallback } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { supabase } from '@/lib/supabaseClient';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Flag, Loader2, AlertTriangle, MessageSquareText } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { useDateFormatter } from '@/hooks/useDateFormatter';
+import PaginationBar from '@/components/common/PaginationBar';
+import { MY_REPORTS_PER_PAGE } from '@/constants/moderation';
+import {
+  MyReport,
+  REPORTED_CONTENT_TYPE_LABELS,
+  REPORT_REASON_LABELS,
+  ReportStatus,
+  getReportedContentLink,
+} from '@/lib/reports';
+
+// Worded for the reporter, unlike the moderation labels.
+const MY_REPORT_STATUS_LABELS: Record<ReportStatus, string> = {
+  PENDING: 'En attente',
+  RESOLVED_APPROVED: 'Aucune infraction constatée',
+  RESOLVED_ACTION_TAKEN: 'Mesures prises',
+  RESOLVED_REJECTED: 'Rejeté',
+};
+
+const MY_REPORT_STATUS_CLASSES: Record<ReportStatus, string> = {
+  PENDING: 'bg-yellow-500 hover:bg-yellow-500 text-white',
+  RESOLVED_APPROVED: 'bg-gray-500 hover:bg-gray-500 text-white',
+  RESOLVED_ACTION_TAKEN: 'bg-green-600 hover:bg-green-600 text-white',
+  RESOLVED_REJECTED: 'bg-red-600 hover:bg-red-600 text-white',
+};
+
+const MyReportsPage = () => {
+  const { session: authUser } = useAuth();
+  const { formatDateTime } = useDateFormatter();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [reports, setReports] = useState<MyReport[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const currentPage = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+  const totalPages = Math.max(1, Math.ceil(totalCount / MY_REPORTS_PER_PAGE));
+  const userId = authUser?.id;
+
+  const fetchReports = useCallback(async () => {
+    if (!userId) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const { data, error: rpcError } = await supabase.rpc('get_my_reports', {
+        p_page: currentPage,
+        p_limit: MY_REPORTS_PER_PAGE,
+      });
+      if (rpcError) throw rpcError;
+      const rows: MyReport[] = data || [];
+      setReports(rows);
+      setTotalCount(rows.length > 0 ? Number(rows[0].total_count) : 0);
+    } catch (err: any) {
+      console.error('Error fetching my reports:', err);
+      setError(err.message || 'Impossible de charger vos signalements. Veuillez réessayer plus tard.');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, currentPage]);
+
+  useEffect(() => {
+    fetchReports();
+  }, [fetchReports]);
+
+  const handlePageChange = (page: number) => {
+    setSearchParams(page > 1 ? { page: String(page) } : {});
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const renderContent = (report: MyReport) => {
+    const label = report.content_title || report.content_excerpt;
+    if (!label) {
+      return <span className="italic text-gray-500 dark:text-gray-400">Contenu supprimé ou indisponible</span>;
+    }
+    const link = getReportedContentLink(report.reported_content_type, report.reported_content_id, report.content_post_id);
+    return link ? (
+      <Link to={link} className="font-medium text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-500 truncate">
+        {label}
+      </Link>
+    ) : (
+      <span className="font-medium text-gray-800 dark:text-gray-200 truncate">{label}</span>
+    );
+  };
+
+  return (
+    <div className="container mx-auto py-8 px-4 md:px-6">
+      <header className="mb-8">
+        <h1 className="text-3xl md:text-4xl font-extrabold text-gray-800 dark:text-white flex items-center">
+          <Flag className="mr-3 h-8 w-8 text-blue-600 dark:text-blue-400" />
+          Mes signalements
+        </h1>
+        <p className="mt-2 text-md text-gray-600 dark:text-gray-300">
+          Les contenus que vous avez signalés et la suite qui leur a été donnée par l'équipe de modération.
+        </p>
+      </header>
+
+      {loading ? (
+        <div className="flex justify-center items-center py-10">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
+          <p className="ml-3 text-gray-500 dark:text-gray-400">Chargement des signalements...</p>
+        </div>
+      ) : error ? (
+        <Card className="bg-red-50 border-red-500 dark:bg-red-900/30 dark:border-red-700">
+          <CardHeader>
+            <div className="flex items-center text-red-600 dark:text-red-400">
+              <AlertTriangle className="h-6 w-6 mr-2" />
+              <CardTitle>Erreur</CardTitle>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <p className="text-red-700 dark:text-red-300">{error}</p>
+          </CardContent>
+        </Card>
+      ) : reports.length === 0 ? (
+        <div className="text-center py-10 border-2 border-dashed border-gray-300 dark:border-gray-700 rounded-lg">
+          <Flag className="mx-auto h-16 w-16 text-gray-400 dark:text-gray-500 mb-4" />
+          <p className="text-xl text-gray-600 dark:text-gray-300">Vous n'avez signalé aucun contenu.</p>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">Utilisez le bouton « Signaler » d'un message qui enfreint les règles du forum.</p>
+        </div>
+      ) : (
+        <>
+          <div className="space-y-2">
+            {reports.map(report => (
+              <Card key={report.report_id} className="dark:bg-gray-800">
+                <CardContent className="p-4 space-y-2">
+                  <div className="flex flex-col md:flex-row md:items-center gap-2">
+                    <div className="flex-grow min-w-0 flex items-center gap-2">
+                      <Badge variant="secondary" className="flex-shrink-0">{REPORTED_CONTENT_TYPE_LABELS[report.reported_content_type]}</Badge>
+                      {renderContent(report)}
+                    </div>
+                    <Badge className={`flex-shrink-0 self-start md:self-auto ${MY_REPORT_STATUS_CLASSES[report.report_status]}`}>
+                      {MY_REPORT_STATUS_LABELS[report.report_status]}
+                    </Badge>
+                  </div>
+                  <div className="flex flex-wrap text-xs text-gray-500 dark:text-gray-400 gap-x-3 gap-y-1">
+                    <span>Motif : {REPORT_REASON_LABELS[report.reason_category]}</span>
+                    <span>Signalé le {formatDateTime(report.report_created_at)}</span>
+                    {report.resolved_at && <span>Traité le {formatDateTime(report.resolved_at)}</span>}
+                  </div>
+                  {report.reason_details && (
+                    <p className="text-sm text-gray-600 dark:text-gray-300 whitespace-pre-wrap break-words">{report.reason_details}</p>
+                  )}
+                  {report.resolution_message && (
+                    <div className="flex items-start gap-2 rounded-md bg-blue-50 dark:bg-blue-950/30 p-3 text-sm text-gray-800 dark:text-gray-200">
+                      <MessageSquareText className="h-4 w-4 mt-0.5 flex-shrink-0 text-blue-600 dark:text-blue-400" />
+                      <p className="whitespace-pre-wrap break-words">
+                        <span className="font-semibold">Réponse de la modération : </span>
+                        {report.resolution_message}
+                      </p>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+          <PaginationBar
+            currentPage={currentPage}
+            totalPages={totalPages}
+            onPageChange={handlePageChange}
+            getPageHref={(page) => (page > 1 ? `?page=${page}` : '?')}
+            className="mt-8"
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MyReportsPage;
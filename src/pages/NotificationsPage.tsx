@@ -0,0 +1,270 @@
+import { useEffect, useState, useCallback } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { supabase } from '@/lib/supabaseClient';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Bell, BellOff, Loader2, AlertTriangle, CheckCheck, Check, MessageSquare, CornerDownRight, AtSign, Flag, UserCheck, Settings, Eye, FolderKanban, ShieldAlert } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import PaginationBar from '@/components/common/PaginationBar';
+import { NotificationType, NOTIFICATIONS_PER_PAGE } from '@/constants/notifications';
+
+interface NotificationEntry {
+  id: string;
+  type: NotificationType;
+  post_id: string | null;
+  reply_id: string | null;
+  report_id: string | null;
+  data: {
+    post_title?: string | null;
+    category_name?: string | null;
+    status?: string;
+    content_type?: 'post' | 'reply' | 'message';
+    reason?: string;
+    resolution_message?: string | null;
+  };
+  is_read: boolean;
+  created_at: string;
+  actor: { username: string | null } | null;
+}
+
+const REPORT_RESOLUTION_LABELS: Record<string, string> = {
+  RESOLVED_APPROVED: "aucune infraction n'a été constatée",
+  RESOLVED_ACTION_TAKEN: 'des mesures ont été prises',
+  RESOLVED_REJECTED: 'le signalement a été rejeté',
+};
+
+const NOTIFICATION_ICONS: Record<NotificationType, typeof Bell> = {
+  REPLY_TO_TOPIC: MessageSquare,
+  REPLY_TO_REPLY: CornerDownRight,
+  MENTION: AtSign,
+  REPORT_RESOLVED: Flag,
+  ACCOUNT_APPROVED: UserCheck,
+  NEW_REPLY_IN_FOLLOWED_TOPIC: Eye,
+  NEW_TOPIC_IN_FOLLOWED_CATEGORY: FolderKanban,
+  USER_WARNED: ShieldAlert,
+};
+
+const getNotificationText = (notification: NotificationEntry): string => {
+  const actor = notification.actor?.username || 'Un membre';
+  const title = notification.data.post_title ? `« ${notification.data.post_title} »` : 'un sujet';
+  switch (notification.type) {
+    case 'REPLY_TO_TOPIC':
+      return `${actor} a répondu à votre sujet ${title}.`;
+    case 'REPLY_TO_REPLY':
+      return `${actor} a répondu à votre message dans ${title}.`;
+    case 'MENTION':
+      return `${actor} vous a mentionné dans ${title}.`;
+    case 'REPORT_RESOLVED': {
+      const resolution = notification.data.status ? REPORT_RESOLUTION_LABELS[notification.data.status] : undefined;
+      const subject = notification.data.content_type === 'message' ? 'un message privé' : title;
+      const message = notification.data.resolution_message ? ` Message de la modération : ${notification.data.resolution_message}` : '';
+      return `Votre signalement concernant ${subject} a été traité${resolution ? ` : ${resolution}` : ''}.${message}`;
+    }
+    case 'NEW_REPLY_IN_FOLLOWED_TOPIC':
+      return `${actor} a publié une réponse dans ${title}, que vous suivez.`;
+    case 'NEW_TOPIC_IN_FOLLOWED_CATEGORY':
+      return `${actor} a créé le sujet ${title}${notification.data.category_name ? ` dans « ${notification.data.category_name} »` : ''}.`;
+    case 'ACCOUNT_APPROVED':
+      return 'Votre compte a été approuvé. Bienvenue sur le forum !';
+    case 'USER_WARNED':
+      return `Vous avez reçu un avertissement de la modération${notification.data.reason ? ` : ${notification.data.reason}` : '.'}`;
+    default:
+      return 'Nouvelle notification.';
+  }
+};
+
+const getNotificationLink = (notification: NotificationEntry): string | null => {
+  if (notification.type === 'ACCOUNT_APPROVED') return '/forum';
+  if (notification.type === 'REPORT_RESOLVED') return '/mes-signalements';
+  if (!notification.post_id) return null;
+  return notification.reply_id
+    ? `/forum/sujet/${notification.post_id}#reply-${notification.reply_id}`
+    : `/forum/sujet/${notification.post_id}`;
+};
+
+const NotificationsPage = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { session: authUser } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [notifications, setNotifications] = useState<NotificationEntry[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isMarkingAllRead, setIsMarkingAllRead] = useState(false);
+
+  const currentPage = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+  const totalPages = Math.max(1, Math.ceil(totalCount / NOTIFICATIONS_PER_PAGE));
+  const userId = authUser?.id;
+
+  const fetchNotifications = useCallback(async () => {
+    if (!userId) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const from = (currentPage - 1) * NOTIFICATIONS_PER_PAGE;
+      const { data, error: fetchError, count } = await supabase
+        .from('notifications')
+        .select('id, type, post_id, reply_id, report_id, data, is_read, created_at, actor:profiles!actor_user_id(username)', { count: 'exact' })
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .range(from, from + NOTIFICATIONS_PER_PAGE - 1);
+
+      if (fetchError) throw fetchError;
+      setNotifications((data as unknown as NotificationEntry[]) || []);
+      setTotalCount(count ?? 0);
+    } catch (err: any) {
+      console.error('Error fetching notifications:', err);
+      setError(err.message || 'Impossible de charger vos notifications. Veuillez réessayer plus tard.');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, currentPage]);
+
+  useEffect(() => {
+    fetchNotifications();
+  }, [fetchNotifications]);
+
+  const markAsRead = async (notificationId: string) => {
+    const { error: rpcError } = await supabase.rpc('mark_notification_read', { p_notification_id: notificationId });
+    if (rpcError) {
+      console.error('Error marking notification as read:', rpcError);
+      return false;
+    }
+    setNotifications(prev => prev.map(n => n.id === notificationId ? { ...n, is_read: true } : n));
+    return true;
+  };
+
+  const handleOpen = async (notification: NotificationEntry) => {
+    if (!notification.is_read) {
+      await markAsRead(notification.id);
+    }
+    const link = getNotificationLink(notification);
+    if (link) navigate(link);
+  };
+
+  const handleMarkAllRead = async () => {
+    setIsMarkingAllRead(true);
+    try {
+      const { error: rpcError } = await supabase.rpc('mark_all_notifications_read');
+      if (rpcError) throw rpcError;
+      setNotifications(prev => prev.map(n => ({ ...n, is_read: true })));
+      toast({ title: "Notifications lues", description: "Toutes vos notifications ont été marquées comme lues.", className: "bg-green-500 text-white dark:bg-green-700" });
+    } catch (err: any) {
+      console.error('Error marking all notifications as read:', err);
+      toast({ title: "Erreur", description: err.message || "Impossible de marquer les notifications comme lues.", variant: "destructive" });
+    } finally {
+      setIsMarkingAllRead(false);
+    }
+  };
+
+  const handlePageChange = (page: number) => {
+    setSearchParams(page > 1 ? { page: String(page) } : {});
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  return (
+    <div className="container mx-auto py-8 px-4 md:px-6">
+      <header className="mb-8 flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div>
+          <h1 className="text-3xl md:text-4xl font-extrabold text-gray-800 dark:text-white flex items-center">
+            <Bell className="mr-3 h-8 w-8 text-blue-600 dark:text-blue-400" />
+            Notifications
+          </h1>
+          <p className="mt-2 text-md text-gray-600 dark:text-gray-300">
+            Réponses, mentions et suivi de vos signalements.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" asChild>
+            <Link to="/parametre?onglet=notifications">
+              <Settings className="mr-2 h-4 w-4" /> Préférences
+            </Link>
+          </Button>
+          <Button variant="outline" onClick={handleMarkAllRead} disabled={isMarkingAllRead || totalCount === 0}>
+            {isMarkingAllRead ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCheck className="mr-2 h-4 w-4" />}
+            Tout marquer comme lu
+          </Button>
+        </div>
+      </header>
+
+      {loading ? (
+        <div className="flex justify-center items-center py-10">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
+          <p className="ml-3 text-gray-500 dark:text-gray-400">Chargement des notifications...</p>
+        </div>
+      ) : error ? (
+        <Card className="bg-red-50 border-red-500 dark:bg-red-900/30 dark:border-red-700">
+          <CardHeader>
+            <div className="flex items-center text-red-600 dark:text-red-400">
+              <AlertTriangle className="h-6 w-6 mr-2" />
+              <CardTitle>Erreur</CardTitle>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <p className="text-red-700 dark:text-red-300">{error}</p>
+          </CardContent>
+        </Card>
+      ) : notifications.length === 0 ? (
+        <div className="text-center py-10 border-2 border-dashed border-gray-300 dark:border-gray-700 rounded-lg">
+          <BellOff className="mx-auto h-16 w-16 text-gray-400 dark:text-gray-500 mb-4" />
+          <p className="text-xl text-gray-600 dark:text-gray-300">Aucune notification pour le moment.</p>
+        </div>
+      ) : (
+        <>
+          <div className="space-y-2">
+            {notifications.map(notification => {
+              const Icon = NOTIFICATION_ICONS[notification.type] ?? Bell;
+              return (
+                <Card
+                  key={notification.id}
+                  className={`dark:bg-gray-800 ${notification.is_read ? '' : 'border-blue-300 bg-blue-50/50 dark:border-blue-800 dark:bg-blue-950/30'}`}
+                >
+                  <CardContent className="p-4 flex items-start gap-3">
+                    <Icon className={`h-5 w-5 mt-0.5 flex-shrink-0 ${notification.is_read ? 'text-gray-400' : 'text-blue-600 dark:text-blue-400'}`} />
+                    <button
+                      type="button"
+                      onClick={() => handleOpen(notification)}
+                      className="flex-grow min-w-0 text-left hover:underline"
+                    >
+                      <p className={`text-sm text-gray-800 dark:text-gray-200 ${notification.is_read ? '' : 'font-semibold'}`}>
+                        {getNotificationText(notification)}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true, locale: fr })}
+                      </p>
+                    </button>
+                    {!notification.is_read && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => markAsRead(notification.id)}
+                        className="text-xs text-gray-500 hover:text-blue-600 p-1 flex-shrink-0"
+                        title="Marquer comme lu"
+                      >
+                        <Check className="mr-1 h-3 w-3" /> Lu
+                      </Button>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+          <PaginationBar
+            currentPage={currentPage}
+            totalPages={totalPages}
+            onPageChange={handlePageChange}
+            getPageHref={(page) => (page > 1 ? `?page=${page}` : '?')}
+            className="mt-8"
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default NotificationsPage;
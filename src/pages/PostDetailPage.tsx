@@ -1,16 +1,30 @@
 import { useEffect, useState, useCallback } from 'react';
-import { useParams, Link, useNavigate } from 'react-router-dom';
+import { useParams, Link, useNavigate, useLocation } from 'react-router-dom';
 import { supabase } from '@/lib/supabaseClient';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { Loader2, AlertTriangle, ArrowLeft, MessageSquare, CalendarDays, UserCircle, Tag, Send, Flag, Trash2, EyeOff } from 'lucide-react';
-import { format } from 'date-fns';
-import { fr } from 'date-fns/locale';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, AlertTriangle, ArrowLeft, MessageSquare, CalendarDays, UserCircle, Tag, Send, Flag, Trash2, EyeOff, Pencil, Save, X, Reply as ReplyIcon, CornerDownRight, ChevronDown, ChevronRight, ListTree, List, Pin, PinOff, Lock, Unlock, ArrowDown, Bell, BellOff, Quote } from 'lucide-react';
+import { useDateFormatter } from '@/hooks/useDateFormatter';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth, AuthUser } from '@/hooks/useAuth';
+import { usePermissions } from '@/hooks/usePermissions';
+import { Permission } from '@/constants/permissions';
 import ReportModal from '@/components/modals/ReportModal';
+import MarkdownContent from '@/components/forum/MarkdownContent';
+import MarkdownEditor from '@/components/forum/MarkdownEditor';
+import ReactionBar, { ReactionSummary, ReactionType } from '@/components/forum/ReactionBar';
+import PollWidget from '@/components/forum/PollWidget';
+import AttachmentList from '@/components/forum/AttachmentList';
+import AttachmentUploader from '@/components/forum/AttachmentUploader';
+import { ForumAttachment, UploadedAttachment, attachUploadsToMessage } from '@/lib/attachments';
+import { buildQuoteMarkdown, TOPIC_POST_ANCHOR } from '@/lib/forumQuotes';
+import { getAvatarUrl } from '@/lib/avatars';
+import RevisionHistoryDialog from '@/components/forum/RevisionHistoryDialog';
+import { REPLY_THREAD_MAX_DEPTH } from '@/constants/forum';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -38,6 +52,8 @@ interface PostDetails {
   is_deleted: boolean;
   deleted_at: string | null;
   is_published: boolean;
+  is_pinned: boolean;
+  is_locked: boolean;
 }
 
 interface Reply {
@@ -53,12 +69,53 @@ interface Reply {
   deleted_at: string | null;
 }
 
+interface ReplyNode {
+  reply: Reply;
+  children: ReplyNode[];
+}
+
+// Builds the reply tree from the flat, chronologically ordered list returned by the RPC.
+// Replies whose parent is missing from the list are attached at the root.
+const buildReplyTree = (replies: Reply[]): ReplyNode[] => {
+  const nodes = new Map<string, ReplyNode>();
+  replies.forEach(reply => nodes.set(reply.reply_id, { reply, children: [] }));
+
+  const roots: ReplyNode[] = [];
+  replies.forEach(reply => {
+    const node = nodes.get(reply.reply_id)!;
+    const parent = reply.parent_reply_id ? nodes.get(reply.parent_reply_id) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+  return roots;
+};
+
+// A reply is unread when it was posted by someone else after the member's previous visit.
+// On a first visit (no read date) the whole topic is new, so no reply is singled out.
+const isReplyUnread = (reply: Reply, lastReadAt: string | null, currentUserId: string | undefined): boolean =>
+  lastReadAt !== null &&
+  !reply.is_deleted &&
+  reply.reply_user_id !== currentUserId &&
+  new Date(reply.reply_created_at) > new Date(lastReadAt);
+
+interface EditTarget {
+  type: 'post' | 'reply';
+  id: string;
+  isOwnContent: boolean;
+}
+
 const PostDetailPage = () => {
   const { postId } = useParams<{ postId: string }>();
   const navigate = useNavigate();
+  const location = useLocation();
   const { toast } = useToast();
 
   const { session: authUser, profile, isLoadingAuth: authLoading, canModerate } = useAuth();
+  const { can } = usePermissions();
+  const { formatDateTime } = useDateFormatter();
 
   const [post, setPost] = useState<PostDetails | null>(null);
   const [loading, setLoading] = useState(true);
@@ -79,6 +136,34 @@ const PostDetailPage = () => {
   const [deleteContentId, setDeleteContentId] = useState<string | null>(null);
   const [deleteReason, setDeleteReason] = useState('');
 
+  const [editTarget, setEditTarget] = useState<EditTarget | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+  const [editContent, setEditContent] = useState('');
+  const [editReason, setEditReason] = useState('');
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
+
+  const [replyingTo, setReplyingTo] = useState<Reply | null>(null);
+  const [viewMode, setViewMode] = useState<'threaded' | 'chronological'>('threaded');
+  const [collapsedReplyIds, setCollapsedReplyIds] = useState<Set<string>>(new Set());
+
+  const [isUpdatingTopicFlags, setIsUpdatingTopicFlags] = useState(false);
+
+  const [historyTarget, setHistoryTarget] = useState<{ type: 'post' | 'reply'; id: string } | null>(null);
+
+  // Read date before this visit, returned by mark_topic_read.
+  const [lastReadAt, setLastReadAt] = useState<string | null>(null);
+
+  const [isFollowing, setIsFollowing] = useState(false);
+  const [isUpdatingFollow, setIsUpdatingFollow] = useState(false);
+
+  const [reactionTypes, setReactionTypes] = useState<ReactionType[]>([]);
+  const [reactions, setReactions] = useState<ReactionSummary[]>([]);
+  // Post or reply id whose reaction is being saved.
+  const [reactingTargetId, setReactingTargetId] = useState<string | null>(null);
+
+  const [attachments, setAttachments] = useState<ForumAttachment[]>([]);
+  const [newReplyAttachments, setNewReplyAttachments] = useState<UploadedAttachment[]>([]);
+
   console.log(`[PostDetailPage] Render. AuthUser ID: ${authUser?.id ?? 'null'}, Profile ID: ${profile?.id ?? 'null'}, AuthLoading: ${authLoading}, CanModerate: ${canModerate}, Post Loaded: ${!!post}, Post Deleted: ${post?.is_deleted ?? 'N/A'}`);
 
   const fetchPostAndReplies = useCallback(async () => {
@@ -109,6 +194,16 @@ const PostDetailPage = () => {
       if (repliesRpcError) throw repliesRpcError;
       setReplies(repliesData as Reply[]);
 
+      const { data: previousReadAt, error: readMarkerError } = await supabase
+        .rpc('mark_topic_read', { p_post_id: postId });
+
+      if (readMarkerError) {
+        // Not blocking: the topic is still displayed, it will just appear unread in lists.
+        console.error('Error updating read marker:', readMarkerError);
+      } else {
+        setLastReadAt(previousReadAt ?? null);
+      }
+
     } catch (err: any) {
       console.error('Error fetching post details or replies:', err);
       const errorMessage = err.message || 'Impossible de charger les données du sujet.';
@@ -124,6 +219,93 @@ const PostDetailPage = () => {
     fetchPostAndReplies();
   }, [fetchPostAndReplies]);
 
+  // RLS only returns the caller's own subscriptions.
+  const fetchFollowState = useCallback(async () => {
+    if (!postId) return;
+    const { data, error } = await supabase
+      .from('forum_topic_subscriptions')
+      .select('post_id')
+      .eq('post_id', postId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching topic subscription:', error);
+      return;
+    }
+    setIsFollowing(!!data);
+  }, [postId]);
+
+  useEffect(() => {
+    fetchFollowState();
+  }, [fetchFollowState]);
+
+  const fetchReactions = useCallback(async () => {
+    if (!postId) return;
+    const { data, error } = await supabase.rpc('get_topic_reactions', { p_post_id: postId });
+    if (error) {
+      console.error('Error fetching reactions:', error);
+      return;
+    }
+    setReactions(((data as ReactionSummary[]) || []).map(reaction => ({
+      ...reaction,
+      reaction_count: Number(reaction.reaction_count),
+    })));
+  }, [postId]);
+
+  useEffect(() => {
+    fetchReactions();
+  }, [fetchReactions]);
+
+  const fetchAttachments = useCallback(async () => {
+    if (!postId) return;
+    const { data, error } = await supabase
+      .from('forum_attachments')
+      .select('id, post_id, reply_id, storage_path, file_name, mime_type, size_bytes')
+      .eq('post_id', postId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching attachments:', error);
+      return;
+    }
+    setAttachments((data as ForumAttachment[]) || []);
+  }, [postId]);
+
+  useEffect(() => {
+    fetchAttachments();
+  }, [fetchAttachments]);
+
+  useEffect(() => {
+    const fetchReactionTypes = async () => {
+      const { data, error } = await supabase
+        .from('forum_reaction_types')
+        .select('id, emoji, label')
+        .eq('is_active', true)
+        .order('sort_order', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching reaction types:', error);
+        return;
+      }
+      setReactionTypes((data as ReactionType[]) || []);
+    };
+
+    fetchReactionTypes();
+  }, []);
+
+  const firstUnreadReply = replies.find(reply => isReplyUnread(reply, lastReadAt, authUser?.id));
+
+  // Links such as "last reply" point to #reply-<id>, and unread topics to #non-lu;
+  // the target only exists once replies are rendered.
+  useEffect(() => {
+    if (repliesLoading || !location.hash) return;
+    const targetId = location.hash === '#non-lu'
+      ? (firstUnreadReply ? `reply-${firstUnreadReply.reply_id}` : null)
+      : location.hash.slice(1);
+    if (!targetId) return;
+    document.getElementById(targetId)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [repliesLoading, location.hash, location.key, firstUnreadReply?.reply_id]);
+
   const getInitials = (name: string | null | undefined) => {
     if (!name) return '??';
     return name.split(' ').map(n => n[0]).join('').toUpperCase();
@@ -155,6 +337,7 @@ const PostDetailPage = () => {
           post_id: post.post_id,
           user_id: authUser.id,
           content: newReplyContent,
+          parent_reply_id: replyingTo?.reply_id ?? null,
         })
         .select(`
           id, content, created_at, updated_at, user_id, parent_reply_id,
@@ -183,6 +366,21 @@ const PostDetailPage = () => {
       
       setReplies(prevReplies => [...prevReplies, newReplyData]);
       setNewReplyContent('');
+      setReplyingTo(null);
+      fetchFollowState(); // Replying may have subscribed the author to the topic.
+
+      if (newReplyAttachments.length > 0) {
+        try {
+          await attachUploadsToMessage(authUser.id, post.post_id, newReplyData.reply_id, newReplyAttachments);
+          setNewReplyAttachments([]);
+          fetchAttachments();
+        } catch (attachError) {
+          // The reply is published: keep the uploads in the form so the author sees what was not attached.
+          console.error('[handleAddReply] Error attaching files:', attachError);
+          toast({ title: "Pièces jointes non ajoutées", description: "Votre réponse a été publiée, mais les fichiers joints n'ont pas pu y être rattachés.", variant: "destructive" });
+          return;
+        }
+      }
       toast({ title: "Succès", description: "Votre réponse a été ajoutée.", className: "bg-green-500 text-white dark:bg-green-700" });
     } catch (err: any) {
       console.error('[handleAddReply] Error adding reply:', err);
@@ -192,6 +390,196 @@ const PostDetailPage = () => {
     }
   };
 
+  const canEditContent = (type: 'post' | 'reply', authorId: string, isDeleted: boolean) => {
+    if (!authUser || !authUser.id) return false;
+    if (can(type === 'post' ? Permission.EDIT_ANY_POST : Permission.EDIT_ANY_REPLY)) return true;
+    return authUser.id === authorId && !isDeleted;
+  };
+
+  const startEditing = (type: 'post' | 'reply', id: string, authorId: string, title: string, content: string) => {
+    setEditTarget({ type, id, isOwnContent: authUser?.id === authorId });
+    setEditTitle(title);
+    setEditContent(content);
+    setEditReason('');
+  };
+
+  const cancelEditing = () => {
+    setEditTarget(null);
+    setEditTitle('');
+    setEditContent('');
+    setEditReason('');
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editTarget) return;
+    if (!editContent.trim() || (editTarget.type === 'post' && !editTitle.trim())) {
+      toast({ title: "Erreur", description: "Le titre et le contenu ne peuvent pas être vides.", variant: "destructive" });
+      return;
+    }
+
+    setIsSavingEdit(true);
+    try {
+      const { data: updatedAt, error } = await supabase.rpc('edit_forum_content', {
+        p_content_type: editTarget.type,
+        p_content_id: editTarget.id,
+        p_new_content: editContent,
+        p_new_title: editTarget.type === 'post' ? editTitle.trim() : null,
+        p_justification: editTarget.isOwnContent ? null : (editReason.trim() || null),
+      });
+
+      if (error) throw error;
+
+      if (editTarget.type === 'post') {
+        setPost(prev => prev ? { ...prev, post_title: editTitle.trim(), post_content: editContent, post_updated_at: updatedAt ?? prev.post_updated_at } : prev);
+      } else {
+        setReplies(prev => prev.map(r => r.reply_id === editTarget.id ? { ...r, reply_content: editContent, reply_updated_at: updatedAt ?? r.reply_updated_at } : r));
+      }
+      toast({ title: "Succès", description: "Vos modifications ont été enregistrées.", className: "bg-green-500 text-white dark:bg-green-700" });
+      cancelEditing();
+    } catch (err: any) {
+      console.error('Error editing content:', err);
+      toast({ title: "Erreur de modification", description: err.message || "Impossible d'enregistrer les modifications.", variant: "destructive" });
+    } finally {
+      setIsSavingEdit(false);
+    }
+  };
+
+  const isEdited = (createdAt: string, updatedAt: string | null) =>
+    !!updatedAt && new Date(updatedAt).getTime() !== new Date(createdAt).getTime();
+
+  const renderEditForm = () => (
+    <div className="space-y-3">
+      {editTarget?.type === 'post' && (
+        <Input
+          value={editTitle}
+          onChange={(e) => setEditTitle(e.target.value)}
+          placeholder="Titre du sujet"
+          className="dark:bg-gray-700 dark:text-white dark:border-gray-600"
+          disabled={isSavingEdit}
+        />
+      )}
+      <MarkdownEditor
+        value={editContent}
+        onChange={setEditContent}
+        rows={8}
+        className="min-h-[120px] dark:bg-gray-700 dark:text-white dark:placeholder-gray-400"
+        disabled={isSavingEdit}
+      />
+      {editTarget && !editTarget.isOwnContent && (
+        <Input
+          value={editReason}
+          onChange={(e) => setEditReason(e.target.value)}
+          placeholder="Raison de la modification (pour les logs de modération)"
+          className="dark:bg-gray-700 dark:text-white dark:border-gray-600"
+          disabled={isSavingEdit}
+        />
+      )}
+      <div className="flex justify-end space-x-2">
+        <Button variant="outline" size="sm" onClick={cancelEditing} disabled={isSavingEdit} className="dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700">
+          <X className="mr-1 h-4 w-4" /> Annuler
+        </Button>
+        <Button size="sm" onClick={handleSaveEdit} disabled={isSavingEdit || !editContent.trim()}>
+          {isSavingEdit ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <Save className="mr-1 h-4 w-4" />}
+          Enregistrer
+        </Button>
+      </div>
+    </div>
+  );
+
+  const handleToggleTopicFlag = async (flag: 'pinned' | 'locked') => {
+    if (!post) return;
+    const newValue = flag === 'pinned' ? !post.is_pinned : !post.is_locked;
+
+    setIsUpdatingTopicFlags(true);
+    try {
+      const { error } = flag === 'pinned'
+        ? await supabase.rpc('set_topic_pinned', { p_post_id: post.post_id, p_is_pinned: newValue })
+        : await supabase.rpc('set_topic_locked', { p_post_id: post.post_id, p_is_locked: newValue });
+
+      if (error) throw error;
+
+      setPost(prev => prev ? { ...prev, [flag === 'pinned' ? 'is_pinned' : 'is_locked']: newValue } : prev);
+      const descriptions = {
+        pinned: newValue ? "Le sujet est maintenant épinglé." : "Le sujet n'est plus épinglé.",
+        locked: newValue ? "Le sujet est maintenant verrouillé." : "Le sujet est déverrouillé.",
+      };
+      toast({ title: "Succès", description: descriptions[flag], className: "bg-green-500 text-white dark:bg-green-700" });
+    } catch (err: any) {
+      console.error(`Error updating topic ${flag} state:`, err);
+      toast({ title: "Erreur", description: err.message || "Impossible de mettre à jour le sujet.", variant: "destructive" });
+    } finally {
+      setIsUpdatingTopicFlags(false);
+    }
+  };
+
+  const handleToggleFollow = async () => {
+    if (!post) return;
+    const newValue = !isFollowing;
+
+    setIsUpdatingFollow(true);
+    try {
+      const { error } = await supabase.rpc('set_topic_subscription', { p_post_id: post.post_id, p_subscribed: newValue });
+      if (error) throw error;
+
+      setIsFollowing(newValue);
+      toast({
+        title: "Succès",
+        description: newValue ? "Vous suivez ce sujet : vous serez notifié des nouvelles réponses." : "Vous ne suivez plus ce sujet.",
+        className: "bg-green-500 text-white dark:bg-green-700",
+      });
+    } catch (err: any) {
+      console.error('Error updating topic subscription:', err);
+      toast({ title: "Erreur", description: err.message || "Impossible de mettre à jour l'abonnement.", variant: "destructive" });
+    } finally {
+      setIsUpdatingFollow(false);
+    }
+  };
+
+  const startReplyTo = (reply: Reply) => {
+    setReplyingTo(reply);
+    document.getElementById('reply-form')?.scrollIntoView({ behavior: 'smooth' });
+  };
+
+  // replyId is null for a reaction to the original post; a null type removes the reaction.
+  const handleReact = async (replyId: string | null, reactionTypeId: string | null) => {
+    if (!post) return;
+    setReactingTargetId(replyId ?? post.post_id);
+    try {
+      const { error: rpcError } = await supabase.rpc('set_reaction', {
+        p_post_id: replyId ? null : post.post_id,
+        p_reply_id: replyId,
+        p_reaction_type_id: reactionTypeId,
+      });
+      if (rpcError) throw rpcError;
+      await fetchReactions();
+    } catch (err: any) {
+      console.error('Error saving reaction:', err);
+      toast({ title: "Erreur", description: err.message || "Impossible d'enregistrer votre réaction.", variant: "destructive" });
+    } finally {
+      setReactingTargetId(null);
+    }
+  };
+
+  // Appends an attributed quote of the post or of a reply to the reply being written.
+  const handleQuote = (replyId: string | null, authorUsername: string | null, content: string) => {
+    if (!post) return;
+    const quote = buildQuoteMarkdown({ postId: post.post_id, replyId, authorUsername, content });
+    setNewReplyContent(prev => (prev.trim() ? `${prev.trimEnd()}\n\n${quote}` : quote));
+    document.getElementById('reply-form')?.scrollIntoView({ behavior: 'smooth' });
+  };
+
+  const toggleCollapsed = (replyId: string) => {
+    setCollapsedReplyIds(prev => {
+      const next = new Set(prev);
+      if (next.has(replyId)) {
+        next.delete(replyId);
+      } else {
+        next.add(replyId);
+      }
+      return next;
+    });
+  };
+
   const openReportModalHandler = (type: 'post' | 'reply', id: string) => {
     if (!authUser || !authUser.id) { 
       toast({ title: "Authentification requise", description: "Vous devez être connecté pour signaler.", variant: "destructive" });
@@ -286,8 +674,160 @@ const PostDetailPage = () => {
     );
   }
 
-  const showLoginPrompt = (!post.is_deleted || canModerate) && (!authUser || !authUser.id) && !authLoading;
-  const showReplyForm = (!post.is_deleted || canModerate) && authUser && authUser.id;
+  const showLoginPrompt = (!post.is_deleted || canModerate) && !post.is_locked && (!authUser || !authUser.id) && !authLoading;
+  const canManageTopics = can(Permission.MANAGE_TOPICS);
+  const isLockedForUser = post.is_locked && !canManageTopics;
+  const showReplyForm = (!post.is_deleted || canModerate) && !isLockedForUser && authUser && authUser.id;
+
+  const visibleReplies = replies.filter(r => !(r.is_deleted && !canModerate));
+  const repliesById = new Map(replies.map(r => [r.reply_id, r]));
+  const replyTree = buildReplyTree(replies);
+
+  const hasVisibleContent = (node: ReplyNode): boolean =>
+    !(node.reply.is_deleted && !canModerate) || node.children.some(hasVisibleContent);
+
+  const countVisibleDescendants = (node: ReplyNode): number =>
+    node.children.reduce(
+      (total, child) => total + (child.reply.is_deleted && !canModerate ? 0 : 1) + countVisibleDescendants(child),
+      0
+    );
+
+  const renderReplyCard = (reply: Reply) => {
+    const parent = reply.parent_reply_id ? repliesById.get(reply.parent_reply_id) : undefined;
+
+    return (
+      <Card id={`reply-${reply.reply_id}`} className={`dark:bg-gray-800/70 scroll-mt-20 ${reply.is_deleted && canModerate ? 'border-2 border-orange-500 opacity-70' : ''}`}>
+        {reply.is_deleted && canModerate && (
+          <div className="p-2 text-xs bg-orange-100 dark:bg-orange-900/50 border-b border-orange-500 text-orange-700 dark:text-orange-300">
+            <EyeOff className="inline h-3 w-3 mr-1" /> Ce message a été supprimé le {formatDateTime(reply.deleted_at!)}. Visible uniquement par les modérateurs.
+          </div>
+        )}
+        <CardHeader className="flex flex-row items-start space-x-4 p-4 border-b dark:border-gray-700">
+          <Link to={`/profil/${reply.reply_user_id}`}>
+            <Avatar className="h-10 w-10">
+              <AvatarImage src={getAvatarUrl(reply.author_avatar_url, 'small')} alt={reply.author_username || 'Auteur'} />
+              <AvatarFallback>{getInitials(reply.author_username)}</AvatarFallback>
+            </Avatar>
+          </Link>
+          <div className="flex-grow">
+            <Link to={`/profil/${reply.reply_user_id}`} className="font-semibold text-gray-800 dark:text-white hover:underline">
+              {reply.author_username || 'Utilisateur inconnu'}
+            </Link>
+            {isReplyUnread(reply, lastReadAt, authUser?.id) && (
+              <Badge className="ml-2 bg-blue-600 hover:bg-blue-600 dark:bg-blue-500">Nouveau</Badge>
+            )}
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {formatDateTime(reply.reply_created_at)}
+              {viewMode === 'chronological' && parent && (
+                <a href={`#reply-${parent.reply_id}`} className="ml-1 hover:underline">
+                  <CornerDownRight className="inline h-3 w-3 mr-0.5" />
+                  en réponse à {parent.author_username || 'un message supprimé'}
+                </a>
+              )}
+              {isEdited(reply.reply_created_at, reply.reply_updated_at) && !reply.is_deleted && (
+                <button
+                  type="button"
+                  onClick={() => setHistoryTarget({ type: 'reply', id: reply.reply_id })}
+                  className="italic hover:underline ml-1"
+                  title="Voir l'historique des modifications"
+                >
+                  (modifié le {formatDateTime(reply.reply_updated_at)})
+                </button>
+              )}
+            </p>
+          </div>
+          <div className="flex flex-col sm:flex-row space-y-1 sm:space-y-0 sm:space-x-2 items-end">
+            {showReplyForm && !reply.is_deleted && (
+              <Button variant="ghost" size="sm" onClick={() => startReplyTo(reply)} className="text-xs text-gray-500 hover:text-blue-600 p-1">
+                <ReplyIcon className="mr-1 h-3 w-3" /> Répondre
+              </Button>
+            )}
+            {showReplyForm && !reply.is_deleted && (
+              <Button variant="ghost" size="sm" onClick={() => handleQuote(reply.reply_id, reply.author_username, reply.reply_content)} className="text-xs text-gray-500 hover:text-blue-600 p-1">
+                <Quote className="mr-1 h-3 w-3" /> Citer
+              </Button>
+            )}
+            {canEditContent('reply', reply.reply_user_id, reply.is_deleted) && !editTarget && (
+              <Button variant="ghost" size="sm" onClick={() => startEditing('reply', reply.reply_id, reply.reply_user_id, '', reply.reply_content)} className="text-xs text-gray-500 hover:text-blue-600 p-1">
+                <Pencil className="mr-1 h-3 w-3" /> Modifier
+              </Button>
+            )}
+            {authUser && authUser.id && authUser.id !== reply.reply_user_id && !reply.is_deleted && (
+              <Button variant="ghost" size="sm" onClick={() => openReportModalHandler('reply', reply.reply_id)} className="text-xs text-gray-500 hover:text-red-600 p-1">
+                <Flag className="mr-1 h-3 w-3" /> Signaler
+              </Button>
+            )}
+            {canModerate && !reply.is_deleted && (
+              <Button variant="destructive" size="sm" onClick={() => openDeleteConfirmHandler('reply', reply.reply_id)} className="text-xs p-1">
+                <Trash2 className="mr-1 h-3 w-3" /> Supprimer
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="p-4">
+          {reply.is_deleted && !canModerate ? (
+             <p className="italic text-gray-500 dark:text-gray-400">Contenu supprimé.</p>
+          ) : editTarget?.type === 'reply' && editTarget.id === reply.reply_id ? (
+            renderEditForm()
+          ) : (
+            <>
+              <MarkdownContent content={reply.reply_content} className="text-gray-700 dark:text-gray-300" />
+              <AttachmentList attachments={attachments.filter(attachment => attachment.reply_id === reply.reply_id)} />
+              <ReactionBar
+                reactions={reactions.filter(reaction => reaction.reply_id === reply.reply_id)}
+                reactionTypes={reactionTypes}
+                onReact={(reactionTypeId) => handleReact(reply.reply_id, reactionTypeId)}
+                canReact={!!authUser?.id && !reply.is_deleted}
+                disabled={reactingTargetId === reply.reply_id}
+              />
+            </>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const renderReplyThread = (node: ReplyNode, depth: number): JSX.Element | null => {
+    const { reply } = node;
+    const isHiddenForUser = reply.is_deleted && !canModerate;
+    const visibleChildren = node.children.filter(hasVisibleContent);
+    if (isHiddenForUser && visibleChildren.length === 0) return null;
+
+    const isCollapsed = collapsedReplyIds.has(reply.reply_id);
+    const descendantCount = countVisibleDescendants(node);
+
+    return (
+      <div key={reply.reply_id}>
+        {isHiddenForUser ? (
+          <div id={`reply-${reply.reply_id}`} className="p-3 rounded-md border border-dashed text-sm italic text-gray-500 dark:text-gray-400 dark:border-gray-700 scroll-mt-20">
+            <EyeOff className="inline h-4 w-4 mr-1" /> Message supprimé.
+          </div>
+        ) : (
+          renderReplyCard(reply)
+        )}
+        {visibleChildren.length > 0 && (
+          <div className={depth < REPLY_THREAD_MAX_DEPTH ? 'ml-4 md:ml-8 pl-4 border-l-2 border-gray-200 dark:border-gray-700' : ''}>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => toggleCollapsed(reply.reply_id)}
+              className="text-xs text-gray-500 dark:text-gray-400 my-2 p-1"
+            >
+              {isCollapsed ? <ChevronRight className="mr-1 h-3 w-3" /> : <ChevronDown className="mr-1 h-3 w-3" />}
+              {isCollapsed
+                ? `Afficher ${descendantCount} réponse${descendantCount > 1 ? 's' : ''}`
+                : 'Masquer les réponses'}
+            </Button>
+            {!isCollapsed && (
+              <div className="space-y-4">
+                {visibleChildren.map(child => renderReplyThread(child, depth + 1))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
 
   if (post.is_deleted && !canModerate) {
     return (
@@ -311,38 +851,83 @@ const PostDetailPage = () => {
         <ArrowLeft className="mr-2 h-4 w-4" /> Retour à : {post.category_name}
       </Button>
 
-      <Card className={`dark:bg-gray-800 shadow-xl mb-8 ${post.is_deleted && canModerate ? 'border-2 border-orange-500 opacity-70' : ''}`}>
+      <Card id={TOPIC_POST_ANCHOR} className={`dark:bg-gray-800 shadow-xl mb-8 scroll-mt-20 ${post.is_deleted && canModerate ? 'border-2 border-orange-500 opacity-70' : ''}`}>
         <CardHeader className="border-b dark:border-gray-700 p-6">
           {post.is_deleted && canModerate && (
             <div className="p-2 mb-2 bg-orange-100 dark:bg-orange-900/50 border border-orange-500 rounded-md text-orange-700 dark:text-orange-300 text-sm">
-              <EyeOff className="inline h-4 w-4 mr-1" /> Ce sujet a été supprimé le {format(new Date(post.deleted_at!), 'PPP p', { locale: fr })}. Visible uniquement par les modérateurs.
+              <EyeOff className="inline h-4 w-4 mr-1" /> Ce sujet a été supprimé le {formatDateTime(post.deleted_at!)}. Visible uniquement par les modérateurs.
             </div>
           )}
           <Link to={`/forum/categorie/${post.category_slug}`} className="text-sm text-blue-600 hover:underline dark:text-blue-400 flex items-center mb-2">
             <Tag className="h-4 w-4 mr-1" /> {post.category_name}
           </Link>
-          <CardTitle className="text-3xl md:text-4xl font-bold text-gray-900 dark:text-white">
-            {post.post_title}
-          </CardTitle>
+          {(post.is_pinned || post.is_locked) && (
+            <div className="flex items-center gap-2 mb-2">
+              {post.is_pinned && (
+                <Badge variant="secondary"><Pin className="mr-1 h-3 w-3" /> Épinglé</Badge>
+              )}
+              {post.is_locked && (
+                <Badge variant="outline" className="border-gray-400 text-gray-600 dark:text-gray-300"><Lock className="mr-1 h-3 w-3" /> Verrouillé</Badge>
+              )}
+            </div>
+          )}
+          {editTarget?.type !== 'post' && (
+            <CardTitle className="text-3xl md:text-4xl font-bold text-gray-900 dark:text-white">
+              {post.post_title}
+            </CardTitle>
+          )}
           <div className="flex items-center space-x-4 mt-3 text-sm text-gray-500 dark:text-gray-400">
             <Link to={`/profil/${post.post_user_id}`} className="flex items-center hover:underline">
               <Avatar className="h-8 w-8 mr-2">
-                <AvatarImage src={post.author_avatar_url || undefined} alt={post.author_username || 'Auteur'} />
+                <AvatarImage src={getAvatarUrl(post.author_avatar_url, 'small')} alt={post.author_username || 'Auteur'} />
                 <AvatarFallback>{getInitials(post.author_username)}</AvatarFallback>
               </Avatar>
               <span>{post.author_username || 'Utilisateur inconnu'}</span>
             </Link>
             <div className="flex items-center">
               <CalendarDays className="h-4 w-4 mr-1" />
-              <span>Créé le {format(new Date(post.post_created_at), 'PPP p', { locale: fr })}</span>
+              <span>Créé le {formatDateTime(post.post_created_at)}</span>
             </div>
-            {post.post_updated_at && new Date(post.post_updated_at).getTime() !== new Date(post.post_created_at).getTime() && !post.is_deleted && (
-              <div className="flex items-center text-xs italic">
-                (Modifié le {format(new Date(post.post_updated_at), 'PPP p', { locale: fr })})
-              </div>
+            {isEdited(post.post_created_at, post.post_updated_at) && !post.is_deleted && (
+              <button
+                type="button"
+                onClick={() => setHistoryTarget({ type: 'post', id: post.post_id })}
+                className="flex items-center text-xs italic hover:underline"
+                title="Voir l'historique des modifications"
+              >
+                (Modifié le {formatDateTime(post.post_updated_at)})
+              </button>
             )}
           </div>
            <div className="mt-2 flex space-x-2">
+            {canEditContent('post', post.post_user_id, post.is_deleted) && !editTarget && (
+              <Button variant="ghost" size="sm" onClick={() => startEditing('post', post.post_id, post.post_user_id, post.post_title, post.post_content)} className="text-xs text-gray-500 hover:text-blue-600">
+                <Pencil className="mr-1 h-3 w-3" /> Modifier
+              </Button>
+            )}
+            {canManageTopics && !post.is_deleted && (
+              <>
+                <Button variant="ghost" size="sm" onClick={() => handleToggleTopicFlag('pinned')} disabled={isUpdatingTopicFlags} className="text-xs text-gray-500 hover:text-blue-600">
+                  {post.is_pinned ? <PinOff className="mr-1 h-3 w-3" /> : <Pin className="mr-1 h-3 w-3" />}
+                  {post.is_pinned ? 'Désépingler' : 'Épingler'}
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleToggleTopicFlag('locked')} disabled={isUpdatingTopicFlags} className="text-xs text-gray-500 hover:text-blue-600">
+                  {post.is_locked ? <Unlock className="mr-1 h-3 w-3" /> : <Lock className="mr-1 h-3 w-3" />}
+                  {post.is_locked ? 'Déverrouiller' : 'Verrouiller'}
+                </Button>
+              </>
+            )}
+            {showReplyForm && !post.is_deleted && (
+              <Button variant="ghost" size="sm" onClick={() => handleQuote(null, post.author_username, post.post_content)} className="text-xs text-gray-500 hover:text-blue-600">
+                <Quote className="mr-1 h-3 w-3" /> Citer
+              </Button>
+            )}
+            {authUser && authUser.id && !post.is_deleted && (
+              <Button variant="ghost" size="sm" onClick={handleToggleFollow} disabled={isUpdatingFollow} className="text-xs text-gray-500 hover:text-blue-600">
+                {isFollowing ? <BellOff className="mr-1 h-3 w-3" /> : <Bell className="mr-1 h-3 w-3" />}
+                {isFollowing ? 'Ne plus suivre' : 'Suivre'}
+              </Button>
+            )}
             {authUser && authUser.id && authUser.id !== post.post_user_id && !post.is_deleted && (
               <Button variant="ghost" size="sm" onClick={() => openReportModalHandler('post', post.post_id)} className="text-xs text-gray-500 hover:text-red-600">
                 <Flag className="mr-1 h-3 w-3" /> Signaler le sujet
@@ -355,17 +940,39 @@ const PostDetailPage = () => {
             )}
           </div>
         </CardHeader>
-        <CardContent className="p-6 prose dark:prose-invert max-w-none">
+        <CardContent className="p-6 text-gray-800 dark:text-gray-200">
           {post.is_deleted && !canModerate ? (
             <p className="italic text-gray-500 dark:text-gray-400">Contenu supprimé.</p>
+          ) : editTarget?.type === 'post' ? (
+            renderEditForm()
           ) : (
-            <div className="whitespace-pre-wrap">{post.post_content}</div>
+            <>
+              <MarkdownContent content={post.post_content} />
+              <AttachmentList attachments={attachments.filter(attachment => attachment.reply_id === null)} />
+              <PollWidget postId={post.post_id} canVote={!!authUser?.id && !post.is_deleted} isLocked={post.is_locked} />
+              <ReactionBar
+                reactions={reactions.filter(reaction => reaction.reply_id === null)}
+                reactionTypes={reactionTypes}
+                onReact={(reactionTypeId) => handleReact(null, reactionTypeId)}
+                canReact={!!authUser?.id && !post.is_deleted}
+                disabled={reactingTargetId === post.post_id}
+              />
+            </>
           )}
         </CardContent>
       </Card>
 
       <div className="mt-8">
-        <h2 className="text-2xl font-semibold mb-6 text-gray-800 dark:text-white">Réponses ({replies.filter(r => !(r.is_deleted && !canModerate)).length})</h2>
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-6">
+          <h2 className="text-2xl font-semibold text-gray-800 dark:text-white">Réponses ({visibleReplies.length})</h2>
+          {!repliesLoading && firstUnreadReply && (
+            <Button asChild variant="outline" size="sm">
+              <a href={`#reply-${firstUnreadReply.reply_id}`}>
+                <ArrowDown className="mr-1 h-4 w-4" /> Aller au premier message non lu
+              </a>
+            </Button>
+          )}
+        </div>
         
         {repliesLoading && (
             <div className="flex justify-center items-center py-10">
@@ -378,7 +985,7 @@ const PostDetailPage = () => {
                 <AlertTriangle className="inline h-5 w-5 mr-2" /> Erreur: {repliesError}
             </div>
         )}
-        {!repliesLoading && !repliesError && replies.filter(r => !(r.is_deleted && !canModerate)).length === 0 && (
+        {!repliesLoading && !repliesError && visibleReplies.length === 0 && (
             <div className="text-center text-gray-500 dark:text-gray-400 py-10">
                 <MessageSquare className="mx-auto h-12 w-12 mb-2" />
                 <p>Aucune réponse pour le moment.</p>
@@ -386,75 +993,66 @@ const PostDetailPage = () => {
             </div>
         )}
         
-        {!repliesLoading && !repliesError && replies.length > 0 && (
-          <div className="space-y-6 mb-8">
-            {replies.map((reply) => {
-              if (reply.is_deleted && !canModerate) return null;
-
-              return (
-                <Card key={reply.reply_id} className={`dark:bg-gray-800/70 ${reply.is_deleted && canModerate ? 'border-2 border-orange-500 opacity-70' : ''}`}>
-                  {reply.is_deleted && canModerate && (
-                    <div className="p-2 text-xs bg-orange-100 dark:bg-orange-900/50 border-b border-orange-500 text-orange-700 dark:text-orange-300">
-                      <EyeOff className="inline h-3 w-3 mr-1" /> Ce message a été supprimé le {format(new Date(reply.deleted_at!), 'Pp', { locale: fr })}. Visible uniquement par les modérateurs.
-                    </div>
-                  )}
-                  <CardHeader className="flex flex-row items-start space-x-4 p-4 border-b dark:border-gray-700">
-                    <Link to={`/profil/${reply.reply_user_id}`}>
-                      <Avatar className="h-10 w-10">
-                        <AvatarImage src={reply.author_avatar_url || undefined} alt={reply.author_username || 'Auteur'} />
-                        <AvatarFallback>{getInitials(reply.author_username)}</AvatarFallback>
-                      </Avatar>
-                    </Link>
-                    <div className="flex-grow">
-                      <Link to={`/profil/${reply.reply_user_id}`} className="font-semibold text-gray-800 dark:text-white hover:underline">
-                        {reply.author_username || 'Utilisateur inconnu'}
-                      </Link>
-                      <p className="text-xs text-gray-500 dark:text-gray-400">
-                        {format(new Date(reply.reply_created_at), 'PPP p', { locale: fr })}
-                        {reply.reply_updated_at && new Date(reply.reply_updated_at).getTime() !== new Date(reply.reply_created_at).getTime() && !reply.is_deleted && (
-                          <span className="italic"> (modifié le {format(new Date(reply.reply_updated_at), 'PPP p', { locale: fr })})</span>
-                        )}
-                      </p>
-                    </div>
-                    <div className="flex flex-col sm:flex-row space-y-1 sm:space-y-0 sm:space-x-2 items-end">
-                      {authUser && authUser.id && authUser.id !== reply.reply_user_id && !reply.is_deleted && (
-                        <Button variant="ghost" size="sm" onClick={() => openReportModalHandler('reply', reply.reply_id)} className="text-xs text-gray-500 hover:text-red-600 p-1">
-                          <Flag className="mr-1 h-3 w-3" /> Signaler
-                        </Button>
-                      )}
-                      {canModerate && !reply.is_deleted && (
-                        <Button variant="destructive" size="sm" onClick={() => openDeleteConfirmHandler('reply', reply.reply_id)} className="text-xs p-1">
-                          <Trash2 className="mr-1 h-3 w-3" /> Supprimer
-                        </Button>
-                      )}
-                    </div>
-                  </CardHeader>
-                  <CardContent className="p-4">
-                    {reply.is_deleted && !canModerate ? (
-                       <p className="italic text-gray-500 dark:text-gray-400">Contenu supprimé.</p>
-                    ) : (
-                      <div className="whitespace-pre-wrap text-gray-700 dark:text-gray-300">{reply.reply_content}</div>
-                    )}
-                  </CardContent>
-                </Card>
-              );
-            })}
-          </div>
+        {!repliesLoading && !repliesError && visibleReplies.length > 0 && (
+          <>
+            <div className="flex justify-end mb-4">
+              <div className="inline-flex rounded-md shadow-sm">
+                <Button
+                  variant={viewMode === 'threaded' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setViewMode('threaded')}
+                  className="rounded-r-none"
+                >
+                  <ListTree className="mr-1 h-4 w-4" /> Fils de discussion
+                </Button>
+                <Button
+                  variant={viewMode === 'chronological' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setViewMode('chronological')}
+                  className="rounded-l-none"
+                >
+                  <List className="mr-1 h-4 w-4" /> Chronologique
+                </Button>
+              </div>
+            </div>
+            <div className="space-y-6 mb-8">
+              {viewMode === 'threaded'
+                ? replyTree.map(node => renderReplyThread(node, 0))
+                : visibleReplies.map(reply => <div key={reply.reply_id}>{renderReplyCard(reply)}</div>)}
+            </div>
+          </>
         )}
 
         {showReplyForm && (
-          <Card className="dark:bg-gray-800/70">
+          <Card id="reply-form" className="dark:bg-gray-800/70 scroll-mt-20">
             <CardHeader>
               <CardTitle className="text-lg dark:text-white">Ajouter une réponse</CardTitle>
             </CardHeader>
             <CardContent>
-              <Textarea
+              {replyingTo && (
+                <div className="flex items-center justify-between mb-3 p-2 rounded-md bg-blue-50 dark:bg-blue-900/30 text-sm text-blue-700 dark:text-blue-300">
+                  <a href={`#reply-${replyingTo.reply_id}`} className="hover:underline">
+                    <CornerDownRight className="inline h-4 w-4 mr-1" />
+                    En réponse à {replyingTo.author_username || 'Utilisateur inconnu'}
+                  </a>
+                  <Button variant="ghost" size="sm" onClick={() => setReplyingTo(null)} className="h-6 p-1 text-blue-700 dark:text-blue-300">
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+              <MarkdownEditor
                 value={newReplyContent}
-                onChange={(e) => setNewReplyContent(e.target.value)}
+                onChange={setNewReplyContent}
                 placeholder="Écrivez votre réponse ici..."
                 className="min-h-[100px] dark:bg-gray-700 dark:text-white dark:placeholder-gray-400"
                 disabled={isSubmittingReply || (post.is_deleted && !canModerate)}
               />
+              <AttachmentUploader
+                userId={authUser.id}
+                value={newReplyAttachments}
+                onChange={setNewReplyAttachments}
+                disabled={isSubmittingReply || (post.is_deleted && !canModerate)}
+              />
               <Button 
                 onClick={handleAddReply} 
                 disabled={isSubmittingReply || !newReplyContent.trim() || (post.is_deleted && !canModerate)}
@@ -467,6 +1065,14 @@ const PostDetailPage = () => {
             </CardContent>
           </Card>
         )}
+        {post.is_locked && !post.is_deleted && (
+          <div className="flex items-center p-4 rounded-md bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 text-sm">
+            <Lock className="h-4 w-4 mr-2 flex-shrink-0" />
+            {canManageTopics
+              ? "Ce sujet est verrouillé. En tant que modérateur, vous pouvez encore y répondre."
+              : "Ce sujet est verrouillé : il n'accepte plus de nouvelles réponses."}
+          </div>
+        )}
         {showLoginPrompt && (
             <Card className="dark:bg-gray-800/70">
                 <CardHeader>
@@ -488,6 +1094,21 @@ const PostDetailPage = () => {
         contentId={reportContentId}
       />
 
+      {historyTarget && (
+        <RevisionHistoryDialog
+          isOpen={!!historyTarget}
+          onClose={() => setHistoryTarget(null)}
+          contentType={historyTarget.type}
+          contentId={historyTarget.id}
+          currentTitle={historyTarget.type === 'post' ? post.post_title : null}
+          currentContent={
+            historyTarget.type === 'post'
+              ? post.post_content
+              : replies.find(r => r.reply_id === historyTarget.id)?.reply_content ?? ''
+          }
+        />
+      )}
+
       <AlertDialog open={isDeleteConfirmOpen} onOpenChange={setIsDeleteConfirmOpen}>
         <AlertDialogContent className="dark:bg-gray-800">
           <AlertDialogHeader>
@@ -1,44 +1,35 @@
-import { useParams, useNavigate } from 'react-router-dom';
+import { Link, useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
+import { useDateFormatter } from '@/hooks/useDateFormatter';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
-import { Loader2, Edit, Save, XCircle, UserCircle, Mail, CalendarDays, ShieldCheck, Info, Settings, Activity, MessageSquare, PlusCircle, Edit3, ListChecks } from 'lucide-react';
-import { useEffect, useState, FormEvent } from 'react';
+import { Loader2, Edit, Save, XCircle, UserCircle, Mail, CalendarDays, ShieldCheck, Info, Settings, Activity, Camera, Trash2, Send, Ban } from 'lucide-react';
+import { useEffect, useRef, useState, ChangeEvent, FormEvent } from 'react';
 import { supabase } from '@/lib/supabaseClient';
 import { Profile } from '@/contexts/UserContext';
 import { toast } from 'sonner';
+import AvatarCropDialog from '@/components/modals/AvatarCropDialog';
+import UserActivityFeed from '@/components/profile/UserActivityFeed';
+import NewConversationDialog from '@/components/messages/NewConversationDialog';
+import { isMemberBlocked, setMemberBlocked } from '@/lib/messaging';
+import { AvatarCrop, getAvatarUrl, removeAvatarFiles, uploadAvatar, validateAvatarFile } from '@/lib/avatars';
+import { AVATAR_SOURCE_MIME_TYPES } from '@/constants/avatars';
 
 interface ProfileFormData {
   full_name: string;
-  avatar_url: string;
   biography: string;
   signature: string;
 }
 
-interface ActivityItem {
-  id: string;
-  type: 'new_post' | 'new_thread' | 'profile_update' | 'task_completed';
-  description: string;
-  timestamp: string; // For simplicity, using string like "2 hours ago" or a formatted date
-  icon: React.ElementType;
-  link?: string; // Optional link to the content
-}
-
-const mockActivities: ActivityItem[] = [
-  { id: '1', type: 'new_post', description: "A posté une réponse dans le sujet 'Discussions Générales'", timestamp: 'Il y a 2 heures', icon: MessageSquare, link: '#' },
-  { id: '2', type: 'new_thread', description: "A créé un nouveau sujet : 'Idées de fonctionnalités'", timestamp: 'Il y a 1 jour', icon: PlusCircle, link: '#' },
-  { id: '3', type: 'profile_update', description: 'A mis à jour sa biographie', timestamp: 'Il y a 3 jours', icon: Edit3 },
-  { id: '4', type: 'task_completed', description: "A complété la tâche 'Vérifier les nouveaux messages'", timestamp: 'Il y a 5 jours', icon: ListChecks },
-];
-
 const ProfilePage = () => {
   const { userId } = useParams<{ userId: string }>();
   const navigate = useNavigate();
   const { profile: currentUserProfile, isLoadingAuth: isLoadingCurrentUserAuth, authUser } = useAuth();
+  const { formatDate } = useDateFormatter();
   
   const [profileData, setProfileData] = useState<Profile | null>(null);
   const [isLoadingProfile, setIsLoadingProfile] = useState(true);
@@ -47,10 +38,15 @@ const ProfilePage = () => {
   const [isSaving, setIsSaving] = useState(false);
   const [formData, setFormData] = useState<ProfileFormData>({
     full_name: '',
-    avatar_url: '',
     biography: '',
     signature: '',
   });
+  const avatarInputRef = useRef<HTMLInputElement>(null);
+  const [avatarFile, setAvatarFile] = useState<File | null>(null);
+  const [isSavingAvatar, setIsSavingAvatar] = useState(false);
+  const [isNewConversationOpen, setIsNewConversationOpen] = useState(false);
+  const [isBlocked, setIsBlocked] = useState(false);
+  const [isUpdatingBlock, setIsUpdatingBlock] = useState(false);
 
   const fetchProfile = async (id: string) => {
     setIsLoadingProfile(true);
@@ -71,7 +67,6 @@ const ProfilePage = () => {
         if (data && authUser?.id === data.id) {
           setFormData({
             full_name: data.full_name || '',
-            avatar_url: data.avatar_url || '',
             biography: data.biography || '',
             signature: data.signature || '',
           });
@@ -98,7 +93,6 @@ const ProfilePage = () => {
       setProfileData(currentUserProfile);
       setFormData({
         full_name: currentUserProfile.full_name || '',
-        avatar_url: currentUserProfile.avatar_url || '',
         biography: currentUserProfile.biography || '',
         signature: currentUserProfile.signature || '',
       });
@@ -108,6 +102,33 @@ const ProfilePage = () => {
     }
   }, [userId, authUser?.id, currentUserProfile, navigate]);
 
+  useEffect(() => {
+    if (!authUser?.id || !userId || userId === authUser.id) {
+      setIsBlocked(false);
+      return;
+    }
+    isMemberBlocked(authUser.id, userId)
+      .then(setIsBlocked)
+      .catch((err) => console.error("Error fetching block status:", err));
+  }, [userId, authUser?.id]);
+
+  const handleToggleBlock = async () => {
+    if (!authUser?.id || !profileData) return;
+    setIsUpdatingBlock(true);
+    try {
+      await setMemberBlocked(authUser.id, profileData.id, !isBlocked);
+      setIsBlocked(!isBlocked);
+      toast.success(isBlocked
+        ? `${profileData.username} peut de nouveau vous écrire.`
+        : `${profileData.username} ne peut plus vous écrire et ses messages privés vous sont masqués.`);
+    } catch (err: any) {
+      console.error("Error updating block:", err);
+      toast.error(`Erreur lors de la modification du blocage: ${err.message}`);
+    } finally {
+      setIsUpdatingBlock(false);
+    }
+  };
+
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
@@ -119,7 +140,6 @@ const ProfilePage = () => {
       if (profileData) {
         setFormData({
           full_name: profileData.full_name || '',
-          avatar_url: profileData.avatar_url || '',
           biography: profileData.biography || '',
           signature: profileData.signature || '',
         });
@@ -136,7 +156,6 @@ const ProfilePage = () => {
     const updates = {
       id: authUser.id,
       full_name: formData.full_name,
-      avatar_url: formData.avatar_url,
       biography: formData.biography,
       signature: formData.signature,
       updated_at: new Date().toISOString(),
@@ -165,6 +184,66 @@ const ProfilePage = () => {
     }
   };
 
+  const handleAvatarFileSelected = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const validationError = validateAvatarFile(file);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+    setAvatarFile(file);
+  };
+
+  // Stores the new avatar URL, then deletes the files of the previous one once nothing points to them.
+  const saveAvatarUrl = async (avatarUrl: string | null) => {
+    if (!profileData || !authUser || authUser.id !== profileData.id) return;
+    const previousAvatarUrl = profileData.avatar_url;
+
+    const { error: updateError } = await supabase
+      .from('profiles')
+      .update({ avatar_url: avatarUrl, updated_at: new Date().toISOString() })
+      .eq('id', authUser.id);
+    if (updateError) throw updateError;
+
+    setProfileData(prev => prev ? { ...prev, avatar_url: avatarUrl } : null);
+    await removeAvatarFiles(previousAvatarUrl);
+  };
+
+  const handleAvatarCropConfirm = async (image: HTMLImageElement, crop: AvatarCrop) => {
+    if (!authUser) return;
+
+    setIsSavingAvatar(true);
+    let uploadedAvatarUrl: string | null = null;
+    try {
+      uploadedAvatarUrl = await uploadAvatar(authUser.id, image, crop);
+      await saveAvatarUrl(uploadedAvatarUrl);
+      toast.success('Avatar mis à jour avec succès!');
+      setAvatarFile(null);
+    } catch (error: any) {
+      console.error('Error updating avatar:', error);
+      if (uploadedAvatarUrl) await removeAvatarFiles(uploadedAvatarUrl);
+      toast.error(`Erreur lors de la mise à jour de l'avatar: ${error.message}`);
+    } finally {
+      setIsSavingAvatar(false);
+    }
+  };
+
+  const handleAvatarRemove = async () => {
+    setIsSavingAvatar(true);
+    try {
+      await saveAvatarUrl(null);
+      toast.success('Avatar supprimé.');
+    } catch (error: any) {
+      console.error('Error removing avatar:', error);
+      toast.error(`Erreur lors de la suppression de l'avatar: ${error.message}`);
+    } finally {
+      setIsSavingAvatar(false);
+    }
+  };
+
   const isLoading = isLoadingCurrentUserAuth || isLoadingProfile;
 
   if (isLoading) {
@@ -195,7 +274,7 @@ const ProfilePage = () => {
   }
 
   const canEdit = authUser?.id === profileData.id;
-  const registrationDate = profileData.created_at ? new Date(profileData.created_at).toLocaleDateString('fr-FR', { year: 'numeric', month: 'long', day: 'numeric' }) : 'N/A';
+  const registrationDate = profileData.created_at ? formatDate(profileData.created_at) : 'N/A';
   const userEmail = (authUser?.id === profileData.id) ? authUser.email : 'Non disponible';
 
 
@@ -205,7 +284,7 @@ const ProfilePage = () => {
         <CardHeader className="bg-gray-100 dark:bg-gray-800 p-6 border-b dark:border-gray-700">
           <div className="flex flex-col sm:flex-row items-center space-y-4 sm:space-y-0 sm:space-x-6">
             <Avatar className="w-28 h-28 sm:w-32 sm:h-32 border-4 border-primary dark:border-primary-dark ring-2 ring-primary-focus dark:ring-primary-dark-focus shadow-lg">
-              <AvatarImage src={isEditing ? formData.avatar_url : profileData.avatar_url || undefined} alt={profileData.username || profileData.full_name || 'User Avatar'} />
+              <AvatarImage src={getAvatarUrl(profileData.avatar_url)} alt={profileData.username || profileData.full_name || 'User Avatar'} />
               <AvatarFallback className="text-4xl bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
                 {(profileData.username || profileData.full_name || 'U').charAt(0).toUpperCase()}
               </AvatarFallback>
@@ -228,6 +307,18 @@ const ProfilePage = () => {
                 <p className="flex items-center justify-center sm:justify-start mt-1"><CalendarDays className="w-4 h-4 mr-1.5 text-blue-500" />Membre depuis: {registrationDate}</p>
               </div>
             </div>
+            {!canEdit && authUser && profileData.status === 'approved' && (
+              <div className="sm:ml-auto flex flex-col gap-2">
+                <Button onClick={() => setIsNewConversationOpen(true)} disabled={isBlocked} className="bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 text-white px-6 py-2 rounded-lg shadow-md">
+                  <Send className="mr-2 h-5 w-5" />
+                  Envoyer un message
+                </Button>
+                <Button variant="outline" onClick={handleToggleBlock} disabled={isUpdatingBlock} className="rounded-lg">
+                  {isUpdatingBlock ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Ban className="mr-2 h-4 w-4" />}
+                  {isBlocked ? 'Débloquer' : 'Bloquer'}
+                </Button>
+              </div>
+            )}
             {canEdit && !isEditing && (
               <Button onClick={handleEditToggle} className="sm:ml-auto bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 text-white px-6 py-2 rounded-lg shadow-md transition-transform duration-150 hover:scale-105">
                 <Edit className="mr-2 h-5 w-5" />
@@ -241,16 +332,27 @@ const ProfilePage = () => {
           {isEditing && canEdit && (
             <form onSubmit={handleSubmit} className="space-y-6 bg-white dark:bg-gray-800 p-6 rounded-lg shadow">
               <div>
-                <Label htmlFor="avatar_url" className="text-sm font-medium text-gray-700 dark:text-gray-300">URL de l'avatar</Label>
-                <Input
-                  id="avatar_url"
-                  name="avatar_url"
-                  type="url"
-                  value={formData.avatar_url}
-                  onChange={handleInputChange}
-                  placeholder="https://example.com/avatar.png"
-                  className="mt-1"
+                <Label className="text-sm font-medium text-gray-700 dark:text-gray-300">Avatar</Label>
+                <input
+                  ref={avatarInputRef}
+                  type="file"
+                  accept={AVATAR_SOURCE_MIME_TYPES.join(',')}
+                  onChange={handleAvatarFileSelected}
+                  className="hidden"
                 />
+                <div className="mt-1 flex flex-wrap items-center gap-2">
+                  <Button type="button" variant="outline" onClick={() => avatarInputRef.current?.click()} disabled={isSavingAvatar}>
+                    {isSavingAvatar ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Camera className="mr-2 h-4 w-4" />}
+                    Changer l'avatar
+                  </Button>
+                  {profileData.avatar_url && (
+                    <Button type="button" variant="outline" onClick={handleAvatarRemove} disabled={isSavingAvatar} className="text-red-600 dark:text-red-400">
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      Supprimer l'avatar
+                    </Button>
+                  )}
+                </div>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">JPEG, PNG, WebP ou GIF. L'image est recadrée en carré et enregistrée immédiatement.</p>
               </div>
               <div>
                 <Label htmlFor="biography" className="text-sm font-medium text-gray-700 dark:text-gray-300">Biographie</Label>
@@ -295,7 +397,7 @@ const ProfilePage = () => {
                 <div className="pl-7 space-y-1 text-gray-600 dark:text-gray-400">
                   <p><strong className="font-medium text-gray-700 dark:text-gray-300">Nom d'utilisateur:</strong> {profileData.username}</p>
                   <p><strong className="font-medium text-gray-700 dark:text-gray-300">Nom complet:</strong> {profileData.full_name || 'Non spécifié'}</p>
-                  <p className="flex items-center"><Mail className="w-4 h-4 mr-1.5 text-gray-500" /> <strong className="font-medium text-gray-700 dark:text-gray-300">Email:</strong> {userEmail} {canEdit && <em className="text-xs ml-2">(La modification de l'email sera bientôt disponible)</em>}</p>
+                  <p className="flex items-center"><Mail className="w-4 h-4 mr-1.5 text-gray-500" /> <strong className="font-medium text-gray-700 dark:text-gray-300">Email:</strong> {userEmail} {canEdit && <Link to="/parametre" className="text-xs ml-2 text-blue-600 hover:underline dark:text-blue-400">Modifier</Link>}</p>
                 </div>
               </div>
 
@@ -313,40 +415,37 @@ const ProfilePage = () => {
           
           <div className="mt-8 pt-6 border-t dark:border-gray-700">
             <h3 className="text-xl font-semibold text-gray-700 dark:text-gray-300 mb-4 flex items-center"><Activity className="w-6 h-6 mr-2 text-purple-500" />Activité Récente</h3>
-            {mockActivities.length > 0 ? (
-              <ul className="space-y-4">
-                {mockActivities.map((activity) => (
-                  <li key={activity.id} className="flex items-start p-4 bg-gray-50 dark:bg-gray-750 rounded-lg shadow-sm hover:shadow-md transition-shadow duration-200">
-                    <activity.icon className="w-6 h-6 mr-4 text-purple-500 dark:text-purple-400 flex-shrink-0 mt-1" />
-                    <div className="flex-grow">
-                      <p className="text-sm text-gray-700 dark:text-gray-200">
-                        {activity.link ? (
-                          <a href={activity.link} className="hover:underline font-medium">{activity.description}</a>
-                        ) : (
-                          activity.description
-                        )}
-                      </p>
-                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">{activity.timestamp}</p>
-                    </div>
-                  </li>
-                ))}
-              </ul>
-            ) : (
-              <div className="p-4 bg-gray-50 dark:bg-gray-750 rounded-lg text-center">
-                <p className="text-gray-500 dark:text-gray-400 italic">Aucune activité récente à afficher.</p>
-              </div>
-            )}
+            <UserActivityFeed key={profileData.id} userId={profileData.id} />
           </div>
 
-          <div className="mt-8 pt-6 border-t dark:border-gray-700">
-            <h3 className="text-xl font-semibold text-gray-700 dark:text-gray-300 mb-3 flex items-center"><Settings className="w-6 h-6 mr-2 text-orange-500" />Préférences du Compte</h3>
-            <div className="p-4 bg-gray-50 dark:bg-gray-750 rounded-lg text-center">
-              <p className="text-gray-500 dark:text-gray-400 italic">La gestion des préférences du compte sera bientôt disponible.</p>
+          {canEdit && (
+            <div className="mt-8 pt-6 border-t dark:border-gray-700">
+              <h3 className="text-xl font-semibold text-gray-700 dark:text-gray-300 mb-3 flex items-center"><Settings className="w-6 h-6 mr-2 text-orange-500" />Préférences du Compte</h3>
+              <div className="p-4 bg-gray-50 dark:bg-gray-750 rounded-lg text-center">
+                <p className="text-gray-500 dark:text-gray-400">
+                  Email, mot de passe, nom d'utilisateur, notifications et affichage se règlent dans les{' '}
+                  <Link to="/parametre" className="text-blue-600 hover:underline dark:text-blue-400">paramètres du compte</Link>.
+                </p>
+              </div>
             </div>
-          </div>
+          )}
 
         </CardContent>
       </Card>
+
+      {isNewConversationOpen && (
+        <NewConversationDialog
+          onClose={() => setIsNewConversationOpen(false)}
+          initialRecipients={[{ id: profileData.id, username: profileData.username, avatar_url: profileData.avatar_url }]}
+        />
+      )}
+
+      <AvatarCropDialog
+        file={avatarFile}
+        isSaving={isSavingAvatar}
+        onClose={() => setAvatarFile(null)}
+        onConfirm={handleAvatarCropConfirm}
+      />
     </div>
   );
 };
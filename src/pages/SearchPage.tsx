@@ -0,0 +1,372 @@
+import { useEffect, useState, useCallback } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { supabase } from '@/lib/supabaseClient';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Search, Loader2, AlertTriangle, FileText, UserCircle, CalendarDays, FolderKanban, X } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import PaginationBar from '@/components/common/PaginationBar';
+import { SEARCH_RESULTS_PER_PAGE } from '@/constants/forum';
+
+interface ForumCategoryOption {
+  id: string;
+  name: string;
+}
+
+interface SearchResult {
+  result_type: 'post' | 'reply';
+  post_id: string;
+  reply_id: string | null;
+  post_title: string;
+  title_highlight: string | null;
+  snippet: string;
+  category_id: string;
+  category_name: string;
+  category_slug: string;
+  author_id: string | null;
+  author_username: string | null;
+  created_at: string;
+  rank: number;
+  total_count: number;
+}
+
+interface SearchFilters {
+  query: string;
+  categoryId: string;
+  author: string;
+  dateFrom: string;
+  dateTo: string;
+}
+
+// Matched terms are delimited by these characters in the snippets returned by search_forum.
+const HIGHLIGHT_START = '\uE000';
+const HIGHLIGHT_END = '\uE001';
+const ALL_CATEGORIES = 'all';
+
+const filtersFromParams = (searchParams: URLSearchParams): SearchFilters => ({
+  query: searchParams.get('q') || '',
+  categoryId: searchParams.get('categorie') || ALL_CATEGORIES,
+  author: searchParams.get('auteur') || '',
+  dateFrom: searchParams.get('du') || '',
+  dateTo: searchParams.get('au') || '',
+});
+
+const renderHighlighted = (text: string) => {
+  const parts = text.split(HIGHLIGHT_START);
+  return parts.map((part, index) => {
+    if (index === 0) return <span key={index}>{part}</span>;
+    const [matched, ...rest] = part.split(HIGHLIGHT_END);
+    return (
+      <span key={index}>
+        <mark className="bg-yellow-200 dark:bg-yellow-700 dark:text-white rounded px-0.5">{matched}</mark>
+        {rest.join('')}
+      </span>
+    );
+  });
+};
+
+const SearchPage = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [filters, setFilters] = useState<SearchFilters>(() => filtersFromParams(searchParams));
+  const [categories, setCategories] = useState<ForumCategoryOption[]>([]);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const activeFilters = filtersFromParams(searchParams);
+  const currentPage = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+  const totalPages = Math.max(1, Math.ceil(totalCount / SEARCH_RESULTS_PER_PAGE));
+  const hasQuery = activeFilters.query.trim() !== '';
+
+  // Keep the form in sync when the URL changes (e.g. a new search from the sidebar).
+  useEffect(() => {
+    setFilters(filtersFromParams(searchParams));
+  }, [searchParams]);
+
+  useEffect(() => {
+    const fetchCategories = async () => {
+      const { data, error: categoriesError } = await supabase
+        .from('forum_categories')
+        .select('id, name')
+        .order('name', { ascending: true });
+
+      if (categoriesError) {
+        console.error('Error fetching categories:', categoriesError);
+        return;
+      }
+      setCategories(data || []);
+    };
+
+    fetchCategories();
+  }, []);
+
+  const fetchResults = useCallback(async () => {
+    const { query, categoryId, author, dateFrom, dateTo } = filtersFromParams(searchParams);
+    if (!query.trim()) {
+      setResults([]);
+      setTotalCount(0);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const { data, error: rpcError } = await supabase.rpc('search_forum', {
+        p_query: query,
+        p_category_id: categoryId !== ALL_CATEGORIES ? categoryId : null,
+        p_author_username: author || null,
+        p_date_from: dateFrom || null,
+        p_date_to: dateTo || null,
+        p_page: currentPage,
+        p_limit: SEARCH_RESULTS_PER_PAGE,
+      });
+
+      if (rpcError) {
+        console.error('Supabase RPC error details:', rpcError);
+        throw rpcError;
+      }
+
+      const rows = (data as SearchResult[]) || [];
+      setResults(rows);
+      setTotalCount(rows.length > 0 ? Number(rows[0].total_count) : 0);
+    } catch (err: any) {
+      console.error('Error searching forum:', err);
+      setError(err.message || 'Impossible d\'effectuer la recherche. Veuillez réessayer plus tard.');
+    } finally {
+      setLoading(false);
+    }
+  }, [searchParams, currentPage]);
+
+  useEffect(() => {
+    fetchResults();
+  }, [fetchResults]);
+
+  const buildParams = (values: SearchFilters, page: number) => {
+    const next = new URLSearchParams();
+    if (values.query.trim()) next.set('q', values.query.trim());
+    if (values.categoryId !== ALL_CATEGORIES) next.set('categorie', values.categoryId);
+    if (values.author.trim()) next.set('auteur', values.author.trim());
+    if (values.dateFrom) next.set('du', values.dateFrom);
+    if (values.dateTo) next.set('au', values.dateTo);
+    if (page > 1) next.set('page', String(page));
+    return next;
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearchParams(buildParams(filters, 1));
+  };
+
+  const handleResetFilters = () => {
+    setSearchParams(buildParams({ ...filtersFromParams(new URLSearchParams()), query: activeFilters.query }, 1));
+  };
+
+  const getPageHref = (page: number) => `?${buildParams(activeFilters, page).toString()}`;
+
+  const handlePageChange = (page: number) => {
+    setSearchParams(buildParams(activeFilters, page));
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const hasActiveFilters =
+    activeFilters.categoryId !== ALL_CATEGORIES || activeFilters.author !== '' || activeFilters.dateFrom !== '' || activeFilters.dateTo !== '';
+
+  return (
+    <div className="container mx-auto py-8 px-4 md:px-6">
+      <header className="mb-8">
+        <h1 className="text-3xl md:text-4xl font-extrabold text-gray-800 dark:text-white">
+          Recherche
+        </h1>
+        <p className="mt-2 text-md text-gray-600 dark:text-gray-300">
+          Recherchez dans les titres, les messages et les réponses du forum.
+        </p>
+      </header>
+
+      <Card className="mb-8 dark:bg-gray-800">
+        <CardContent className="p-4 md:p-6">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="flex gap-2">
+              <Input
+                type="search"
+                value={filters.query}
+                onChange={(e) => setFilters({ ...filters, query: e.target.value })}
+                placeholder='Mots-clés, "expression exacte", -exclure...'
+                aria-label="Termes de recherche"
+                className="dark:bg-gray-700 dark:text-white dark:border-gray-600"
+              />
+              <Button type="submit" className="bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600">
+                <Search className="mr-2 h-4 w-4" />
+                Rechercher
+              </Button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <Label htmlFor="search-category" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+                  Catégorie
+                </Label>
+                <Select value={filters.categoryId} onValueChange={(value) => setFilters({ ...filters, categoryId: value })}>
+                  <SelectTrigger id="search-category" className="dark:bg-gray-700 dark:text-white dark:border-gray-600">
+                    <SelectValue placeholder="Toutes les catégories" />
+                  </SelectTrigger>
+                  <SelectContent className="dark:bg-gray-800 dark:text-white">
+                    <SelectItem value={ALL_CATEGORIES}>Toutes les catégories</SelectItem>
+                    {categories.map(category => (
+                      <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="search-author" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+                  Auteur
+                </Label>
+                <Input
+                  id="search-author"
+                  value={filters.author}
+                  onChange={(e) => setFilters({ ...filters, author: e.target.value })}
+                  placeholder="Nom d'utilisateur"
+                  className="dark:bg-gray-700 dark:text-white dark:border-gray-600"
+                />
+              </div>
+              <div>
+                <Label htmlFor="search-date-from" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+                  Du
+                </Label>
+                <Input
+                  id="search-date-from"
+                  type="date"
+                  value={filters.dateFrom}
+                  max={filters.dateTo || undefined}
+                  onChange={(e) => setFilters({ ...filters, dateFrom: e.target.value })}
+                  className="dark:bg-gray-700 dark:text-white dark:border-gray-600"
+                />
+              </div>
+              <div>
+                <Label htmlFor="search-date-to" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+                  Au
+                </Label>
+                <Input
+                  id="search-date-to"
+                  type="date"
+                  value={filters.dateTo}
+                  min={filters.dateFrom || undefined}
+                  onChange={(e) => setFilters({ ...filters, dateTo: e.target.value })}
+                  className="dark:bg-gray-700 dark:text-white dark:border-gray-600"
+                />
+              </div>
+            </div>
+            {hasActiveFilters && (
+              <Button type="button" variant="ghost" size="sm" onClick={handleResetFilters} className="text-gray-600 dark:text-gray-300">
+                <X className="mr-1 h-4 w-4" />
+                Réinitialiser les filtres
+              </Button>
+            )}
+          </form>
+        </CardContent>
+      </Card>
+
+      {error ? (
+        <Card className="bg-red-50 border-red-500 dark:bg-red-900/30 dark:border-red-700">
+          <CardHeader>
+            <div className="flex items-center text-red-600 dark:text-red-400">
+              <AlertTriangle className="h-6 w-6 mr-2" />
+              <CardTitle>Erreur</CardTitle>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <p className="text-red-700 dark:text-red-300">{error}</p>
+          </CardContent>
+        </Card>
+      ) : !hasQuery ? (
+        <div className="text-center py-10 border-2 border-dashed border-gray-300 dark:border-gray-700 rounded-lg">
+          <Search className="mx-auto h-16 w-16 text-gray-400 dark:text-gray-500 mb-4" />
+          <p className="text-xl text-gray-600 dark:text-gray-300">Saisissez un ou plusieurs mots pour lancer une recherche.</p>
+        </div>
+      ) : loading ? (
+        <div className="flex justify-center items-center py-10">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
+          <p className="ml-3 text-gray-500 dark:text-gray-400">Recherche en cours...</p>
+        </div>
+      ) : results.length === 0 ? (
+        <div className="text-center py-10 border-2 border-dashed border-gray-300 dark:border-gray-700 rounded-lg">
+          <FileText className="mx-auto h-16 w-16 text-gray-400 dark:text-gray-500 mb-4" />
+          <p className="text-xl text-gray-600 dark:text-gray-300">Aucun résultat pour « {activeFilters.query} ».</p>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">Essayez d'autres mots-clés ou élargissez les filtres.</p>
+        </div>
+      ) : (
+        <>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+            {totalCount} résultat{totalCount > 1 ? 's' : ''}
+            {totalPages > 1 && ` • Page ${currentPage} sur ${totalPages}`}
+          </p>
+          <div className="space-y-4">
+            {results.map((result) => {
+              const href = result.reply_id
+                ? `/forum/sujet/${result.post_id}#reply-${result.reply_id}`
+                : `/forum/sujet/${result.post_id}`;
+              return (
+                <Card key={result.reply_id ?? result.post_id} className="hover:shadow-lg transition-shadow duration-200 ease-in-out dark:bg-gray-800">
+                  <CardContent className="p-4 md:p-6">
+                    <div className="flex items-center gap-2 mb-1">
+                      <Badge variant={result.result_type === 'post' ? 'default' : 'secondary'}>
+                        {result.result_type === 'post' ? 'Sujet' : 'Réponse'}
+                      </Badge>
+                      <Link to={href} className="min-w-0">
+                        <h3 className="text-lg font-semibold text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-500 transition-colors truncate">
+                          {result.result_type === 'reply' && <span className="font-normal text-gray-500 dark:text-gray-400">Re : </span>}
+                          {renderHighlighted(result.title_highlight ?? result.post_title)}
+                        </h3>
+                      </Link>
+                    </div>
+                    {result.snippet && (
+                      <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-line break-words mb-2">
+                        {renderHighlighted(result.snippet)}
+                      </p>
+                    )}
+                    <div className="flex flex-wrap items-center text-xs text-gray-500 dark:text-gray-400 gap-x-3 gap-y-1">
+                      <Link to={`/forum/categorie/${result.category_slug}`} className="flex items-center hover:underline">
+                        <FolderKanban className="h-4 w-4 mr-1" />
+                        <span>{result.category_name}</span>
+                      </Link>
+                      <div className="flex items-center">
+                        <UserCircle className="h-4 w-4 mr-1" />
+                        {result.author_id ? (
+                          <Link to={`/profil/${result.author_id}`} className="hover:underline">
+                            {result.author_username || 'Utilisateur inconnu'}
+                          </Link>
+                        ) : (
+                          <span>Utilisateur inconnu</span>
+                        )}
+                      </div>
+                      <div className="flex items-center">
+                        <CalendarDays className="h-4 w-4 mr-1" />
+                        <span>
+                          {formatDistanceToNow(new Date(result.created_at), { addSuffix: true, locale: fr })}
+                        </span>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+          <PaginationBar
+            currentPage={currentPage}
+            totalPages={totalPages}
+            onPageChange={handlePageChange}
+            getPageHref={getPageHref}
+            className="mt-8"
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SearchPage;
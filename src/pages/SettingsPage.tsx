@@ -1,11 +1,17 @@
+import { useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import AdminDashboardPage from './admin/AdminDashboardPage'; // To embed admin content
-import { Loader2, UserCircle, ShieldAlert } from 'lucide-react';
+import NotificationPreferencesCard from '@/components/settings/NotificationPreferencesCard';
+import SubscriptionSettingsCard from '@/components/settings/SubscriptionSettingsCard';
+import AccountSettingsCard from '@/components/settings/AccountSettingsCard';
+import DisplayPreferencesCard from '@/components/settings/DisplayPreferencesCard';
+import { Loader2, UserCircle, ShieldAlert, Bell, Palette } from 'lucide-react';
 
 const SettingsPage = () => {
   const { profile, isLoadingAuth, canModerate } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const activeTab = searchParams.get('onglet') || 'profile';
 
   if (isLoadingAuth) {
     return (
@@ -28,11 +34,19 @@ const SettingsPage = () => {
   return (
     <div className="container mx-auto py-8 px-4 md:px-6">
       <h1 className="text-3xl font-bold text-gray-800 dark:text-white mb-8">Paramètres du compte</h1>
-      <Tabs defaultValue="profile" className="w-full">
-        <TabsList className="grid w-full grid-cols-1 md:grid-cols-2 lg:max-w-md mb-6">
+      <Tabs value={activeTab} onValueChange={(value) => setSearchParams(value === 'profile' ? {} : { onglet: value })} className="w-full">
+        <TabsList className="grid w-full grid-cols-1 md:grid-cols-4 lg:max-w-3xl mb-6">
           <TabsTrigger value="profile" className="flex items-center gap-2">
             <UserCircle className="h-5 w-5" />
-            Mon Profil
+            Mon Compte
+          </TabsTrigger>
+          <TabsTrigger value="notifications" className="flex items-center gap-2">
+            <Bell className="h-5 w-5" />
+            Notifications
+          </TabsTrigger>
+          <TabsTrigger value="affichage" className="flex items-center gap-2">
+            <Palette className="h-5 w-5" />
+            Affichage
           </TabsTrigger>
           {canModerate && (
             <TabsTrigger value="admin_dashboard" className="flex items-center gap-2">
@@ -43,35 +57,16 @@ const SettingsPage = () => {
         </TabsList>
 
         <TabsContent value="profile">
-          <Card className="dark:bg-gray-800">
-            <CardHeader>
-              <CardTitle className="text-2xl">Gestion du Profil</CardTitle>
-              <CardDescription>
-                Modifiez les informations de votre profil public.
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              {/* Placeholder for profile editing form */}
-              <div className="p-6 border border-dashed rounded-md dark:border-gray-700">
-                <p className="text-gray-600 dark:text-gray-400">
-                  Ici, vous pourrez bientôt modifier votre nom d'utilisateur, votre nom complet, votre avatar et d'autres informations personnelles.
-                </p>
-                <p className="mt-2 text-sm text-gray-500 dark:text-gray-500">
-                  Par exemple : changer votre photo de profil, mettre à jour votre biographie, etc.
-                </p>
-              </div>
-              <div>
-                <h3 className="font-semibold text-lg mb-2 dark:text-gray-200">Informations actuelles :</h3>
-                <ul className="list-disc list-inside space-y-1 text-gray-700 dark:text-gray-300">
-                  <li>Nom d'utilisateur: <span className="font-medium">{profile.username || 'Non défini'}</span></li>
-                  <li>Nom complet: <span className="font-medium">{profile.full_name || 'Non défini'}</span></li>
-                  <li>Email (non modifiable ici): <span className="font-medium">{profile.id /* Actually user.email from authUser would be better here, but profile.id is a placeholder */}</span></li>
-                  <li>Rôle: <span className="font-medium">{profile.role}</span></li>
-                  <li>Statut: <span className="font-medium">{profile.status}</span></li>
-                </ul>
-              </div>
-            </CardContent>
-          </Card>
+          <AccountSettingsCard />
+        </TabsContent>
+
+        <TabsContent value="notifications" className="space-y-6">
+          <NotificationPreferencesCard userId={profile.id} />
+          <SubscriptionSettingsCard userId={profile.id} />
+        </TabsContent>
+
+        <TabsContent value="affichage">
+          <DisplayPreferencesCard />
         </TabsContent>
 
         {canModerate && (
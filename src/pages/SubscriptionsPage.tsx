@@ -0,0 +1,178 @@
+import { useEffect, useState, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/lib/supabaseClient';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Eye, BellOff, Loader2, AlertTriangle, FileText, FolderKanban, Clock } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { useToast } from '@/hooks/use-toast';
+
+interface Subscription {
+  subscription_type: 'topic' | 'category';
+  target_id: string;
+  title: string;
+  category_name: string;
+  category_slug: string;
+  subscribed_at: string;
+  last_activity_at: string | null;
+  unread_count: number;
+}
+
+const SubscriptionsPage = () => {
+  const { toast } = useToast();
+  const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [unsubscribingId, setUnsubscribingId] = useState<string | null>(null);
+
+  const fetchSubscriptions = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const { data, error: rpcError } = await supabase.rpc('get_my_subscriptions');
+      if (rpcError) throw rpcError;
+      setSubscriptions(((data as Subscription[]) || []).map(subscription => ({
+        ...subscription,
+        unread_count: Number(subscription.unread_count),
+      })));
+    } catch (err: any) {
+      console.error('Error fetching subscriptions:', err);
+      setError(err.message || 'Impossible de charger vos abonnements. Veuillez réessayer plus tard.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSubscriptions();
+  }, [fetchSubscriptions]);
+
+  const handleUnsubscribe = async (subscription: Subscription) => {
+    setUnsubscribingId(subscription.target_id);
+    try {
+      const { error: rpcError } = subscription.subscription_type === 'topic'
+        ? await supabase.rpc('set_topic_subscription', { p_post_id: subscription.target_id, p_subscribed: false })
+        : await supabase.rpc('set_category_subscription', { p_category_id: subscription.target_id, p_subscribed: false });
+      if (rpcError) throw rpcError;
+
+      setSubscriptions(prev => prev.filter(s => s.target_id !== subscription.target_id));
+      toast({ title: "Abonnement supprimé", description: `Vous ne suivez plus « ${subscription.title} ».`, className: "bg-green-500 text-white dark:bg-green-700" });
+    } catch (err: any) {
+      console.error('Error unsubscribing:', err);
+      toast({ title: "Erreur", description: err.message || "Impossible de supprimer l'abonnement.", variant: "destructive" });
+    } finally {
+      setUnsubscribingId(null);
+    }
+  };
+
+  const topics = subscriptions.filter(s => s.subscription_type === 'topic');
+  const categories = subscriptions.filter(s => s.subscription_type === 'category');
+
+  const renderSubscription = (subscription: Subscription) => {
+    const isTopic = subscription.subscription_type === 'topic';
+    const href = isTopic
+      ? `/forum/sujet/${subscription.target_id}${subscription.unread_count > 0 ? '#non-lu' : ''}`
+      : `/forum/categorie/${subscription.category_slug}`;
+
+    return (
+      <Card key={`${subscription.subscription_type}-${subscription.target_id}`} className="dark:bg-gray-800">
+        <CardContent className="p-4 flex flex-col md:flex-row md:items-center gap-3">
+          <div className="flex-grow min-w-0">
+            <Link to={href} className="flex items-center gap-2 text-lg text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-500">
+              {isTopic ? <FileText className="h-4 w-4 flex-shrink-0" /> : <FolderKanban className="h-4 w-4 flex-shrink-0" />}
+              <span className={`truncate ${subscription.unread_count > 0 ? 'font-bold' : 'font-medium'}`}>{subscription.title}</span>
+              {subscription.unread_count > 0 && (
+                <Badge className="flex-shrink-0 bg-blue-600 hover:bg-blue-600 dark:bg-blue-500">
+                  {isTopic
+                    ? `${subscription.unread_count} nouvelle${subscription.unread_count > 1 ? 's' : ''} réponse${subscription.unread_count > 1 ? 's' : ''}`
+                    : `${subscription.unread_count} non lu${subscription.unread_count > 1 ? 's' : ''}`}
+                </Badge>
+              )}
+            </Link>
+            <div className="flex flex-wrap items-center text-xs text-gray-500 dark:text-gray-400 gap-x-3 gap-y-1 mt-1">
+              {isTopic && (
+                <Link to={`/forum/categorie/${subscription.category_slug}`} className="hover:underline">
+                  {subscription.category_name}
+                </Link>
+              )}
+              <span className="flex items-center">
+                <Clock className="h-3 w-3 mr-1" />
+                {subscription.last_activity_at
+                  ? `Activité ${formatDistanceToNow(new Date(subscription.last_activity_at), { addSuffix: true, locale: fr })}`
+                  : 'Aucune activité'}
+              </span>
+            </div>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleUnsubscribe(subscription)}
+            disabled={unsubscribingId === subscription.target_id}
+            className="flex-shrink-0"
+          >
+            {unsubscribingId === subscription.target_id ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <BellOff className="mr-1 h-4 w-4" />}
+            Ne plus suivre
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="container mx-auto py-8 px-4 md:px-6">
+      <header className="mb-8">
+        <h1 className="text-3xl md:text-4xl font-extrabold text-gray-800 dark:text-white flex items-center">
+          <Eye className="mr-3 h-8 w-8 text-blue-600 dark:text-blue-400" />
+          Mes abonnements
+        </h1>
+        <p className="mt-2 text-md text-gray-600 dark:text-gray-300">
+          Les sujets et catégories que vous suivez. Vous êtes notifié de chaque nouvelle réponse ou nouveau sujet.
+        </p>
+      </header>
+
+      {loading ? (
+        <div className="flex justify-center items-center py-10">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
+          <p className="ml-3 text-gray-500 dark:text-gray-400">Chargement des abonnements...</p>
+        </div>
+      ) : error ? (
+        <Card className="bg-red-50 border-red-500 dark:bg-red-900/30 dark:border-red-700">
+          <CardHeader>
+            <div className="flex items-center text-red-600 dark:text-red-400">
+              <AlertTriangle className="h-6 w-6 mr-2" />
+              <CardTitle>Erreur</CardTitle>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <p className="text-red-700 dark:text-red-300">{error}</p>
+          </CardContent>
+        </Card>
+      ) : subscriptions.length === 0 ? (
+        <div className="text-center py-10 border-2 border-dashed border-gray-300 dark:border-gray-700 rounded-lg">
+          <BellOff className="mx-auto h-16 w-16 text-gray-400 dark:text-gray-500 mb-4" />
+          <p className="text-xl text-gray-600 dark:text-gray-300">Vous ne suivez aucun sujet ni aucune catégorie.</p>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">Utilisez le bouton « Suivre » d'un sujet ou d'une catégorie.</p>
+        </div>
+      ) : (
+        <div className="space-y-8">
+          {categories.length > 0 && (
+            <section>
+              <h2 className="text-xl font-semibold mb-4 text-gray-800 dark:text-white">Catégories ({categories.length})</h2>
+              <div className="space-y-2">{categories.map(renderSubscription)}</div>
+            </section>
+          )}
+          {topics.length > 0 && (
+            <section>
+              <h2 className="text-xl font-semibold mb-4 text-gray-800 dark:text-white">Sujets ({topics.length})</h2>
+              <div className="space-y-2">{topics.map(renderSubscription)}</div>
+            </section>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SubscriptionsPage;
@@ -0,0 +1,578 @@
+import { Fragment, useCallback, useEffect, useState, FormEvent } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { supabase } from '@/lib/supabaseClient';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollText, Loader2, AlertTriangle, Download, Filter, X, ChevronDown, ChevronRight } from "lucide-react";
+import { useToast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useDateFormatter } from '@/hooks/useDateFormatter';
+import { Permission } from '@/constants/permissions';
+import {
+  AUDIT_LOG_ENTRIES_PER_PAGE,
+  AUDIT_LOG_EXPORT_LIMIT,
+  MODERATION_ACTION_LABELS,
+  ModerationActionType,
+} from '@/constants/moderation';
+import PaginationBar from '@/components/common/PaginationBar';
+import { downloadCsv, toCsv } from '@/lib/csv';
+
+type TargetKind = 'user' | 'post' | 'reply' | 'report';
+
+// Row of moderation_actions_log with the names of the members and the topic involved.
+interface AuditLogEntry {
+  id: string;
+  action_timestamp: string;
+  action_type: ModerationActionType;
+  moderator_id: string | null;
+  target_user_id: string | null;
+  target_post_id: string | null;
+  target_reply_id: string | null;
+  target_report_id: string | null;
+  justification: string;
+  details: Record<string, unknown> | null;
+  moderator: { username: string | null } | null;
+  target_user: { username: string | null } | null;
+  target_post: { title: string | null } | null;
+  target_reply: { post_id: string } | null;
+}
+
+interface AuditLogFilters {
+  moderatorId: string;
+  actionType: string;
+  targetKind: string;
+  target: string;
+  from: string; // yyyy-mm-dd
+  to: string; // yyyy-mm-dd, inclusive
+}
+
+interface StaffMember {
+  id: string;
+  username: string | null;
+}
+
+const ALL = 'all';
+
+const AUDIT_LOG_SELECT = 'id, action_timestamp, action_type, moderator_id, target_user_id, target_post_id, target_reply_id, target_report_id, justification, details, moderator:profiles!moderator_id(username), target_user:profiles!target_user_id(username), target_post:forum_posts!target_post_id(title), target_reply:forum_replies!target_reply_id(post_id)';
+
+const TARGET_COLUMNS: Record<TargetKind, string> = {
+  user: 'target_user_id',
+  post: 'target_post_id',
+  reply: 'target_reply_id',
+  report: 'target_report_id',
+};
+
+const TARGET_KIND_OPTIONS: { value: string; label: string }[] = [
+  { value: ALL, label: 'Toutes les cibles' },
+  { value: 'user', label: 'Membre' },
+  { value: 'post', label: 'Sujet' },
+  { value: 'reply', label: 'Réponse' },
+  { value: 'report', label: 'Signalement' },
+];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const escapeLikePattern = (value: string) => value.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+const filtersFromParams = (searchParams: URLSearchParams): AuditLogFilters => {
+  const targetKind = searchParams.get('cible');
+  return {
+    moderatorId: searchParams.get('moderateur') || ALL,
+    actionType: searchParams.get('action') || ALL,
+    targetKind: targetKind && TARGET_KIND_OPTIONS.some(option => option.value === targetKind) ? targetKind : ALL,
+    target: searchParams.get('cible_id') || '',
+    from: searchParams.get('du') || '',
+    to: searchParams.get('au') || '',
+  };
+};
+
+const buildParams = (values: AuditLogFilters, page: number) => {
+  const next = new URLSearchParams();
+  if (values.moderatorId !== ALL) next.set('moderateur', values.moderatorId);
+  if (values.actionType !== ALL) next.set('action', values.actionType);
+  if (values.targetKind !== ALL) next.set('cible', values.targetKind);
+  if (values.targetKind !== ALL && values.target.trim()) next.set('cible_id', values.target.trim());
+  if (values.from) next.set('du', values.from);
+  if (values.to) next.set('au', values.to);
+  if (page > 1) next.set('page', String(page));
+  return next;
+};
+
+/**
+ * Resolves the target filter to an id. Members can be searched by username, other targets need their id.
+ * Returns null when nothing can match.
+ */
+const resolveTargetId = async (targetKind: string, target: string): Promise<string | null | undefined> => {
+  const value = target.trim();
+  if (targetKind === ALL || !value) return undefined;
+  if (UUID_PATTERN.test(value)) return value;
+  if (targetKind !== 'user') return null;
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id')
+    .ilike('username', escapeLikePattern(value))
+    .maybeSingle();
+  if (error) throw error;
+  return data?.id ?? null;
+};
+
+// Audit log query for the given filters; `targetId` comes from resolveTargetId.
+const buildAuditLogQuery = (values: AuditLogFilters, targetId: string | undefined, withCount: boolean) => {
+  let query = supabase
+    .from('moderation_actions_log')
+    .select(AUDIT_LOG_SELECT, withCount ? { count: 'exact' } : undefined)
+    .order('action_timestamp', { ascending: false });
+
+  if (values.moderatorId !== ALL) query = query.eq('moderator_id', values.moderatorId);
+  if (values.actionType !== ALL) query = query.eq('action_type', values.actionType);
+  if (values.targetKind !== ALL) {
+    const column = TARGET_COLUMNS[values.targetKind as TargetKind];
+    query = targetId ? query.eq(column, targetId) : query.not(column, 'is', null);
+  }
+  if (values.from) query = query.gte('action_timestamp', new Date(`${values.from}T00:00:00`).toISOString());
+  if (values.to) {
+    const end = new Date(`${values.to}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+    query = query.lt('action_timestamp', end.toISOString());
+  }
+  return query;
+};
+
+const AuditLogPage = () => {
+  const { toast } = useToast();
+  const { can, currentRole } = usePermissions();
+  const { formatDateTime } = useDateFormatter();
+  const canViewAuditLogs = can(Permission.VIEW_AUDIT_LOGS);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [filters, setFilters] = useState<AuditLogFilters>(() => filtersFromParams(searchParams));
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const activeFilters = filtersFromParams(searchParams);
+  const currentPage = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+  const totalPages = Math.max(1, Math.ceil(totalCount / AUDIT_LOG_ENTRIES_PER_PAGE));
+
+  useEffect(() => {
+    setFilters(filtersFromParams(searchParams));
+  }, [searchParams]);
+
+  useEffect(() => {
+    if (!canViewAuditLogs) return;
+    const fetchStaff = async () => {
+      const { data, error: staffError } = await supabase
+        .from('profiles')
+        .select('id, username')
+        .in('role', ['MODERATOR', 'ADMIN', 'SUPER_ADMIN'])
+        .order('username', { ascending: true });
+      if (staffError) {
+        console.error('Error fetching staff members:', staffError);
+        return;
+      }
+      setStaff(data || []);
+    };
+    fetchStaff();
+  }, [canViewAuditLogs]);
+
+  const fetchEntries = useCallback(async () => {
+    if (!canViewAuditLogs) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const values = filtersFromParams(searchParams);
+      const targetId = await resolveTargetId(values.targetKind, values.target);
+      if (targetId === null) {
+        setEntries([]);
+        setTotalCount(0);
+        return;
+      }
+      const from = (currentPage - 1) * AUDIT_LOG_ENTRIES_PER_PAGE;
+      const { data, error: fetchError, count } = await buildAuditLogQuery(values, targetId, true).range(from, from + AUDIT_LOG_ENTRIES_PER_PAGE - 1);
+      if (fetchError) throw fetchError;
+      setEntries((data as unknown as AuditLogEntry[]) || []);
+      setTotalCount(count ?? 0);
+    } catch (err: any) {
+      console.error('Error fetching audit log:', err);
+      setError(err.message || "Impossible de charger le journal d'audit.");
+    } finally {
+      setLoading(false);
+    }
+  }, [canViewAuditLogs, searchParams, currentPage]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    setSearchParams(buildParams(filters, 1));
+  };
+
+  // Selects apply immediately; the target and the dates wait for the form submission.
+  const handleSelectChange = (values: Partial<AuditLogFilters>) => {
+    setSearchParams(buildParams({ ...filters, ...values }, 1));
+  };
+
+  const handleResetFilters = () => {
+    setSearchParams(new URLSearchParams());
+  };
+
+  const getPageHref = (page: number) => `?${buildParams(activeFilters, page).toString()}`;
+
+  const handlePageChange = (page: number) => {
+    setSearchParams(buildParams(activeFilters, page));
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const toggleExpanded = (entryId: string) => {
+    setExpandedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(entryId)) next.delete(entryId);
+      else next.add(entryId);
+      return next;
+    });
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const rows: AuditLogEntry[] = [];
+      const batchSize = 1000;
+      const targetId = await resolveTargetId(activeFilters.targetKind, activeFilters.target);
+      for (let from = 0; targetId !== null && from < AUDIT_LOG_EXPORT_LIMIT; from += batchSize) {
+        const { data, error: fetchError } = await buildAuditLogQuery(activeFilters, targetId, false).range(from, Math.min(from + batchSize, AUDIT_LOG_EXPORT_LIMIT) - 1);
+        if (fetchError) throw fetchError;
+        const batch = (data as unknown as AuditLogEntry[]) || [];
+        rows.push(...batch);
+        if (batch.length < batchSize) break;
+      }
+
+      const csv = toCsv(
+        ['Date', 'Modérateur', 'Action', 'Code action', 'Membre ciblé', 'ID membre ciblé', 'Sujet ciblé', 'ID sujet', 'ID réponse', 'ID signalement', 'Justification', 'Détails'],
+        rows.map(entry => [
+          entry.action_timestamp,
+          entry.moderator?.username ?? entry.moderator_id,
+          MODERATION_ACTION_LABELS[entry.action_type] ?? entry.action_type,
+          entry.action_type,
+          entry.target_user?.username,
+          entry.target_user_id,
+          entry.target_post?.title,
+          entry.target_post_id,
+          entry.target_reply_id,
+          entry.target_report_id,
+          entry.justification,
+          entry.details ? JSON.stringify(entry.details) : null,
+        ])
+      );
+      downloadCsv(`journal-audit-${new Date().toISOString().slice(0, 10)}.csv`, csv);
+      toast({
+        title: "Export terminé",
+        description: `${rows.length} entrée${rows.length > 1 ? 's' : ''} exportée${rows.length > 1 ? 's' : ''}${rows.length >= AUDIT_LOG_EXPORT_LIMIT ? ` (limite de ${AUDIT_LOG_EXPORT_LIMIT} atteinte)` : ''}.`,
+        className: "bg-green-500 text-white dark:bg-green-700",
+      });
+    } catch (err: any) {
+      console.error('Error exporting audit log:', err);
+      toast({ title: "Erreur d'export", description: err.message || "Impossible d'exporter le journal d'audit.", variant: "destructive" });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const renderTargets = (entry: AuditLogEntry) => {
+    const targets: JSX.Element[] = [];
+    if (entry.target_user_id) {
+      targets.push(
+        <Link key="user" to={`/profil/${entry.target_user_id}`} className="text-blue-600 hover:underline dark:text-blue-400">
+          {entry.target_user?.username || entry.target_user_id.substring(0, 8)}
+        </Link>
+      );
+    }
+    if (entry.target_post_id) {
+      targets.push(
+        <Link key="post" to={`/forum/sujet/${entry.target_post_id}`} className="text-blue-600 hover:underline dark:text-blue-400">
+          Sujet « {entry.target_post?.title || entry.target_post_id.substring(0, 8)} »
+        </Link>
+      );
+    }
+    if (entry.target_reply_id) {
+      targets.push(
+        entry.target_reply ? (
+          <Link key="reply" to={`/forum/sujet/${entry.target_reply.post_id}#reply-${entry.target_reply_id}`} className="text-blue-600 hover:underline dark:text-blue-400">
+            Réponse {entry.target_reply_id.substring(0, 8)}
+          </Link>
+        ) : (
+          <span key="reply">Réponse {entry.target_reply_id.substring(0, 8)}</span>
+        )
+      );
+    }
+    if (entry.target_report_id) {
+      targets.push(<span key="report">Signalement {entry.target_report_id.substring(0, 8)}</span>);
+    }
+    if (targets.length === 0) return <span className="text-gray-400 dark:text-gray-500">—</span>;
+    return <div className="flex flex-col gap-1">{targets}</div>;
+  };
+
+  if (!canViewAuditLogs && currentRole) {
+    return (
+      <div className="container mx-auto py-8 px-4 md:px-6">
+        <Card className="bg-yellow-50 border-yellow-500 dark:bg-yellow-900/30 dark:border-yellow-700">
+          <CardHeader>
+            <div className="flex items-center text-yellow-600 dark:text-yellow-400">
+              <AlertTriangle className="h-6 w-6 mr-2" />
+              <CardTitle>Accès Restreint</CardTitle>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <p className="text-yellow-700 dark:text-yellow-300">
+              Vous n'avez pas les permissions nécessaires pour consulter le journal d'audit.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+  if (!canViewAuditLogs && !currentRole) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-gray-500" />
+        <p className="ml-2 text-gray-500">Vérification des permissions...</p>
+      </div>
+    );
+  }
+
+  const hasActiveFilters = buildParams(activeFilters, 1).toString() !== '';
+
+  return (
+    <div className="space-y-8 p-4 md:p-6">
+      <header className="pb-4 border-b dark:border-gray-700 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800 dark:text-white flex items-center">
+            <ScrollText className="mr-3 h-8 w-8 text-blue-500" />
+            Journal d'Audit
+          </h1>
+          <p className="mt-1 text-gray-600 dark:text-gray-300">
+            Toutes les actions de modération et d'administration, avec leur justification.
+          </p>
+        </div>
+        <Button onClick={handleExport} disabled={isExporting || loading || totalCount === 0} variant="outline" className="dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700">
+          {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+          Exporter en CSV
+        </Button>
+      </header>
+
+      <Card className="dark:bg-gray-800 shadow-md">
+        <CardContent className="p-4 md:p-6">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="audit-moderator" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">Modérateur</Label>
+                <Select value={filters.moderatorId} onValueChange={(value) => handleSelectChange({ moderatorId: value })}>
+                  <SelectTrigger id="audit-moderator" className="dark:bg-gray-700 dark:text-white dark:border-gray-600">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="dark:bg-gray-800 dark:text-white">
+                    <SelectItem value={ALL}>Tous les modérateurs</SelectItem>
+                    {staff.map(member => (
+                      <SelectItem key={member.id} value={member.id}>{member.username || member.id.substring(0, 8)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="audit-action" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">Action</Label>
+                <Select value={filters.actionType} onValueChange={(value) => handleSelectChange({ actionType: value })}>
+                  <SelectTrigger id="audit-action" className="dark:bg-gray-700 dark:text-white dark:border-gray-600">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="dark:bg-gray-800 dark:text-white">
+                    <SelectItem value={ALL}>Toutes les actions</SelectItem>
+                    {(Object.keys(MODERATION_ACTION_LABELS) as ModerationActionType[]).map(actionType => (
+                      <SelectItem key={actionType} value={actionType}>{MODERATION_ACTION_LABELS[actionType]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="audit-target-kind" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">Cible</Label>
+                <div className="flex gap-2">
+                  <Select value={filters.targetKind} onValueChange={(value) => setFilters({ ...filters, targetKind: value, target: value === ALL ? '' : filters.target })}>
+                    <SelectTrigger id="audit-target-kind" className="w-40 flex-shrink-0 dark:bg-gray-700 dark:text-white dark:border-gray-600">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="dark:bg-gray-800 dark:text-white">
+                      {TARGET_KIND_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    value={filters.target}
+                    onChange={(e) => setFilters({ ...filters, target: e.target.value })}
+                    placeholder={filters.targetKind === 'user' ? "Nom d'utilisateur ou identifiant" : 'Identifiant (optionnel)'}
+                    aria-label="Identifiant de la cible"
+                    disabled={filters.targetKind === ALL}
+                    className="dark:bg-gray-700 dark:text-white dark:border-gray-600"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="audit-from" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">Du</Label>
+                <Input
+                  id="audit-from"
+                  type="date"
+                  value={filters.from}
+                  max={filters.to || undefined}
+                  onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+                  className="dark:bg-gray-700 dark:text-white dark:border-gray-600"
+                />
+              </div>
+              <div>
+                <Label htmlFor="audit-to" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">Au</Label>
+                <Input
+                  id="audit-to"
+                  type="date"
+                  value={filters.to}
+                  min={filters.from || undefined}
+                  onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+                  className="dark:bg-gray-700 dark:text-white dark:border-gray-600"
+                />
+              </div>
+              <div className="flex items-end gap-2">
+                <Button type="submit" className="bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600">
+                  <Filter className="mr-2 h-4 w-4" />
+                  Filtrer
+                </Button>
+                {hasActiveFilters && (
+                  <Button type="button" variant="ghost" onClick={handleResetFilters} className="text-gray-600 dark:text-gray-300">
+                    <X className="mr-1 h-4 w-4" />
+                    Réinitialiser
+                  </Button>
+                )}
+              </div>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {error ? (
+        <Card className="bg-red-50 border-red-500 dark:bg-red-900/30 dark:border-red-700">
+          <CardHeader>
+            <div className="flex items-center text-red-600 dark:text-red-400">
+              <AlertTriangle className="h-6 w-6 mr-2" />
+              <CardTitle>Erreur</CardTitle>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <p className="text-red-700 dark:text-red-300">{error}</p>
+          </CardContent>
+        </Card>
+      ) : loading ? (
+        <div className="flex justify-center items-center py-10">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
+          <p className="ml-3 text-gray-500 dark:text-gray-400">Chargement du journal...</p>
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="text-center py-10 border-2 border-dashed border-gray-300 dark:border-gray-700 rounded-lg">
+          <ScrollText className="mx-auto h-16 w-16 text-gray-400 dark:text-gray-500 mb-4" />
+          <p className="text-xl text-gray-600 dark:text-gray-300">Aucune entrée ne correspond à ces filtres.</p>
+        </div>
+      ) : (
+        <Card className="dark:bg-gray-800 shadow-md">
+          <CardContent className="pt-6">
+            <p className="mb-4 text-sm text-gray-600 dark:text-gray-400">
+              {totalCount} entrée{totalCount > 1 ? 's' : ''}
+              {totalPages > 1 && ` • Page ${currentPage} sur ${totalPages}`}
+            </p>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="dark:border-gray-700">
+                    <TableHead className="w-10" />
+                    <TableHead className="dark:text-gray-300">Date</TableHead>
+                    <TableHead className="dark:text-gray-300">Modérateur</TableHead>
+                    <TableHead className="dark:text-gray-300">Action</TableHead>
+                    <TableHead className="dark:text-gray-300">Cible</TableHead>
+                    <TableHead className="dark:text-gray-300">Justification</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map(entry => {
+                    const isExpanded = expandedIds.has(entry.id);
+                    return (
+                      <Fragment key={entry.id}>
+                        <TableRow className="dark:border-gray-700 hover:dark:bg-gray-700/50">
+                          <TableCell>
+                            {entry.details && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => toggleExpanded(entry.id)}
+                                aria-expanded={isExpanded}
+                                aria-label={isExpanded ? 'Masquer les détails' : 'Afficher les détails'}
+                                className="h-8 w-8 dark:text-gray-300 dark:hover:bg-gray-700"
+                              >
+                                {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                              </Button>
+                            )}
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap text-sm dark:text-gray-300">{formatDateTime(entry.action_timestamp)}</TableCell>
+                          <TableCell className="dark:text-gray-200">
+                            {entry.moderator_id ? (
+                              <Link to={`/profil/${entry.moderator_id}`} className="hover:underline">
+                                {entry.moderator?.username || entry.moderator_id.substring(0, 8)}
+                              </Link>
+                            ) : (
+                              <span className="text-gray-400 dark:text-gray-500">Système</span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="outline" className="whitespace-nowrap dark:text-gray-200 dark:border-gray-600">
+                              {MODERATION_ACTION_LABELS[entry.action_type] ?? entry.action_type}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-sm dark:text-gray-300">{renderTargets(entry)}</TableCell>
+                          <TableCell className="max-w-sm text-sm dark:text-gray-300">
+                            <p className="whitespace-pre-wrap break-words">{entry.justification}</p>
+                          </TableCell>
+                        </TableRow>
+                        {isExpanded && entry.details && (
+                          <TableRow className="dark:border-gray-700 bg-gray-50 dark:bg-gray-900/40">
+                            <TableCell />
+                            <TableCell colSpan={5}>
+                              <pre className="max-h-96 overflow-auto whitespace-pre-wrap break-words rounded-md bg-gray-100 dark:bg-gray-900 p-3 text-xs text-gray-800 dark:text-gray-200">
+                                {JSON.stringify(entry.details, null, 2)}
+                              </pre>
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </Fragment>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+            <PaginationBar
+              currentPage={currentPage}
+              totalPages={totalPages}
+              onPageChange={handlePageChange}
+              getPageHref={getPageHref}
+              className="mt-6"
+            />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default AuditLogPage;
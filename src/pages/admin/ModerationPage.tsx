@@ -10,9 +10,9 @@ import { useEffect, useState, useCallback } from 'react';
     import { Badge } from "@/components/ui/badge";
     import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
     import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-    import { ShieldAlert, Search, Filter, Loader2, AlertTriangle, Eye, CheckCircle, XCircle, Trash2, MoreHorizontal, RotateCcw, ArchiveRestore, AlertOctagon } from "lucide-react";
-    import { format } from 'date-fns';
-    import { fr } from 'date-fns/locale';
+    import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+    import { ShieldAlert, Search, Filter, Loader2, AlertTriangle, Eye, CheckCircle, XCircle, Trash2, MoreHorizontal, RotateCcw, ArchiveRestore, AlertOctagon, Flag, History, Layers } from "lucide-react";
+    import { useDateFormatter } from '@/hooks/useDateFormatter';
     import {
       AlertDialog,
       AlertDialogAction,
@@ -23,22 +23,9 @@ import { useEffect, useState, useCallback } from 'react';
       AlertDialogHeader,
       AlertDialogTitle,
     } from "@/components/ui/alert-dialog";
-
-    interface ReportedItem {
-      report_id: string;
-      report_created_at: string;
-      reporter_id: string | null;
-      reporter_username: string | null;
-      reported_content_type: 'post' | 'reply';
-      reported_content_id: string;
-      content_title: string | null;
-      content_excerpt: string | null;
-      content_author_id: string | null;
-      content_author_username: string | null;
-      reason_category: string;
-      reason_details: string | null;
-      report_status: string;
-    }
+    import { ResolvedReportsPanel } from '@/components/admin/ResolvedReportsPanel';
+    import { ContentReportsDialog, ReportedContentRef } from '@/components/admin/ContentReportsDialog';
+    import { PendingReportGroup, REPORT_REASON_LABELS, ReportReasonCategory, getReportedContentLink } from '@/lib/reports';
 
     interface SoftDeletedItem {
       content_id: string;
@@ -55,8 +42,9 @@ import { useEffect, useState, useCallback } from 'react';
     const ModerationPage = () => {
       const { canModerate, isLoading: authLoading } = useAuth();
       const { toast } = useToast();
+      const { formatDateTime } = useDateFormatter();
       
-      const [reportedItems, setReportedItems] = useState<ReportedItem[]>([]);
+      const [reportGroups, setReportGroups] = useState<PendingReportGroup[]>([]);
       const [isLoadingReports, setIsLoadingReports] = useState(true);
       const [reportsError, setReportsError] = useState<string | null>(null);
       
@@ -67,23 +55,30 @@ import { useEffect, useState, useCallback } from 'react';
       const [searchTerm, setSearchTerm] = useState('');
 
       const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false);
-      const [deleteContentInfo, setDeleteContentInfo] = useState<{type: 'post' | 'reply', id: string, reportIdToResolve?: string} | null>(null);
+      const [deleteContentInfo, setDeleteContentInfo] = useState<{type: 'post' | 'reply' | 'message', id: string} | null>(null);
       const [deleteReason, setDeleteReason] = useState('');
 
+      const [resolveReportsInfo, setResolveReportsInfo] = useState<{group: PendingReportGroup, status: 'RESOLVED_APPROVED' | 'RESOLVED_REJECTED'} | null>(null);
+      const [resolveNotes, setResolveNotes] = useState('');
+      // Shown to the reporters, unlike the notes and the deletion reason.
+      const [resolutionMessage, setResolutionMessage] = useState('');
+
       const [isRestoreConfirmOpen, setIsRestoreConfirmOpen] = useState(false);
       const [restoreContentInfo, setRestoreContentInfo] = useState<{type: 'post' | 'reply', id: string} | null>(null);
 
       const [isPermanentDeleteConfirmOpen, setIsPermanentDeleteConfirmOpen] = useState(false);
       const [permanentDeleteContentInfo, setPermanentDeleteContentInfo] = useState<{type: 'post' | 'reply', id: string} | null>(null);
 
+      const [contentReportsTarget, setContentReportsTarget] = useState<ReportedContentRef | null>(null);
+
 
       const fetchReportedItems = useCallback(async () => {
         setIsLoadingReports(true);
         setReportsError(null);
         try {
-          const { data, error: rpcError } = await supabase.rpc('get_pending_reports_with_details');
+          const { data, error: rpcError } = await supabase.rpc('get_pending_report_groups');
           if (rpcError) throw rpcError;
-          setReportedItems(data || []);
+          setReportGroups(data || []);
         } catch (err: any) {
           console.error("Error fetching reported items:", err);
           setReportsError(err.message || "Impossible de charger les signalements.");
@@ -122,37 +117,69 @@ import { useEffect, useState, useCallback } from 'react';
         }
       }, [canModerate, authLoading, fetchReportedItems, fetchSoftDeletedItems]);
 
-      const handleUpdateReportStatus = async (reportId: string, newStatus: 'RESOLVED_APPROVED' | 'RESOLVED_REJECTED', notes?: string) => {
+      // Resolves every pending report on the content at once, with a single moderation log entry.
+      const handleResolveReports = async (group: PendingReportGroup, newStatus: 'RESOLVED_APPROVED' | 'RESOLVED_REJECTED', notes?: string, message?: string) => {
         try {
-          const { error } = await supabase.rpc('update_report_status', {
-            p_report_id: reportId,
+          const { data: resolvedCount, error } = await supabase.rpc('resolve_content_reports', {
+            p_content_type: group.reported_content_type,
+            p_content_id: group.reported_content_id,
             p_new_status: newStatus,
             p_moderator_notes: notes || null,
+            p_resolution_message: message || null,
           });
           if (error) throw error;
-          toast({ title: "Succès", description: `Signalement marqué comme ${newStatus === 'RESOLVED_APPROVED' ? 'approuvé' : 'rejeté'}.`, className: "bg-green-500 text-white" });
+          toast({ title: "Succès", description: `${resolvedCount} signalement(s) marqué(s) comme ${newStatus === 'RESOLVED_APPROVED' ? 'approuvé(s)' : 'rejeté(s)'}.`, className: "bg-green-500 text-white" });
           fetchReportedItems(); 
         } catch (err: any) {
-          toast({ title: "Erreur", description: err.message || "Impossible de mettre à jour le statut du signalement.", variant: "destructive" });
+          toast({ title: "Erreur", description: err.message || "Impossible de mettre à jour le statut des signalements.", variant: "destructive" });
         }
       };
 
-      const openDeleteConfirmation = (type: 'post' | 'reply', id: string, reportIdToResolve?: string) => {
-        setDeleteContentInfo({ type, id, reportIdToResolve });
+      const openResolveConfirmation = (group: PendingReportGroup, status: 'RESOLVED_APPROVED' | 'RESOLVED_REJECTED') => {
+        setResolveReportsInfo({ group, status });
+        setResolveNotes('');
+        setResolutionMessage('');
+      };
+
+      const confirmResolveReports = async () => {
+        if (!resolveReportsInfo) return;
+        await handleResolveReports(resolveReportsInfo.group, resolveReportsInfo.status, resolveNotes.trim(), resolutionMessage.trim());
+        setResolveReportsInfo(null);
+      };
+
+      const openDeleteConfirmation = (type: 'post' | 'reply' | 'message', id: string) => {
+        setDeleteContentInfo({ type, id });
         setIsDeleteConfirmOpen(true);
         setDeleteReason('');
+        setResolutionMessage('');
       };
       
       const confirmDeleteContent = async () => {
         if (!deleteContentInfo) return;
         try {
-          const { error } = await supabase.rpc('soft_delete_content', {
+          // Reports are resolved before the deletion so the reporters' notifications carry the resolution
+          // message: the deletion RPCs resolve pending reports themselves, without it.
+          const { error: resolveError } = await supabase.rpc('resolve_content_reports', {
             p_content_type: deleteContentInfo.type,
             p_content_id: deleteContentInfo.id,
-            p_delete_reason: deleteReason || null,
+            p_new_status: 'RESOLVED_ACTION_TAKEN',
+            p_moderator_notes: deleteReason || null,
+            p_resolution_message: resolutionMessage.trim() || null,
           });
+          if (resolveError) throw resolveError;
+          // Private messages have their own RPC, restricted to reported messages.
+          const { error } = deleteContentInfo.type === 'message'
+            ? await supabase.rpc('soft_delete_private_message', {
+                p_message_id: deleteContentInfo.id,
+                p_delete_reason: deleteReason || null,
+              })
+            : await supabase.rpc('soft_delete_content', {
+                p_content_type: deleteContentInfo.type,
+                p_content_id: deleteContentInfo.id,
+                p_delete_reason: deleteReason || null,
+              });
           if (error) throw error;
-          toast({ title: "Contenu supprimé (soft)", description: "Le contenu a été marqué comme supprimé et le signalement résolu.", className: "bg-orange-500 text-white" });
+          toast({ title: "Contenu supprimé (soft)", description: "Le contenu a été marqué comme supprimé et ses signalements résolus.", className: "bg-orange-500 text-white" });
           fetchReportedItems(); 
           fetchSoftDeletedItems(); 
         } catch (err: any) {
@@ -213,15 +240,6 @@ import { useEffect, useState, useCallback } from 'react';
       };
 
 
-      const getReportedContentLink = (item: ReportedItem) => {
-        if (item.reported_content_type === 'post') {
-            return `/forum/sujet/${item.reported_content_id}`;
-        }
-        // For replies, we need parent post_id. The current RPC for reports doesn't provide it directly.
-        // This is a known limitation for reported replies.
-        return null; 
-      };
-
       const getSoftDeletedContentLink = (item: SoftDeletedItem) => {
         if (item.content_type === 'post') {
           return `/forum/sujet/${item.content_id}`;
@@ -286,11 +304,24 @@ import { useEffect, useState, useCallback } from 'react';
           </Card>
 
           {/* Reported Content Section */}
+          <Tabs defaultValue="pending" className="w-full">
+          <TabsList className="mb-4">
+            <TabsTrigger value="pending" className="flex items-center gap-2">
+              <Flag className="h-4 w-4" />
+              En attente
+            </TabsTrigger>
+            <TabsTrigger value="resolved" className="flex items-center gap-2">
+              <History className="h-4 w-4" />
+              Traités
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="pending">
           <Card className="dark:bg-gray-800 shadow-md">
             <CardHeader>
               <CardTitle className="text-xl text-gray-800 dark:text-white">Contenus Signalés en Attente</CardTitle>
               <CardDescription className="text-gray-600 dark:text-gray-400">
-                Liste des messages et sujets nécessitant une attention. Actuellement: {reportedItems.length} signalement(s).
+                Un contenu par ligne, avec tous ses signalements en attente. Actuellement: {reportGroups.length} contenu(s) signalé(s).
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -305,35 +336,38 @@ import { useEffect, useState, useCallback } from 'react';
                   <AlertTriangle className="inline h-5 w-5 mr-2" /> Erreur: {reportsError}
                 </div>
               )}
-              {!isLoadingReports && !reportsError && reportedItems.length === 0 && (
+              {!isLoadingReports && !reportsError && reportGroups.length === 0 && (
                 <div className="text-center text-gray-500 dark:text-gray-400 py-10">
                   <CheckCircle className="mx-auto h-12 w-12 mb-2 text-green-500" />
                   <p>Aucun contenu signalé en attente pour le moment.</p>
                 </div>
               )}
-              {!isLoadingReports && !reportsError && reportedItems.length > 0 && (
+              {!isLoadingReports && !reportsError && reportGroups.length > 0 && (
                 <Table>
                   <TableHeader>
                     <TableRow className="dark:border-gray-700">
-                      <TableHead className="dark:text-gray-300">Date</TableHead>
+                      <TableHead className="dark:text-gray-300">Signalé le</TableHead>
                       <TableHead className="dark:text-gray-300">Type</TableHead>
                       <TableHead className="dark:text-gray-300">Contenu (Extrait)</TableHead>
                       <TableHead className="dark:text-gray-300">Signalé par</TableHead>
-                      <TableHead className="dark:text-gray-300">Raison</TableHead>
+                      <TableHead className="dark:text-gray-300">Raisons</TableHead>
                       <TableHead className="dark:text-gray-300 text-right">Actions</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {reportedItems.map((item) => {
-                      const contentLink = getReportedContentLink(item);
+                    {reportGroups.map((item) => {
+                      const contentLink = getReportedContentLink(item.reported_content_type, item.reported_content_id, item.content_post_id);
                       return (
-                      <TableRow key={item.report_id} className="dark:border-gray-700">
+                      <TableRow key={`${item.reported_content_type}-${item.reported_content_id}`} className="dark:border-gray-700">
                         <TableCell className="dark:text-gray-400 text-xs">
-                          {format(new Date(item.report_created_at), 'dd/MM/yy HH:mm', { locale: fr })}
+                          {formatDateTime(item.first_reported_at)}
+                          {item.report_count > 1 && (
+                            <div className="text-muted-foreground">Dernier : {formatDateTime(item.last_reported_at)}</div>
+                          )}
                         </TableCell>
                         <TableCell>
                           <Badge variant={item.reported_content_type === 'post' ? 'default' : 'secondary'} className="capitalize dark:text-white bg-blue-500 dark:bg-blue-600">
-                            {item.reported_content_type === 'post' ? 'Sujet' : 'Message'}
+                            {item.reported_content_type === 'post' ? 'Sujet' : item.reported_content_type === 'message' ? 'Message privé' : 'Message'}
                           </Badge>
                         </TableCell>
                         <TableCell className="dark:text-gray-300 max-w-xs truncate">
@@ -343,14 +377,25 @@ import { useEffect, useState, useCallback } from 'react';
                             </Link>
                           ) : (
                             <span title={item.content_title || item.content_excerpt || ''}>
-                               {item.content_title ? <strong>{item.content_title}</strong> : (item.content_excerpt || 'N/A')} (Lien direct non disponible pour réponse)
+                               {item.content_title ? <strong>{item.content_title}</strong> : (item.content_excerpt || 'N/A')} {item.reported_content_type === 'message' ? '(Message privé, seul ce message est visible)' : '(Lien direct non disponible)'}
                             </span>
                           )}
                           <p className="text-xs text-gray-500 dark:text-gray-400">Par: {item.content_author_username || 'Inconnu'}</p>
                         </TableCell>
-                        <TableCell className="dark:text-gray-400">{item.reporter_username || 'Système'}</TableCell>
+                        <TableCell className="dark:text-gray-400">
+                          <span className="font-semibold dark:text-gray-200">{item.reporter_count} membre(s)</span>
+                          <p className="text-xs max-w-[12rem] truncate" title={item.reporter_usernames.join(', ')}>
+                            {item.reporter_usernames.join(', ') || 'Système'}
+                          </p>
+                        </TableCell>
                         <TableCell className="dark:text-gray-300">
-                          <span title={item.reason_details || ''}>{item.reason_category.replace(/_/g, ' ').toLowerCase().replace(/\b\w/g, l => l.toUpperCase())}</span>
+                          <div className="flex flex-wrap gap-1">
+                            {(Object.keys(item.reason_counts) as ReportReasonCategory[]).map(reason => (
+                              <Badge key={reason} variant="outline" className="whitespace-nowrap dark:text-gray-300 dark:border-gray-600">
+                                {REPORT_REASON_LABELS[reason]} × {item.reason_counts[reason]}
+                              </Badge>
+                            ))}
+                          </div>
                         </TableCell>
                         <TableCell className="text-right">
                           <DropdownMenu>
@@ -375,24 +420,30 @@ import { useEffect, useState, useCallback } from 'react';
                                   <Eye className="mr-2 h-4 w-4" /> Voir Contenu (lien non dispo)
                                 </DropdownMenuItem>
                               )}
+                              <DropdownMenuItem
+                                onClick={() => setContentReportsTarget({ type: item.reported_content_type, id: item.reported_content_id, label: item.content_title || item.content_excerpt })}
+                                className="dark:text-gray-300 dark:hover:bg-gray-700"
+                              >
+                                <Layers className="mr-2 h-4 w-4" /> Détail des signalements
+                              </DropdownMenuItem>
                               <DropdownMenuSeparator className="dark:bg-gray-700" />
                               <DropdownMenuItem 
-                                onClick={() => handleUpdateReportStatus(item.report_id, 'RESOLVED_APPROVED')}
+                                onClick={() => openResolveConfirmation(item, 'RESOLVED_APPROVED')}
                                 className="dark:text-green-400 dark:hover:bg-gray-700 focus:bg-green-100 dark:focus:bg-green-800"
                               >
-                                <CheckCircle className="mr-2 h-4 w-4" /> Approuver (ignorer signalement)
+                                <CheckCircle className="mr-2 h-4 w-4" /> Approuver (ignorer les signalements)
                               </DropdownMenuItem>
                               <DropdownMenuItem 
-                                onClick={() => openDeleteConfirmation(item.reported_content_type, item.reported_content_id, item.report_id)}
+                                onClick={() => openDeleteConfirmation(item.reported_content_type, item.reported_content_id)}
                                 className="dark:text-orange-400 dark:hover:bg-gray-700 focus:bg-orange-100 dark:focus:bg-orange-800"
                               >
                                 <Trash2 className="mr-2 h-4 w-4" /> Supprimer Contenu Signalé (Soft)
                               </DropdownMenuItem>
                                <DropdownMenuItem 
-                                onClick={() => handleUpdateReportStatus(item.report_id, 'RESOLVED_REJECTED')}
+                                onClick={() => openResolveConfirmation(item, 'RESOLVED_REJECTED')}
                                 className="dark:text-red-400 dark:hover:bg-gray-700 focus:bg-red-100 dark:focus:bg-red-800"
                               >
-                                <XCircle className="mr-2 h-4 w-4" /> Rejeter Signalement (abusif)
+                                <XCircle className="mr-2 h-4 w-4" /> Rejeter les signalements (abusifs)
                               </DropdownMenuItem>
                             </DropdownMenuContent>
                           </DropdownMenu>
@@ -404,6 +455,20 @@ import { useEffect, useState, useCallback } from 'react';
               )}
             </CardContent>
           </Card>
+          </TabsContent>
+
+          <TabsContent value="resolved">
+            <ResolvedReportsPanel
+              onReportReopened={fetchReportedItems}
+              onShowContentReports={setContentReportsTarget}
+            />
+          </TabsContent>
+          </Tabs>
+
+          <ContentReportsDialog
+            content={contentReportsTarget}
+            onOpenChange={(open) => { if (!open) setContentReportsTarget(null); }}
+          />
 
           {/* Soft-Deleted Content Section */}
           <Card className="dark:bg-gray-800 shadow-md">
@@ -453,7 +518,7 @@ import { useEffect, useState, useCallback } from 'react';
                       return (
                       <TableRow key={item.content_id} className="dark:border-gray-700">
                         <TableCell className="dark:text-gray-400 text-xs">
-                          {item.deleted_at ? format(new Date(item.deleted_at), 'dd/MM/yy HH:mm', { locale: fr }) : 'N/A'}
+                          {item.deleted_at ? formatDateTime(item.deleted_at) : 'N/A'}
                         </TableCell>
                         <TableCell>
                           <Badge variant={item.content_type === 'post' ? 'default' : 'secondary'} className="capitalize dark:text-white bg-gray-500 dark:bg-gray-600">
@@ -515,6 +580,13 @@ import { useEffect, useState, useCallback } from 'react';
                     placeholder="Raison de la suppression (optionnel, pour les logs de modération)"
                     className="mt-3 min-h-[80px] dark:bg-gray-700 dark:text-white dark:placeholder-gray-400"
                   />
+                  <Textarea
+                    value={resolutionMessage}
+                    onChange={(e) => setResolutionMessage(e.target.value)}
+                    maxLength={1000}
+                    placeholder="Message aux signaleurs (optionnel, visible dans « Mes signalements »)"
+                    className="mt-3 min-h-[80px] dark:bg-gray-700 dark:text-white dark:placeholder-gray-400"
+                  />
                 </AlertDialogDescription>
               </AlertDialogHeader>
               <AlertDialogFooter>
@@ -529,6 +601,41 @@ import { useEffect, useState, useCallback } from 'react';
             </AlertDialogContent>
           </AlertDialog>
 
+          <AlertDialog open={!!resolveReportsInfo} onOpenChange={(open) => { if (!open) setResolveReportsInfo(null); }}>
+            <AlertDialogContent className="dark:bg-gray-800">
+              <AlertDialogHeader>
+                <AlertDialogTitle className="dark:text-white">
+                  {resolveReportsInfo?.status === 'RESOLVED_APPROVED' ? 'Approuver le contenu' : 'Rejeter les signalements'}
+                </AlertDialogTitle>
+                <AlertDialogDescription className="dark:text-gray-300">
+                  {resolveReportsInfo && `${resolveReportsInfo.group.report_count} signalement(s) en attente sur ce contenu seront résolus.`}
+                  <Textarea
+                    value={resolveNotes}
+                    onChange={(e) => setResolveNotes(e.target.value)}
+                    placeholder="Notes de modération (optionnel, privées)"
+                    className="mt-3 min-h-[80px] dark:bg-gray-700 dark:text-white dark:placeholder-gray-400"
+                  />
+                  <Textarea
+                    value={resolutionMessage}
+                    onChange={(e) => setResolutionMessage(e.target.value)}
+                    maxLength={1000}
+                    placeholder="Message aux signaleurs (optionnel, visible dans « Mes signalements »)"
+                    className="mt-3 min-h-[80px] dark:bg-gray-700 dark:text-white dark:placeholder-gray-400"
+                  />
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel className="dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700">Annuler</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={confirmResolveReports}
+                  className={resolveReportsInfo?.status === 'RESOLVED_APPROVED' ? "bg-green-600 hover:bg-green-700 text-white" : "bg-red-600 hover:bg-red-700 text-white"}
+                >
+                  Confirmer
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+
           <AlertDialog open={isRestoreConfirmOpen} onOpenChange={setIsRestoreConfirmOpen}>
             <AlertDialogContent className="dark:bg-gray-800">
               <AlertDialogHeader>
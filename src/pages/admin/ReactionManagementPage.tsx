@@ -0,0 +1,418 @@
+import { useState, useEffect, useCallback, FormEvent } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogFooter, DialogTitle, DialogDescription, DialogClose } from "@/components/ui/dialog";
+import { Switch } from "@/components/ui/switch";
+import { SmilePlus, Edit3, Trash2, PlusCircle, Loader2, AlertTriangle, Save, ShieldAlert, ArrowUp, ArrowDown } from "lucide-react";
+import { useToast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/usePermissions';
+import { Permission } from '@/constants/permissions';
+
+interface ReactionTypeRow {
+  id: string;
+  emoji: string;
+  label: string;
+  sort_order: number;
+  is_active: boolean;
+}
+
+const ReactionManagementPage = () => {
+  const { toast } = useToast();
+  const { can, currentRole } = usePermissions();
+  const canManageReactions = can(Permission.EDIT_FORUM_SETTINGS);
+
+  const [reactionTypes, setReactionTypes] = useState<ReactionTypeRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const [newEmoji, setNewEmoji] = useState('');
+  const [newLabel, setNewLabel] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const [editingType, setEditingType] = useState<ReactionTypeRow | null>(null);
+  const [editForm, setEditForm] = useState({ emoji: '', label: '' });
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  const [deletingType, setDeletingType] = useState<ReactionTypeRow | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const fetchReactionTypes = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('forum_reaction_types')
+        .select('id, emoji, label, sort_order, is_active')
+        .order('sort_order', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (fetchError) throw fetchError;
+      setReactionTypes((data as ReactionTypeRow[]) || []);
+    } catch (err: any) {
+      console.error("Error fetching reaction types:", err);
+      setError(err.message || "Impossible de charger les réactions.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchReactionTypes();
+  }, [fetchReactionTypes]);
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!newEmoji.trim() || !newLabel.trim()) {
+      toast({ title: "Erreur", description: "L'emoji et le libellé sont requis.", variant: "destructive" });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const nextSortOrder = reactionTypes.reduce((max, type) => Math.max(max, type.sort_order), 0) + 1;
+      const { error: insertError } = await supabase
+        .from('forum_reaction_types')
+        .insert({ emoji: newEmoji.trim(), label: newLabel.trim(), sort_order: nextSortOrder });
+
+      if (insertError) throw insertError;
+
+      toast({ title: "Succès", description: `La réaction ${newEmoji.trim()} a été ajoutée.`, className: "bg-green-500 text-white dark:bg-green-700" });
+      setNewEmoji('');
+      setNewLabel('');
+      fetchReactionTypes();
+    } catch (err: any) {
+      console.error("Error creating reaction type:", err);
+      toast({ title: "Erreur de création", description: err.message || "Impossible d'ajouter la réaction.", variant: "destructive" });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleToggleActive = async (type: ReactionTypeRow, isActive: boolean) => {
+    setBusyId(type.id);
+    try {
+      const { error: updateError } = await supabase
+        .from('forum_reaction_types')
+        .update({ is_active: isActive })
+        .eq('id', type.id);
+
+      if (updateError) throw updateError;
+      setReactionTypes(prev => prev.map(t => t.id === type.id ? { ...t, is_active: isActive } : t));
+    } catch (err: any) {
+      console.error("Error updating reaction type:", err);
+      toast({ title: "Erreur", description: err.message || "Impossible de modifier la réaction.", variant: "destructive" });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // Swaps a reaction with its neighbour, then renumbers sort_order from 1.
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= reactionTypes.length) return;
+
+    const reordered = [...reactionTypes];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    const changed = reordered
+      .map((type, position) => ({ ...type, sort_order: position + 1 }))
+      .filter((type, position) => type.sort_order !== reordered[position].sort_order);
+
+    setBusyId(reactionTypes[index].id);
+    try {
+      const results = await Promise.all(changed.map(type =>
+        supabase.from('forum_reaction_types').update({ sort_order: type.sort_order }).eq('id', type.id)
+      ));
+      const failed = results.find(result => result.error);
+      if (failed?.error) throw failed.error;
+      fetchReactionTypes();
+    } catch (err: any) {
+      console.error("Error reordering reaction types:", err);
+      toast({ title: "Erreur", description: err.message || "Impossible de réordonner les réactions.", variant: "destructive" });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const openEditModal = (type: ReactionTypeRow) => {
+    setEditingType(type);
+    setEditForm({ emoji: type.emoji, label: type.label });
+  };
+
+  const handleUpdate = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!editingType) return;
+    if (!editForm.emoji.trim() || !editForm.label.trim()) {
+      toast({ title: "Erreur", description: "L'emoji et le libellé sont requis.", variant: "destructive" });
+      return;
+    }
+
+    setIsUpdating(true);
+    try {
+      const { error: updateError } = await supabase
+        .from('forum_reaction_types')
+        .update({ emoji: editForm.emoji.trim(), label: editForm.label.trim() })
+        .eq('id', editingType.id);
+
+      if (updateError) throw updateError;
+
+      toast({ title: "Succès", description: "La réaction a été mise à jour.", className: "bg-green-500 text-white dark:bg-green-700" });
+      setEditingType(null);
+      fetchReactionTypes();
+    } catch (err: any) {
+      console.error("Error updating reaction type:", err);
+      toast({ title: "Erreur de mise à jour", description: err.message || "Impossible de mettre à jour la réaction.", variant: "destructive" });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingType) return;
+
+    setIsDeleting(true);
+    try {
+      const { error: deleteError } = await supabase
+        .from('forum_reaction_types')
+        .delete()
+        .eq('id', deletingType.id);
+
+      if (deleteError) throw deleteError;
+
+      toast({ title: "Succès", description: `La réaction ${deletingType.emoji} a été supprimée.`, className: "bg-green-500 text-white dark:bg-green-700" });
+      setDeletingType(null);
+      fetchReactionTypes();
+    } catch (err: any) {
+      console.error("Error deleting reaction type:", err);
+      toast({ title: "Erreur de suppression", description: err.message || "Impossible de supprimer la réaction.", variant: "destructive" });
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  if (!canManageReactions && currentRole) {
+    return (
+      <div className="container mx-auto py-8 px-4 md:px-6">
+        <Card className="bg-yellow-50 border-yellow-500 dark:bg-yellow-900/30 dark:border-yellow-700">
+          <CardHeader>
+            <div className="flex items-center text-yellow-600 dark:text-yellow-400">
+              <AlertTriangle className="h-6 w-6 mr-2" />
+              <CardTitle>Accès Restreint</CardTitle>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <p className="text-yellow-700 dark:text-yellow-300">
+              Vous n'avez pas les permissions nécessaires pour gérer les réactions du forum.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+  if (!canManageReactions && !currentRole) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-gray-500" />
+        <p className="ml-2 text-gray-500">Vérification des permissions...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8 p-4 md:p-6">
+      <header className="pb-4 border-b dark:border-gray-700">
+        <h1 className="text-3xl font-bold text-gray-800 dark:text-white flex items-center">
+          <SmilePlus className="mr-3 h-8 w-8 text-yellow-500" />
+          Gestion des Réactions
+        </h1>
+        <p className="mt-1 text-gray-600 dark:text-gray-300">
+          Choisir les réactions que les membres peuvent utiliser sur les sujets et les réponses.
+        </p>
+      </header>
+
+      <Card className="dark:bg-gray-800 shadow-md">
+        <CardHeader>
+          <CardTitle className="text-xl text-gray-800 dark:text-white flex items-center">
+            <PlusCircle className="mr-2 h-6 w-6 text-green-500" />
+            Ajouter une Réaction
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleCreate} className="flex flex-col sm:flex-row sm:items-end gap-4">
+            <div className="sm:w-32">
+              <label htmlFor="reactionEmoji" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Emoji *</label>
+              <Input
+                id="reactionEmoji"
+                placeholder="🎉"
+                className="dark:bg-gray-700 dark:border-gray-600 dark:text-white text-xl"
+                value={newEmoji}
+                onChange={(e) => setNewEmoji(e.target.value)}
+                maxLength={16}
+                required
+              />
+            </div>
+            <div className="flex-grow">
+              <label htmlFor="reactionLabel" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Libellé *</label>
+              <Input
+                id="reactionLabel"
+                placeholder="Ex : Bravo"
+                className="dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                value={newLabel}
+                onChange={(e) => setNewLabel(e.target.value)}
+                maxLength={50}
+                required
+              />
+            </div>
+            <Button type="submit" className="bg-green-600 hover:bg-green-700 dark:bg-green-500 dark:hover:bg-green-600 text-white" disabled={isSubmitting}>
+              {isSubmitting ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <PlusCircle className="mr-2 h-5 w-5" />}
+              Ajouter
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card className="dark:bg-gray-800 shadow-md">
+        <CardHeader>
+          <CardTitle className="text-xl text-gray-800 dark:text-white">Réactions Disponibles</CardTitle>
+          <CardDescription className="text-gray-600 dark:text-gray-400">
+            Une réaction désactivée n'est plus proposée, mais les réactions existantes restent affichées.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading && (
+            <div className="flex justify-center items-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
+              <p className="ml-3 text-gray-500 dark:text-gray-400">Chargement des réactions...</p>
+            </div>
+          )}
+          {error && !isLoading && (
+            <div className="p-4 bg-red-50 dark:bg-red-900/20 rounded-md text-red-700 dark:text-red-300 flex items-center">
+              <AlertTriangle className="h-5 w-5 mr-2" />
+              <p>{error}</p>
+            </div>
+          )}
+          {!isLoading && !error && reactionTypes.length === 0 && (
+            <div className="p-6 bg-gray-50 dark:bg-gray-700/30 rounded-lg text-center">
+              <SmilePlus className="h-12 w-12 mx-auto text-gray-400 dark:text-gray-500 mb-3" />
+              <p className="text-gray-600 dark:text-gray-300">Aucune réaction n'est configurée. Les membres ne peuvent pas réagir.</p>
+            </div>
+          )}
+          {!isLoading && !error && reactionTypes.length > 0 && (
+            <ul className="space-y-3">
+              {reactionTypes.map((type, index) => (
+                <li
+                  key={type.id}
+                  className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 p-4 bg-gray-50 dark:bg-gray-700/30 rounded-md shadow-sm"
+                >
+                  <div className="flex items-center gap-3 flex-grow">
+                    <span className="text-3xl leading-none">{type.emoji}</span>
+                    <span className="font-semibold text-gray-800 dark:text-white">{type.label}</span>
+                    {!type.is_active && <Badge variant="outline" className="text-gray-500">Désactivée</Badge>}
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <Switch
+                      checked={type.is_active}
+                      onCheckedChange={(checked) => handleToggleActive(type, checked)}
+                      disabled={busyId === type.id}
+                      aria-label={type.is_active ? 'Désactiver' : 'Activer'}
+                    />
+                    <Button variant="ghost" size="sm" onClick={() => handleMove(index, -1)} disabled={index === 0 || busyId !== null} title="Monter">
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleMove(index, 1)} disabled={index === reactionTypes.length - 1 || busyId !== null} title="Descendre">
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button variant="outline" size="sm" className="dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700" onClick={() => openEditModal(type)}>
+                      <Edit3 className="h-4 w-4 sm:mr-1" /> <span className="hidden sm:inline">Modifier</span>
+                    </Button>
+                    <Button variant="destructive" size="sm" onClick={() => setDeletingType(type)}>
+                      <Trash2 className="h-4 w-4 sm:mr-1" /> <span className="hidden sm:inline">Supprimer</span>
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Edit Reaction Modal */}
+      <Dialog open={!!editingType} onOpenChange={(open) => !open && setEditingType(null)}>
+        <DialogContent className="sm:max-w-[425px] dark:bg-gray-800">
+          <DialogHeader>
+            <DialogTitle className="text-gray-800 dark:text-white">Modifier la Réaction</DialogTitle>
+            <DialogDescription className="dark:text-gray-400">
+              Les réactions existantes suivent la modification.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleUpdate} className="space-y-4 py-4">
+            <div>
+              <label htmlFor="editReactionEmoji" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Emoji *</label>
+              <Input
+                id="editReactionEmoji"
+                className="dark:bg-gray-700 dark:border-gray-600 dark:text-white text-xl"
+                value={editForm.emoji}
+                onChange={(e) => setEditForm(prev => ({ ...prev, emoji: e.target.value }))}
+                maxLength={16}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="editReactionLabel" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Libellé *</label>
+              <Input
+                id="editReactionLabel"
+                className="dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                value={editForm.label}
+                onChange={(e) => setEditForm(prev => ({ ...prev, label: e.target.value }))}
+                maxLength={50}
+                required
+              />
+            </div>
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline" className="dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700">Annuler</Button>
+              </DialogClose>
+              <Button type="submit" className="bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 text-white" disabled={isUpdating}>
+                {isUpdating ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <Save className="mr-2 h-5 w-5" />}
+                Enregistrer
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Reaction Confirmation Modal */}
+      <Dialog open={!!deletingType} onOpenChange={(open) => !open && setDeletingType(null)}>
+        <DialogContent className="sm:max-w-md dark:bg-gray-800">
+          <DialogHeader>
+            <DialogTitle className="text-red-600 dark:text-red-400 flex items-center">
+              <ShieldAlert className="h-6 w-6 mr-2" />
+              Confirmer la Suppression
+            </DialogTitle>
+            <DialogDescription className="dark:text-gray-400 pt-2">
+              Supprimer la réaction {deletingType?.emoji} « {deletingType?.label} » ?
+              <br />
+              Toutes les réactions de ce type déjà données par les membres seront effacées. Pour seulement ne plus la proposer, désactivez-la.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="mt-4">
+            <DialogClose asChild>
+              <Button type="button" variant="outline" className="dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700">
+                Annuler
+              </Button>
+            </DialogClose>
+            <Button type="button" variant="destructive" onClick={handleDelete} disabled={isDeleting}>
+              {isDeleting ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <Trash2 className="mr-2 h-5 w-5" />}
+              Supprimer
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ReactionManagementPage;
@@ -4,7 +4,8 @@ import { useEffect, useState, useCallback } from "react";
     import { Button } from "@/components/ui/button";
     import { Badge } from "@/components/ui/badge";
     import { supabase } from "@/lib/supabaseClient";
-    import { Users, Loader2, ShieldCheck, ShieldAlert, UserCog, Trash2, MoreVertical, AlertTriangle, SendHorizonal } from "lucide-react"; // Changed MailKey to SendHorizonal
+    import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+    import { Users, Loader2, ShieldCheck, ShieldAlert, UserCog, Trash2, MoreVertical, AlertTriangle, SendHorizonal, Gavel } from "lucide-react"; // Changed MailKey to SendHorizonal
     import {
       DropdownMenu,
       DropdownMenuContent,
@@ -15,10 +16,13 @@ import { useEffect, useState, useCallback } from "react";
     } from "@/components/ui/dropdown-menu";
     import { CreateUserDialog } from "@/components/admin/CreateUserDialog";
     import { EditUserDialog } from "@/components/admin/EditUserDialog";
+    import { IssueSanctionDialog } from "@/components/admin/IssueSanctionDialog";
+    import { UserSanctionsPanel } from "@/components/admin/UserSanctionsPanel";
     import { toast } from '@/hooks/use-toast';
     import { useUser } from "@/contexts/UserContext";
+    import { useDateFormatter } from "@/hooks/useDateFormatter";
     import { usePermissions } from "@/hooks/usePermissions";
-    import { Permission } from "@/constants/permissions"; // Ensure Permission enum is imported
+    import { Permission, ROLES, Role } from "@/constants/permissions"; // Ensure Permission enum is imported
 
     export type UserProfile = {
       id: string;
@@ -32,12 +36,14 @@ import { useEffect, useState, useCallback } from "react";
     };
 
     const UserManagementPage = () => {
+      const { formatDate } = useDateFormatter();
       const [users, setUsers] = useState<UserProfile[]>([]);
       const [isLoading, setIsLoading] = useState(true);
       const [error, setError] = useState<string | null>(null);
       
       const [isEditUserDialogOpen, setIsEditUserDialogOpen] = useState(false);
       const [selectedUserForEdit, setSelectedUserForEdit] = useState<UserProfile | null>(null);
+      const [selectedUserForSanction, setSelectedUserForSanction] = useState<UserProfile | null>(null);
       
       const { user: contextUser, profile: contextProfile, isLoadingAuth: isAuthLoading } = useUser();
       const { can, currentRole, isLoading: permissionsLoading } = usePermissions();
@@ -49,6 +55,8 @@ import { useEffect, useState, useCallback } from "react";
       const canApproveUser = can(Permission.APPROVE_USER_REGISTRATION);
       const canDeleteUser = can(Permission.DELETE_USER);
       const canSendPasswordReset = can(Permission.SEND_PASSWORD_RESET_EMAIL);
+      const canWarnUser = can(Permission.WARN_USER);
+      const canViewSanctions = can(Permission.VIEW_USER_SANCTIONS);
 
       const fetchUsers = useCallback(async () => {
         if (!canViewUserList && !permissionsLoading) {
@@ -314,6 +322,20 @@ import { useEffect, useState, useCallback } from "react";
             }
           </header>
 
+          <Tabs defaultValue="users" className="w-full">
+          {canViewSanctions && (
+            <TabsList className="mb-4">
+              <TabsTrigger value="users" className="flex items-center gap-2">
+                <Users className="h-4 w-4" />
+                Utilisateurs
+              </TabsTrigger>
+              <TabsTrigger value="sanctions" className="flex items-center gap-2">
+                <Gavel className="h-4 w-4" />
+                Sanctions
+              </TabsTrigger>
+            </TabsList>
+          )}
+          <TabsContent value="users">
           <Card className="dark:bg-gray-800 shadow-lg">
             <CardHeader>
               <CardTitle className="flex items-center text-xl text-gray-800 dark:text-white">
@@ -365,6 +387,10 @@ import { useEffect, useState, useCallback } from "react";
                             }
                         }
                         
+                        // Sanctions only apply to members of a lower role, as enforced by issue_user_sanction.
+                        const canSanctionTarget = canWarnUser && !isSelf &&
+                          ROLES.indexOf((user.role || 'USER') as Role) < ROLES.indexOf(currentRole as Role);
+
                         const effectiveCanManageForReset = (currentRole === 'SUPER_ADMIN' && !isSelf) || 
                                                            (currentRole === 'ADMIN' && !isSelf && user.role !== 'SUPER_ADMIN');
 
@@ -387,7 +413,7 @@ import { useEffect, useState, useCallback } from "react";
                             </Badge>
                           </TableCell>
                           <TableCell className="dark:text-gray-300">
-                            {user.created_at ? new Date(user.created_at).toLocaleDateString() : 'N/A'}
+                            {user.created_at ? formatDate(user.created_at) : 'N/A'}
                           </TableCell>
                           <TableCell className="text-right">
                             <DropdownMenu>
@@ -396,7 +422,7 @@ import { useEffect, useState, useCallback } from "react";
                                   variant="ghost" 
                                   size="icon" 
                                   className="dark:text-gray-400 dark:hover:bg-gray-700"
-                                  disabled={!canManageTargetUserGeneral && !isSelf && !canEditUserProfile}
+                                  disabled={!canManageTargetUserGeneral && !isSelf && !canEditUserProfile && !canSanctionTarget}
                                 >
                                   <MoreVertical className="h-4 w-4" />
                                 </Button>
@@ -420,6 +446,12 @@ import { useEffect, useState, useCallback } from "react";
                                   </DropdownMenuItem>
                                 )}
                                 
+                                {canSanctionTarget && (
+                                  <DropdownMenuItem onClick={() => setSelectedUserForSanction(user)} className="dark:text-gray-300 dark:hover:!bg-gray-700">
+                                    <Gavel className="mr-2 h-4 w-4" /> Sanctionner
+                                  </DropdownMenuItem>
+                                )}
+                                
                                 {canChangeUserRole && canManageTargetUserRoleChange && <DropdownMenuSeparator className="dark:bg-gray-700" />}
 
                                 { canChangeUserRole && currentRole === 'SUPER_ADMIN' && user.role !== 'SUPER_ADMIN' && !isSelf && (
@@ -471,6 +503,13 @@ import { useEffect, useState, useCallback } from "react";
               )}
             </CardContent>
           </Card>
+          </TabsContent>
+          {canViewSanctions && (
+            <TabsContent value="sanctions">
+              <UserSanctionsPanel />
+            </TabsContent>
+          )}
+          </Tabs>
           <EditUserDialog 
             user={selectedUserForEdit} 
             isOpen={isEditUserDialogOpen} 
@@ -480,6 +519,12 @@ import { useEffect, useState, useCallback } from "react";
               setSelectedUserForEdit(null); 
             }} 
           />
+          <IssueSanctionDialog
+            user={selectedUserForSanction}
+            isOpen={!!selectedUserForSanction}
+            onOpenChange={(open) => { if (!open) setSelectedUserForSanction(null); }}
+            onSanctionIssued={() => setSelectedUserForSanction(null)}
+          />
         </div>
       );
     };
@@ -0,0 +1,266 @@
+/*
+  # Content revisions and `edit_forum_content` RPC
+
+  This migration keeps a history of every edit made to forum posts and replies,
+  and adds a single RPC through which authors and moderators edit content.
+
+  1. New Table: `public.forum_content_revisions`
+     - `id` (uuid, primary key).
+     - `post_id` (uuid, nullable): References `forum_posts.id` when the revision belongs to a post.
+     - `reply_id` (uuid, nullable): References `forum_replies.id` when the revision belongs to a reply.
+     - `title` (text, nullable): Previous title (posts only).
+     - `content` (text, not null): Previous content.
+     - `edited_by_user_id` (uuid, nullable): User whose edit replaced this version.
+     - `created_at` (timestamptz): When this version was replaced.
+     - Exactly one of `post_id` / `reply_id` must be set.
+
+  2. Functions & Triggers
+     - `public.record_content_revision()`: BEFORE UPDATE trigger on `forum_posts` and `forum_replies`.
+       Stores the OLD title/content whenever one of them changes. Other updates (soft-delete, restore...)
+       do not create revisions.
+     - `public.handle_forum_content_updated_at()`: BEFORE UPDATE trigger on `forum_posts` and `forum_replies`.
+       Only moves `updated_at` when the title or content changes, so the "modifié" marker
+       (`updated_at` later than `created_at`) ignores soft-deletes, restores and other flag changes.
+     - `public.current_user_has_permission(p_permission app_permissions)`: whether the caller's role holds
+       a permission in `public.role_permissions`.
+     - `public.edit_forum_content(p_content_type, p_content_id, p_new_content, p_new_title, p_justification)`:
+       - Authors can edit their own non-deleted content.
+       - Holders of EDIT_ANY_POST (posts) or EDIT_ANY_REPLY (replies) can edit any content.
+         When they edit someone else's content, a `CONTENT_EDIT_MODERATOR` entry is written to
+         `moderation_actions_log` with the old and new text in `details`.
+       - Returns the new `updated_at` of the edited row.
+
+  3. Permissions
+     - EDIT_ANY_POST and EDIT_ANY_REPLY are granted to MODERATOR, ADMIN and SUPER_ADMIN in
+       `public.role_permissions`, as in `src/constants/permissions.ts`.
+
+  4. Security
+     - RLS enabled on `forum_content_revisions`.
+     - Policy: revisions are readable by anyone who can read the parent post or reply
+       (the sub-select goes through the parent table's own RLS).
+     - No INSERT/UPDATE/DELETE policies: rows are only written by the SECURITY DEFINER trigger.
+*/
+
+-- 1. Table
+CREATE TABLE IF NOT EXISTS public.forum_content_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id uuid REFERENCES public.forum_posts(id) ON DELETE CASCADE,
+  reply_id uuid REFERENCES public.forum_replies(id) ON DELETE CASCADE,
+  title text,
+  content text NOT NULL,
+  edited_by_user_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT forum_content_revisions_single_target CHECK (
+    (post_id IS NOT NULL AND reply_id IS NULL) OR (post_id IS NULL AND reply_id IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_forum_content_revisions_post_id ON public.forum_content_revisions(post_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_forum_content_revisions_reply_id ON public.forum_content_revisions(reply_id, created_at);
+
+COMMENT ON TABLE public.forum_content_revisions IS 'Previous versions of forum posts and replies, one row per edit.';
+
+-- 2. Revision trigger
+CREATE OR REPLACE FUNCTION public.record_content_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'forum_posts' THEN
+    IF NEW.content IS DISTINCT FROM OLD.content OR NEW.title IS DISTINCT FROM OLD.title THEN
+      INSERT INTO public.forum_content_revisions (post_id, title, content, edited_by_user_id)
+      VALUES (OLD.id, OLD.title, OLD.content, auth.uid());
+    END IF;
+  ELSIF TG_TABLE_NAME = 'forum_replies' THEN
+    IF NEW.content IS DISTINCT FROM OLD.content THEN
+      INSERT INTO public.forum_content_revisions (reply_id, content, edited_by_user_id)
+      VALUES (OLD.id, OLD.content, auth.uid());
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_forum_posts_update_record_revision ON public.forum_posts;
+CREATE TRIGGER on_forum_posts_update_record_revision
+  BEFORE UPDATE ON public.forum_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_content_revision();
+
+DROP TRIGGER IF EXISTS on_forum_replies_update_record_revision ON public.forum_replies;
+CREATE TRIGGER on_forum_replies_update_record_revision
+  BEFORE UPDATE ON public.forum_replies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_content_revision();
+
+-- 3. updated_at only reflects real edits
+CREATE OR REPLACE FUNCTION public.handle_forum_content_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.content IS DISTINCT FROM OLD.content
+     OR (TG_TABLE_NAME = 'forum_posts' AND to_jsonb(NEW)->>'title' IS DISTINCT FROM to_jsonb(OLD)->>'title') THEN
+    NEW.updated_at = now();
+  ELSE
+    NEW.updated_at = OLD.updated_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_forum_posts_update_set_timestamp ON public.forum_posts;
+CREATE TRIGGER on_forum_posts_update_set_timestamp
+  BEFORE UPDATE ON public.forum_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_forum_content_updated_at();
+
+DROP TRIGGER IF EXISTS on_forum_replies_update_set_timestamp ON public.forum_replies;
+CREATE TRIGGER on_forum_replies_update_set_timestamp
+  BEFORE UPDATE ON public.forum_replies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_forum_content_updated_at();
+
+-- 4. Permissions
+INSERT INTO public.role_permissions (role, permission)
+VALUES
+  ('MODERATOR'::public.user_role, 'EDIT_ANY_POST'::public.app_permissions),
+  ('MODERATOR'::public.user_role, 'EDIT_ANY_REPLY'::public.app_permissions),
+  ('ADMIN'::public.user_role, 'EDIT_ANY_POST'::public.app_permissions),
+  ('ADMIN'::public.user_role, 'EDIT_ANY_REPLY'::public.app_permissions),
+  ('SUPER_ADMIN'::public.user_role, 'EDIT_ANY_POST'::public.app_permissions),
+  ('SUPER_ADMIN'::public.user_role, 'EDIT_ANY_REPLY'::public.app_permissions)
+ON CONFLICT (role, permission) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.current_user_has_permission(p_permission public.app_permissions)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.role_permissions rp
+    WHERE rp.role::text = COALESCE(public.get_current_user_role(), 'USER')
+      AND rp.permission = p_permission
+  );
+$$;
+
+COMMENT ON FUNCTION public.current_user_has_permission(public.app_permissions) IS 'Whether the role of the caller holds the given permission in role_permissions.';
+
+GRANT EXECUTE ON FUNCTION public.current_user_has_permission(public.app_permissions) TO authenticated;
+
+-- 5. RLS
+ALTER TABLE public.forum_content_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Revisions are readable with their parent content" ON public.forum_content_revisions;
+CREATE POLICY "Revisions are readable with their parent content"
+  ON public.forum_content_revisions
+  FOR SELECT
+  TO authenticated
+  USING (
+    (post_id IS NOT NULL AND EXISTS (SELECT 1 FROM public.forum_posts fp WHERE fp.id = forum_content_revisions.post_id))
+    OR
+    (reply_id IS NOT NULL AND EXISTS (SELECT 1 FROM public.forum_replies fr WHERE fr.id = forum_content_revisions.reply_id))
+  );
+
+-- 6. Edit RPC
+CREATE OR REPLACE FUNCTION public.edit_forum_content(
+  p_content_type TEXT, -- 'post' or 'reply'
+  p_content_id UUID,
+  p_new_content TEXT,
+  p_new_title TEXT DEFAULT NULL, -- posts only, NULL keeps the current title
+  p_justification TEXT DEFAULT NULL -- used for the audit log when a moderator edits someone else's content
+)
+RETURNS timestamptz
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+  v_can_edit_any BOOLEAN;
+  v_author_id UUID;
+  v_is_deleted BOOLEAN;
+  v_old_title TEXT;
+  v_old_content TEXT;
+  v_new_title TEXT;
+  v_updated_at timestamptz;
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required.';
+  END IF;
+
+  IF p_new_content IS NULL OR trim(p_new_content) = '' THEN
+    RAISE EXCEPTION 'Content cannot be empty.';
+  END IF;
+
+  IF p_content_type = 'post' THEN
+    SELECT user_id, is_deleted, title, content
+      INTO v_author_id, v_is_deleted, v_old_title, v_old_content
+      FROM public.forum_posts WHERE id = p_content_id;
+  ELSIF p_content_type = 'reply' THEN
+    SELECT user_id, is_deleted, NULL, content
+      INTO v_author_id, v_is_deleted, v_old_title, v_old_content
+      FROM public.forum_replies WHERE id = p_content_id;
+  ELSE
+    RAISE EXCEPTION 'Invalid content type: %. Must be ''post'' or ''reply''.', p_content_type;
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Content not found: % %', p_content_type, p_content_id;
+  END IF;
+
+  v_can_edit_any := public.current_user_has_permission(
+    (CASE WHEN p_content_type = 'post' THEN 'EDIT_ANY_POST' ELSE 'EDIT_ANY_REPLY' END)::public.app_permissions
+  );
+
+  IF v_author_id IS DISTINCT FROM v_caller_id AND NOT v_can_edit_any THEN
+    RAISE EXCEPTION 'You do not have permission to edit this content.';
+  END IF;
+
+  IF v_is_deleted AND NOT v_can_edit_any THEN
+    RAISE EXCEPTION 'Deleted content cannot be edited.';
+  END IF;
+
+  IF p_content_type = 'post' THEN
+    v_new_title := COALESCE(NULLIF(trim(p_new_title), ''), v_old_title);
+    UPDATE public.forum_posts
+       SET title = v_new_title, content = p_new_content
+     WHERE id = p_content_id
+     RETURNING updated_at INTO v_updated_at;
+  ELSE
+    UPDATE public.forum_replies
+       SET content = p_new_content
+     WHERE id = p_content_id
+     RETURNING updated_at INTO v_updated_at;
+  END IF;
+
+  IF v_author_id IS DISTINCT FROM v_caller_id THEN
+    PERFORM public.create_moderation_log_entry(
+      p_action_type     := 'CONTENT_EDIT_MODERATOR',
+      p_justification   := COALESCE(NULLIF(trim(p_justification), ''), 'Content edited by moderator.'),
+      p_target_user_id  := v_author_id,
+      p_target_post_id  := CASE WHEN p_content_type = 'post' THEN p_content_id END,
+      p_target_reply_id := CASE WHEN p_content_type = 'reply' THEN p_content_id END,
+      p_details         := jsonb_build_object(
+        'content_type', p_content_type,
+        'content_id', p_content_id,
+        'old_title', v_old_title,
+        'new_title', v_new_title,
+        'old_content', v_old_content,
+        'new_content', p_new_content
+      )
+    );
+  END IF;
+
+  RETURN v_updated_at;
+END;
+$$;
+
+COMMENT ON FUNCTION public.edit_forum_content(TEXT, UUID, TEXT, TEXT, TEXT) IS 'Edits a post or reply. Authors edit their own content; holders of EDIT_ANY_POST / EDIT_ANY_REPLY can edit any content and the edit is logged as CONTENT_EDIT_MODERATOR.';
+
+GRANT EXECUTE ON FUNCTION public.edit_forum_content(TEXT, UUID, TEXT, TEXT, TEXT) TO authenticated;
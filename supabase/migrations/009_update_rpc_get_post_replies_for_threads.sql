@@ -0,0 +1,72 @@
+/*
+  # Update RPC get_post_replies_with_author for threaded replies
+
+  Threaded display needs the whole reply tree, including soft-deleted replies that still
+  have answers, otherwise their children lose their parent for regular users.
+
+  1. Function: `public.get_post_replies_with_author(p_post_id uuid)`
+     - Dropped and recreated with the same signature and return columns.
+     - Moderators still receive every reply unchanged.
+     - Non-moderators now also receive soft-deleted replies, but redacted: `reply_content` is an
+       empty string and `reply_user_id`, `author_username` and `author_avatar_url` are NULL.
+       The client renders them as a "message supprimé" placeholder, and only when they have children.
+     - Rows are now ordered by `created_at` ascending (chronological order).
+     - Debug `RAISE NOTICE` statements from v3 are removed.
+
+  2. Security
+     - Unchanged: SECURITY DEFINER, the content and author of deleted replies are never returned
+       to non-moderators.
+*/
+
+DROP FUNCTION IF EXISTS public.get_post_replies_with_author(uuid);
+
+CREATE OR REPLACE FUNCTION public.get_post_replies_with_author(p_post_id uuid)
+RETURNS TABLE (
+  reply_id uuid,
+  reply_content text,
+  reply_created_at timestamptz,
+  reply_updated_at timestamptz,
+  reply_user_id uuid,
+  author_username text,
+  author_avatar_url text,
+  parent_reply_id uuid,
+  is_deleted boolean,
+  deleted_at timestamptz
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_is_moderator BOOLEAN;
+BEGIN
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.profiles p
+    WHERE p.id = auth.uid() AND p.role IN ('ADMIN', 'SUPER_ADMIN', 'MODERATOR')
+  ) INTO v_caller_is_moderator;
+
+  RETURN QUERY
+  SELECT
+    fr.id AS reply_id,
+    CASE WHEN fr.is_deleted AND NOT v_caller_is_moderator THEN '' ELSE fr.content END AS reply_content,
+    fr.created_at AS reply_created_at,
+    fr.updated_at AS reply_updated_at,
+    CASE WHEN fr.is_deleted AND NOT v_caller_is_moderator THEN NULL ELSE fr.user_id END AS reply_user_id,
+    CASE WHEN fr.is_deleted AND NOT v_caller_is_moderator THEN NULL ELSE p.username END AS author_username,
+    CASE WHEN fr.is_deleted AND NOT v_caller_is_moderator THEN NULL ELSE p.avatar_url END AS author_avatar_url,
+    fr.parent_reply_id,
+    fr.is_deleted,
+    fr.deleted_at
+  FROM
+    public.forum_replies fr
+  JOIN
+    public.profiles p ON fr.user_id = p.id
+  WHERE
+    fr.post_id = p_post_id
+  ORDER BY
+    fr.created_at ASC;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_post_replies_with_author(uuid) IS 'Fetches replies for a post in chronological order, including author details and soft deletion status. Deleted replies are redacted for non-moderators so threads keep their structure. SECURITY DEFINER.';
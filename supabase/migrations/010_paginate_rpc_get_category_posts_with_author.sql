@@ -0,0 +1,98 @@
+/*
+  # Paginate and sort RPC get_category_posts_with_author
+
+  Large categories were loaded in a single call with no ordering options.
+
+  1. Function: `public.get_category_posts_with_author(p_category_slug, p_page, p_limit, p_sort)`
+     - Replaces the single-argument version (dropped first).
+     - `p_page` (int, default 1): 1-based page number.
+     - `p_limit` (int, default 20): page size, clamped between 1 and 100.
+     - `p_sort` (text, default 'newest'):
+       - 'newest': most recently created topics first.
+       - 'last_activity': topics with the most recent reply (or creation) first.
+       - 'most_replies': topics with the most replies first.
+     - Returns the same columns as before plus `total_count` (bigint), the number of topics
+       in the category regardless of pagination.
+     - Reply counts and activity dates only take non-deleted replies into account.
+
+  2. Indexes
+     - `idx_forum_replies_post_id_created_at` on `forum_replies(post_id, created_at)` for the
+       per-topic reply aggregates.
+
+  3. Security
+     - Unchanged: `SECURITY INVOKER`, RLS on `forum_posts`, `forum_replies` and `profiles` applies.
+*/
+
+DROP FUNCTION IF EXISTS public.get_category_posts_with_author(TEXT);
+
+CREATE INDEX IF NOT EXISTS idx_forum_replies_post_id_created_at ON public.forum_replies(post_id, created_at);
+
+CREATE OR REPLACE FUNCTION public.get_category_posts_with_author(
+  p_category_slug TEXT,
+  p_page INT DEFAULT 1,
+  p_limit INT DEFAULT 20,
+  p_sort TEXT DEFAULT 'newest'
+)
+RETURNS TABLE (
+  post_id uuid,
+  post_title TEXT,
+  post_created_at TIMESTAMPTZ,
+  post_user_id uuid,
+  author_username TEXT,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_limit INT := LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+  v_offset INT := (GREATEST(COALESCE(p_page, 1), 1) - 1) * LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+BEGIN
+  IF p_sort NOT IN ('newest', 'last_activity', 'most_replies') THEN
+    RAISE EXCEPTION 'Invalid sort: %. Must be ''newest'', ''last_activity'' or ''most_replies''.', p_sort;
+  END IF;
+
+  RETURN QUERY
+  WITH category_posts AS (
+    SELECT
+      fp.id,
+      fp.title,
+      fp.created_at,
+      fp.user_id,
+      p.username,
+      COALESCE(r.reply_count, 0) AS reply_count,
+      GREATEST(fp.created_at, COALESCE(r.last_reply_at, fp.created_at)) AS last_activity_at
+    FROM
+      public.forum_posts fp
+    JOIN
+      public.forum_categories fc ON fp.category_id = fc.id
+    LEFT JOIN
+      public.profiles p ON fp.user_id = p.id
+    LEFT JOIN LATERAL (
+      SELECT COUNT(*) AS reply_count, MAX(fr.created_at) AS last_reply_at
+      FROM public.forum_replies fr
+      WHERE fr.post_id = fp.id AND fr.is_deleted = false
+    ) r ON true
+    WHERE
+      fc.slug = p_category_slug
+  )
+  SELECT
+    cp.id AS post_id,
+    cp.title AS post_title,
+    cp.created_at AS post_created_at,
+    cp.user_id AS post_user_id,
+    cp.username AS author_username,
+    (SELECT COUNT(*) FROM category_posts) AS total_count
+  FROM
+    category_posts cp
+  ORDER BY
+    CASE WHEN p_sort = 'last_activity' THEN cp.last_activity_at END DESC NULLS LAST,
+    CASE WHEN p_sort = 'most_replies' THEN cp.reply_count END DESC NULLS LAST,
+    cp.created_at DESC
+  LIMIT v_limit
+  OFFSET v_offset;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_category_posts_with_author(TEXT, INT, INT, TEXT) IS 'Fetches one page of topics for a category with author username, sorted by newest, last activity or reply count. Includes the total topic count.';
@@ -0,0 +1,192 @@
+/*
+  # Topic and category activity statistics
+
+  Topic lists and category cards now show reply counts and latest activity. Everything is
+  computed server-side so each page stays a single round trip.
+
+  1. Function: `public.get_category_posts_with_author(p_category_slug, p_page, p_limit, p_sort)`
+     - Dropped and recreated with the same parameters.
+     - New return columns:
+       - `reply_count` (bigint): number of non-deleted replies.
+       - `last_reply_id` (uuid), `last_reply_at` (timestamptz), `last_reply_user_id` (uuid),
+         `last_reply_username` (text): latest non-deleted reply, NULL when the topic has no reply.
+       - `last_activity_at` (timestamptz): latest reply date, or the topic creation date.
+
+  2. New Function: `public.get_forum_categories_with_stats()`
+     - Returns every category readable by the caller (RLS on `forum_categories` applies) with:
+       - `topic_count` (bigint): non-deleted topics.
+       - `reply_count` (bigint): non-deleted replies in non-deleted topics.
+       - `last_activity_at` (timestamptz), `last_activity_post_id` (uuid), `last_activity_post_title` (text):
+         the most recently active topic of the category.
+     - Ordered by category name.
+
+  3. Security
+     - Both functions are `SECURITY INVOKER`: RLS on the forum tables is respected.
+*/
+
+DROP FUNCTION IF EXISTS public.get_category_posts_with_author(TEXT, INT, INT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.get_category_posts_with_author(
+  p_category_slug TEXT,
+  p_page INT DEFAULT 1,
+  p_limit INT DEFAULT 20,
+  p_sort TEXT DEFAULT 'newest'
+)
+RETURNS TABLE (
+  post_id uuid,
+  post_title TEXT,
+  post_created_at TIMESTAMPTZ,
+  post_user_id uuid,
+  author_username TEXT,
+  reply_count BIGINT,
+  last_reply_id uuid,
+  last_reply_at TIMESTAMPTZ,
+  last_reply_user_id uuid,
+  last_reply_username TEXT,
+  last_activity_at TIMESTAMPTZ,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_limit INT := LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+  v_offset INT := (GREATEST(COALESCE(p_page, 1), 1) - 1) * LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+BEGIN
+  IF p_sort NOT IN ('newest', 'last_activity', 'most_replies') THEN
+    RAISE EXCEPTION 'Invalid sort: %. Must be ''newest'', ''last_activity'' or ''most_replies''.', p_sort;
+  END IF;
+
+  RETURN QUERY
+  WITH category_posts AS (
+    SELECT
+      fp.id,
+      fp.title,
+      fp.created_at,
+      fp.user_id,
+      p.username,
+      COALESCE(rc.reply_count, 0) AS reply_count,
+      lr.id AS last_reply_id,
+      lr.created_at AS last_reply_at,
+      lr.user_id AS last_reply_user_id,
+      lrp.username AS last_reply_username,
+      GREATEST(fp.created_at, COALESCE(lr.created_at, fp.created_at)) AS last_activity_at
+    FROM
+      public.forum_posts fp
+    JOIN
+      public.forum_categories fc ON fp.category_id = fc.id
+    LEFT JOIN
+      public.profiles p ON fp.user_id = p.id
+    LEFT JOIN LATERAL (
+      SELECT COUNT(*) AS reply_count
+      FROM public.forum_replies fr
+      WHERE fr.post_id = fp.id AND fr.is_deleted = false
+    ) rc ON true
+    LEFT JOIN LATERAL (
+      SELECT fr.id, fr.created_at, fr.user_id
+      FROM public.forum_replies fr
+      WHERE fr.post_id = fp.id AND fr.is_deleted = false
+      ORDER BY fr.created_at DESC
+      LIMIT 1
+    ) lr ON true
+    LEFT JOIN
+      public.profiles lrp ON lr.user_id = lrp.id
+    WHERE
+      fc.slug = p_category_slug
+  )
+  SELECT
+    cp.id AS post_id,
+    cp.title AS post_title,
+    cp.created_at AS post_created_at,
+    cp.user_id AS post_user_id,
+    cp.username AS author_username,
+    cp.reply_count,
+    cp.last_reply_id,
+    cp.last_reply_at,
+    cp.last_reply_user_id,
+    cp.last_reply_username,
+    cp.last_activity_at,
+    (SELECT COUNT(*) FROM category_posts) AS total_count
+  FROM
+    category_posts cp
+  ORDER BY
+    CASE WHEN p_sort = 'last_activity' THEN cp.last_activity_at END DESC NULLS LAST,
+    CASE WHEN p_sort = 'most_replies' THEN cp.reply_count END DESC NULLS LAST,
+    cp.created_at DESC
+  LIMIT v_limit
+  OFFSET v_offset;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_category_posts_with_author(TEXT, INT, INT, TEXT) IS 'Fetches one page of topics for a category with author username, reply count and latest reply, sorted by newest, last activity or reply count. Includes the total topic count.';
+
+CREATE OR REPLACE FUNCTION public.get_forum_categories_with_stats()
+RETURNS TABLE (
+  id uuid,
+  name TEXT,
+  description TEXT,
+  slug TEXT,
+  created_at TIMESTAMPTZ,
+  topic_count BIGINT,
+  reply_count BIGINT,
+  last_activity_at TIMESTAMPTZ,
+  last_activity_post_id uuid,
+  last_activity_post_title TEXT
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH post_activity AS (
+    SELECT
+      fp.id,
+      fp.category_id,
+      fp.title,
+      COALESCE(rc.reply_count, 0) AS reply_count,
+      GREATEST(fp.created_at, COALESCE(rc.last_reply_at, fp.created_at)) AS last_activity_at
+    FROM
+      public.forum_posts fp
+    LEFT JOIN LATERAL (
+      SELECT COUNT(*) AS reply_count, MAX(fr.created_at) AS last_reply_at
+      FROM public.forum_replies fr
+      WHERE fr.post_id = fp.id AND fr.is_deleted = false
+    ) rc ON true
+    WHERE
+      fp.is_deleted = false
+  )
+  SELECT
+    fc.id,
+    fc.name,
+    fc.description,
+    fc.slug,
+    fc.created_at,
+    COALESCE(stats.topic_count, 0) AS topic_count,
+    COALESCE(stats.reply_count, 0) AS reply_count,
+    latest.last_activity_at,
+    latest.id AS last_activity_post_id,
+    latest.title AS last_activity_post_title
+  FROM
+    public.forum_categories fc
+  LEFT JOIN LATERAL (
+    SELECT COUNT(*) AS topic_count, SUM(pa.reply_count)::BIGINT AS reply_count
+    FROM post_activity pa
+    WHERE pa.category_id = fc.id
+  ) stats ON true
+  LEFT JOIN LATERAL (
+    SELECT pa.id, pa.title, pa.last_activity_at
+    FROM post_activity pa
+    WHERE pa.category_id = fc.id
+    ORDER BY pa.last_activity_at DESC
+    LIMIT 1
+  ) latest ON true
+  ORDER BY
+    fc.name ASC;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_forum_categories_with_stats() IS 'Lists readable forum categories with topic count, reply count and latest activity.';
+
+GRANT EXECUTE ON FUNCTION public.get_forum_categories_with_stats() TO authenticated;
@@ -0,0 +1,329 @@
+/*
+  # Pinned and locked topics
+
+  Moderators can pin topics (always listed first in their category) and lock them
+  (no new replies from regular users).
+
+  1. Schema Changes: `public.forum_posts`
+     - `is_pinned` (boolean, not null, default false).
+     - `is_locked` (boolean, not null, default false).
+
+  2. Moderation log and permissions
+     - New `moderation_action_type` values: `TOPIC_PIN`, `TOPIC_UNPIN`, `TOPIC_LOCK`, `TOPIC_UNLOCK`.
+     - New `app_permissions` value `MANAGE_TOPICS`, granted to MODERATOR, ADMIN and SUPER_ADMIN in
+       `public.role_permissions`, as in `src/constants/permissions.ts`.
+
+  3. New Functions
+     - `public.set_topic_pinned(p_post_id uuid, p_is_pinned boolean, p_justification text)`
+     - `public.set_topic_locked(p_post_id uuid, p_is_locked boolean, p_justification text)`
+       - SECURITY DEFINER, restricted to holders of MANAGE_TOPICS.
+       - Each call writes a `moderation_actions_log` entry. An empty justification falls back to a default text.
+
+  4. Updated Functions
+     - `get_post_details_with_author`: also returns `is_pinned` and `is_locked`. Debug notices removed.
+     - `get_category_posts_with_author`: also returns `is_pinned` and `is_locked`; pinned topics are
+       always sorted first, whatever the selected sort.
+
+  5. Security
+     - New RESTRICTIVE INSERT policy on `forum_replies`: replies to a locked topic are rejected unless
+       the caller holds MANAGE_TOPICS. Being restrictive, it applies on top of every
+       existing permissive INSERT policy.
+*/
+
+-- 1. Columns
+ALTER TABLE public.forum_posts
+  ADD COLUMN IF NOT EXISTS is_pinned BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS is_locked BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.forum_posts.is_pinned IS 'Pinned topics are listed first in their category.';
+COMMENT ON COLUMN public.forum_posts.is_locked IS 'Locked topics do not accept new replies from regular users.';
+
+-- 2. Action types
+ALTER TYPE public.moderation_action_type ADD VALUE IF NOT EXISTS 'TOPIC_PIN';
+ALTER TYPE public.moderation_action_type ADD VALUE IF NOT EXISTS 'TOPIC_UNPIN';
+ALTER TYPE public.moderation_action_type ADD VALUE IF NOT EXISTS 'TOPIC_LOCK';
+ALTER TYPE public.moderation_action_type ADD VALUE IF NOT EXISTS 'TOPIC_UNLOCK';
+
+ALTER TYPE public.app_permissions ADD VALUE IF NOT EXISTS 'MANAGE_TOPICS';
+
+INSERT INTO public.role_permissions (role, permission)
+VALUES
+  ('MODERATOR'::public.user_role, 'MANAGE_TOPICS'::public.app_permissions),
+  ('ADMIN'::public.user_role, 'MANAGE_TOPICS'::public.app_permissions),
+  ('SUPER_ADMIN'::public.user_role, 'MANAGE_TOPICS'::public.app_permissions)
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- 3. Moderation RPCs
+CREATE OR REPLACE FUNCTION public.set_topic_pinned(
+  p_post_id UUID,
+  p_is_pinned BOOLEAN,
+  p_justification TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_author_id UUID;
+BEGIN
+  IF NOT public.current_user_has_permission('MANAGE_TOPICS') THEN
+    RAISE EXCEPTION 'You do not have permission to pin or unpin topics.';
+  END IF;
+
+  UPDATE public.forum_posts
+     SET is_pinned = p_is_pinned
+   WHERE id = p_post_id
+  RETURNING user_id INTO v_author_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Topic not found: %', p_post_id;
+  END IF;
+
+  PERFORM public.create_moderation_log_entry(
+    p_action_type    := (CASE WHEN p_is_pinned THEN 'TOPIC_PIN' ELSE 'TOPIC_UNPIN' END)::public.moderation_action_type,
+    p_justification  := COALESCE(NULLIF(trim(p_justification), ''), CASE WHEN p_is_pinned THEN 'Topic pinned by moderator.' ELSE 'Topic unpinned by moderator.' END),
+    p_target_user_id := v_author_id,
+    p_target_post_id := p_post_id,
+    p_details        := jsonb_build_object('is_pinned', p_is_pinned)
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.set_topic_pinned(UUID, BOOLEAN, TEXT) IS 'Pins or unpins a topic and logs the action. Requires MANAGE_TOPICS.';
+
+CREATE OR REPLACE FUNCTION public.set_topic_locked(
+  p_post_id UUID,
+  p_is_locked BOOLEAN,
+  p_justification TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_author_id UUID;
+BEGIN
+  IF NOT public.current_user_has_permission('MANAGE_TOPICS') THEN
+    RAISE EXCEPTION 'You do not have permission to lock or unlock topics.';
+  END IF;
+
+  UPDATE public.forum_posts
+     SET is_locked = p_is_locked
+   WHERE id = p_post_id
+  RETURNING user_id INTO v_author_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Topic not found: %', p_post_id;
+  END IF;
+
+  PERFORM public.create_moderation_log_entry(
+    p_action_type    := (CASE WHEN p_is_locked THEN 'TOPIC_LOCK' ELSE 'TOPIC_UNLOCK' END)::public.moderation_action_type,
+    p_justification  := COALESCE(NULLIF(trim(p_justification), ''), CASE WHEN p_is_locked THEN 'Topic locked by moderator.' ELSE 'Topic unlocked by moderator.' END),
+    p_target_user_id := v_author_id,
+    p_target_post_id := p_post_id,
+    p_details        := jsonb_build_object('is_locked', p_is_locked)
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.set_topic_locked(UUID, BOOLEAN, TEXT) IS 'Locks or unlocks a topic and logs the action. Requires MANAGE_TOPICS.';
+
+GRANT EXECUTE ON FUNCTION public.set_topic_pinned(UUID, BOOLEAN, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_topic_locked(UUID, BOOLEAN, TEXT) TO authenticated;
+
+-- 4a. Post details
+DROP FUNCTION IF EXISTS public.get_post_details_with_author(uuid);
+
+CREATE OR REPLACE FUNCTION public.get_post_details_with_author(p_post_id uuid)
+RETURNS TABLE (
+  post_id uuid,
+  post_title text,
+  post_content text,
+  post_created_at timestamptz,
+  post_updated_at timestamptz,
+  post_user_id uuid,
+  author_username text,
+  author_avatar_url text,
+  category_id uuid,
+  category_name text,
+  category_slug text,
+  is_published boolean,
+  is_deleted boolean,
+  deleted_at timestamptz,
+  is_pinned boolean,
+  is_locked boolean
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+  v_caller_is_moderator BOOLEAN;
+BEGIN
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.profiles prof
+    WHERE prof.id = v_caller_id AND prof.role IN ('ADMIN', 'SUPER_ADMIN', 'MODERATOR')
+  ) INTO v_caller_is_moderator;
+
+  RETURN QUERY
+  SELECT
+    fp.id AS post_id,
+    fp.title AS post_title,
+    fp.content AS post_content,
+    fp.created_at AS post_created_at,
+    fp.updated_at AS post_updated_at,
+    fp.user_id AS post_user_id,
+    author_profile.username AS author_username,
+    author_profile.avatar_url AS author_avatar_url,
+    cat.id AS category_id,
+    cat.name AS category_name,
+    cat.slug AS category_slug,
+    fp.is_published,
+    fp.is_deleted,
+    fp.deleted_at,
+    fp.is_pinned,
+    fp.is_locked
+  FROM
+    public.forum_posts fp
+  JOIN
+    public.profiles author_profile ON fp.user_id = author_profile.id
+  JOIN
+    public.forum_categories cat ON fp.category_id = cat.id
+  WHERE
+    fp.id = p_post_id
+    AND (
+      v_caller_is_moderator
+      OR (
+        fp.is_deleted = false AND
+        (fp.is_published = true OR fp.user_id = v_caller_id)
+      )
+    );
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_post_details_with_author(uuid) IS 'Fetches details for a specific post, including pinned/locked state. SECURITY DEFINER. Visibility logic handled internally.';
+
+-- 4b. Category topics, pinned first
+DROP FUNCTION IF EXISTS public.get_category_posts_with_author(TEXT, INT, INT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.get_category_posts_with_author(
+  p_category_slug TEXT,
+  p_page INT DEFAULT 1,
+  p_limit INT DEFAULT 20,
+  p_sort TEXT DEFAULT 'newest'
+)
+RETURNS TABLE (
+  post_id uuid,
+  post_title TEXT,
+  post_created_at TIMESTAMPTZ,
+  post_user_id uuid,
+  author_username TEXT,
+  is_pinned BOOLEAN,
+  is_locked BOOLEAN,
+  reply_count BIGINT,
+  last_reply_id uuid,
+  last_reply_at TIMESTAMPTZ,
+  last_reply_user_id uuid,
+  last_reply_username TEXT,
+  last_activity_at TIMESTAMPTZ,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_limit INT := LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+  v_offset INT := (GREATEST(COALESCE(p_page, 1), 1) - 1) * LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+BEGIN
+  IF p_sort NOT IN ('newest', 'last_activity', 'most_replies') THEN
+    RAISE EXCEPTION 'Invalid sort: %. Must be ''newest'', ''last_activity'' or ''most_replies''.', p_sort;
+  END IF;
+
+  RETURN QUERY
+  WITH category_posts AS (
+    SELECT
+      fp.id,
+      fp.title,
+      fp.created_at,
+      fp.user_id,
+      p.username,
+      fp.is_pinned AS pinned,
+      fp.is_locked AS locked,
+      COALESCE(rc.reply_count, 0) AS reply_count,
+      lr.id AS last_reply_id,
+      lr.created_at AS last_reply_at,
+      lr.user_id AS last_reply_user_id,
+      lrp.username AS last_reply_username,
+      GREATEST(fp.created_at, COALESCE(lr.created_at, fp.created_at)) AS last_activity_at
+    FROM
+      public.forum_posts fp
+    JOIN
+      public.forum_categories fc ON fp.category_id = fc.id
+    LEFT JOIN
+      public.profiles p ON fp.user_id = p.id
+    LEFT JOIN LATERAL (
+      SELECT COUNT(*) AS reply_count
+      FROM public.forum_replies fr
+      WHERE fr.post_id = fp.id AND fr.is_deleted = false
+    ) rc ON true
+    LEFT JOIN LATERAL (
+      SELECT fr.id, fr.created_at, fr.user_id
+      FROM public.forum_replies fr
+      WHERE fr.post_id = fp.id AND fr.is_deleted = false
+      ORDER BY fr.created_at DESC
+      LIMIT 1
+    ) lr ON true
+    LEFT JOIN
+      public.profiles lrp ON lr.user_id = lrp.id
+    WHERE
+      fc.slug = p_category_slug
+  )
+  SELECT
+    cp.id AS post_id,
+    cp.title AS post_title,
+    cp.created_at AS post_created_at,
+    cp.user_id AS post_user_id,
+    cp.username AS author_username,
+    cp.pinned AS is_pinned,
+    cp.locked AS is_locked,
+    cp.reply_count,
+    cp.last_reply_id,
+    cp.last_reply_at,
+    cp.last_reply_user_id,
+    cp.last_reply_username,
+    cp.last_activity_at,
+    (SELECT COUNT(*) FROM category_posts) AS total_count
+  FROM
+    category_posts cp
+  ORDER BY
+    cp.pinned DESC,
+    CASE WHEN p_sort = 'last_activity' THEN cp.last_activity_at END DESC NULLS LAST,
+    CASE WHEN p_sort = 'most_replies' THEN cp.reply_count END DESC NULLS LAST,
+    cp.created_at DESC
+  LIMIT v_limit
+  OFFSET v_offset;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_category_posts_with_author(TEXT, INT, INT, TEXT) IS 'Fetches one page of topics for a category with author username, reply count and latest reply. Pinned topics first, then sorted by newest, last activity or reply count. Includes the total topic count.';
+
+-- 5. Locked topics reject replies from regular users
+DROP POLICY IF EXISTS "Replies cannot be added to locked topics" ON public.forum_replies;
+CREATE POLICY "Replies cannot be added to locked topics"
+  ON public.forum_replies
+  AS RESTRICTIVE
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    NOT EXISTS (
+      SELECT 1
+      FROM public.forum_posts fp
+      WHERE fp.id = post_id AND fp.is_locked = true
+    )
+    OR public.current_user_has_permission('MANAGE_TOPICS')
+  );
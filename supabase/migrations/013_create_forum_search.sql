@@ -0,0 +1,232 @@
+/*
+  # Forum full-text search
+
+  Members can now search topic titles, topic bodies and replies. Matching is done with
+  PostgreSQL full-text search using French stemming, and accents are ignored (via the
+  `unaccent` extension that was already enabled for slugs).
+
+  1. Text Search Configuration: `public.french_unaccent`
+     - Copy of `pg_catalog.french` where words go through the `unaccent` dictionary before
+       the French stemmer, so "evenement" matches "événements".
+
+  2. Indexes
+     - `idx_forum_posts_search`: GIN index on the weighted document of a topic
+       (title with weight A, body with weight B).
+     - `idx_forum_replies_search`: GIN index on the reply body.
+     - The expressions are repeated as-is in `search_forum` so the planner can use them.
+
+  3. New Function: `public.search_forum(p_query, p_category_id, p_author_username, p_date_from, p_date_to, p_page, p_limit)`
+     - `p_query` (text): parsed with `websearch_to_tsquery` (supports "exact phrase", OR and -exclusion).
+     - `p_category_id` (uuid, optional): restrict to one category.
+     - `p_author_username` (text, optional): case-insensitive partial match on the author's username.
+     - `p_date_from` / `p_date_to` (date, optional): inclusive creation date range.
+     - `p_page` (int, default 1) / `p_limit` (int, default 20, clamped between 1 and 100): pagination.
+     - Returns one row per matching topic or reply, best matches first, with:
+       - `result_type` ('post' or 'reply'), `post_id`, `reply_id` (NULL for topics).
+       - `post_title` and `title_highlight` (title with matched terms marked, topics only).
+       - `snippet`: excerpt of the body with matched terms marked.
+       - Category, author and creation date of the result, `rank` and `total_count`.
+     - Matched terms are wrapped between the characters U+E000 and U+E001 rather than HTML
+       tags, so the client never has to inject HTML. These characters are stripped from the
+       source text beforehand.
+
+  4. Security
+     - `SECURITY INVOKER`: RLS on `forum_posts`, `forum_replies`, `forum_categories` and `profiles` applies.
+     - Soft-deleted and unpublished content is always excluded, even for moderators, and
+       categories the caller cannot read are filtered with `is_category_member_or_public`.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_catalog.pg_ts_config
+    WHERE cfgname = 'french_unaccent' AND cfgnamespace = 'public'::regnamespace
+  ) THEN
+    CREATE TEXT SEARCH CONFIGURATION public.french_unaccent (COPY = pg_catalog.french);
+    ALTER TEXT SEARCH CONFIGURATION public.french_unaccent
+      ALTER MAPPING FOR hword, hword_part, word WITH unaccent, french_stem;
+  END IF;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_forum_posts_search ON public.forum_posts USING GIN (
+  (
+    setweight(to_tsvector('public.french_unaccent'::regconfig, COALESCE(title, '')), 'A') ||
+    setweight(to_tsvector('public.french_unaccent'::regconfig, COALESCE(content, '')), 'B')
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_forum_replies_search ON public.forum_replies USING GIN (
+  to_tsvector('public.french_unaccent'::regconfig, COALESCE(content, ''))
+);
+
+CREATE OR REPLACE FUNCTION public.search_forum(
+  p_query TEXT,
+  p_category_id uuid DEFAULT NULL,
+  p_author_username TEXT DEFAULT NULL,
+  p_date_from DATE DEFAULT NULL,
+  p_date_to DATE DEFAULT NULL,
+  p_page INT DEFAULT 1,
+  p_limit INT DEFAULT 20
+)
+RETURNS TABLE (
+  result_type TEXT,
+  post_id uuid,
+  reply_id uuid,
+  post_title TEXT,
+  title_highlight TEXT,
+  snippet TEXT,
+  category_id uuid,
+  category_name TEXT,
+  category_slug TEXT,
+  author_id uuid,
+  author_username TEXT,
+  created_at TIMESTAMPTZ,
+  rank REAL,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_limit INT := LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+  v_offset INT := (GREATEST(COALESCE(p_page, 1), 1) - 1) * LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+  v_config CONSTANT regconfig := 'public.french_unaccent'::regconfig;
+  v_start_sel CONSTANT TEXT := E'\uE000';
+  v_stop_sel CONSTANT TEXT := E'\uE001';
+  v_snippet_options TEXT;
+  v_title_options TEXT;
+  v_tsquery tsquery;
+  v_author_pattern TEXT;
+BEGIN
+  IF p_query IS NULL OR btrim(p_query) = '' THEN
+    RETURN;
+  END IF;
+
+  v_tsquery := websearch_to_tsquery(v_config, p_query);
+
+  -- Queries made only of stop words ("le", "de"...) match nothing.
+  IF numnode(v_tsquery) = 0 THEN
+    RETURN;
+  END IF;
+
+  IF p_author_username IS NOT NULL AND btrim(p_author_username) <> '' THEN
+    v_author_pattern := '%' || replace(replace(replace(btrim(p_author_username), '\', '\\'), '%', '\%'), '_', '\_') || '%';
+  END IF;
+
+  v_snippet_options := format(
+    'StartSel="%s", StopSel="%s", MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "',
+    v_start_sel, v_stop_sel
+  );
+  v_title_options := format('StartSel="%s", StopSel="%s", HighlightAll=true', v_start_sel, v_stop_sel);
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT
+      'post'::TEXT AS result_type,
+      fp.id AS post_id,
+      NULL::uuid AS reply_id,
+      fp.title AS post_title,
+      fp.content AS body,
+      fp.category_id,
+      fp.user_id AS author_id,
+      fp.created_at,
+      ts_rank(
+        setweight(to_tsvector(v_config, COALESCE(fp.title, '')), 'A') ||
+        setweight(to_tsvector(v_config, COALESCE(fp.content, '')), 'B'),
+        v_tsquery
+      ) AS rank
+    FROM
+      public.forum_posts fp
+    WHERE
+      (
+        setweight(to_tsvector('public.french_unaccent'::regconfig, COALESCE(fp.title, '')), 'A') ||
+        setweight(to_tsvector('public.french_unaccent'::regconfig, COALESCE(fp.content, '')), 'B')
+      ) @@ v_tsquery
+      AND fp.is_deleted = false
+      AND fp.is_published = true
+
+    UNION ALL
+
+    SELECT
+      'reply'::TEXT AS result_type,
+      fr.post_id,
+      fr.id AS reply_id,
+      fp.title AS post_title,
+      fr.content AS body,
+      fp.category_id,
+      fr.user_id AS author_id,
+      fr.created_at,
+      ts_rank(to_tsvector(v_config, COALESCE(fr.content, '')), v_tsquery) AS rank
+    FROM
+      public.forum_replies fr
+    JOIN
+      public.forum_posts fp ON fr.post_id = fp.id
+    WHERE
+      to_tsvector('public.french_unaccent'::regconfig, COALESCE(fr.content, '')) @@ v_tsquery
+      AND fr.is_deleted = false
+      AND fp.is_deleted = false
+      AND fp.is_published = true
+  ),
+  filtered AS (
+    SELECT
+      m.*,
+      fc.name AS category_name,
+      fc.slug AS category_slug,
+      p.username AS author_username
+    FROM
+      matches m
+    JOIN
+      public.forum_categories fc ON m.category_id = fc.id
+    LEFT JOIN
+      public.profiles p ON m.author_id = p.id
+    WHERE
+      public.is_category_member_or_public(m.category_id)
+      AND (p_category_id IS NULL OR m.category_id = p_category_id)
+      AND (v_author_pattern IS NULL OR p.username ILIKE v_author_pattern)
+      AND (p_date_from IS NULL OR m.created_at >= p_date_from)
+      AND (p_date_to IS NULL OR m.created_at < p_date_to + 1)
+  ),
+  page AS (
+    SELECT
+      f.*,
+      (SELECT COUNT(*) FROM filtered) AS total_count
+    FROM
+      filtered f
+    ORDER BY
+      f.rank DESC,
+      f.created_at DESC
+    LIMIT v_limit
+    OFFSET v_offset
+  )
+  SELECT
+    pg.result_type,
+    pg.post_id,
+    pg.reply_id,
+    pg.post_title,
+    CASE
+      WHEN pg.result_type = 'post' THEN
+        ts_headline(v_config, replace(replace(pg.post_title, v_start_sel, ''), v_stop_sel, ''), v_tsquery, v_title_options)
+    END AS title_highlight,
+    ts_headline(v_config, replace(replace(COALESCE(pg.body, ''), v_start_sel, ''), v_stop_sel, ''), v_tsquery, v_snippet_options) AS snippet,
+    pg.category_id,
+    pg.category_name,
+    pg.category_slug,
+    pg.author_id,
+    pg.author_username,
+    pg.created_at,
+    pg.rank,
+    pg.total_count
+  FROM
+    page pg
+  ORDER BY
+    pg.rank DESC,
+    pg.created_at DESC;
+END;
+$$;
+
+COMMENT ON FUNCTION public.search_forum(TEXT, uuid, TEXT, DATE, DATE, INT, INT) IS 'Full-text search (French, accent-insensitive) over readable topics and replies, with category, author and date filters. Returns one page of highlighted results and the total count.';
+
+GRANT EXECUTE ON FUNCTION public.search_forum(TEXT, uuid, TEXT, DATE, DATE, INT, INT) TO authenticated;
@@ -0,0 +1,354 @@
+/*
+  # Unread tracking
+
+  Members can now see which topics have new messages since their last visit.
+
+  1. New Tables
+     - `public.forum_topic_read_markers`: one row per (user, topic) with `last_read_at`, the last
+       time the member opened the topic.
+     - `public.forum_category_read_markers`: one row per (user, category) with `read_all_at`, set by
+       "mark all as read". Every topic of the category whose last activity is older counts as read.
+     - A topic is read when its last activity is not after the most recent of both markers.
+
+  2. New Functions (all `SECURITY INVOKER`, acting on the caller's own markers)
+     - `public.mark_topic_read(p_post_id uuid) RETURNS timestamptz`: records that the caller has just
+       read the topic and returns the previous read date (NULL if never read), used to find the first
+       unread reply.
+     - `public.mark_category_read(p_category_id uuid)`: marks every topic of a category as read.
+     - `public.mark_all_categories_read()`: same for every category readable by the caller.
+
+  3. Updated Functions
+     - `get_category_posts_with_author`: also returns `is_unread` (boolean).
+     - `get_forum_categories_with_stats`: also returns `unread_count` (bigint), the number of unread
+       topics in the category.
+
+  4. Security
+     - RLS enabled on both tables: members can only read and write their own markers.
+*/
+
+-- 1. Tables
+CREATE TABLE IF NOT EXISTS public.forum_topic_read_markers (
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  post_id uuid NOT NULL REFERENCES public.forum_posts(id) ON DELETE CASCADE,
+  last_read_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, post_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.forum_category_read_markers (
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  category_id uuid NOT NULL REFERENCES public.forum_categories(id) ON DELETE CASCADE,
+  read_all_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, category_id)
+);
+
+COMMENT ON TABLE public.forum_topic_read_markers IS 'Last time each member read each topic.';
+COMMENT ON TABLE public.forum_category_read_markers IS 'Last time each member marked a whole category as read.';
+
+ALTER TABLE public.forum_topic_read_markers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.forum_category_read_markers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own topic read markers" ON public.forum_topic_read_markers;
+CREATE POLICY "Users can manage their own topic read markers"
+  ON public.forum_topic_read_markers
+  FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can manage their own category read markers" ON public.forum_category_read_markers;
+CREATE POLICY "Users can manage their own category read markers"
+  ON public.forum_category_read_markers
+  FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- 2. Marking RPCs
+CREATE OR REPLACE FUNCTION public.mark_topic_read(p_post_id uuid)
+RETURNS timestamptz
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+  v_category_id UUID;
+  v_previous_read_at timestamptz;
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required.';
+  END IF;
+
+  SELECT fp.category_id INTO v_category_id
+  FROM public.forum_posts fp
+  WHERE fp.id = p_post_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Topic not found or not accessible: %', p_post_id;
+  END IF;
+
+  SELECT GREATEST(
+    (SELECT trm.last_read_at FROM public.forum_topic_read_markers trm
+      WHERE trm.user_id = v_caller_id AND trm.post_id = p_post_id),
+    (SELECT crm.read_all_at FROM public.forum_category_read_markers crm
+      WHERE crm.user_id = v_caller_id AND crm.category_id = v_category_id)
+  ) INTO v_previous_read_at;
+
+  INSERT INTO public.forum_topic_read_markers (user_id, post_id, last_read_at)
+  VALUES (v_caller_id, p_post_id, now())
+  ON CONFLICT (user_id, post_id)
+  DO UPDATE SET last_read_at = GREATEST(public.forum_topic_read_markers.last_read_at, EXCLUDED.last_read_at);
+
+  RETURN v_previous_read_at;
+END;
+$$;
+
+COMMENT ON FUNCTION public.mark_topic_read(uuid) IS 'Marks a topic as read by the caller and returns the previous read date (NULL if never read).';
+
+CREATE OR REPLACE FUNCTION public.mark_category_read(p_category_id uuid)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required.';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.forum_categories fc WHERE fc.id = p_category_id) THEN
+    RAISE EXCEPTION 'Category not found or not accessible: %', p_category_id;
+  END IF;
+
+  INSERT INTO public.forum_category_read_markers (user_id, category_id, read_all_at)
+  VALUES (v_caller_id, p_category_id, now())
+  ON CONFLICT (user_id, category_id)
+  DO UPDATE SET read_all_at = EXCLUDED.read_all_at;
+END;
+$$;
+
+COMMENT ON FUNCTION public.mark_category_read(uuid) IS 'Marks every topic of a category as read by the caller.';
+
+CREATE OR REPLACE FUNCTION public.mark_all_categories_read()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required.';
+  END IF;
+
+  INSERT INTO public.forum_category_read_markers (user_id, category_id, read_all_at)
+  SELECT v_caller_id, fc.id, now()
+  FROM public.forum_categories fc
+  ON CONFLICT (user_id, category_id)
+  DO UPDATE SET read_all_at = EXCLUDED.read_all_at;
+END;
+$$;
+
+COMMENT ON FUNCTION public.mark_all_categories_read() IS 'Marks every topic of every readable category as read by the caller.';
+
+GRANT EXECUTE ON FUNCTION public.mark_topic_read(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_category_read(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_all_categories_read() TO authenticated;
+
+-- 3a. Category topics with unread state
+DROP FUNCTION IF EXISTS public.get_category_posts_with_author(TEXT, INT, INT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.get_category_posts_with_author(
+  p_category_slug TEXT,
+  p_page INT DEFAULT 1,
+  p_limit INT DEFAULT 20,
+  p_sort TEXT DEFAULT 'newest'
+)
+RETURNS TABLE (
+  post_id uuid,
+  post_title TEXT,
+  post_created_at TIMESTAMPTZ,
+  post_user_id uuid,
+  author_username TEXT,
+  is_pinned BOOLEAN,
+  is_locked BOOLEAN,
+  reply_count BIGINT,
+  last_reply_id uuid,
+  last_reply_at TIMESTAMPTZ,
+  last_reply_user_id uuid,
+  last_reply_username TEXT,
+  last_activity_at TIMESTAMPTZ,
+  is_unread BOOLEAN,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_limit INT := LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+  v_offset INT := (GREATEST(COALESCE(p_page, 1), 1) - 1) * LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+BEGIN
+  IF p_sort NOT IN ('newest', 'last_activity', 'most_replies') THEN
+    RAISE EXCEPTION 'Invalid sort: %. Must be ''newest'', ''last_activity'' or ''most_replies''.', p_sort;
+  END IF;
+
+  RETURN QUERY
+  WITH category_posts AS (
+    SELECT
+      fp.id,
+      fp.title,
+      fp.created_at,
+      fp.user_id,
+      p.username,
+      fp.is_pinned AS pinned,
+      fp.is_locked AS locked,
+      COALESCE(rc.reply_count, 0) AS reply_count,
+      lr.id AS last_reply_id,
+      lr.created_at AS last_reply_at,
+      lr.user_id AS last_reply_user_id,
+      lrp.username AS last_reply_username,
+      GREATEST(fp.created_at, COALESCE(lr.created_at, fp.created_at)) AS last_activity_at,
+      GREATEST(trm.last_read_at, crm.read_all_at) AS read_at
+    FROM
+      public.forum_posts fp
+    JOIN
+      public.forum_categories fc ON fp.category_id = fc.id
+    LEFT JOIN
+      public.profiles p ON fp.user_id = p.id
+    LEFT JOIN LATERAL (
+      SELECT COUNT(*) AS reply_count
+      FROM public.forum_replies fr
+      WHERE fr.post_id = fp.id AND fr.is_deleted = false
+    ) rc ON true
+    LEFT JOIN LATERAL (
+      SELECT fr.id, fr.created_at, fr.user_id
+      FROM public.forum_replies fr
+      WHERE fr.post_id = fp.id AND fr.is_deleted = false
+      ORDER BY fr.created_at DESC
+      LIMIT 1
+    ) lr ON true
+    LEFT JOIN
+      public.profiles lrp ON lr.user_id = lrp.id
+    LEFT JOIN
+      public.forum_topic_read_markers trm ON trm.post_id = fp.id AND trm.user_id = auth.uid()
+    LEFT JOIN
+      public.forum_category_read_markers crm ON crm.category_id = fc.id AND crm.user_id = auth.uid()
+    WHERE
+      fc.slug = p_category_slug
+  )
+  SELECT
+    cp.id AS post_id,
+    cp.title AS post_title,
+    cp.created_at AS post_created_at,
+    cp.user_id AS post_user_id,
+    cp.username AS author_username,
+    cp.pinned AS is_pinned,
+    cp.locked AS is_locked,
+    cp.reply_count,
+    cp.last_reply_id,
+    cp.last_reply_at,
+    cp.last_reply_user_id,
+    cp.last_reply_username,
+    cp.last_activity_at,
+    (cp.read_at IS NULL OR cp.last_activity_at > cp.read_at) AS is_unread,
+    (SELECT COUNT(*) FROM category_posts) AS total_count
+  FROM
+    category_posts cp
+  ORDER BY
+    cp.pinned DESC,
+    CASE WHEN p_sort = 'last_activity' THEN cp.last_activity_at END DESC NULLS LAST,
+    CASE WHEN p_sort = 'most_replies' THEN cp.reply_count END DESC NULLS LAST,
+    cp.created_at DESC
+  LIMIT v_limit
+  OFFSET v_offset;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_category_posts_with_author(TEXT, INT, INT, TEXT) IS 'Fetches one page of topics for a category with author username, reply count, latest reply and unread state. Pinned topics first, then sorted by newest, last activity or reply count. Includes the total topic count.';
+
+-- 3b. Category cards with unread counts
+DROP FUNCTION IF EXISTS public.get_forum_categories_with_stats();
+
+CREATE OR REPLACE FUNCTION public.get_forum_categories_with_stats()
+RETURNS TABLE (
+  id uuid,
+  name TEXT,
+  description TEXT,
+  slug TEXT,
+  created_at TIMESTAMPTZ,
+  topic_count BIGINT,
+  reply_count BIGINT,
+  unread_count BIGINT,
+  last_activity_at TIMESTAMPTZ,
+  last_activity_post_id uuid,
+  last_activity_post_title TEXT
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH post_activity AS (
+    SELECT
+      fp.id,
+      fp.category_id,
+      fp.title,
+      COALESCE(rc.reply_count, 0) AS reply_count,
+      GREATEST(fp.created_at, COALESCE(rc.last_reply_at, fp.created_at)) AS last_activity_at,
+      GREATEST(trm.last_read_at, crm.read_all_at) AS read_at
+    FROM
+      public.forum_posts fp
+    LEFT JOIN LATERAL (
+      SELECT COUNT(*) AS reply_count, MAX(fr.created_at) AS last_reply_at
+      FROM public.forum_replies fr
+      WHERE fr.post_id = fp.id AND fr.is_deleted = false
+    ) rc ON true
+    LEFT JOIN
+      public.forum_topic_read_markers trm ON trm.post_id = fp.id AND trm.user_id = auth.uid()
+    LEFT JOIN
+      public.forum_category_read_markers crm ON crm.category_id = fp.category_id AND crm.user_id = auth.uid()
+    WHERE
+      fp.is_deleted = false
+  )
+  SELECT
+    fc.id,
+    fc.name,
+    fc.description,
+    fc.slug,
+    fc.created_at,
+    COALESCE(stats.topic_count, 0) AS topic_count,
+    COALESCE(stats.reply_count, 0) AS reply_count,
+    COALESCE(stats.unread_count, 0) AS unread_count,
+    latest.last_activity_at,
+    latest.id AS last_activity_post_id,
+    latest.title AS last_activity_post_title
+  FROM
+    public.forum_categories fc
+  LEFT JOIN LATERAL (
+    SELECT
+      COUNT(*) AS topic_count,
+      SUM(pa.reply_count)::BIGINT AS reply_count,
+      COUNT(*) FILTER (WHERE pa.read_at IS NULL OR pa.last_activity_at > pa.read_at) AS unread_count
+    FROM post_activity pa
+    WHERE pa.category_id = fc.id
+  ) stats ON true
+  LEFT JOIN LATERAL (
+    SELECT pa.id, pa.title, pa.last_activity_at
+    FROM post_activity pa
+    WHERE pa.category_id = fc.id
+    ORDER BY pa.last_activity_at DESC
+    LIMIT 1
+  ) latest ON true
+  ORDER BY
+    fc.name ASC;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_forum_categories_with_stats() IS 'Lists readable forum categories with topic count, reply count, unread topic count and latest activity.';
+
+GRANT EXECUTE ON FUNCTION public.get_forum_categories_with_stats() TO authenticated;
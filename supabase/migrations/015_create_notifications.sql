@@ -0,0 +1,359 @@
+/*
+  # Notifications
+
+  Members are now notified when something concerns them. Notifications are created by database
+  triggers, so every way of writing content (pages, RPCs, admin tools) produces them.
+
+  1. New Type: `public.notification_type`
+     - `REPLY_TO_TOPIC`: someone replied to one of my topics.
+     - `REPLY_TO_REPLY`: someone answered one of my replies.
+     - `MENTION`: someone mentioned me with `@username` in a topic or a reply.
+     - `REPORT_RESOLVED`: a moderator resolved one of my reports.
+     - `ACCOUNT_APPROVED`: my account was approved.
+
+  2. New Tables
+     - `public.notifications`: one row per notification.
+       - `user_id`: recipient. `actor_user_id`: member who triggered it (NULL for system events).
+       - `post_id`, `reply_id`, `report_id`: related content, when relevant.
+       - `data` (jsonb): context captured at creation time (topic title, report status...).
+       - `is_read`, `read_at`, `created_at`.
+     - `public.notification_preferences`: per-type opt-outs. A missing row means the type is enabled.
+
+  3. New Functions
+     - `public.create_notification(...)`: internal helper used by the triggers. Skips notifications
+       to oneself and types the recipient has disabled. Not executable by clients.
+     - `public.mark_notification_read(p_notification_id uuid)`
+     - `public.mark_all_notifications_read()`
+
+  4. Triggers
+     - `forum_replies` AFTER INSERT: reply to topic, reply to reply and mentions. A member is notified
+       at most once per reply (reply to reply wins over reply to topic, both win over a mention).
+     - `forum_posts` AFTER INSERT: mentions in the topic body.
+     - `forum_reports` AFTER UPDATE OF status: report leaving the PENDING status.
+     - `profiles` AFTER UPDATE OF status: account switching to 'approved'.
+
+  5. Security
+     - RLS: members can only read, update and delete their own notifications and preferences.
+       There is no INSERT policy on `notifications`; rows are only created by the SECURITY DEFINER triggers.
+     - `notifications` is added to the `supabase_realtime` publication so the bell updates live.
+*/
+
+-- 1. Type
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'notification_type' AND typnamespace = 'public'::regnamespace) THEN
+    CREATE TYPE public.notification_type AS ENUM (
+      'REPLY_TO_TOPIC',
+      'REPLY_TO_REPLY',
+      'MENTION',
+      'REPORT_RESOLVED',
+      'ACCOUNT_APPROVED'
+    );
+  END IF;
+END;
+$$;
+
+-- 2. Tables
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  type public.notification_type NOT NULL,
+  actor_user_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  post_id uuid REFERENCES public.forum_posts(id) ON DELETE CASCADE,
+  reply_id uuid REFERENCES public.forum_replies(id) ON DELETE CASCADE,
+  report_id uuid REFERENCES public.forum_reports(id) ON DELETE CASCADE,
+  data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  is_read boolean NOT NULL DEFAULT false,
+  read_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id_created_at ON public.notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id_unread ON public.notifications(user_id) WHERE is_read = false;
+
+COMMENT ON TABLE public.notifications IS 'Notifications sent to members, created by database triggers.';
+
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  type public.notification_type NOT NULL,
+  is_enabled boolean NOT NULL DEFAULT true,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, type)
+);
+
+COMMENT ON TABLE public.notification_preferences IS 'Per-type notification opt-outs. A missing row means the type is enabled.';
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own notifications" ON public.notifications;
+CREATE POLICY "Users can view their own notifications"
+  ON public.notifications
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can update their own notifications" ON public.notifications;
+CREATE POLICY "Users can update their own notifications"
+  ON public.notifications
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can delete their own notifications" ON public.notifications;
+CREATE POLICY "Users can delete their own notifications"
+  ON public.notifications
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can manage their own notification preferences" ON public.notification_preferences;
+CREATE POLICY "Users can manage their own notification preferences"
+  ON public.notification_preferences
+  FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- 3. Helper
+CREATE OR REPLACE FUNCTION public.create_notification(
+  p_user_id UUID,
+  p_type public.notification_type,
+  p_actor_user_id UUID DEFAULT NULL,
+  p_post_id UUID DEFAULT NULL,
+  p_reply_id UUID DEFAULT NULL,
+  p_report_id UUID DEFAULT NULL,
+  p_data JSONB DEFAULT '{}'::jsonb
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_user_id IS NULL OR p_user_id = p_actor_user_id THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.notification_preferences np
+    WHERE np.user_id = p_user_id AND np.type = p_type AND np.is_enabled = false
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, actor_user_id, post_id, reply_id, report_id, data)
+  VALUES (p_user_id, p_type, p_actor_user_id, p_post_id, p_reply_id, p_report_id, COALESCE(p_data, '{}'::jsonb));
+END;
+$$;
+
+COMMENT ON FUNCTION public.create_notification(UUID, public.notification_type, UUID, UUID, UUID, UUID, JSONB) IS 'Internal: creates a notification unless it targets the actor or the recipient disabled this type.';
+
+-- Supabase grants EXECUTE on public functions to anon and authenticated directly, not only through PUBLIC.
+REVOKE EXECUTE ON FUNCTION public.create_notification(UUID, public.notification_type, UUID, UUID, UUID, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Usernames mentioned as @username in a text, lowercased and without duplicates.
+CREATE OR REPLACE FUNCTION public.extract_mentioned_usernames(p_content TEXT)
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT lower(m[1])), ARRAY[]::TEXT[])
+  FROM regexp_matches(COALESCE(p_content, ''), '(?:^|[^A-Za-z0-9_])@([A-Za-z0-9_][A-Za-z0-9_.-]*[A-Za-z0-9_]|[A-Za-z0-9_])', 'g') AS m;
+$$;
+
+COMMENT ON FUNCTION public.extract_mentioned_usernames(TEXT) IS 'Returns the distinct lowercased usernames mentioned as @username in a text.';
+
+-- 4. Triggers
+CREATE OR REPLACE FUNCTION public.notify_on_new_reply()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_post_author_id UUID;
+  v_post_title TEXT;
+  v_parent_author_id UUID;
+  v_notified UUID[] := ARRAY[]::UUID[];
+  v_data JSONB;
+  v_mentioned_id UUID;
+BEGIN
+  SELECT fp.user_id, fp.title INTO v_post_author_id, v_post_title
+  FROM public.forum_posts fp
+  WHERE fp.id = NEW.post_id;
+
+  v_data := jsonb_build_object('post_title', v_post_title);
+
+  IF NEW.parent_reply_id IS NOT NULL THEN
+    SELECT fr.user_id INTO v_parent_author_id
+    FROM public.forum_replies fr
+    WHERE fr.id = NEW.parent_reply_id AND fr.is_deleted = false;
+
+    IF v_parent_author_id IS NOT NULL THEN
+      PERFORM public.create_notification(v_parent_author_id, 'REPLY_TO_REPLY', NEW.user_id, NEW.post_id, NEW.id, NULL, v_data);
+      v_notified := v_notified || v_parent_author_id;
+    END IF;
+  END IF;
+
+  IF v_post_author_id IS NOT NULL AND NOT (v_post_author_id = ANY(v_notified)) THEN
+    PERFORM public.create_notification(v_post_author_id, 'REPLY_TO_TOPIC', NEW.user_id, NEW.post_id, NEW.id, NULL, v_data);
+    v_notified := v_notified || v_post_author_id;
+  END IF;
+
+  FOR v_mentioned_id IN
+    SELECT p.id
+    FROM public.profiles p
+    WHERE lower(p.username) = ANY(public.extract_mentioned_usernames(NEW.content))
+  LOOP
+    IF NOT (v_mentioned_id = ANY(v_notified)) THEN
+      PERFORM public.create_notification(v_mentioned_id, 'MENTION', NEW.user_id, NEW.post_id, NEW.id, NULL, v_data);
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_forum_reply_created_notify ON public.forum_replies;
+CREATE TRIGGER on_forum_reply_created_notify
+  AFTER INSERT ON public.forum_replies
+  FOR EACH ROW EXECUTE FUNCTION public.notify_on_new_reply();
+
+CREATE OR REPLACE FUNCTION public.notify_on_new_post()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_mentioned_id UUID;
+BEGIN
+  FOR v_mentioned_id IN
+    SELECT p.id
+    FROM public.profiles p
+    WHERE lower(p.username) = ANY(public.extract_mentioned_usernames(NEW.content))
+  LOOP
+    PERFORM public.create_notification(v_mentioned_id, 'MENTION', NEW.user_id, NEW.id, NULL, NULL, jsonb_build_object('post_title', NEW.title));
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_forum_post_created_notify ON public.forum_posts;
+CREATE TRIGGER on_forum_post_created_notify
+  AFTER INSERT ON public.forum_posts
+  FOR EACH ROW EXECUTE FUNCTION public.notify_on_new_post();
+
+CREATE OR REPLACE FUNCTION public.notify_on_report_resolved()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_post_id UUID := NEW.reported_post_id;
+  v_post_title TEXT;
+BEGIN
+  IF OLD.status <> 'PENDING' OR NEW.status = 'PENDING' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.reported_reply_id IS NOT NULL THEN
+    SELECT fr.post_id INTO v_post_id FROM public.forum_replies fr WHERE fr.id = NEW.reported_reply_id;
+  END IF;
+
+  SELECT fp.title INTO v_post_title FROM public.forum_posts fp WHERE fp.id = v_post_id;
+
+  PERFORM public.create_notification(
+    NEW.reporter_user_id,
+    'REPORT_RESOLVED',
+    NEW.resolved_by_user_id,
+    v_post_id,
+    NEW.reported_reply_id,
+    NEW.id,
+    jsonb_build_object('status', NEW.status, 'post_title', v_post_title)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_forum_report_resolved_notify ON public.forum_reports;
+CREATE TRIGGER on_forum_report_resolved_notify
+  AFTER UPDATE OF status ON public.forum_reports
+  FOR EACH ROW EXECUTE FUNCTION public.notify_on_report_resolved();
+
+CREATE OR REPLACE FUNCTION public.notify_on_account_approved()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'approved' AND OLD.status IS DISTINCT FROM 'approved' THEN
+    PERFORM public.create_notification(NEW.id, 'ACCOUNT_APPROVED', auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_profile_approved_notify ON public.profiles;
+CREATE TRIGGER on_profile_approved_notify
+  AFTER UPDATE OF status ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.notify_on_account_approved();
+
+-- 5. Client RPCs
+CREATE OR REPLACE FUNCTION public.mark_notification_read(p_notification_id uuid)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.notifications
+     SET is_read = true,
+         read_at = now()
+   WHERE id = p_notification_id
+     AND user_id = auth.uid()
+     AND is_read = false;
+END;
+$$;
+
+COMMENT ON FUNCTION public.mark_notification_read(uuid) IS 'Marks one of the caller''s notifications as read.';
+
+CREATE OR REPLACE FUNCTION public.mark_all_notifications_read()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.notifications
+     SET is_read = true,
+         read_at = now()
+   WHERE user_id = auth.uid()
+     AND is_read = false;
+END;
+$$;
+
+COMMENT ON FUNCTION public.mark_all_notifications_read() IS 'Marks all the caller''s notifications as read.';
+
+GRANT EXECUTE ON FUNCTION public.mark_notification_read(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_all_notifications_read() TO authenticated;
+
+-- 6. Realtime
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+     AND NOT EXISTS (
+       SELECT 1 FROM pg_publication_tables
+       WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'notifications'
+     ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+  END IF;
+END;
+$$;
@@ -0,0 +1,420 @@
+/*
+  # Topic and category subscriptions
+
+  Members can follow a topic (notified of every new reply) or a whole category (notified of every
+  new topic). Authors can be followed automatically to their own topics and to the topics they reply to.
+
+  1. New Tables
+     - `public.forum_topic_subscriptions` (user_id, post_id, created_at).
+     - `public.forum_category_subscriptions` (user_id, category_id, created_at).
+     - `public.forum_subscription_settings` (user_id, auto_follow_created_topics, auto_follow_replied_topics):
+       automatic subscription settings. A missing row means both are enabled.
+
+  2. Notification types
+     - `NEW_REPLY_IN_FOLLOWED_TOPIC` and `NEW_TOPIC_IN_FOLLOWED_CATEGORY` added to `public.notification_type`.
+
+  3. New Functions
+     - `public.can_user_see_category(p_category_id uuid, p_user_id uuid)`: whether a given member can read
+       a category (public, or private and member). Used to avoid notifying about content the recipient cannot open.
+     - `public.set_topic_subscription(p_post_id uuid, p_subscribed boolean)`
+     - `public.set_category_subscription(p_category_id uuid, p_subscribed boolean)`
+     - `public.get_my_subscriptions()`: followed topics and categories with their unread counts
+       (new replies since the last visit for a topic, unread topics for a category).
+
+  4. Triggers
+     - `forum_posts` AFTER INSERT: notifies category followers of a new published topic and subscribes the
+       author when `auto_follow_created_topics` is enabled.
+     - `forum_replies` AFTER INSERT: notifies topic followers of the new reply, except members who already
+       received a notification for this reply (topic author, replied-to author, mentions) and the topic
+       author when they disabled `REPLY_TO_TOPIC`, and subscribes the replier when `auto_follow_replied_topics`
+       is enabled.
+     - Trigger names sort after the notification triggers of 015, so those run first.
+
+  5. Security
+     - RLS: members manage only their own subscriptions and settings. A subscription can only be created
+       for a topic or category the member can read.
+*/
+
+-- 1. Tables
+CREATE TABLE IF NOT EXISTS public.forum_topic_subscriptions (
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  post_id uuid NOT NULL REFERENCES public.forum_posts(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, post_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_forum_topic_subscriptions_post_id ON public.forum_topic_subscriptions(post_id);
+
+CREATE TABLE IF NOT EXISTS public.forum_category_subscriptions (
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  category_id uuid NOT NULL REFERENCES public.forum_categories(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, category_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_forum_category_subscriptions_category_id ON public.forum_category_subscriptions(category_id);
+
+CREATE TABLE IF NOT EXISTS public.forum_subscription_settings (
+  user_id uuid PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  auto_follow_created_topics boolean NOT NULL DEFAULT true,
+  auto_follow_replied_topics boolean NOT NULL DEFAULT true,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.forum_topic_subscriptions IS 'Topics followed by members: new replies are notified.';
+COMMENT ON TABLE public.forum_category_subscriptions IS 'Categories followed by members: new topics are notified.';
+COMMENT ON TABLE public.forum_subscription_settings IS 'Automatic subscription settings. A missing row means both options are enabled.';
+
+ALTER TABLE public.forum_topic_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.forum_category_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.forum_subscription_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own topic subscriptions" ON public.forum_topic_subscriptions;
+CREATE POLICY "Users can view their own topic subscriptions"
+  ON public.forum_topic_subscriptions
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can follow readable topics" ON public.forum_topic_subscriptions;
+CREATE POLICY "Users can follow readable topics"
+  ON public.forum_topic_subscriptions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid() AND
+    EXISTS (SELECT 1 FROM public.forum_posts fp WHERE fp.id = forum_topic_subscriptions.post_id)
+  );
+
+DROP POLICY IF EXISTS "Users can unfollow topics" ON public.forum_topic_subscriptions;
+CREATE POLICY "Users can unfollow topics"
+  ON public.forum_topic_subscriptions
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can view their own category subscriptions" ON public.forum_category_subscriptions;
+CREATE POLICY "Users can view their own category subscriptions"
+  ON public.forum_category_subscriptions
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can follow readable categories" ON public.forum_category_subscriptions;
+CREATE POLICY "Users can follow readable categories"
+  ON public.forum_category_subscriptions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid() AND
+    public.is_category_member_or_public(category_id)
+  );
+
+DROP POLICY IF EXISTS "Users can unfollow categories" ON public.forum_category_subscriptions;
+CREATE POLICY "Users can unfollow categories"
+  ON public.forum_category_subscriptions
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can manage their own subscription settings" ON public.forum_subscription_settings;
+CREATE POLICY "Users can manage their own subscription settings"
+  ON public.forum_subscription_settings
+  FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- 2. Notification types
+ALTER TYPE public.notification_type ADD VALUE IF NOT EXISTS 'NEW_REPLY_IN_FOLLOWED_TOPIC';
+ALTER TYPE public.notification_type ADD VALUE IF NOT EXISTS 'NEW_TOPIC_IN_FOLLOWED_CATEGORY';
+
+-- 3. Helpers and RPCs
+CREATE OR REPLACE FUNCTION public.can_user_see_category(p_category_id uuid, p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    EXISTS (
+      SELECT 1
+      FROM public.forum_categories fc
+      WHERE fc.id = p_category_id AND fc.visibility = 'public'::public.category_visibility_type
+    ) OR
+    public.is_category_member(p_category_id, p_user_id);
+$$;
+
+COMMENT ON FUNCTION public.can_user_see_category(uuid, uuid) IS 'Whether the given member can read the category: public, or private and member.';
+
+REVOKE EXECUTE ON FUNCTION public.can_user_see_category(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.set_topic_subscription(p_post_id uuid, p_subscribed boolean)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required.';
+  END IF;
+
+  IF p_subscribed THEN
+    INSERT INTO public.forum_topic_subscriptions (user_id, post_id)
+    VALUES (v_caller_id, p_post_id)
+    ON CONFLICT (user_id, post_id) DO NOTHING;
+  ELSE
+    DELETE FROM public.forum_topic_subscriptions
+    WHERE user_id = v_caller_id AND post_id = p_post_id;
+  END IF;
+END;
+$$;
+
+COMMENT ON FUNCTION public.set_topic_subscription(uuid, boolean) IS 'Follows or unfollows a topic for the caller.';
+
+CREATE OR REPLACE FUNCTION public.set_category_subscription(p_category_id uuid, p_subscribed boolean)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required.';
+  END IF;
+
+  IF p_subscribed THEN
+    INSERT INTO public.forum_category_subscriptions (user_id, category_id)
+    VALUES (v_caller_id, p_category_id)
+    ON CONFLICT (user_id, category_id) DO NOTHING;
+  ELSE
+    DELETE FROM public.forum_category_subscriptions
+    WHERE user_id = v_caller_id AND category_id = p_category_id;
+  END IF;
+END;
+$$;
+
+COMMENT ON FUNCTION public.set_category_subscription(uuid, boolean) IS 'Follows or unfollows a category for the caller.';
+
+CREATE OR REPLACE FUNCTION public.get_my_subscriptions()
+RETURNS TABLE (
+  subscription_type TEXT,
+  target_id uuid,
+  title TEXT,
+  category_name TEXT,
+  category_slug TEXT,
+  subscribed_at TIMESTAMPTZ,
+  last_activity_at TIMESTAMPTZ,
+  unread_count BIGINT
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+BEGIN
+  RETURN QUERY
+  SELECT
+    'topic'::TEXT AS subscription_type,
+    fp.id AS target_id,
+    fp.title,
+    fc.name AS category_name,
+    fc.slug AS category_slug,
+    fts.created_at AS subscribed_at,
+    GREATEST(fp.created_at, COALESCE(r.last_reply_at, fp.created_at)) AS last_activity_at,
+    COALESCE(r.unread_count, 0) AS unread_count
+  FROM
+    public.forum_topic_subscriptions fts
+  JOIN
+    public.forum_posts fp ON fts.post_id = fp.id
+  JOIN
+    public.forum_categories fc ON fp.category_id = fc.id
+  LEFT JOIN
+    public.forum_topic_read_markers trm ON trm.post_id = fp.id AND trm.user_id = v_caller_id
+  LEFT JOIN
+    public.forum_category_read_markers crm ON crm.category_id = fc.id AND crm.user_id = v_caller_id
+  LEFT JOIN LATERAL (
+    SELECT
+      MAX(fr.created_at) AS last_reply_at,
+      COUNT(*) FILTER (
+        WHERE fr.user_id IS DISTINCT FROM v_caller_id
+          AND (GREATEST(trm.last_read_at, crm.read_all_at) IS NULL OR fr.created_at > GREATEST(trm.last_read_at, crm.read_all_at))
+      ) AS unread_count
+    FROM public.forum_replies fr
+    WHERE fr.post_id = fp.id AND fr.is_deleted = false
+  ) r ON true
+  WHERE
+    fts.user_id = v_caller_id
+    AND fp.is_deleted = false
+
+  UNION ALL
+
+  SELECT
+    'category'::TEXT AS subscription_type,
+    fc.id AS target_id,
+    fc.name AS title,
+    fc.name AS category_name,
+    fc.slug AS category_slug,
+    fcs.created_at AS subscribed_at,
+    stats.last_activity_at,
+    COALESCE(stats.unread_count, 0) AS unread_count
+  FROM
+    public.forum_category_subscriptions fcs
+  JOIN
+    public.forum_categories fc ON fcs.category_id = fc.id
+  LEFT JOIN
+    public.forum_category_read_markers crm ON crm.category_id = fc.id AND crm.user_id = v_caller_id
+  LEFT JOIN LATERAL (
+    SELECT
+      MAX(pa.last_activity_at) AS last_activity_at,
+      COUNT(*) FILTER (WHERE pa.read_at IS NULL OR pa.last_activity_at > pa.read_at) AS unread_count
+    FROM (
+      SELECT
+        GREATEST(fp.created_at, COALESCE(MAX(fr.created_at), fp.created_at)) AS last_activity_at,
+        GREATEST(trm.last_read_at, crm.read_all_at) AS read_at
+      FROM public.forum_posts fp
+      LEFT JOIN public.forum_replies fr ON fr.post_id = fp.id AND fr.is_deleted = false
+      LEFT JOIN public.forum_topic_read_markers trm ON trm.post_id = fp.id AND trm.user_id = v_caller_id
+      WHERE fp.category_id = fc.id AND fp.is_deleted = false
+      GROUP BY fp.id, fp.created_at, trm.last_read_at
+    ) pa
+  ) stats ON true
+  WHERE
+    fcs.user_id = v_caller_id
+
+  -- Positional: a bare name would resolve to the OUT parameter.
+  ORDER BY
+    7 DESC NULLS LAST;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_my_subscriptions() IS 'Lists the topics and categories followed by the caller with their unread counts.';
+
+GRANT EXECUTE ON FUNCTION public.set_topic_subscription(uuid, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_category_subscription(uuid, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_my_subscriptions() TO authenticated;
+
+-- 4. Triggers
+CREATE OR REPLACE FUNCTION public.handle_new_post_subscriptions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_category_name TEXT;
+  v_follower_id UUID;
+BEGIN
+  IF NEW.user_id IS NOT NULL AND COALESCE(
+    (SELECT fss.auto_follow_created_topics FROM public.forum_subscription_settings fss WHERE fss.user_id = NEW.user_id),
+    true
+  ) THEN
+    INSERT INTO public.forum_topic_subscriptions (user_id, post_id)
+    VALUES (NEW.user_id, NEW.id)
+    ON CONFLICT (user_id, post_id) DO NOTHING;
+  END IF;
+
+  IF NOT NEW.is_published THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT fc.name INTO v_category_name FROM public.forum_categories fc WHERE fc.id = NEW.category_id;
+
+  FOR v_follower_id IN
+    SELECT fcs.user_id
+    FROM public.forum_category_subscriptions fcs
+    WHERE fcs.category_id = NEW.category_id
+      AND public.can_user_see_category(NEW.category_id, fcs.user_id)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.notifications n
+        WHERE n.user_id = fcs.user_id AND n.post_id = NEW.id AND n.reply_id IS NULL
+      )
+  LOOP
+    PERFORM public.create_notification(
+      v_follower_id,
+      'NEW_TOPIC_IN_FOLLOWED_CATEGORY',
+      NEW.user_id,
+      NEW.id,
+      NULL,
+      NULL,
+      jsonb_build_object('post_title', NEW.title, 'category_name', v_category_name)
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_forum_post_created_subscriptions ON public.forum_posts;
+CREATE TRIGGER on_forum_post_created_subscriptions
+  AFTER INSERT ON public.forum_posts
+  FOR EACH ROW EXECUTE FUNCTION public.handle_new_post_subscriptions();
+
+CREATE OR REPLACE FUNCTION public.handle_new_reply_subscriptions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_post_title TEXT;
+  v_category_id UUID;
+  v_post_author_id UUID;
+  v_follower_id UUID;
+BEGIN
+  SELECT fp.title, fp.category_id, fp.user_id INTO v_post_title, v_category_id, v_post_author_id
+  FROM public.forum_posts fp
+  WHERE fp.id = NEW.post_id;
+
+  FOR v_follower_id IN
+    SELECT fts.user_id
+    FROM public.forum_topic_subscriptions fts
+    WHERE fts.post_id = NEW.post_id
+      AND public.can_user_see_category(v_category_id, fts.user_id)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.notifications n
+        WHERE n.user_id = fts.user_id AND n.reply_id = NEW.id
+      )
+      -- The author follows their own topic automatically: turning off REPLY_TO_TOPIC must silence it too.
+      AND NOT (
+        fts.user_id = v_post_author_id AND EXISTS (
+          SELECT 1 FROM public.notification_preferences np
+          WHERE np.user_id = fts.user_id AND np.type = 'REPLY_TO_TOPIC' AND np.is_enabled = false
+        )
+      )
+  LOOP
+    PERFORM public.create_notification(
+      v_follower_id,
+      'NEW_REPLY_IN_FOLLOWED_TOPIC',
+      NEW.user_id,
+      NEW.post_id,
+      NEW.id,
+      NULL,
+      jsonb_build_object('post_title', v_post_title)
+    );
+  END LOOP;
+
+  IF NEW.user_id IS NOT NULL AND COALESCE(
+    (SELECT fss.auto_follow_replied_topics FROM public.forum_subscription_settings fss WHERE fss.user_id = NEW.user_id),
+    true
+  ) THEN
+    INSERT INTO public.forum_topic_subscriptions (user_id, post_id)
+    VALUES (NEW.user_id, NEW.post_id)
+    ON CONFLICT (user_id, post_id) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_forum_reply_created_subscriptions ON public.forum_replies;
+CREATE TRIGGER on_forum_reply_created_subscriptions
+  AFTER INSERT ON public.forum_replies
+  FOR EACH ROW EXECUTE FUNCTION public.handle_new_reply_subscriptions();
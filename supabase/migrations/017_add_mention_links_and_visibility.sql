@@ -0,0 +1,114 @@
+/*
+  # Mention links and visibility-aware mention notifications
+
+  The editors now insert mentions picked from the autocomplete as Markdown links to the member's
+  profile (`[@username](/profil/<user id>)`), so a mention keeps pointing to the right member after
+  a username change. Mentions typed by hand as plain `@username` keep working.
+
+  1. New Function
+     - `public.extract_mentioned_user_ids(p_content text)`: approved members mentioned in a text, either
+       through a `/profil/<user id>` link or as a plain `@username`.
+
+  2. Updated Trigger Functions
+     - `public.notify_on_new_reply()` and `public.notify_on_new_post()` use `extract_mentioned_user_ids`
+       and silently skip mentioned members who cannot read the topic's category (private category
+       they are not a member of). Reply notification order and deduplication are unchanged.
+*/
+
+-- 1. Function
+CREATE OR REPLACE FUNCTION public.extract_mentioned_user_ids(p_content TEXT)
+RETURNS UUID[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH linked_ids AS (
+    SELECT lower(m[1]) AS linked_id
+    FROM regexp_matches(
+      COALESCE(p_content, ''),
+      '\]\(/profil/([0-9A-Fa-f]{8}-[0-9A-Fa-f]{4}-[0-9A-Fa-f]{4}-[0-9A-Fa-f]{4}-[0-9A-Fa-f]{12})\)',
+      'g'
+    ) AS m
+  )
+  SELECT COALESCE(array_agg(p.id), ARRAY[]::UUID[])
+  FROM public.profiles p
+  WHERE p.status = 'approved'
+    AND (
+      p.id::text IN (SELECT li.linked_id FROM linked_ids li)
+      OR lower(p.username) = ANY(public.extract_mentioned_usernames(p_content))
+    );
+$$;
+
+COMMENT ON FUNCTION public.extract_mentioned_user_ids(TEXT) IS 'Returns the approved members mentioned in a text, through a /profil/<id> link or as @username.';
+
+REVOKE EXECUTE ON FUNCTION public.extract_mentioned_user_ids(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- 2. Trigger functions
+CREATE OR REPLACE FUNCTION public.notify_on_new_reply()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_post_author_id UUID;
+  v_post_title TEXT;
+  v_category_id UUID;
+  v_parent_author_id UUID;
+  v_notified UUID[] := ARRAY[]::UUID[];
+  v_data JSONB;
+  v_mentioned_id UUID;
+BEGIN
+  SELECT fp.user_id, fp.title, fp.category_id INTO v_post_author_id, v_post_title, v_category_id
+  FROM public.forum_posts fp
+  WHERE fp.id = NEW.post_id;
+
+  v_data := jsonb_build_object('post_title', v_post_title);
+
+  IF NEW.parent_reply_id IS NOT NULL THEN
+    SELECT fr.user_id INTO v_parent_author_id
+    FROM public.forum_replies fr
+    WHERE fr.id = NEW.parent_reply_id AND fr.is_deleted = false;
+
+    IF v_parent_author_id IS NOT NULL THEN
+      PERFORM public.create_notification(v_parent_author_id, 'REPLY_TO_REPLY', NEW.user_id, NEW.post_id, NEW.id, NULL, v_data);
+      v_notified := v_notified || v_parent_author_id;
+    END IF;
+  END IF;
+
+  IF v_post_author_id IS NOT NULL AND NOT (v_post_author_id = ANY(v_notified)) THEN
+    PERFORM public.create_notification(v_post_author_id, 'REPLY_TO_TOPIC', NEW.user_id, NEW.post_id, NEW.id, NULL, v_data);
+    v_notified := v_notified || v_post_author_id;
+  END IF;
+
+  FOREACH v_mentioned_id IN ARRAY public.extract_mentioned_user_ids(NEW.content)
+  LOOP
+    IF NOT (v_mentioned_id = ANY(v_notified)) AND public.can_user_see_category(v_category_id, v_mentioned_id) THEN
+      PERFORM public.create_notification(v_mentioned_id, 'MENTION', NEW.user_id, NEW.post_id, NEW.id, NULL, v_data);
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_on_new_post()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_mentioned_id UUID;
+BEGIN
+  FOREACH v_mentioned_id IN ARRAY public.extract_mentioned_user_ids(NEW.content)
+  LOOP
+    IF public.can_user_see_category(NEW.category_id, v_mentioned_id) THEN
+      PERFORM public.create_notification(v_mentioned_id, 'MENTION', NEW.user_id, NEW.id, NULL, NULL, jsonb_build_object('post_title', NEW.title));
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,213 @@
+/*
+  # Reactions on topics and replies
+
+  Members can react to the original post of a topic and to each reply with an emoji picked from a
+  set managed by administrators. A member has at most one reaction per message; picking another
+  emoji replaces it.
+
+  1. New Tables
+     - `public.forum_reaction_types`: the allowed reactions (emoji, label, sort_order, is_active).
+       Seeded with 👍 ❤️ 😂 ✊. Deactivating a type hides it from the picker but keeps existing
+       reactions; deleting it removes them.
+     - `public.forum_reactions` (user_id, post_id, reply_id, reaction_type_id, created_at): exactly one
+       of `post_id` (reaction to the original post) or `reply_id` is set. Unique per member and message.
+
+  2. Security
+     - RLS on `forum_reaction_types`: readable by every authenticated member, managed by ADMIN and SUPER_ADMIN.
+     - RLS on `forum_reactions`: reactions are visible when the message is (the posts and replies
+       policies apply in the subqueries). Approved members can only add, change and remove their own
+       reactions, with an active type, on a message that is not deleted. The UPDATE policy repeats the
+       INSERT checks, so a reaction cannot be moved to a deleted or unreadable message.
+
+  3. New Functions
+     - `public.set_reaction(p_post_id uuid, p_reply_id uuid, p_reaction_type_id uuid)`: sets, replaces
+       or (with a NULL type) removes the caller's reaction on a post or a reply.
+     - `public.get_topic_reactions(p_post_id uuid)`: reaction counts of a topic and of its replies, with
+       the usernames of the members who reacted and whether the caller is one of them.
+*/
+
+-- 1. Tables
+CREATE TABLE IF NOT EXISTS public.forum_reaction_types (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  emoji text NOT NULL UNIQUE CHECK (char_length(emoji) BETWEEN 1 AND 16),
+  label text NOT NULL CHECK (char_length(trim(label)) BETWEEN 1 AND 50),
+  sort_order integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.forum_reaction_types IS 'Reactions members can use on topics and replies, managed by administrators.';
+
+INSERT INTO public.forum_reaction_types (emoji, label, sort_order) VALUES
+  ('👍', 'J''aime', 1),
+  ('❤️', 'J''adore', 2),
+  ('😂', 'Drôle', 3),
+  ('✊', 'Solidaire', 4)
+ON CONFLICT (emoji) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.forum_reactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  post_id uuid REFERENCES public.forum_posts(id) ON DELETE CASCADE,
+  reply_id uuid REFERENCES public.forum_replies(id) ON DELETE CASCADE,
+  reaction_type_id uuid NOT NULL REFERENCES public.forum_reaction_types(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT forum_reactions_single_target CHECK ((post_id IS NULL) <> (reply_id IS NULL))
+);
+
+COMMENT ON TABLE public.forum_reactions IS 'One reaction per member on the original post of a topic (post_id) or on a reply (reply_id).';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_forum_reactions_user_post ON public.forum_reactions(user_id, post_id) WHERE post_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_forum_reactions_user_reply ON public.forum_reactions(user_id, reply_id) WHERE reply_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_forum_reactions_post_id ON public.forum_reactions(post_id) WHERE post_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_forum_reactions_reply_id ON public.forum_reactions(reply_id) WHERE reply_id IS NOT NULL;
+
+-- 2. Security
+ALTER TABLE public.forum_reaction_types ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.forum_reactions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view reaction types" ON public.forum_reaction_types;
+CREATE POLICY "Authenticated users can view reaction types"
+  ON public.forum_reaction_types
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage reaction types" ON public.forum_reaction_types;
+CREATE POLICY "Admins can manage reaction types"
+  ON public.forum_reaction_types
+  FOR ALL
+  TO authenticated
+  USING (public.get_current_user_role() IN ('ADMIN', 'SUPER_ADMIN'))
+  WITH CHECK (public.get_current_user_role() IN ('ADMIN', 'SUPER_ADMIN'));
+
+DROP POLICY IF EXISTS "Users can view reactions on readable content" ON public.forum_reactions;
+CREATE POLICY "Users can view reactions on readable content"
+  ON public.forum_reactions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.forum_posts fp WHERE fp.id = forum_reactions.post_id) OR
+    EXISTS (SELECT 1 FROM public.forum_replies fr WHERE fr.id = forum_reactions.reply_id)
+  );
+
+DROP POLICY IF EXISTS "Approved users can react to readable content" ON public.forum_reactions;
+CREATE POLICY "Approved users can react to readable content"
+  ON public.forum_reactions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid() AND
+    public.is_user_approved() AND
+    EXISTS (SELECT 1 FROM public.forum_reaction_types rt WHERE rt.id = forum_reactions.reaction_type_id AND rt.is_active) AND
+    (
+      EXISTS (SELECT 1 FROM public.forum_posts fp WHERE fp.id = forum_reactions.post_id AND fp.is_deleted = false) OR
+      EXISTS (SELECT 1 FROM public.forum_replies fr WHERE fr.id = forum_reactions.reply_id AND fr.is_deleted = false)
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can change their own reactions" ON public.forum_reactions;
+CREATE POLICY "Users can change their own reactions"
+  ON public.forum_reactions
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (
+    user_id = auth.uid() AND
+    public.is_user_approved() AND
+    EXISTS (SELECT 1 FROM public.forum_reaction_types rt WHERE rt.id = forum_reactions.reaction_type_id AND rt.is_active) AND
+    (
+      EXISTS (SELECT 1 FROM public.forum_posts fp WHERE fp.id = forum_reactions.post_id AND fp.is_deleted = false) OR
+      EXISTS (SELECT 1 FROM public.forum_replies fr WHERE fr.id = forum_reactions.reply_id AND fr.is_deleted = false)
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can remove their own reactions" ON public.forum_reactions;
+CREATE POLICY "Users can remove their own reactions"
+  ON public.forum_reactions
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- 3. Functions
+CREATE OR REPLACE FUNCTION public.set_reaction(
+  p_post_id uuid,
+  p_reply_id uuid,
+  p_reaction_type_id uuid
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required.';
+  END IF;
+
+  IF (p_post_id IS NULL) = (p_reply_id IS NULL) THEN
+    RAISE EXCEPTION 'Exactly one of p_post_id and p_reply_id must be provided.';
+  END IF;
+
+  IF p_reaction_type_id IS NULL THEN
+    DELETE FROM public.forum_reactions r
+    WHERE r.user_id = v_caller_id
+      AND (r.post_id = p_post_id OR r.reply_id = p_reply_id);
+  ELSIF p_post_id IS NOT NULL THEN
+    INSERT INTO public.forum_reactions (user_id, post_id, reaction_type_id)
+    VALUES (v_caller_id, p_post_id, p_reaction_type_id)
+    ON CONFLICT (user_id, post_id) WHERE post_id IS NOT NULL
+    DO UPDATE SET reaction_type_id = EXCLUDED.reaction_type_id, created_at = now();
+  ELSE
+    INSERT INTO public.forum_reactions (user_id, reply_id, reaction_type_id)
+    VALUES (v_caller_id, p_reply_id, p_reaction_type_id)
+    ON CONFLICT (user_id, reply_id) WHERE reply_id IS NOT NULL
+    DO UPDATE SET reaction_type_id = EXCLUDED.reaction_type_id, created_at = now();
+  END IF;
+END;
+$$;
+
+COMMENT ON FUNCTION public.set_reaction(uuid, uuid, uuid) IS 'Sets, replaces or (NULL type) removes the caller''s reaction on a topic post or a reply.';
+
+CREATE OR REPLACE FUNCTION public.get_topic_reactions(p_post_id uuid)
+RETURNS TABLE (
+  reply_id uuid,
+  reaction_type_id uuid,
+  emoji TEXT,
+  label TEXT,
+  reaction_count BIGINT,
+  usernames TEXT[],
+  reacted_by_me BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  -- reply_id is NULL for reactions to the original post of the topic.
+  RETURN QUERY
+  SELECT
+    r.reply_id,
+    rt.id,
+    rt.emoji,
+    rt.label,
+    COUNT(*)::BIGINT,
+    array_agg(COALESCE(p.username, 'Utilisateur inconnu') ORDER BY r.created_at),
+    bool_or(r.user_id = auth.uid())
+  FROM public.forum_reactions r
+  JOIN public.forum_reaction_types rt ON rt.id = r.reaction_type_id
+  LEFT JOIN public.profiles p ON p.id = r.user_id
+  LEFT JOIN public.forum_replies fr ON fr.id = r.reply_id
+  WHERE r.post_id = p_post_id OR fr.post_id = p_post_id
+  GROUP BY r.reply_id, rt.id, rt.emoji, rt.label, rt.sort_order
+  ORDER BY r.reply_id, rt.sort_order, rt.emoji;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_topic_reactions(uuid) IS 'Reaction counts of a topic (reply_id NULL) and of its replies, with who reacted.';
+
+GRANT EXECUTE ON FUNCTION public.set_reaction(uuid, uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_topic_reactions(uuid) TO authenticated;
@@ -0,0 +1,320 @@
+/*
+  # Polls attached to topics
+
+  A topic can carry one poll: a question with 2 to 20 options, single or multiple choice, an optional
+  closing date, and anonymous or public votes.
+
+  1. New Tables
+     - `public.forum_polls` (post_id unique, question, allows_multiple, is_anonymous, closes_at, created_at).
+     - `public.forum_poll_options` (poll_id, label, position).
+     - `public.forum_poll_votes` (poll_id, user_id, option_ids uuid[], created_at): one ballot per member
+       and poll, enforced by the primary key (poll_id, user_id). A ballot holds every option the member
+       picked, so a multiple choice vote is still a single row. Ballots are final: there is no UPDATE or
+       DELETE policy.
+
+  2. Security
+     - Polls and options are readable when their topic is (the `forum_posts` policies apply in the
+       subqueries). There is no INSERT policy on `forum_polls` nor `forum_poll_options`: polls are only
+       created through `create_poll`, which checks the author, the topic and the options itself, so
+       options cannot be added once the poll exists.
+     - INSERT on `forum_poll_votes` checks that the ballot belongs to the caller, an approved member who
+       can read the topic, that the poll is still open, that every option belongs to the poll without
+       duplicates, and that a single choice poll gets exactly one option. A poll is closed once its
+       closing date has passed or while its topic is deleted or locked; unlocking the topic reopens it.
+     - Individual ballots are readable by their owner, and by everyone who can read the topic for public polls.
+       Vote counts of anonymous polls are only exposed through `get_post_poll`.
+
+  3. New Functions
+     - `public.create_poll(p_post_id, p_question, p_options text[], p_allows_multiple, p_is_anonymous, p_closes_at)`:
+       creates the poll and its options in one transaction.
+     - `public.vote_in_poll(p_poll_id uuid, p_option_ids uuid[])`: casts the caller's ballot.
+     - `public.get_post_poll(p_post_id uuid)`: the poll of a topic, one row per option with its vote
+       count, the voters' usernames (NULL for anonymous polls) and whether the caller picked it. Returns
+       nothing for a deleted or unpublished topic, or one in a category the caller cannot read.
+*/
+
+-- 1. Tables
+CREATE TABLE IF NOT EXISTS public.forum_polls (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id uuid NOT NULL UNIQUE REFERENCES public.forum_posts(id) ON DELETE CASCADE,
+  question text NOT NULL CHECK (char_length(trim(question)) BETWEEN 1 AND 300),
+  allows_multiple boolean NOT NULL DEFAULT false,
+  is_anonymous boolean NOT NULL DEFAULT true,
+  closes_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.forum_polls IS 'Poll attached to a topic (at most one per topic).';
+
+CREATE TABLE IF NOT EXISTS public.forum_poll_options (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  poll_id uuid NOT NULL REFERENCES public.forum_polls(id) ON DELETE CASCADE,
+  label text NOT NULL CHECK (char_length(trim(label)) BETWEEN 1 AND 200),
+  position integer NOT NULL,
+  UNIQUE (poll_id, position)
+);
+
+CREATE TABLE IF NOT EXISTS public.forum_poll_votes (
+  poll_id uuid NOT NULL REFERENCES public.forum_polls(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  option_ids uuid[] NOT NULL CHECK (cardinality(option_ids) >= 1),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (poll_id, user_id)
+);
+
+COMMENT ON TABLE public.forum_poll_votes IS 'One final ballot per member and poll, with every option picked.';
+
+-- 2. Security
+ALTER TABLE public.forum_polls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.forum_poll_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.forum_poll_votes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view polls of readable topics" ON public.forum_polls;
+CREATE POLICY "Users can view polls of readable topics"
+  ON public.forum_polls
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.forum_posts fp WHERE fp.id = forum_polls.post_id));
+
+DROP POLICY IF EXISTS "Topic authors can attach a poll" ON public.forum_polls;
+
+DROP POLICY IF EXISTS "Users can view options of readable polls" ON public.forum_poll_options;
+CREATE POLICY "Users can view options of readable polls"
+  ON public.forum_poll_options
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.forum_polls fpl WHERE fpl.id = forum_poll_options.poll_id));
+
+DROP POLICY IF EXISTS "Topic authors can add poll options" ON public.forum_poll_options;
+
+DROP POLICY IF EXISTS "Users can view their own and public ballots" ON public.forum_poll_votes;
+CREATE POLICY "Users can view their own and public ballots"
+  ON public.forum_poll_votes
+  FOR SELECT
+  TO authenticated
+  USING (
+    user_id = auth.uid() OR
+    EXISTS (SELECT 1 FROM public.forum_polls fpl WHERE fpl.id = forum_poll_votes.poll_id AND fpl.is_anonymous = false)
+  );
+
+DROP POLICY IF EXISTS "Approved users can vote once in open polls" ON public.forum_poll_votes;
+CREATE POLICY "Approved users can vote once in open polls"
+  ON public.forum_poll_votes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid() AND
+    public.is_user_approved() AND
+    EXISTS (
+      SELECT 1
+      FROM public.forum_polls fpl
+      JOIN public.forum_posts fp ON fp.id = fpl.post_id
+      WHERE fpl.id = forum_poll_votes.poll_id
+        AND fp.is_deleted = false
+        AND fp.is_locked = false
+        AND (fpl.closes_at IS NULL OR fpl.closes_at > now())
+        AND (fpl.allows_multiple OR cardinality(forum_poll_votes.option_ids) = 1)
+    ) AND
+    cardinality(forum_poll_votes.option_ids) = (SELECT COUNT(DISTINCT o) FROM unnest(forum_poll_votes.option_ids) AS o) AND
+    NOT EXISTS (
+      SELECT o FROM unnest(forum_poll_votes.option_ids) AS o
+      EXCEPT
+      SELECT fpo.id FROM public.forum_poll_options fpo WHERE fpo.poll_id = forum_poll_votes.poll_id
+    )
+  );
+
+-- 3. Functions
+CREATE OR REPLACE FUNCTION public.create_poll(
+  p_post_id uuid,
+  p_question TEXT,
+  p_options TEXT[],
+  p_allows_multiple BOOLEAN DEFAULT false,
+  p_is_anonymous BOOLEAN DEFAULT true,
+  p_closes_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+  v_options TEXT[];
+  v_poll_id UUID;
+  v_author_id UUID;
+  v_is_deleted BOOLEAN;
+  v_is_locked BOOLEAN;
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required.';
+  END IF;
+
+  SELECT fp.user_id, fp.is_deleted, fp.is_locked INTO v_author_id, v_is_deleted, v_is_locked
+  FROM public.forum_posts fp
+  WHERE fp.id = p_post_id;
+
+  IF NOT FOUND OR v_author_id IS DISTINCT FROM v_caller_id THEN
+    RAISE EXCEPTION 'Only the author of a topic can attach a poll to it.';
+  END IF;
+
+  IF v_is_deleted OR v_is_locked THEN
+    RAISE EXCEPTION 'A poll cannot be attached to a deleted or locked topic.';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.forum_polls fpl WHERE fpl.post_id = p_post_id) THEN
+    RAISE EXCEPTION 'This topic already has a poll.';
+  END IF;
+
+  IF p_question IS NULL OR char_length(trim(p_question)) NOT BETWEEN 1 AND 300 THEN
+    RAISE EXCEPTION 'A poll question must contain between 1 and 300 characters.';
+  END IF;
+
+  SELECT array_agg(trim(o) ORDER BY ord) INTO v_options
+  FROM unnest(p_options) WITH ORDINALITY AS t(o, ord)
+  WHERE trim(o) <> '';
+
+  IF COALESCE(cardinality(v_options), 0) NOT BETWEEN 2 AND 20 THEN
+    RAISE EXCEPTION 'A poll needs between 2 and 20 options.';
+  END IF;
+
+  IF (SELECT COUNT(DISTINCT lower(o)) FROM unnest(v_options) AS o) <> cardinality(v_options) THEN
+    RAISE EXCEPTION 'Poll options must be different.';
+  END IF;
+
+  IF p_closes_at IS NOT NULL AND p_closes_at <= now() THEN
+    RAISE EXCEPTION 'The closing date must be in the future.';
+  END IF;
+
+  INSERT INTO public.forum_polls (post_id, question, allows_multiple, is_anonymous, closes_at)
+  VALUES (p_post_id, trim(p_question), p_allows_multiple, p_is_anonymous, p_closes_at)
+  RETURNING id INTO v_poll_id;
+
+  INSERT INTO public.forum_poll_options (poll_id, label, position)
+  SELECT v_poll_id, o, ord
+  FROM unnest(v_options) WITH ORDINALITY AS t(o, ord);
+
+  RETURN v_poll_id;
+END;
+$$;
+
+COMMENT ON FUNCTION public.create_poll(uuid, TEXT, TEXT[], BOOLEAN, BOOLEAN, TIMESTAMPTZ) IS 'Attaches a poll with 2 to 20 options to a live, unlocked topic of the caller. The only way to create a poll.';
+
+CREATE OR REPLACE FUNCTION public.vote_in_poll(p_poll_id uuid, p_option_ids uuid[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+  v_closes_at TIMESTAMPTZ;
+  v_is_locked BOOLEAN;
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required.';
+  END IF;
+
+  SELECT fpl.closes_at, fp.is_locked INTO v_closes_at, v_is_locked
+  FROM public.forum_polls fpl
+  JOIN public.forum_posts fp ON fp.id = fpl.post_id
+  WHERE fpl.id = p_poll_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found: %', p_poll_id;
+  END IF;
+
+  IF v_is_locked OR (v_closes_at IS NOT NULL AND v_closes_at <= now()) THEN
+    RAISE EXCEPTION 'This poll is closed.';
+  END IF;
+
+  -- Remaining rules (one ballot, valid options, single choice) are enforced by the key and the RLS policy.
+  INSERT INTO public.forum_poll_votes (poll_id, user_id, option_ids)
+  VALUES (p_poll_id, v_caller_id, p_option_ids);
+EXCEPTION
+  WHEN unique_violation THEN
+    RAISE EXCEPTION 'You have already voted in this poll.';
+END;
+$$;
+
+COMMENT ON FUNCTION public.vote_in_poll(uuid, uuid[]) IS 'Casts the caller''s final ballot in a poll.';
+
+CREATE OR REPLACE FUNCTION public.get_post_poll(p_post_id uuid)
+RETURNS TABLE (
+  poll_id uuid,
+  question TEXT,
+  allows_multiple BOOLEAN,
+  is_anonymous BOOLEAN,
+  closes_at TIMESTAMPTZ,
+  total_voters BIGINT,
+  option_id uuid,
+  option_label TEXT,
+  option_position INTEGER,
+  vote_count BIGINT,
+  voters TEXT[],
+  voted_by_me BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required.';
+  END IF;
+
+  -- SECURITY DEFINER so that anonymous polls can be counted; visibility is checked here instead.
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.forum_posts fp
+    WHERE fp.id = p_post_id
+      AND fp.is_deleted = false
+      AND fp.is_published = true
+      AND public.can_user_see_category(fp.category_id, v_caller_id)
+  ) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH poll AS (
+    SELECT fpl.id, fpl.question, fpl.allows_multiple, fpl.is_anonymous, fpl.closes_at
+    FROM public.forum_polls fpl
+    WHERE fpl.post_id = p_post_id
+  ),
+  ballots AS (
+    SELECT v.user_id, unnest(v.option_ids) AS picked_option_id, v.created_at
+    FROM public.forum_poll_votes v
+    WHERE v.poll_id = (SELECT poll.id FROM poll)
+  )
+  SELECT
+    poll.id,
+    poll.question,
+    poll.allows_multiple,
+    poll.is_anonymous,
+    poll.closes_at,
+    (SELECT COUNT(*) FROM public.forum_poll_votes v WHERE v.poll_id = poll.id)::BIGINT,
+    o.id,
+    o.label,
+    o.position,
+    COUNT(b.user_id)::BIGINT,
+    CASE
+      WHEN poll.is_anonymous THEN NULL
+      ELSE COALESCE(array_agg(COALESCE(p.username, 'Utilisateur inconnu') ORDER BY b.created_at) FILTER (WHERE b.user_id IS NOT NULL), ARRAY[]::TEXT[])
+    END,
+    COALESCE(bool_or(b.user_id = v_caller_id), false)
+  FROM poll
+  JOIN public.forum_poll_options o ON o.poll_id = poll.id
+  LEFT JOIN ballots b ON b.picked_option_id = o.id
+  LEFT JOIN public.profiles p ON p.id = b.user_id
+  GROUP BY poll.id, poll.question, poll.allows_multiple, poll.is_anonymous, poll.closes_at, o.id, o.label, o.position
+  ORDER BY o.position;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_post_poll(uuid) IS 'Poll of a topic with per-option counts; voters are only listed for public polls.';
+
+GRANT EXECUTE ON FUNCTION public.create_poll(uuid, TEXT, TEXT[], BOOLEAN, BOOLEAN, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.vote_in_poll(uuid, uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_post_poll(uuid) TO authenticated;
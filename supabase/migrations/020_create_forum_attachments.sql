@@ -0,0 +1,150 @@
+/*
+  # File and image attachments
+
+  Topics and replies can carry attachments (images, PDF and text documents) stored in a private
+  Supabase Storage bucket. Files are read through signed URLs, so a file is only reachable by
+  members allowed to read the message it is attached to.
+
+  1. Storage
+     - Private bucket `forum-attachments`: 10 MB per file, MIME types limited to JPEG, PNG, GIF, WebP,
+       PDF, plain text, OpenDocument text and Word documents. Limits are kept in sync with
+       `src/constants/attachments.ts`.
+     - Objects are stored under `<uploader id>/<random id>/<file name>`.
+
+  2. New Table: `public.forum_attachments`
+     - `post_id` (topic, always set), `reply_id` (set when the file belongs to a reply), `user_id`
+       (uploader), `storage_path` (unique object name in the bucket), `file_name`, `mime_type`, `size_bytes`.
+     - Files are uploaded while the message is written, then attached once it is published.
+
+  3. Security
+     - RLS on `forum_attachments`: visible when the topic (and the reply, if any) is readable, since the
+       `forum_posts` and `forum_replies` policies apply in the subqueries. Members can only attach their
+       own uploads to their own messages, and remove their own attachments.
+     - `storage.objects` policies on the bucket:
+       - upload only into one's own folder;
+       - read one's own uploads, or any file attached to a message the caller can read, so files of
+         private categories follow the category visibility;
+       - delete only one's own uploads.
+     - Uploads that are never attached (message abandoned) stay readable by their uploader only.
+*/
+
+-- 1. Storage bucket
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'forum-attachments',
+  'forum-attachments',
+  false,
+  10485760,
+  ARRAY[
+    'image/jpeg',
+    'image/png',
+    'image/gif',
+    'image/webp',
+    'application/pdf',
+    'text/plain',
+    'application/vnd.oasis.opendocument.text',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+  ]
+)
+ON CONFLICT (id) DO UPDATE
+  SET public = EXCLUDED.public,
+      file_size_limit = EXCLUDED.file_size_limit,
+      allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- 2. Table
+CREATE TABLE IF NOT EXISTS public.forum_attachments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id uuid NOT NULL REFERENCES public.forum_posts(id) ON DELETE CASCADE,
+  reply_id uuid REFERENCES public.forum_replies(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  storage_path text NOT NULL UNIQUE,
+  file_name text NOT NULL CHECK (char_length(file_name) BETWEEN 1 AND 255),
+  mime_type text NOT NULL,
+  size_bytes bigint NOT NULL CHECK (size_bytes > 0),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.forum_attachments IS 'Files of the forum-attachments bucket attached to a topic (reply_id NULL) or to one of its replies.';
+
+CREATE INDEX IF NOT EXISTS idx_forum_attachments_post_id ON public.forum_attachments(post_id);
+CREATE INDEX IF NOT EXISTS idx_forum_attachments_reply_id ON public.forum_attachments(reply_id) WHERE reply_id IS NOT NULL;
+
+-- 3. Security
+ALTER TABLE public.forum_attachments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view attachments of readable content" ON public.forum_attachments;
+CREATE POLICY "Users can view attachments of readable content"
+  ON public.forum_attachments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.forum_posts fp WHERE fp.id = forum_attachments.post_id) AND
+    (
+      forum_attachments.reply_id IS NULL OR
+      EXISTS (SELECT 1 FROM public.forum_replies fr WHERE fr.id = forum_attachments.reply_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Authors can attach their uploads to their messages" ON public.forum_attachments;
+CREATE POLICY "Authors can attach their uploads to their messages"
+  ON public.forum_attachments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid() AND
+    split_part(storage_path, '/', 1) = auth.uid()::text AND
+    (
+      (
+        reply_id IS NULL AND
+        EXISTS (SELECT 1 FROM public.forum_posts fp WHERE fp.id = forum_attachments.post_id AND fp.user_id = auth.uid())
+      ) OR
+      EXISTS (
+        SELECT 1
+        FROM public.forum_replies fr
+        WHERE fr.id = forum_attachments.reply_id
+          AND fr.post_id = forum_attachments.post_id
+          AND fr.user_id = auth.uid()
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can remove their own attachments" ON public.forum_attachments;
+CREATE POLICY "Users can remove their own attachments"
+  ON public.forum_attachments
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can upload forum attachments to their folder" ON storage.objects;
+CREATE POLICY "Users can upload forum attachments to their folder"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'forum-attachments' AND
+    (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+DROP POLICY IF EXISTS "Users can read forum attachments of readable content" ON storage.objects;
+CREATE POLICY "Users can read forum attachments of readable content"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'forum-attachments' AND
+    (
+      (storage.foldername(name))[1] = auth.uid()::text OR
+      EXISTS (SELECT 1 FROM public.forum_attachments fa WHERE fa.storage_path = storage.objects.name)
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can delete their own forum attachments" ON storage.objects;
+CREATE POLICY "Users can delete their own forum attachments"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'forum-attachments' AND
+    (storage.foldername(name))[1] = auth.uid()::text
+  );
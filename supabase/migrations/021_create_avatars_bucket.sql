@@ -0,0 +1,73 @@
+/*
+  # Avatar uploads
+
+  Members upload their avatar instead of pasting an image URL. The picture is cropped to a square
+  and resized in the browser, then stored in a dedicated Supabase Storage bucket.
+
+  1. Storage
+     - Public bucket `avatars`: avatars are shown everywhere a username is, so they are served through
+       public URLs. 2 MB per file, JPEG, PNG and WebP only. Limits are kept in sync with
+       `src/constants/avatars.ts`.
+     - Each upload is stored under `<user id>/<random id>/` with one file per standard size
+       (`256.webp` and `64.webp`). `profiles.avatar_url` holds the public URL of the largest size.
+
+  2. Security
+     - `storage.objects` policies on the bucket: members can only upload, replace and delete files in
+       their own folder, so the previous avatar can be removed when it is replaced. Anyone can read.
+     - `profiles.avatar_url` keeps accepting external URLs set before this migration.
+*/
+
+-- 1. Storage bucket
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'avatars',
+  'avatars',
+  true,
+  2097152,
+  ARRAY['image/jpeg', 'image/png', 'image/webp']
+)
+ON CONFLICT (id) DO UPDATE
+  SET public = EXCLUDED.public,
+      file_size_limit = EXCLUDED.file_size_limit,
+      allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- 2. Security
+DROP POLICY IF EXISTS "Avatars are publicly readable" ON storage.objects;
+CREATE POLICY "Avatars are publicly readable"
+  ON storage.objects
+  FOR SELECT
+  USING (bucket_id = 'avatars');
+
+DROP POLICY IF EXISTS "Users can upload avatars to their folder" ON storage.objects;
+CREATE POLICY "Users can upload avatars to their folder"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'avatars' AND
+    (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+DROP POLICY IF EXISTS "Users can replace avatars in their folder" ON storage.objects;
+CREATE POLICY "Users can replace avatars in their folder"
+  ON storage.objects
+  FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'avatars' AND
+    (storage.foldername(name))[1] = auth.uid()::text
+  )
+  WITH CHECK (
+    bucket_id = 'avatars' AND
+    (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+DROP POLICY IF EXISTS "Users can delete avatars in their folder" ON storage.objects;
+CREATE POLICY "Users can delete avatars in their folder"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'avatars' AND
+    (storage.foldername(name))[1] = auth.uid()::text
+  );
@@ -0,0 +1,291 @@
+/*
+  # Profile activity feed
+
+  Profiles show a real activity stream instead of placeholder data: topics created, replies posted,
+  reactions received and profile updates, newest first and paginated.
+
+  1. New Table: `public.profile_update_events`
+     - One row each time a member changes their public profile (`user_id`, `changed_fields` text[],
+       `created_at`). `changed_fields` lists which of `full_name`, `avatar_url`, `biography` and
+       `signature` changed. Role and status changes are administrative and are not recorded here.
+     - Filled by the `log_profile_update` trigger on `profiles`; members cannot write to it directly.
+
+  2. New Function: `public.get_user_activity(p_user_id uuid, p_page int, p_limit int)`
+     - Returns one page of the member's activity, newest first, with:
+       - `activity_type`: 'new_topic', 'new_reply', 'reaction_received' or 'profile_update'.
+       - `occurred_at`, `post_id`, `reply_id`, `post_title`, `category_name`, `category_slug`.
+       - `excerpt`: start of the topic or reply body.
+       - `reaction_emoji`, `reaction_label`, `actor_id`, `actor_username`: who reacted, for reactions.
+       - `changed_fields`: for profile updates.
+       - `is_deleted`: the topic or reply is soft-deleted (only ever true for moderators).
+       - `total_count`: number of activity items, for pagination.
+     - `p_page` (default 1) / `p_limit` (default 20, clamped between 1 and 100).
+
+  3. Security
+     - `profile_update_events` is readable by authenticated users, like profiles.
+     - `get_user_activity` is `SECURITY INVOKER`: RLS on `forum_posts`, `forum_replies` and
+       `forum_reactions` applies, and categories the caller cannot read are filtered with
+       `is_category_member_or_public`, so private topics never show up for outsiders.
+     - Soft-deleted topics and replies are excluded, except for moderators and administrators.
+       Unpublished topics are always excluded.
+*/
+
+-- 1. Table
+CREATE TABLE IF NOT EXISTS public.profile_update_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  changed_fields text[] NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.profile_update_events IS 'Public profile changes (full name, avatar, biography, signature), shown in the profile activity feed.';
+
+CREATE INDEX IF NOT EXISTS idx_profile_update_events_user_id ON public.profile_update_events(user_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION public.log_profile_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_changed_fields text[] := ARRAY[]::text[];
+BEGIN
+  IF NEW.full_name IS DISTINCT FROM OLD.full_name THEN
+    v_changed_fields := array_append(v_changed_fields, 'full_name');
+  END IF;
+  IF NEW.avatar_url IS DISTINCT FROM OLD.avatar_url THEN
+    v_changed_fields := array_append(v_changed_fields, 'avatar_url');
+  END IF;
+  IF NEW.biography IS DISTINCT FROM OLD.biography THEN
+    v_changed_fields := array_append(v_changed_fields, 'biography');
+  END IF;
+  IF NEW.signature IS DISTINCT FROM OLD.signature THEN
+    v_changed_fields := array_append(v_changed_fields, 'signature');
+  END IF;
+
+  -- Only changes made by the member themselves are activity; admin edits are audited elsewhere.
+  IF array_length(v_changed_fields, 1) > 0 AND auth.uid() = NEW.id THEN
+    INSERT INTO public.profile_update_events (user_id, changed_fields)
+    VALUES (NEW.id, v_changed_fields);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_profile_updated_log_activity ON public.profiles;
+CREATE TRIGGER on_profile_updated_log_activity
+  AFTER UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_profile_update();
+
+-- 2. Function
+CREATE OR REPLACE FUNCTION public.get_user_activity(
+  p_user_id uuid,
+  p_page INT DEFAULT 1,
+  p_limit INT DEFAULT 20
+)
+RETURNS TABLE (
+  activity_type TEXT,
+  occurred_at TIMESTAMPTZ,
+  post_id uuid,
+  reply_id uuid,
+  post_title TEXT,
+  category_name TEXT,
+  category_slug TEXT,
+  excerpt TEXT,
+  reaction_emoji TEXT,
+  reaction_label TEXT,
+  actor_id uuid,
+  actor_username TEXT,
+  changed_fields TEXT[],
+  is_deleted BOOLEAN,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_limit INT := LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+  v_offset INT := (GREATEST(COALESCE(p_page, 1), 1) - 1) * LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+  v_sees_deleted BOOLEAN := public.get_current_user_role() IN ('MODERATOR', 'ADMIN', 'SUPER_ADMIN');
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH readable_posts AS (
+    SELECT
+      fp.id,
+      fp.user_id,
+      fp.title,
+      fp.content,
+      fp.created_at,
+      fp.is_deleted,
+      fc.name AS category_name,
+      fc.slug AS category_slug
+    FROM
+      public.forum_posts fp
+    JOIN
+      public.forum_categories fc ON fp.category_id = fc.id
+    WHERE
+      fp.is_published = true
+      AND (fp.is_deleted = false OR v_sees_deleted)
+      AND public.is_category_member_or_public(fp.category_id)
+  ),
+  readable_replies AS (
+    SELECT
+      fr.id,
+      fr.post_id,
+      fr.user_id,
+      fr.content,
+      fr.created_at,
+      (fr.is_deleted OR rp.is_deleted) AS is_deleted,
+      rp.title AS post_title,
+      rp.category_name,
+      rp.category_slug
+    FROM
+      public.forum_replies fr
+    JOIN
+      readable_posts rp ON fr.post_id = rp.id
+    WHERE
+      fr.is_deleted = false OR v_sees_deleted
+  ),
+  activity AS (
+    SELECT
+      'new_topic'::TEXT AS activity_type,
+      rp.created_at AS occurred_at,
+      rp.id AS post_id,
+      NULL::uuid AS reply_id,
+      rp.title AS post_title,
+      rp.category_name,
+      rp.category_slug,
+      left(rp.content, 200) AS excerpt,
+      NULL::TEXT AS reaction_emoji,
+      NULL::TEXT AS reaction_label,
+      NULL::uuid AS actor_id,
+      NULL::TEXT AS actor_username,
+      NULL::TEXT[] AS changed_fields,
+      rp.is_deleted
+    FROM
+      readable_posts rp
+    WHERE
+      rp.user_id = p_user_id
+
+    UNION ALL
+
+    SELECT
+      'new_reply'::TEXT,
+      rr.created_at,
+      rr.post_id,
+      rr.id,
+      rr.post_title,
+      rr.category_name,
+      rr.category_slug,
+      left(rr.content, 200),
+      NULL::TEXT,
+      NULL::TEXT,
+      NULL::uuid,
+      NULL::TEXT,
+      NULL::TEXT[],
+      rr.is_deleted
+    FROM
+      readable_replies rr
+    WHERE
+      rr.user_id = p_user_id
+
+    UNION ALL
+
+    SELECT
+      'reaction_received'::TEXT,
+      r.created_at,
+      COALESCE(rp.id, rr.post_id),
+      rr.id,
+      COALESCE(rp.title, rr.post_title),
+      COALESCE(rp.category_name, rr.category_name),
+      COALESCE(rp.category_slug, rr.category_slug),
+      left(COALESCE(rp.content, rr.content), 200),
+      rt.emoji,
+      rt.label,
+      r.user_id,
+      p.username,
+      NULL::TEXT[],
+      COALESCE(rp.is_deleted, rr.is_deleted)
+    FROM
+      public.forum_reactions r
+    JOIN
+      public.forum_reaction_types rt ON r.reaction_type_id = rt.id
+    LEFT JOIN
+      readable_posts rp ON r.post_id = rp.id AND rp.user_id = p_user_id
+    LEFT JOIN
+      readable_replies rr ON r.reply_id = rr.id AND rr.user_id = p_user_id
+    LEFT JOIN
+      public.profiles p ON r.user_id = p.id
+    WHERE
+      (rp.id IS NOT NULL OR rr.id IS NOT NULL)
+      AND r.user_id <> p_user_id
+
+    UNION ALL
+
+    SELECT
+      'profile_update'::TEXT,
+      pue.created_at,
+      NULL::uuid,
+      NULL::uuid,
+      NULL::TEXT,
+      NULL::TEXT,
+      NULL::TEXT,
+      NULL::TEXT,
+      NULL::TEXT,
+      NULL::TEXT,
+      NULL::uuid,
+      NULL::TEXT,
+      pue.changed_fields,
+      false
+    FROM
+      public.profile_update_events pue
+    WHERE
+      pue.user_id = p_user_id
+  )
+  SELECT
+    a.activity_type,
+    a.occurred_at,
+    a.post_id,
+    a.reply_id,
+    a.post_title,
+    a.category_name,
+    a.category_slug,
+    a.excerpt,
+    a.reaction_emoji,
+    a.reaction_label,
+    a.actor_id,
+    a.actor_username,
+    a.changed_fields,
+    a.is_deleted,
+    COUNT(*) OVER () AS total_count
+  FROM
+    activity a
+  ORDER BY
+    a.occurred_at DESC
+  LIMIT v_limit
+  OFFSET v_offset;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_user_activity(uuid, INT, INT) IS 'Activity stream of a member (topics, replies, reactions received, profile updates) limited to what the caller can read, newest first, one page at a time with the total count.';
+
+GRANT EXECUTE ON FUNCTION public.get_user_activity(uuid, INT, INT) TO authenticated;
+
+-- 3. Security
+ALTER TABLE public.profile_update_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view profile updates" ON public.profile_update_events;
+CREATE POLICY "Authenticated users can view profile updates"
+  ON public.profile_update_events
+  FOR SELECT
+  TO authenticated
+  USING (true);
@@ -0,0 +1,136 @@
+/*
+  # Member directory
+
+  Members can browse the list of approved members at `/membres`.
+
+  1. New Function: `public.get_member_directory(p_search, p_role, p_sort, p_page, p_limit)`
+     - `p_search` (text, optional): case-insensitive partial match on the username or full name.
+     - `p_role` (text, optional): 'USER', 'MODERATOR' or 'ADMIN' (administrators and super administrators).
+     - `p_sort` (text, default 'username'): 'username' (A to Z), 'newest' or 'oldest' (join date),
+       'posts' (most messages first).
+     - `p_page` (int, default 1) / `p_limit` (int, default 24, clamped between 1 and 100): pagination.
+     - Returns one row per member with `id`, `username`, `full_name`, `avatar_url`, `role`, `created_at`,
+       `post_count` (topics and replies) and `total_count`.
+
+  2. Security
+     - `SECURITY DEFINER` so the directory does not depend on the `profiles` SELECT policies, but it only
+       exposes the public fields shown on profiles, and only for approved members. Pending or rejected
+       accounts never appear. Only approved callers get results.
+     - `post_count` only counts published, non-deleted topics and non-deleted replies in categories the
+       caller can read (`is_category_member_or_public`), so it never reveals activity in private categories.
+*/
+
+CREATE OR REPLACE FUNCTION public.get_member_directory(
+  p_search TEXT DEFAULT NULL,
+  p_role TEXT DEFAULT NULL,
+  p_sort TEXT DEFAULT 'username',
+  p_page INT DEFAULT 1,
+  p_limit INT DEFAULT 24
+)
+RETURNS TABLE (
+  id uuid,
+  username TEXT,
+  full_name TEXT,
+  avatar_url TEXT,
+  role TEXT,
+  created_at TIMESTAMPTZ,
+  post_count BIGINT,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id uuid := auth.uid();
+  v_limit INT := LEAST(GREATEST(COALESCE(p_limit, 24), 1), 100);
+  v_offset INT := (GREATEST(COALESCE(p_page, 1), 1) - 1) * LEAST(GREATEST(COALESCE(p_limit, 24), 1), 100);
+  v_search_pattern TEXT;
+  v_role TEXT := upper(NULLIF(btrim(p_role), ''));
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required.';
+  END IF;
+
+  -- Members awaiting approval cannot browse the directory.
+  IF NOT public.is_user_approved() THEN
+    RETURN;
+  END IF;
+
+  IF p_search IS NOT NULL AND btrim(p_search) <> '' THEN
+    v_search_pattern := '%' || replace(replace(replace(btrim(p_search), '\', '\\'), '%', '\%'), '_', '\_') || '%';
+  END IF;
+
+  RETURN QUERY
+  WITH members AS (
+    SELECT
+      p.id,
+      p.username::TEXT AS username,
+      p.full_name::TEXT AS full_name,
+      p.avatar_url::TEXT AS avatar_url,
+      p.role::TEXT AS role,
+      p.created_at
+    FROM
+      public.profiles p
+    WHERE
+      p.status = 'approved'
+      AND (
+        v_search_pattern IS NULL OR
+        p.username ILIKE v_search_pattern OR
+        p.full_name ILIKE v_search_pattern
+      )
+      AND (
+        v_role IS NULL OR
+        (v_role = 'ADMIN' AND p.role IN ('ADMIN', 'SUPER_ADMIN')) OR
+        p.role = v_role
+      )
+  ),
+  counted AS (
+    SELECT
+      m.*,
+      (
+        SELECT COUNT(*)
+        FROM public.forum_posts fp
+        WHERE fp.user_id = m.id
+          AND fp.is_published = true
+          AND fp.is_deleted = false
+          AND public.is_category_member_or_public(fp.category_id)
+      ) + (
+        SELECT COUNT(*)
+        FROM public.forum_replies fr
+        JOIN public.forum_posts fp ON fr.post_id = fp.id
+        WHERE fr.user_id = m.id
+          AND fr.is_deleted = false
+          AND fp.is_published = true
+          AND fp.is_deleted = false
+          AND public.is_category_member_or_public(fp.category_id)
+      ) AS post_count
+    FROM
+      members m
+  )
+  SELECT
+    c.id,
+    c.username,
+    c.full_name,
+    c.avatar_url,
+    c.role,
+    c.created_at,
+    c.post_count,
+    COUNT(*) OVER () AS total_count
+  FROM
+    counted c
+  ORDER BY
+    CASE WHEN p_sort = 'posts' THEN c.post_count END DESC NULLS LAST,
+    CASE WHEN p_sort = 'newest' THEN c.created_at END DESC NULLS LAST,
+    CASE WHEN p_sort = 'oldest' THEN c.created_at END ASC NULLS LAST,
+    lower(c.username) ASC,
+    c.id
+  LIMIT v_limit
+  OFFSET v_offset;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_member_directory(TEXT, TEXT, TEXT, INT, INT) IS 'Approved members with their public profile fields and message count, filtered by name and role, sorted and paginated. Returns the total count on every row.';
+
+GRANT EXECUTE ON FUNCTION public.get_member_directory(TEXT, TEXT, TEXT, INT, INT) TO authenticated;
@@ -0,0 +1,110 @@
+/*
+  # Account settings
+
+  The settings page lets members change their username and choose how dates are displayed.
+  Email and password changes go through Supabase Auth and need no schema change.
+
+  1. Profile Columns
+     - `timezone` (text, nullable): IANA time zone used to display dates (e.g. 'Europe/Paris').
+       NULL means the browser's time zone.
+     - `date_format` (text, default 'long'): 'long' (12 mars 2025 à 14:05), 'short' (12/03/2025 14:05)
+       or 'iso' (2025-03-12 14:05). Kept in sync with `src/constants/preferences.ts`.
+
+  2. New Functions
+     - `public.is_username_available(p_username text)`: true when no other profile uses this username,
+       compared case-insensitively.
+     - `public.change_username(p_new_username text)`: renames the caller after checking the format
+       (3 to 30 letters, digits, '.', '_' or '-', starting and ending with a letter, digit or '_' like the
+       @mention pattern of `extract_mentioned_usernames`, so mentions keep working) and that the name is free.
+       Two names differing only by case are considered the same.
+
+  3. Security
+     - Both functions are `SECURITY DEFINER` because other members' profiles are not always readable,
+       but they only reveal whether a name is taken. `change_username` only updates the caller's row.
+*/
+
+-- 1. Profile Columns
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS timezone text;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS date_format text NOT NULL DEFAULT 'long';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'profiles_date_format_check' AND conrelid = 'public.profiles'::regclass
+  ) THEN
+    ALTER TABLE public.profiles
+      ADD CONSTRAINT profiles_date_format_check CHECK (date_format IN ('long', 'short', 'iso'));
+  END IF;
+END;
+$$;
+
+COMMENT ON COLUMN public.profiles.timezone IS 'IANA time zone used to display dates. NULL means the browser time zone.';
+COMMENT ON COLUMN public.profiles.date_format IS 'Date display format: long, short or iso.';
+
+-- 2. New Functions
+CREATE OR REPLACE FUNCTION public.is_username_available(p_username TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_username IS NULL OR btrim(p_username) = '' THEN
+    RETURN false;
+  END IF;
+
+  RETURN NOT EXISTS (
+    SELECT 1
+    FROM public.profiles p
+    WHERE lower(p.username) = lower(btrim(p_username))
+      AND p.id IS DISTINCT FROM auth.uid()
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.is_username_available(TEXT) IS 'True when no other member uses this username (case-insensitive).';
+
+GRANT EXECUTE ON FUNCTION public.is_username_available(TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.change_username(p_new_username TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+  v_username TEXT := btrim(p_new_username);
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required.';
+  END IF;
+
+  IF v_username IS NULL OR v_username !~ '^[A-Za-z0-9_][A-Za-z0-9_.-]{1,28}[A-Za-z0-9_]$' THEN
+    RAISE EXCEPTION 'Invalid username: 3 to 30 letters, digits, dots, dashes or underscores, not starting or ending with a dot or a dash.';
+  END IF;
+
+  -- Serialize renames so two members cannot claim the same name at once.
+  PERFORM pg_advisory_xact_lock(hashtext('change_username:' || lower(v_username)));
+
+  IF NOT public.is_username_available(v_username) THEN
+    RAISE EXCEPTION 'Username already taken.' USING ERRCODE = 'unique_violation';
+  END IF;
+
+  UPDATE public.profiles
+  SET username = v_username,
+      updated_at = now()
+  WHERE id = v_caller_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found.';
+  END IF;
+
+  RETURN v_username;
+END;
+$$;
+
+COMMENT ON FUNCTION public.change_username(TEXT) IS 'Renames the caller after checking the username format and that it is not used by another member (case-insensitive).';
+
+GRANT EXECUTE ON FUNCTION public.change_username(TEXT) TO authenticated;
@@ -0,0 +1,630 @@
+/*
+  # Private messaging
+
+  Members can write to each other privately, one to one or in small groups, and block members
+  they no longer want to hear from. Only participants can read a conversation: moderators and
+  admins have no access to private messages, except the individual messages that were reported.
+
+  1. New Tables
+     - `public.conversations` (title, is_group, created_by, created_at, last_message_at).
+       `title` is only used by group conversations.
+     - `public.conversation_participants` (conversation_id, user_id, joined_at, last_read_at).
+       Messages of other participants newer than `last_read_at` are unread.
+     - `public.private_messages` (conversation_id, sender_id, content, created_at) with the same
+       soft-delete columns as forum content (`is_deleted`, `deleted_at`, `deleted_by_user_id`, `deletion_reason`).
+     - `public.user_blocks` (blocker_id, blocked_id, created_at).
+
+  2. Schema Changes: `public.forum_reports`
+     - `reported_message_id` (uuid, fk->private_messages, nullable).
+     - `check_reported_content_exclusive` now requires exactly one of post, reply or message.
+
+  3. Helpers
+     - `public.is_conversation_participant(p_conversation_id uuid)`: whether the caller takes part in
+       a conversation. SECURITY DEFINER so the participant policies do not recurse.
+     - `public.is_blocked_between(p_user_a uuid, p_user_b uuid)`: whether either member blocked the other.
+       Internal, not executable by clients.
+
+  4. New Functions
+     - `public.start_conversation(p_recipient_ids uuid[], p_content text, p_title text)`: sends a first
+       message to 1 to 9 approved members. A one to one conversation is reused when it already exists.
+     - `public.send_private_message(p_conversation_id uuid, p_content text)`
+     - `public.mark_conversation_read(p_conversation_id uuid)`
+     - `public.get_my_conversations(p_page integer, p_limit integer)`: inbox of the caller, newest activity
+       first, with the other participants, the last visible message and the number of unread messages.
+     - `public.get_unread_conversation_count()`: number of conversations with unread messages.
+     - `public.soft_delete_private_message(p_message_id uuid, p_delete_reason text)`: moderators only, and
+       only for a reported message. Resolves its pending reports and writes a `moderation_actions_log` entry.
+
+  5. Updated Functions
+     - `get_pending_reports_with_details`: also returns reported private messages, with
+       `reported_content_type = 'message'`.
+     - `notify_on_report_resolved`: adds the reported content type to the notification data, so
+       resolved reports on private messages are not described as topics.
+
+  6. Security
+     - Conversations, participants and messages are readable by participants only, through
+       `is_conversation_participant`. Messages sent by a member the reader blocked are hidden.
+     - Moderators, admins and super admins can read a private message only once it has been reported,
+       and never the rest of its conversation.
+     - Conversations, participants and messages are only written by the functions above: there is no
+       INSERT or UPDATE policy. `mark_conversation_read` is SECURITY DEFINER and only touches the
+       caller's `last_read_at`, so a member cannot move their participant row to another conversation.
+     - Members manage their own blocks; a blocked member cannot see who blocked them.
+       Nobody can start a conversation with a member they blocked or who blocked them, and one to one
+       conversations stop accepting messages while a block exists.
+     - A private message can only be reported by another participant of its conversation.
+     - `private_messages` is added to the `supabase_realtime` publication so the inbox updates live.
+*/
+
+-- 1. Tables
+CREATE TABLE IF NOT EXISTS public.conversations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  title text CHECK (title IS NULL OR char_length(trim(title)) BETWEEN 1 AND 100),
+  is_group boolean NOT NULL DEFAULT false,
+  created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  last_message_at timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.conversations IS 'Private conversation between two members, or a small group of members.';
+
+CREATE TABLE IF NOT EXISTS public.conversation_participants (
+  conversation_id uuid NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  joined_at timestamptz NOT NULL DEFAULT now(),
+  last_read_at timestamptz,
+  PRIMARY KEY (conversation_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_participants_user_id ON public.conversation_participants(user_id);
+
+CREATE TABLE IF NOT EXISTS public.private_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id uuid NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  sender_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  content text NOT NULL CHECK (char_length(trim(content)) BETWEEN 1 AND 5000),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  is_deleted boolean NOT NULL DEFAULT false,
+  deleted_at timestamptz,
+  deleted_by_user_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  deletion_reason text
+);
+
+CREATE INDEX IF NOT EXISTS idx_private_messages_conversation_id_created_at ON public.private_messages(conversation_id, created_at DESC);
+
+COMMENT ON TABLE public.private_messages IS 'Messages of private conversations, readable by participants only.';
+
+CREATE TABLE IF NOT EXISTS public.user_blocks (
+  blocker_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  blocked_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (blocker_id, blocked_id),
+  CHECK (blocker_id <> blocked_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_blocks_blocked_id ON public.user_blocks(blocked_id);
+
+COMMENT ON TABLE public.user_blocks IS 'Members a member blocked from messaging them.';
+
+-- 2. Reports on private messages
+ALTER TABLE public.forum_reports
+  ADD COLUMN IF NOT EXISTS reported_message_id uuid REFERENCES public.private_messages(id) ON DELETE CASCADE;
+
+ALTER TABLE public.forum_reports DROP CONSTRAINT IF EXISTS check_reported_content_exclusive;
+ALTER TABLE public.forum_reports
+  ADD CONSTRAINT check_reported_content_exclusive
+  CHECK (num_nonnulls(reported_post_id, reported_reply_id, reported_message_id) = 1);
+
+CREATE INDEX IF NOT EXISTS idx_forum_reports_reported_message_id ON public.forum_reports(reported_message_id) WHERE reported_message_id IS NOT NULL;
+
+-- 3. Helpers
+CREATE OR REPLACE FUNCTION public.is_conversation_participant(p_conversation_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.conversation_participants cp
+    WHERE cp.conversation_id = p_conversation_id AND cp.user_id = auth.uid()
+  );
+$$;
+
+COMMENT ON FUNCTION public.is_conversation_participant(uuid) IS 'Whether the caller takes part in a conversation.';
+
+CREATE OR REPLACE FUNCTION public.is_blocked_between(p_user_a uuid, p_user_b uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_blocks ub
+    WHERE (ub.blocker_id = p_user_a AND ub.blocked_id = p_user_b)
+       OR (ub.blocker_id = p_user_b AND ub.blocked_id = p_user_a)
+  );
+$$;
+
+COMMENT ON FUNCTION public.is_blocked_between(uuid, uuid) IS 'Whether either of two members blocked the other.';
+
+GRANT EXECUTE ON FUNCTION public.is_conversation_participant(uuid) TO authenticated;
+-- Internal: clients could otherwise find out who blocked whom.
+REVOKE EXECUTE ON FUNCTION public.is_blocked_between(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- 4. Functions
+CREATE OR REPLACE FUNCTION public.start_conversation(
+  p_recipient_ids uuid[],
+  p_content TEXT,
+  p_title TEXT DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+  v_recipient_ids UUID[];
+  v_conversation_id UUID;
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required.';
+  END IF;
+
+  IF NOT public.is_user_approved() THEN
+    RAISE EXCEPTION 'Only approved members can send private messages.';
+  END IF;
+
+  SELECT COALESCE(array_agg(DISTINCT r), ARRAY[]::UUID[]) INTO v_recipient_ids
+  FROM unnest(p_recipient_ids) AS r
+  WHERE r IS NOT NULL AND r <> v_caller_id;
+
+  IF cardinality(v_recipient_ids) NOT BETWEEN 1 AND 9 THEN
+    RAISE EXCEPTION 'A conversation needs between 1 and 9 recipients.';
+  END IF;
+
+  IF (SELECT COUNT(*) FROM public.profiles p WHERE p.id = ANY(v_recipient_ids) AND p.status = 'approved') <> cardinality(v_recipient_ids) THEN
+    RAISE EXCEPTION 'Recipient not found.';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(v_recipient_ids) AS r WHERE public.is_blocked_between(v_caller_id, r)) THEN
+    RAISE EXCEPTION 'You cannot send a message to this member.';
+  END IF;
+
+  IF cardinality(v_recipient_ids) = 1 THEN
+    SELECT c.id INTO v_conversation_id
+    FROM public.conversations c
+    JOIN public.conversation_participants me ON me.conversation_id = c.id AND me.user_id = v_caller_id
+    JOIN public.conversation_participants other ON other.conversation_id = c.id AND other.user_id = v_recipient_ids[1]
+    WHERE c.is_group = false
+    LIMIT 1;
+  END IF;
+
+  IF v_conversation_id IS NULL THEN
+    INSERT INTO public.conversations (title, is_group, created_by)
+    VALUES (
+      CASE WHEN cardinality(v_recipient_ids) > 1 THEN NULLIF(trim(p_title), '') END,
+      cardinality(v_recipient_ids) > 1,
+      v_caller_id
+    )
+    RETURNING id INTO v_conversation_id;
+
+    INSERT INTO public.conversation_participants (conversation_id, user_id)
+    SELECT v_conversation_id, u
+    FROM unnest(v_caller_id || v_recipient_ids) AS u;
+  END IF;
+
+  PERFORM public.send_private_message(v_conversation_id, p_content);
+
+  RETURN v_conversation_id;
+END;
+$$;
+
+COMMENT ON FUNCTION public.start_conversation(uuid[], TEXT, TEXT) IS 'Sends a first private message to 1 to 9 members, reusing an existing one to one conversation.';
+
+CREATE OR REPLACE FUNCTION public.send_private_message(p_conversation_id uuid, p_content TEXT)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+  v_is_group BOOLEAN;
+  v_message_id UUID;
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required.';
+  END IF;
+
+  IF NOT public.is_user_approved() THEN
+    RAISE EXCEPTION 'Only approved members can send private messages.';
+  END IF;
+
+  IF NOT public.is_conversation_participant(p_conversation_id) THEN
+    RAISE EXCEPTION 'Conversation not found: %', p_conversation_id;
+  END IF;
+
+  SELECT c.is_group INTO v_is_group FROM public.conversations c WHERE c.id = p_conversation_id;
+
+  IF NOT v_is_group AND EXISTS (
+    SELECT 1
+    FROM public.conversation_participants cp
+    WHERE cp.conversation_id = p_conversation_id
+      AND cp.user_id <> v_caller_id
+      AND public.is_blocked_between(v_caller_id, cp.user_id)
+  ) THEN
+    RAISE EXCEPTION 'You cannot send a message to this member.';
+  END IF;
+
+  IF char_length(trim(COALESCE(p_content, ''))) NOT BETWEEN 1 AND 5000 THEN
+    RAISE EXCEPTION 'A message must contain between 1 and 5000 characters.';
+  END IF;
+
+  INSERT INTO public.private_messages (conversation_id, sender_id, content)
+  VALUES (p_conversation_id, v_caller_id, trim(p_content))
+  RETURNING id INTO v_message_id;
+
+  UPDATE public.conversations SET last_message_at = now() WHERE id = p_conversation_id;
+
+  UPDATE public.conversation_participants
+     SET last_read_at = now()
+   WHERE conversation_id = p_conversation_id AND user_id = v_caller_id;
+
+  RETURN v_message_id;
+END;
+$$;
+
+COMMENT ON FUNCTION public.send_private_message(uuid, TEXT) IS 'Sends a message in a conversation of the caller.';
+
+CREATE OR REPLACE FUNCTION public.mark_conversation_read(p_conversation_id uuid)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.conversation_participants
+     SET last_read_at = now()
+   WHERE conversation_id = p_conversation_id
+     AND user_id = auth.uid();
+END;
+$$;
+
+COMMENT ON FUNCTION public.mark_conversation_read(uuid) IS 'Marks every message of a conversation as read by the caller.';
+
+CREATE OR REPLACE FUNCTION public.get_my_conversations(
+  p_page integer DEFAULT 1,
+  p_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  conversation_id uuid,
+  title TEXT,
+  is_group BOOLEAN,
+  last_message_at TIMESTAMPTZ,
+  participants JSONB,
+  last_message_excerpt TEXT,
+  last_message_sender_id uuid,
+  last_message_is_deleted BOOLEAN,
+  unread_count BIGINT,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+  v_limit INTEGER := LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+  v_offset INTEGER := (GREATEST(COALESCE(p_page, 1), 1) - 1) * LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required.';
+  END IF;
+
+  -- RLS limits conversations to the caller's and hides messages of blocked members.
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.title,
+    c.is_group,
+    c.last_message_at,
+    (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('id', p.id, 'username', p.username, 'avatar_url', p.avatar_url) ORDER BY p.username), '[]'::jsonb)
+      FROM public.conversation_participants other
+      JOIN public.profiles p ON p.id = other.user_id
+      WHERE other.conversation_id = c.id AND other.user_id <> v_caller_id
+    ),
+    CASE WHEN last_message.is_deleted THEN NULL ELSE LEFT(last_message.content, 120) END,
+    last_message.sender_id,
+    last_message.is_deleted,
+    (
+      SELECT COUNT(*)
+      FROM public.private_messages pm
+      WHERE pm.conversation_id = c.id
+        AND pm.sender_id IS DISTINCT FROM v_caller_id
+        AND pm.created_at > COALESCE(me.last_read_at, '-infinity'::timestamptz)
+    ),
+    COUNT(*) OVER ()
+  FROM public.conversations c
+  JOIN public.conversation_participants me ON me.conversation_id = c.id AND me.user_id = v_caller_id
+  LEFT JOIN LATERAL (
+    SELECT pm.content, pm.sender_id, pm.is_deleted
+    FROM public.private_messages pm
+    WHERE pm.conversation_id = c.id
+    ORDER BY pm.created_at DESC
+    LIMIT 1
+  ) last_message ON true
+  ORDER BY c.last_message_at DESC
+  LIMIT v_limit
+  OFFSET v_offset;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_my_conversations(integer, integer) IS 'Paginated inbox of the caller with participants, last message and unread count.';
+
+CREATE OR REPLACE FUNCTION public.get_unread_conversation_count()
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT COUNT(*)::integer
+  FROM public.conversation_participants me
+  WHERE me.user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1
+      FROM public.private_messages pm
+      WHERE pm.conversation_id = me.conversation_id
+        AND pm.sender_id IS DISTINCT FROM auth.uid()
+        AND pm.created_at > COALESCE(me.last_read_at, '-infinity'::timestamptz)
+    );
+$$;
+
+COMMENT ON FUNCTION public.get_unread_conversation_count() IS 'Number of the caller''s conversations with unread messages.';
+
+CREATE OR REPLACE FUNCTION public.soft_delete_private_message(
+  p_message_id UUID,
+  p_delete_reason TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_moderator_id UUID := auth.uid();
+  v_sender_id UUID;
+BEGIN
+  IF public.get_current_user_role() NOT IN ('MODERATOR', 'ADMIN', 'SUPER_ADMIN') THEN
+    RAISE EXCEPTION 'Only moderators can delete private messages.';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.forum_reports fr WHERE fr.reported_message_id = p_message_id) THEN
+    RAISE EXCEPTION 'Only reported private messages can be moderated.';
+  END IF;
+
+  UPDATE public.private_messages
+     SET is_deleted = true,
+         deleted_at = now(),
+         deleted_by_user_id = v_moderator_id,
+         deletion_reason = NULLIF(trim(p_delete_reason), '')
+   WHERE id = p_message_id
+  RETURNING sender_id INTO v_sender_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Private message not found: %', p_message_id;
+  END IF;
+
+  UPDATE public.forum_reports
+     SET status = 'RESOLVED_ACTION_TAKEN',
+         resolved_at = now(),
+         resolved_by_user_id = v_moderator_id
+   WHERE reported_message_id = p_message_id
+     AND status = 'PENDING';
+
+  PERFORM public.create_moderation_log_entry(
+    p_action_type    := 'CONTENT_SOFT_DELETE',
+    p_justification  := COALESCE(NULLIF(trim(p_delete_reason), ''), 'Reported private message soft-deleted by moderator via moderation panel.'),
+    p_target_user_id := v_sender_id,
+    p_details        := jsonb_build_object('content_type', 'message', 'content_id', p_message_id, 'original_reason_param', p_delete_reason)
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.soft_delete_private_message(UUID, TEXT) IS 'Soft deletes a reported private message, resolves its pending reports and logs the action. Moderators only.';
+
+GRANT EXECUTE ON FUNCTION public.start_conversation(uuid[], TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.send_private_message(uuid, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_conversation_read(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_my_conversations(integer, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_unread_conversation_count() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.soft_delete_private_message(UUID, TEXT) TO authenticated;
+
+-- 5. Moderation queue
+CREATE OR REPLACE FUNCTION public.get_pending_reports_with_details()
+RETURNS TABLE (
+  report_id UUID,
+  report_created_at TIMESTAMPTZ,
+  reporter_id UUID,
+  reporter_username TEXT,
+  reported_content_type TEXT, -- 'post', 'reply' or 'message'
+  reported_content_id UUID,
+  content_title TEXT,
+  content_excerpt TEXT,
+  content_author_id UUID,
+  content_author_username TEXT,
+  reason_category public.report_reason_category_type,
+  reason_details TEXT,
+  report_status public.report_status_type
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  -- RLS on forum_reports limits this to moderators; on private_messages, to reported messages.
+  RETURN QUERY
+  SELECT
+    fr.id,
+    fr.created_at,
+    fr.reporter_user_id,
+    reporter_profile.username,
+    CASE
+      WHEN fr.reported_post_id IS NOT NULL THEN 'post'
+      WHEN fr.reported_reply_id IS NOT NULL THEN 'reply'
+      WHEN fr.reported_message_id IS NOT NULL THEN 'message'
+      ELSE 'unknown'
+    END,
+    COALESCE(fr.reported_post_id, fr.reported_reply_id, fr.reported_message_id),
+    fp.title,
+    COALESCE(LEFT(fp.content, 100), LEFT(f_reply.content, 100), LEFT(pm.content, 100)),
+    COALESCE(fp.user_id, f_reply.user_id, pm.sender_id),
+    COALESCE(post_author_profile.username, reply_author_profile.username, message_author_profile.username),
+    fr.reason_category,
+    fr.reason_details,
+    fr.status
+  FROM public.forum_reports fr
+  LEFT JOIN public.profiles reporter_profile ON fr.reporter_user_id = reporter_profile.id
+  LEFT JOIN public.forum_posts fp ON fr.reported_post_id = fp.id
+  LEFT JOIN public.profiles post_author_profile ON fp.user_id = post_author_profile.id
+  LEFT JOIN public.forum_replies f_reply ON fr.reported_reply_id = f_reply.id
+  LEFT JOIN public.profiles reply_author_profile ON f_reply.user_id = reply_author_profile.id
+  LEFT JOIN public.private_messages pm ON fr.reported_message_id = pm.id
+  LEFT JOIN public.profiles message_author_profile ON pm.sender_id = message_author_profile.id
+  WHERE fr.status = 'PENDING'
+  ORDER BY fr.created_at ASC;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_pending_reports_with_details IS 'Fetches pending reports on posts, replies and private messages. Access controlled by RLS. SECURITY INVOKER.';
+
+CREATE OR REPLACE FUNCTION public.notify_on_report_resolved()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_post_id UUID := NEW.reported_post_id;
+  v_post_title TEXT;
+BEGIN
+  IF OLD.status <> 'PENDING' OR NEW.status = 'PENDING' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.reported_reply_id IS NOT NULL THEN
+    SELECT fr.post_id INTO v_post_id FROM public.forum_replies fr WHERE fr.id = NEW.reported_reply_id;
+  END IF;
+
+  SELECT fp.title INTO v_post_title FROM public.forum_posts fp WHERE fp.id = v_post_id;
+
+  PERFORM public.create_notification(
+    NEW.reporter_user_id,
+    'REPORT_RESOLVED',
+    NEW.resolved_by_user_id,
+    v_post_id,
+    NEW.reported_reply_id,
+    NEW.id,
+    jsonb_build_object(
+      'status', NEW.status,
+      'post_title', v_post_title,
+      'content_type', CASE
+        WHEN NEW.reported_message_id IS NOT NULL THEN 'message'
+        WHEN NEW.reported_reply_id IS NOT NULL THEN 'reply'
+        ELSE 'post'
+      END
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- 6. Security
+ALTER TABLE public.conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.conversation_participants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.private_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_blocks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Participants can view their conversations" ON public.conversations;
+CREATE POLICY "Participants can view their conversations"
+  ON public.conversations
+  FOR SELECT
+  TO authenticated
+  USING (public.is_conversation_participant(id));
+
+DROP POLICY IF EXISTS "Participants can view the members of their conversations" ON public.conversation_participants;
+CREATE POLICY "Participants can view the members of their conversations"
+  ON public.conversation_participants
+  FOR SELECT
+  TO authenticated
+  USING (public.is_conversation_participant(conversation_id));
+
+DROP POLICY IF EXISTS "Participants can view messages except from members they blocked" ON public.private_messages;
+CREATE POLICY "Participants can view messages except from members they blocked"
+  ON public.private_messages
+  FOR SELECT
+  TO authenticated
+  USING (
+    public.is_conversation_participant(conversation_id) AND
+    NOT EXISTS (
+      SELECT 1 FROM public.user_blocks ub
+      WHERE ub.blocker_id = auth.uid() AND ub.blocked_id = private_messages.sender_id
+    )
+  );
+
+DROP POLICY IF EXISTS "Moderators can view reported messages" ON public.private_messages;
+CREATE POLICY "Moderators can view reported messages"
+  ON public.private_messages
+  FOR SELECT
+  TO authenticated
+  USING (
+    public.get_current_user_role() IN ('MODERATOR', 'ADMIN', 'SUPER_ADMIN') AND
+    EXISTS (SELECT 1 FROM public.forum_reports fr WHERE fr.reported_message_id = private_messages.id)
+  );
+
+DROP POLICY IF EXISTS "Users can manage their own blocks" ON public.user_blocks;
+CREATE POLICY "Users can manage their own blocks"
+  ON public.user_blocks
+  FOR ALL
+  TO authenticated
+  USING (blocker_id = auth.uid())
+  WITH CHECK (blocker_id = auth.uid());
+
+-- Restrictive: applies on top of "Authenticated users can create reports".
+DROP POLICY IF EXISTS "Private messages can only be reported by participants" ON public.forum_reports;
+CREATE POLICY "Private messages can only be reported by participants"
+  ON public.forum_reports
+  AS RESTRICTIVE
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    reported_message_id IS NULL OR
+    EXISTS (
+      SELECT 1
+      FROM public.private_messages pm
+      WHERE pm.id = forum_reports.reported_message_id
+        AND pm.sender_id IS DISTINCT FROM auth.uid()
+        AND public.is_conversation_participant(pm.conversation_id)
+    )
+  );
+
+-- 7. Realtime
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+     AND NOT EXISTS (
+       SELECT 1 FROM pg_publication_tables
+       WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'private_messages'
+     ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.private_messages;
+  END IF;
+END;
+$$;
@@ -0,0 +1,530 @@
+/*
+  # User sanctions
+
+  Moderators can warn members, and admins can suspend them for a given period or ban them.
+  A suspended or banned member can no longer post anything until the sanction ends or is lifted.
+
+  1. New Type: `public.user_sanction_type`
+     - `WARNING`: recorded and notified to the member, no restriction.
+     - `SUSPENSION`: no posting until `ends_at`.
+     - `BAN`: no posting, without end date.
+
+  2. New Table: `public.user_sanctions`
+     - `user_id`: sanctioned member. `issued_by`: moderator who issued the sanction.
+     - `sanction_type`, `reason` (mandatory), `starts_at`, `ends_at`.
+       `ends_at` is required for suspensions and NULL for warnings and bans.
+     - `lifted_at`, `lifted_by`, `lift_reason`: set when the sanction is lifted before its end.
+     - There is no status column: a sanction is active while it is not lifted and `ends_at` is NULL or in
+       the future, so suspensions expire by themselves.
+
+  3. New Enum Values
+     - `moderation_action_type`: `USER_SANCTION_LIFT`.
+     - `notification_type`: `USER_WARNED`.
+
+  4. New Functions
+     - `public.has_active_posting_sanction()`: whether the caller is currently suspended or banned.
+     - `public.get_my_active_sanction()`: the sanction currently restricting the caller (a ban first,
+       then the suspension ending last), or no row.
+     - `public.issue_user_sanction(p_user_id, p_sanction_type, p_reason, p_ends_at)`: WARNING for
+       MODERATOR and above, SUSPENSION and BAN for ADMIN and above. Staff members can only sanction
+       members of a lower role. Logged as `USER_WARN`, `USER_SUSPEND_TEMP` or `USER_BAN_PERMA`.
+     - `public.lift_user_sanction(p_sanction_id, p_lift_reason)`: ADMIN and above. Logged as `USER_SANCTION_LIFT`.
+
+  5. Updated Functions
+     - `edit_forum_content` and `send_private_message` refuse to run for a suspended or banned caller.
+       They are SECURITY DEFINER, so the policies below do not apply to them.
+
+  6. Security
+     - RLS on `user_sanctions`: members read their own sanctions, MODERATOR and above read all of them.
+       There is no write policy; rows are only written by the functions above.
+     - RESTRICTIVE INSERT policies on `forum_posts`, `forum_replies`, `forum_reactions`, `forum_poll_votes`
+       and `forum_attachments` reject rows from a suspended or banned member.
+     - RESTRICTIVE UPDATE policies on `forum_posts`, `forum_replies` and `forum_reactions` stop a suspended
+       or banned member from editing content or changing reactions directly, around `edit_forum_content`.
+*/
+
+-- 1. Type
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'user_sanction_type' AND typnamespace = 'public'::regnamespace) THEN
+    CREATE TYPE public.user_sanction_type AS ENUM (
+      'WARNING',
+      'SUSPENSION',
+      'BAN'
+    );
+  END IF;
+END;
+$$;
+
+-- 2. Table
+CREATE TABLE IF NOT EXISTS public.user_sanctions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  sanction_type public.user_sanction_type NOT NULL,
+  reason TEXT NOT NULL CHECK (char_length(trim(reason)) BETWEEN 1 AND 1000),
+  starts_at timestamptz NOT NULL DEFAULT now(),
+  ends_at timestamptz,
+  issued_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  lifted_at timestamptz,
+  lifted_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  lift_reason TEXT,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT check_sanction_end_date CHECK (
+    (sanction_type = 'SUSPENSION' AND ends_at IS NOT NULL AND ends_at > starts_at) OR
+    (sanction_type <> 'SUSPENSION' AND ends_at IS NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sanctions_user_id ON public.user_sanctions(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_user_sanctions_created_at ON public.user_sanctions(created_at DESC);
+
+COMMENT ON TABLE public.user_sanctions IS 'Warnings, suspensions and bans issued to members. Active while not lifted and not past ends_at.';
+
+ALTER TABLE public.user_sanctions ENABLE ROW LEVEL SECURITY;
+
+-- 3. New enum values
+ALTER TYPE public.moderation_action_type ADD VALUE IF NOT EXISTS 'USER_SANCTION_LIFT';
+ALTER TYPE public.notification_type ADD VALUE IF NOT EXISTS 'USER_WARNED';
+
+-- 4. Helpers
+CREATE OR REPLACE FUNCTION public.has_active_posting_sanction()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_sanctions us
+    WHERE us.user_id = auth.uid()
+      AND us.sanction_type IN ('SUSPENSION', 'BAN')
+      AND us.lifted_at IS NULL
+      AND us.starts_at <= now()
+      AND (us.ends_at IS NULL OR us.ends_at > now())
+  );
+$$;
+
+COMMENT ON FUNCTION public.has_active_posting_sanction() IS 'Whether the caller is currently suspended or banned.';
+
+GRANT EXECUTE ON FUNCTION public.has_active_posting_sanction() TO authenticated;
+
+-- 5. Functions
+CREATE OR REPLACE FUNCTION public.get_my_active_sanction()
+RETURNS TABLE (
+  id uuid,
+  sanction_type public.user_sanction_type,
+  reason TEXT,
+  starts_at timestamptz,
+  ends_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT us.id, us.sanction_type, us.reason, us.starts_at, us.ends_at
+  FROM public.user_sanctions us
+  WHERE us.user_id = auth.uid()
+    AND us.sanction_type IN ('SUSPENSION', 'BAN')
+    AND us.lifted_at IS NULL
+    AND us.starts_at <= now()
+    AND (us.ends_at IS NULL OR us.ends_at > now())
+  ORDER BY (us.sanction_type = 'BAN') DESC, us.ends_at DESC
+  LIMIT 1;
+$$;
+
+COMMENT ON FUNCTION public.get_my_active_sanction() IS 'The ban or suspension currently restricting the caller, if any.';
+
+GRANT EXECUTE ON FUNCTION public.get_my_active_sanction() TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.issue_user_sanction(
+  p_user_id uuid,
+  p_sanction_type public.user_sanction_type,
+  p_reason TEXT,
+  p_ends_at timestamptz DEFAULT NULL -- suspensions only
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+  v_caller_role TEXT := COALESCE(public.get_current_user_role(), 'USER');
+  v_target_role TEXT;
+  v_sanction_id UUID;
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required.';
+  END IF;
+
+  IF p_sanction_type = 'WARNING' THEN
+    IF v_caller_role NOT IN ('MODERATOR', 'ADMIN', 'SUPER_ADMIN') THEN
+      RAISE EXCEPTION 'You do not have permission to warn members.';
+    END IF;
+  ELSIF v_caller_role NOT IN ('ADMIN', 'SUPER_ADMIN') THEN
+    RAISE EXCEPTION 'You do not have permission to suspend or ban members.';
+  END IF;
+
+  IF p_user_id = v_caller_id THEN
+    RAISE EXCEPTION 'You cannot sanction yourself.';
+  END IF;
+
+  SELECT p.role INTO v_target_role FROM public.profiles p WHERE p.id = p_user_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found: %', p_user_id;
+  END IF;
+
+  -- Staff members can only sanction members of a lower role.
+  IF array_position(ARRAY['USER', 'MODERATOR', 'ADMIN', 'SUPER_ADMIN'], COALESCE(v_target_role, 'USER'))
+     >= array_position(ARRAY['USER', 'MODERATOR', 'ADMIN', 'SUPER_ADMIN'], v_caller_role) THEN
+    RAISE EXCEPTION 'You cannot sanction a member with the same or a higher role.';
+  END IF;
+
+  IF p_reason IS NULL OR trim(p_reason) = '' THEN
+    RAISE EXCEPTION 'A reason is required.';
+  END IF;
+
+  IF p_sanction_type = 'SUSPENSION' AND (p_ends_at IS NULL OR p_ends_at <= now()) THEN
+    RAISE EXCEPTION 'A suspension needs an end date in the future.';
+  END IF;
+
+  INSERT INTO public.user_sanctions (user_id, sanction_type, reason, ends_at, issued_by)
+  VALUES (
+    p_user_id,
+    p_sanction_type,
+    trim(p_reason),
+    CASE WHEN p_sanction_type = 'SUSPENSION' THEN p_ends_at END,
+    v_caller_id
+  )
+  RETURNING id INTO v_sanction_id;
+
+  PERFORM public.create_moderation_log_entry(
+    p_action_type    := CASE p_sanction_type
+                          WHEN 'WARNING' THEN 'USER_WARN'
+                          WHEN 'SUSPENSION' THEN 'USER_SUSPEND_TEMP'
+                          ELSE 'USER_BAN_PERMA'
+                        END::public.moderation_action_type,
+    p_justification  := trim(p_reason),
+    p_target_user_id := p_user_id,
+    p_details        := jsonb_build_object(
+      'sanction_id', v_sanction_id,
+      'sanction_type', p_sanction_type,
+      'ends_at', CASE WHEN p_sanction_type = 'SUSPENSION' THEN p_ends_at END
+    )
+  );
+
+  IF p_sanction_type = 'WARNING' THEN
+    PERFORM public.create_notification(
+      p_user_id := p_user_id,
+      p_type    := 'USER_WARNED',
+      p_data    := jsonb_build_object('reason', trim(p_reason))
+    );
+  END IF;
+
+  RETURN v_sanction_id;
+END;
+$$;
+
+COMMENT ON FUNCTION public.issue_user_sanction(uuid, public.user_sanction_type, TEXT, timestamptz) IS 'Warns (MODERATOR and above), suspends or bans (ADMIN and above) a member of a lower role, and logs the action.';
+
+GRANT EXECUTE ON FUNCTION public.issue_user_sanction(uuid, public.user_sanction_type, TEXT, timestamptz) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.lift_user_sanction(p_sanction_id uuid, p_lift_reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+  v_sanction public.user_sanctions%ROWTYPE;
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required.';
+  END IF;
+
+  IF COALESCE(public.get_current_user_role(), 'USER') NOT IN ('ADMIN', 'SUPER_ADMIN') THEN
+    RAISE EXCEPTION 'You do not have permission to lift sanctions.';
+  END IF;
+
+  IF p_lift_reason IS NULL OR trim(p_lift_reason) = '' THEN
+    RAISE EXCEPTION 'A reason is required.';
+  END IF;
+
+  SELECT * INTO v_sanction FROM public.user_sanctions WHERE id = p_sanction_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sanction not found: %', p_sanction_id;
+  END IF;
+
+  IF v_sanction.sanction_type = 'WARNING' THEN
+    RAISE EXCEPTION 'Warnings cannot be lifted.';
+  END IF;
+
+  IF v_sanction.lifted_at IS NOT NULL OR (v_sanction.ends_at IS NOT NULL AND v_sanction.ends_at <= now()) THEN
+    RAISE EXCEPTION 'This sanction is no longer active.';
+  END IF;
+
+  UPDATE public.user_sanctions
+     SET lifted_at = now(), lifted_by = v_caller_id, lift_reason = trim(p_lift_reason)
+   WHERE id = p_sanction_id;
+
+  PERFORM public.create_moderation_log_entry(
+    p_action_type    := 'USER_SANCTION_LIFT',
+    p_justification  := trim(p_lift_reason),
+    p_target_user_id := v_sanction.user_id,
+    p_details        := jsonb_build_object(
+      'sanction_id', p_sanction_id,
+      'sanction_type', v_sanction.sanction_type
+    )
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.lift_user_sanction(uuid, TEXT) IS 'Lifts an active sanction before its end (ADMIN and above) and logs the action.';
+
+GRANT EXECUTE ON FUNCTION public.lift_user_sanction(uuid, TEXT) TO authenticated;
+
+-- 6. Suspended and banned members cannot edit their content or send private messages
+CREATE OR REPLACE FUNCTION public.edit_forum_content(
+  p_content_type TEXT, -- 'post' or 'reply'
+  p_content_id UUID,
+  p_new_content TEXT,
+  p_new_title TEXT DEFAULT NULL, -- posts only, NULL keeps the current title
+  p_justification TEXT DEFAULT NULL -- used for the audit log when a moderator edits someone else's content
+)
+RETURNS timestamptz
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+  v_can_edit_any BOOLEAN;
+  v_author_id UUID;
+  v_is_deleted BOOLEAN;
+  v_old_title TEXT;
+  v_old_content TEXT;
+  v_new_title TEXT;
+  v_updated_at timestamptz;
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required.';
+  END IF;
+
+  IF public.has_active_posting_sanction() THEN
+    RAISE EXCEPTION 'Your account is suspended or banned: you cannot post.';
+  END IF;
+
+  IF p_new_content IS NULL OR trim(p_new_content) = '' THEN
+    RAISE EXCEPTION 'Content cannot be empty.';
+  END IF;
+
+  IF p_content_type = 'post' THEN
+    SELECT user_id, is_deleted, title, content
+      INTO v_author_id, v_is_deleted, v_old_title, v_old_content
+      FROM public.forum_posts WHERE id = p_content_id;
+  ELSIF p_content_type = 'reply' THEN
+    SELECT user_id, is_deleted, NULL, content
+      INTO v_author_id, v_is_deleted, v_old_title, v_old_content
+      FROM public.forum_replies WHERE id = p_content_id;
+  ELSE
+    RAISE EXCEPTION 'Invalid content type: %. Must be ''post'' or ''reply''.', p_content_type;
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Content not found: % %', p_content_type, p_content_id;
+  END IF;
+
+  v_can_edit_any := public.current_user_has_permission(
+    (CASE WHEN p_content_type = 'post' THEN 'EDIT_ANY_POST' ELSE 'EDIT_ANY_REPLY' END)::public.app_permissions
+  );
+
+  IF v_author_id IS DISTINCT FROM v_caller_id AND NOT v_can_edit_any THEN
+    RAISE EXCEPTION 'You do not have permission to edit this content.';
+  END IF;
+
+  IF v_is_deleted AND NOT v_can_edit_any THEN
+    RAISE EXCEPTION 'Deleted content cannot be edited.';
+  END IF;
+
+  IF p_content_type = 'post' THEN
+    v_new_title := COALESCE(NULLIF(trim(p_new_title), ''), v_old_title);
+    UPDATE public.forum_posts
+       SET title = v_new_title, content = p_new_content
+     WHERE id = p_content_id
+     RETURNING updated_at INTO v_updated_at;
+  ELSE
+    UPDATE public.forum_replies
+       SET content = p_new_content
+     WHERE id = p_content_id
+     RETURNING updated_at INTO v_updated_at;
+  END IF;
+
+  IF v_author_id IS DISTINCT FROM v_caller_id THEN
+    PERFORM public.create_moderation_log_entry(
+      p_action_type     := 'CONTENT_EDIT_MODERATOR',
+      p_justification   := COALESCE(NULLIF(trim(p_justification), ''), 'Content edited by moderator.'),
+      p_target_user_id  := v_author_id,
+      p_target_post_id  := CASE WHEN p_content_type = 'post' THEN p_content_id END,
+      p_target_reply_id := CASE WHEN p_content_type = 'reply' THEN p_content_id END,
+      p_details         := jsonb_build_object(
+        'content_type', p_content_type,
+        'content_id', p_content_id,
+        'old_title', v_old_title,
+        'new_title', v_new_title,
+        'old_content', v_old_content,
+        'new_content', p_new_content
+      )
+    );
+  END IF;
+
+  RETURN v_updated_at;
+END;
+$$;
+
+COMMENT ON FUNCTION public.edit_forum_content(TEXT, UUID, TEXT, TEXT, TEXT) IS 'Edits a post or reply. Authors edit their own content; holders of EDIT_ANY_POST / EDIT_ANY_REPLY can edit any content and the edit is logged as CONTENT_EDIT_MODERATOR.';
+
+GRANT EXECUTE ON FUNCTION public.edit_forum_content(TEXT, UUID, TEXT, TEXT, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.send_private_message(p_conversation_id uuid, p_content TEXT)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+  v_is_group BOOLEAN;
+  v_message_id UUID;
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required.';
+  END IF;
+
+  IF public.has_active_posting_sanction() THEN
+    RAISE EXCEPTION 'Your account is suspended or banned: you cannot post.';
+  END IF;
+
+  IF NOT public.is_user_approved() THEN
+    RAISE EXCEPTION 'Only approved members can send private messages.';
+  END IF;
+
+  IF NOT public.is_conversation_participant(p_conversation_id) THEN
+    RAISE EXCEPTION 'Conversation not found: %', p_conversation_id;
+  END IF;
+
+  SELECT c.is_group INTO v_is_group FROM public.conversations c WHERE c.id = p_conversation_id;
+
+  IF NOT v_is_group AND EXISTS (
+    SELECT 1
+    FROM public.conversation_participants cp
+    WHERE cp.conversation_id = p_conversation_id
+      AND cp.user_id <> v_caller_id
+      AND public.is_blocked_between(v_caller_id, cp.user_id)
+  ) THEN
+    RAISE EXCEPTION 'You cannot send a message to this member.';
+  END IF;
+
+  IF char_length(trim(COALESCE(p_content, ''))) NOT BETWEEN 1 AND 5000 THEN
+    RAISE EXCEPTION 'A message must contain between 1 and 5000 characters.';
+  END IF;
+
+  INSERT INTO public.private_messages (conversation_id, sender_id, content)
+  VALUES (p_conversation_id, v_caller_id, trim(p_content))
+  RETURNING id INTO v_message_id;
+
+  UPDATE public.conversations SET last_message_at = now() WHERE id = p_conversation_id;
+
+  UPDATE public.conversation_participants
+     SET last_read_at = now()
+   WHERE conversation_id = p_conversation_id AND user_id = v_caller_id;
+
+  RETURN v_message_id;
+END;
+$$;
+
+COMMENT ON FUNCTION public.send_private_message(uuid, TEXT) IS 'Sends a message in a conversation of the caller.';
+
+-- 7. Policies
+DROP POLICY IF EXISTS "Members can read their own sanctions" ON public.user_sanctions;
+CREATE POLICY "Members can read their own sanctions"
+  ON public.user_sanctions
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Moderators can read all sanctions" ON public.user_sanctions;
+CREATE POLICY "Moderators can read all sanctions"
+  ON public.user_sanctions
+  FOR SELECT
+  TO authenticated
+  USING (public.get_current_user_role() IN ('MODERATOR', 'ADMIN', 'SUPER_ADMIN'));
+
+DROP POLICY IF EXISTS "Suspended or banned members cannot create topics" ON public.forum_posts;
+CREATE POLICY "Suspended or banned members cannot create topics"
+  ON public.forum_posts
+  AS RESTRICTIVE
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (NOT public.has_active_posting_sanction());
+
+DROP POLICY IF EXISTS "Suspended or banned members cannot reply" ON public.forum_replies;
+CREATE POLICY "Suspended or banned members cannot reply"
+  ON public.forum_replies
+  AS RESTRICTIVE
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (NOT public.has_active_posting_sanction());
+
+DROP POLICY IF EXISTS "Suspended or banned members cannot react" ON public.forum_reactions;
+CREATE POLICY "Suspended or banned members cannot react"
+  ON public.forum_reactions
+  AS RESTRICTIVE
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (NOT public.has_active_posting_sanction());
+
+DROP POLICY IF EXISTS "Suspended or banned members cannot vote" ON public.forum_poll_votes;
+CREATE POLICY "Suspended or banned members cannot vote"
+  ON public.forum_poll_votes
+  AS RESTRICTIVE
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (NOT public.has_active_posting_sanction());
+
+DROP POLICY IF EXISTS "Suspended or banned members cannot attach files" ON public.forum_attachments;
+CREATE POLICY "Suspended or banned members cannot attach files"
+  ON public.forum_attachments
+  AS RESTRICTIVE
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (NOT public.has_active_posting_sanction());
+
+DROP POLICY IF EXISTS "Suspended or banned members cannot edit topics" ON public.forum_posts;
+CREATE POLICY "Suspended or banned members cannot edit topics"
+  ON public.forum_posts
+  AS RESTRICTIVE
+  FOR UPDATE
+  TO authenticated
+  USING (NOT public.has_active_posting_sanction())
+  WITH CHECK (NOT public.has_active_posting_sanction());
+
+DROP POLICY IF EXISTS "Suspended or banned members cannot edit replies" ON public.forum_replies;
+CREATE POLICY "Suspended or banned members cannot edit replies"
+  ON public.forum_replies
+  AS RESTRICTIVE
+  FOR UPDATE
+  TO authenticated
+  USING (NOT public.has_active_posting_sanction())
+  WITH CHECK (NOT public.has_active_posting_sanction());
+
+DROP POLICY IF EXISTS "Suspended or banned members cannot change reactions" ON public.forum_reactions;
+CREATE POLICY "Suspended or banned members cannot change reactions"
+  ON public.forum_reactions
+  AS RESTRICTIVE
+  FOR UPDATE
+  TO authenticated
+  USING (NOT public.has_active_posting_sanction())
+  WITH CHECK (NOT public.has_active_posting_sanction());
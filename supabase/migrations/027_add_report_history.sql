@@ -0,0 +1,234 @@
+/*
+  # Report history
+
+  Resolved reports used to disappear from the moderation panel. Moderators can now browse them,
+  reopen a report resolved by mistake, and see every report filed against the same content.
+
+  1. New Enum Value
+     - `moderation_action_type`: `REPORT_REOPEN`.
+
+  2. New Functions
+     - `public.get_resolved_reports(p_status, p_resolved_by, p_page, p_limit)`: resolved reports, most
+       recently resolved first, with the member who resolved them and their `moderator_notes`.
+       - `p_status` (report_status_type, optional): only reports with this status. `PENDING` returns nothing.
+       - `p_resolved_by` (uuid, optional): only reports resolved by this moderator.
+       - `p_page` (int, default 1) / `p_limit` (int, default 20, clamped between 1 and 100): pagination.
+       - `content_post_id` is the topic of a reported reply, so the panel can link to it.
+     - `public.get_content_reports(p_content_type, p_content_id)`: every report filed against one post,
+       reply or private message, whatever its status, newest first.
+     - `public.reopen_report(p_report_id, p_reason)`: puts a resolved report back in the queue.
+       MODERATOR and above, the reason is mandatory. `moderator_notes` are kept; the previous status and
+       resolver are recorded in the `REPORT_REOPEN` log entry.
+
+  3. Security
+     - `get_resolved_reports` and `get_content_reports` refuse callers below MODERATOR. They are SECURITY
+       INVOKER, so RLS on `private_messages` still limits them to reported messages.
+     - `reopen_report` is SECURITY DEFINER and checks the caller's role itself.
+     - Reopening does not notify the reporter again; `notify_on_report_resolved` fires once the report
+       is resolved anew.
+*/
+
+-- 1. New enum value
+ALTER TYPE public.moderation_action_type ADD VALUE IF NOT EXISTS 'REPORT_REOPEN';
+
+-- 2. Resolved reports
+CREATE OR REPLACE FUNCTION public.get_resolved_reports(
+  p_status public.report_status_type DEFAULT NULL,
+  p_resolved_by uuid DEFAULT NULL,
+  p_page INT DEFAULT 1,
+  p_limit INT DEFAULT 20
+)
+RETURNS TABLE (
+  report_id UUID,
+  report_created_at TIMESTAMPTZ,
+  reporter_id UUID,
+  reporter_username TEXT,
+  reported_content_type TEXT, -- 'post', 'reply' or 'message'
+  reported_content_id UUID,
+  content_post_id UUID,
+  content_title TEXT,
+  content_excerpt TEXT,
+  content_author_id UUID,
+  content_author_username TEXT,
+  reason_category public.report_reason_category_type,
+  reason_details TEXT,
+  report_status public.report_status_type,
+  resolved_at TIMESTAMPTZ,
+  resolved_by_user_id UUID,
+  resolver_username TEXT,
+  moderator_notes TEXT,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_limit INT := LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+  v_offset INT := (GREATEST(COALESCE(p_page, 1), 1) - 1) * LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+BEGIN
+  IF COALESCE(public.get_current_user_role(), 'USER') NOT IN ('MODERATOR', 'ADMIN', 'SUPER_ADMIN') THEN
+    RAISE EXCEPTION 'You do not have permission to view reports.';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    fr.id,
+    fr.created_at,
+    fr.reporter_user_id,
+    reporter_profile.username,
+    CASE
+      WHEN fr.reported_post_id IS NOT NULL THEN 'post'
+      WHEN fr.reported_reply_id IS NOT NULL THEN 'reply'
+      WHEN fr.reported_message_id IS NOT NULL THEN 'message'
+      ELSE 'unknown'
+    END,
+    COALESCE(fr.reported_post_id, fr.reported_reply_id, fr.reported_message_id),
+    COALESCE(fr.reported_post_id, f_reply.post_id),
+    COALESCE(fp.title, reply_post.title),
+    COALESCE(LEFT(fp.content, 100), LEFT(f_reply.content, 100), LEFT(pm.content, 100)),
+    COALESCE(fp.user_id, f_reply.user_id, pm.sender_id),
+    COALESCE(post_author_profile.username, reply_author_profile.username, message_author_profile.username),
+    fr.reason_category,
+    fr.reason_details,
+    fr.status,
+    fr.resolved_at,
+    fr.resolved_by_user_id,
+    resolver_profile.username,
+    fr.moderator_notes,
+    COUNT(*) OVER () AS total_count
+  FROM public.forum_reports fr
+  LEFT JOIN public.profiles reporter_profile ON fr.reporter_user_id = reporter_profile.id
+  LEFT JOIN public.profiles resolver_profile ON fr.resolved_by_user_id = resolver_profile.id
+  LEFT JOIN public.forum_posts fp ON fr.reported_post_id = fp.id
+  LEFT JOIN public.profiles post_author_profile ON fp.user_id = post_author_profile.id
+  LEFT JOIN public.forum_replies f_reply ON fr.reported_reply_id = f_reply.id
+  LEFT JOIN public.forum_posts reply_post ON f_reply.post_id = reply_post.id
+  LEFT JOIN public.profiles reply_author_profile ON f_reply.user_id = reply_author_profile.id
+  LEFT JOIN public.private_messages pm ON fr.reported_message_id = pm.id
+  LEFT JOIN public.profiles message_author_profile ON pm.sender_id = message_author_profile.id
+  WHERE fr.status <> 'PENDING'
+    AND (p_status IS NULL OR fr.status = p_status)
+    AND (p_resolved_by IS NULL OR fr.resolved_by_user_id = p_resolved_by)
+  ORDER BY fr.resolved_at DESC NULLS LAST, fr.id
+  LIMIT v_limit
+  OFFSET v_offset;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_resolved_reports(public.report_status_type, uuid, INT, INT) IS 'Resolved reports with their resolver and moderator notes, filtered by status and resolver, paginated. Returns the total count on every row. Moderators only. SECURITY INVOKER.';
+
+GRANT EXECUTE ON FUNCTION public.get_resolved_reports(public.report_status_type, uuid, INT, INT) TO authenticated;
+
+-- 3. Reports on one content
+CREATE OR REPLACE FUNCTION public.get_content_reports(
+  p_content_type TEXT, -- 'post', 'reply' or 'message'
+  p_content_id UUID
+)
+RETURNS TABLE (
+  report_id UUID,
+  report_created_at TIMESTAMPTZ,
+  reporter_id UUID,
+  reporter_username TEXT,
+  reason_category public.report_reason_category_type,
+  reason_details TEXT,
+  report_status public.report_status_type,
+  resolved_at TIMESTAMPTZ,
+  resolver_username TEXT,
+  moderator_notes TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(public.get_current_user_role(), 'USER') NOT IN ('MODERATOR', 'ADMIN', 'SUPER_ADMIN') THEN
+    RAISE EXCEPTION 'You do not have permission to view reports.';
+  END IF;
+
+  IF p_content_type NOT IN ('post', 'reply', 'message') THEN
+    RAISE EXCEPTION 'Invalid content type. Must be "post", "reply" or "message". Received: %', p_content_type;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    fr.id,
+    fr.created_at,
+    fr.reporter_user_id,
+    reporter_profile.username,
+    fr.reason_category,
+    fr.reason_details,
+    fr.status,
+    fr.resolved_at,
+    resolver_profile.username,
+    fr.moderator_notes
+  FROM public.forum_reports fr
+  LEFT JOIN public.profiles reporter_profile ON fr.reporter_user_id = reporter_profile.id
+  LEFT JOIN public.profiles resolver_profile ON fr.resolved_by_user_id = resolver_profile.id
+  WHERE (p_content_type = 'post' AND fr.reported_post_id = p_content_id)
+     OR (p_content_type = 'reply' AND fr.reported_reply_id = p_content_id)
+     OR (p_content_type = 'message' AND fr.reported_message_id = p_content_id)
+  ORDER BY fr.created_at DESC;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_content_reports(TEXT, UUID) IS 'Every report filed against one post, reply or private message, whatever its status. Moderators only. SECURITY INVOKER.';
+
+GRANT EXECUTE ON FUNCTION public.get_content_reports(TEXT, UUID) TO authenticated;
+
+-- 4. Reopening a report
+CREATE OR REPLACE FUNCTION public.reopen_report(p_report_id uuid, p_reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+  v_report public.forum_reports%ROWTYPE;
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required.';
+  END IF;
+
+  IF COALESCE(public.get_current_user_role(), 'USER') NOT IN ('MODERATOR', 'ADMIN', 'SUPER_ADMIN') THEN
+    RAISE EXCEPTION 'You do not have permission to reopen reports.';
+  END IF;
+
+  IF p_reason IS NULL OR trim(p_reason) = '' THEN
+    RAISE EXCEPTION 'A reason is required.';
+  END IF;
+
+  SELECT * INTO v_report FROM public.forum_reports WHERE id = p_report_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report not found: %', p_report_id;
+  END IF;
+
+  IF v_report.status = 'PENDING' THEN
+    RAISE EXCEPTION 'This report is already pending.';
+  END IF;
+
+  UPDATE public.forum_reports
+     SET status = 'PENDING', resolved_at = NULL, resolved_by_user_id = NULL
+   WHERE id = p_report_id;
+
+  PERFORM public.create_moderation_log_entry(
+    p_action_type      := 'REPORT_REOPEN',
+    p_justification    := trim(p_reason),
+    p_target_post_id   := v_report.reported_post_id,
+    p_target_reply_id  := v_report.reported_reply_id,
+    p_target_report_id := p_report_id,
+    p_details          := jsonb_build_object(
+      'previous_status', v_report.status,
+      'resolved_at', v_report.resolved_at,
+      'resolved_by_user_id', v_report.resolved_by_user_id
+    )
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.reopen_report(uuid, TEXT) IS 'Puts a resolved report back in the moderation queue (MODERATOR and above) and logs the action.';
+
+GRANT EXECUTE ON FUNCTION public.reopen_report(uuid, TEXT) TO authenticated;
@@ -0,0 +1,296 @@
+/*
+  # Grouped moderation queue
+
+  A member could report the same content again and again, each click adding an entry to the queue.
+  A member now has at most one pending report per content, and the queue shows one row per reported
+  content, resolved in a single action.
+
+  1. Data Cleanup
+     - Duplicate pending reports (same reporter, same content) are deleted, keeping the oldest one.
+
+  2. Constraints
+     - Partial unique indexes on `forum_reports`: one `PENDING` report per reporter and post, reply or
+       private message. Resolved reports are not affected, so a member can report content again once
+       their previous report was handled.
+
+  3. New Functions
+     - `public.get_pending_report_groups()`: one row per content with pending reports, oldest first, with
+       `report_count`, `reporter_count`, `reporter_usernames`, `reason_counts` (jsonb, reason category ->
+       number of reports), `first_reported_at` and `last_reported_at`. `content_post_id` is the topic of
+       a reported reply.
+     - `public.resolve_content_reports(p_content_type, p_content_id, p_new_status, p_moderator_notes)`:
+       resolves every pending report on one content and writes a single `moderation_actions_log` entry
+       listing the report ids. Returns the number of resolved reports; nothing is logged when there was
+       none. MODERATOR and above.
+
+  4. Updated Functions
+     - `reopen_report` refuses to reopen a report when its reporter already has a pending report on the
+       same content.
+
+  5. Security
+     - `get_pending_report_groups` is SECURITY INVOKER: RLS on `forum_reports` limits it to moderators.
+     - `resolve_content_reports` is SECURITY DEFINER and checks the caller's role itself.
+     - Every resolved report still notifies its reporter through `notify_on_report_resolved`.
+*/
+
+-- 1. Duplicate pending reports
+DELETE FROM public.forum_reports duplicate
+USING public.forum_reports original
+WHERE duplicate.status = 'PENDING'
+  AND original.status = 'PENDING'
+  AND duplicate.reporter_user_id = original.reporter_user_id
+  AND duplicate.reported_post_id IS NOT DISTINCT FROM original.reported_post_id
+  AND duplicate.reported_reply_id IS NOT DISTINCT FROM original.reported_reply_id
+  AND duplicate.reported_message_id IS NOT DISTINCT FROM original.reported_message_id
+  AND (original.created_at, original.id) < (duplicate.created_at, duplicate.id);
+
+-- 2. One pending report per reporter and content
+CREATE UNIQUE INDEX IF NOT EXISTS idx_forum_reports_one_pending_per_post
+  ON public.forum_reports(reporter_user_id, reported_post_id)
+  WHERE status = 'PENDING' AND reported_post_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_forum_reports_one_pending_per_reply
+  ON public.forum_reports(reporter_user_id, reported_reply_id)
+  WHERE status = 'PENDING' AND reported_reply_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_forum_reports_one_pending_per_message
+  ON public.forum_reports(reporter_user_id, reported_message_id)
+  WHERE status = 'PENDING' AND reported_message_id IS NOT NULL;
+
+-- 3. Grouped queue
+CREATE OR REPLACE FUNCTION public.get_pending_report_groups()
+RETURNS TABLE (
+  reported_content_type TEXT, -- 'post', 'reply' or 'message'
+  reported_content_id UUID,
+  content_post_id UUID,
+  content_title TEXT,
+  content_excerpt TEXT,
+  content_author_id UUID,
+  content_author_username TEXT,
+  report_count BIGINT,
+  reporter_count BIGINT,
+  reporter_usernames TEXT[],
+  reason_counts JSONB,
+  first_reported_at TIMESTAMPTZ,
+  last_reported_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  -- RLS on forum_reports limits this to moderators; on private_messages, to reported messages.
+  RETURN QUERY
+  WITH pending AS (
+    SELECT
+      CASE
+        WHEN fr.reported_post_id IS NOT NULL THEN 'post'
+        WHEN fr.reported_reply_id IS NOT NULL THEN 'reply'
+        ELSE 'message'
+      END AS p_type,
+      COALESCE(fr.reported_post_id, fr.reported_reply_id, fr.reported_message_id) AS p_content_id,
+      fr.reporter_user_id AS p_reporter_id,
+      fr.reason_category AS p_reason,
+      fr.created_at AS p_created_at
+    FROM public.forum_reports fr
+    WHERE fr.status = 'PENDING'
+  ),
+  reasons AS (
+    SELECT r.p_type, r.p_content_id, jsonb_object_agg(r.p_reason, r.reason_total) AS r_counts
+    FROM (
+      SELECT p.p_type, p.p_content_id, p.p_reason, COUNT(*) AS reason_total
+      FROM pending p
+      GROUP BY p.p_type, p.p_content_id, p.p_reason
+    ) r
+    GROUP BY r.p_type, r.p_content_id
+  ),
+  grouped AS (
+    SELECT
+      p.p_type,
+      p.p_content_id,
+      COUNT(*) AS g_report_count,
+      COUNT(DISTINCT p.p_reporter_id) AS g_reporter_count,
+      array_agg(DISTINCT reporter_profile.username) FILTER (WHERE reporter_profile.username IS NOT NULL) AS g_reporters,
+      MIN(p.p_created_at) AS g_first,
+      MAX(p.p_created_at) AS g_last
+    FROM pending p
+    LEFT JOIN public.profiles reporter_profile ON p.p_reporter_id = reporter_profile.id
+    GROUP BY p.p_type, p.p_content_id
+  )
+  SELECT
+    g.p_type,
+    g.p_content_id,
+    COALESCE(fp.id, f_reply.post_id),
+    COALESCE(fp.title, reply_post.title),
+    COALESCE(LEFT(fp.content, 100), LEFT(f_reply.content, 100), LEFT(pm.content, 100)),
+    COALESCE(fp.user_id, f_reply.user_id, pm.sender_id),
+    COALESCE(post_author_profile.username, reply_author_profile.username, message_author_profile.username),
+    g.g_report_count,
+    g.g_reporter_count,
+    COALESCE(g.g_reporters, ARRAY[]::TEXT[]),
+    r.r_counts,
+    g.g_first,
+    g.g_last
+  FROM grouped g
+  JOIN reasons r ON r.p_type = g.p_type AND r.p_content_id = g.p_content_id
+  LEFT JOIN public.forum_posts fp ON g.p_type = 'post' AND fp.id = g.p_content_id
+  LEFT JOIN public.profiles post_author_profile ON fp.user_id = post_author_profile.id
+  LEFT JOIN public.forum_replies f_reply ON g.p_type = 'reply' AND f_reply.id = g.p_content_id
+  LEFT JOIN public.forum_posts reply_post ON f_reply.post_id = reply_post.id
+  LEFT JOIN public.profiles reply_author_profile ON f_reply.user_id = reply_author_profile.id
+  LEFT JOIN public.private_messages pm ON g.p_type = 'message' AND pm.id = g.p_content_id
+  LEFT JOIN public.profiles message_author_profile ON pm.sender_id = message_author_profile.id
+  ORDER BY g.g_first ASC;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_pending_report_groups() IS 'Pending reports grouped by reported content, with reporter count and reason breakdown. Access controlled by RLS. SECURITY INVOKER.';
+
+GRANT EXECUTE ON FUNCTION public.get_pending_report_groups() TO authenticated;
+
+-- 4. Resolving every report on one content
+CREATE OR REPLACE FUNCTION public.resolve_content_reports(
+  p_content_type TEXT, -- 'post', 'reply' or 'message'
+  p_content_id UUID,
+  p_new_status public.report_status_type,
+  p_moderator_notes TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+  v_report_ids UUID[];
+  v_action_type public.moderation_action_type;
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required.';
+  END IF;
+
+  IF COALESCE(public.get_current_user_role(), 'USER') NOT IN ('MODERATOR', 'ADMIN', 'SUPER_ADMIN') THEN
+    RAISE EXCEPTION 'You do not have permission to resolve reports.';
+  END IF;
+
+  IF p_content_type NOT IN ('post', 'reply', 'message') THEN
+    RAISE EXCEPTION 'Invalid content type. Must be "post", "reply" or "message". Received: %', p_content_type;
+  END IF;
+
+  IF p_new_status IS NULL OR p_new_status = 'PENDING' THEN
+    RAISE EXCEPTION 'A resolved status is required.';
+  END IF;
+
+  WITH resolved AS (
+    UPDATE public.forum_reports fr
+       SET status = p_new_status,
+           resolved_at = now(),
+           resolved_by_user_id = v_caller_id,
+           moderator_notes = COALESCE(NULLIF(trim(p_moderator_notes), ''), fr.moderator_notes)
+     WHERE fr.status = 'PENDING'
+       AND (
+         (p_content_type = 'post' AND fr.reported_post_id = p_content_id) OR
+         (p_content_type = 'reply' AND fr.reported_reply_id = p_content_id) OR
+         (p_content_type = 'message' AND fr.reported_message_id = p_content_id)
+       )
+    RETURNING fr.id
+  )
+  SELECT COALESCE(array_agg(resolved.id), ARRAY[]::UUID[]) INTO v_report_ids FROM resolved;
+
+  IF cardinality(v_report_ids) = 0 THEN
+    RETURN 0;
+  END IF;
+
+  v_action_type := CASE p_new_status
+    WHEN 'RESOLVED_APPROVED' THEN 'REPORT_STATUS_CHANGE_APPROVE'
+    WHEN 'RESOLVED_REJECTED' THEN 'REPORT_STATUS_CHANGE_REJECT'
+    ELSE 'REPORT_STATUS_CHANGE_RESOLVED'
+  END::public.moderation_action_type;
+
+  PERFORM public.create_moderation_log_entry(
+    p_action_type      := v_action_type,
+    p_justification    := COALESCE(NULLIF(trim(p_moderator_notes), ''), 'Reports resolved by moderator via moderation panel.'),
+    p_target_post_id   := CASE WHEN p_content_type = 'post' THEN p_content_id END,
+    p_target_reply_id  := CASE WHEN p_content_type = 'reply' THEN p_content_id END,
+    -- The report itself when there is only one; the ids of all of them are in the details.
+    p_target_report_id := CASE WHEN cardinality(v_report_ids) = 1 THEN v_report_ids[1] END,
+    p_details          := jsonb_build_object(
+      'content_type', p_content_type,
+      'content_id', p_content_id,
+      'new_status', p_new_status,
+      'report_count', cardinality(v_report_ids),
+      'report_ids', to_jsonb(v_report_ids)
+    )
+  );
+
+  RETURN cardinality(v_report_ids);
+END;
+$$;
+
+COMMENT ON FUNCTION public.resolve_content_reports(TEXT, UUID, public.report_status_type, TEXT) IS 'Resolves every pending report on a post, reply or private message (MODERATOR and above) with a single log entry. Returns the number of resolved reports.';
+
+GRANT EXECUTE ON FUNCTION public.resolve_content_reports(TEXT, UUID, public.report_status_type, TEXT) TO authenticated;
+
+-- 5. Reopening a report while its reporter filed a new one
+CREATE OR REPLACE FUNCTION public.reopen_report(p_report_id uuid, p_reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+  v_report public.forum_reports%ROWTYPE;
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required.';
+  END IF;
+
+  IF COALESCE(public.get_current_user_role(), 'USER') NOT IN ('MODERATOR', 'ADMIN', 'SUPER_ADMIN') THEN
+    RAISE EXCEPTION 'You do not have permission to reopen reports.';
+  END IF;
+
+  IF p_reason IS NULL OR trim(p_reason) = '' THEN
+    RAISE EXCEPTION 'A reason is required.';
+  END IF;
+
+  SELECT * INTO v_report FROM public.forum_reports WHERE id = p_report_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report not found: %', p_report_id;
+  END IF;
+
+  IF v_report.status = 'PENDING' THEN
+    RAISE EXCEPTION 'This report is already pending.';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.forum_reports fr
+    WHERE fr.status = 'PENDING'
+      AND fr.reporter_user_id = v_report.reporter_user_id
+      AND fr.reported_post_id IS NOT DISTINCT FROM v_report.reported_post_id
+      AND fr.reported_reply_id IS NOT DISTINCT FROM v_report.reported_reply_id
+      AND fr.reported_message_id IS NOT DISTINCT FROM v_report.reported_message_id
+  ) THEN
+    RAISE EXCEPTION 'The reporter already has a pending report on this content.';
+  END IF;
+
+  UPDATE public.forum_reports
+     SET status = 'PENDING', resolved_at = NULL, resolved_by_user_id = NULL
+   WHERE id = p_report_id;
+
+  PERFORM public.create_moderation_log_entry(
+    p_action_type      := 'REPORT_REOPEN',
+    p_justification    := trim(p_reason),
+    p_target_post_id   := v_report.reported_post_id,
+    p_target_reply_id  := v_report.reported_reply_id,
+    p_target_report_id := p_report_id,
+    p_details          := jsonb_build_object(
+      'previous_status', v_report.status,
+      'resolved_at', v_report.resolved_at,
+      'resolved_by_user_id', v_report.resolved_by_user_id
+    )
+  );
+END;
+$$;
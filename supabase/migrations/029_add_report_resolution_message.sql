@@ -0,0 +1,411 @@
+/*
+  # Report follow-up for reporters
+
+  Members can follow the reports they filed on a "Mes signalements" page. When resolving reports,
+  moderators can write a message for the reporters, next to their private `moderator_notes`.
+
+  1. Schema Changes: `public.forum_reports`
+     - `resolution_message` (text, nullable, at most 1000 characters): shown to the reporter once the
+       report is resolved. It belongs to the resolution: resolving a reopened report replaces it.
+
+  2. New Function
+     - `public.get_my_reports(p_page, p_limit)`: reports filed by the caller, newest first, with their
+       status, resolution date and `resolution_message`, and `total_count`. Never returns `moderator_notes`
+       nor who resolved the report. `p_limit` defaults to 20, clamped between 1 and 100.
+
+  3. Updated Functions
+     - `resolve_content_reports` takes a `p_resolution_message` argument.
+     - `get_resolved_reports` and `get_content_reports` also return `resolution_message`.
+     - `notify_on_report_resolved` adds `resolution_message` to the notification data.
+
+  4. Security
+     - The policy "Users can view their own submitted reports" is dropped: it let reporters read
+       `moderator_notes` and `resolved_by_user_id` of their reports. Reporters now read their reports
+       through `get_my_reports` only, and `forum_reports` is readable by moderators only.
+     - `get_my_reports` is SECURITY DEFINER and only returns the caller's own reports. The title and
+       excerpt of the reported content are only returned while the caller can still read it: deleted,
+       unpublished or private category content, and messages of conversations the caller left, come
+       back without them.
+     - `get_resolved_reports` and `get_content_reports` refuse callers below MODERATOR.
+*/
+
+-- 1. Resolution message
+ALTER TABLE public.forum_reports
+  ADD COLUMN IF NOT EXISTS resolution_message TEXT
+  CHECK (resolution_message IS NULL OR char_length(resolution_message) <= 1000);
+
+COMMENT ON COLUMN public.forum_reports.resolution_message IS 'Message shown to the reporter once the report is resolved. moderator_notes stay private.';
+
+DROP POLICY IF EXISTS "Users can view their own submitted reports" ON public.forum_reports;
+
+-- 2. Resolving with a message for the reporters
+DROP FUNCTION IF EXISTS public.resolve_content_reports(TEXT, UUID, public.report_status_type, TEXT);
+
+CREATE OR REPLACE FUNCTION public.resolve_content_reports(
+  p_content_type TEXT, -- 'post', 'reply' or 'message'
+  p_content_id UUID,
+  p_new_status public.report_status_type,
+  p_moderator_notes TEXT DEFAULT NULL,
+  p_resolution_message TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+  v_report_ids UUID[];
+  v_action_type public.moderation_action_type;
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required.';
+  END IF;
+
+  IF COALESCE(public.get_current_user_role(), 'USER') NOT IN ('MODERATOR', 'ADMIN', 'SUPER_ADMIN') THEN
+    RAISE EXCEPTION 'You do not have permission to resolve reports.';
+  END IF;
+
+  IF p_content_type NOT IN ('post', 'reply', 'message') THEN
+    RAISE EXCEPTION 'Invalid content type. Must be "post", "reply" or "message". Received: %', p_content_type;
+  END IF;
+
+  IF p_new_status IS NULL OR p_new_status = 'PENDING' THEN
+    RAISE EXCEPTION 'A resolved status is required.';
+  END IF;
+
+  WITH resolved AS (
+    UPDATE public.forum_reports fr
+       SET status = p_new_status,
+           resolved_at = now(),
+           resolved_by_user_id = v_caller_id,
+           moderator_notes = COALESCE(NULLIF(trim(p_moderator_notes), ''), fr.moderator_notes),
+           resolution_message = NULLIF(trim(p_resolution_message), '')
+     WHERE fr.status = 'PENDING'
+       AND (
+         (p_content_type = 'post' AND fr.reported_post_id = p_content_id) OR
+         (p_content_type = 'reply' AND fr.reported_reply_id = p_content_id) OR
+         (p_content_type = 'message' AND fr.reported_message_id = p_content_id)
+       )
+    RETURNING fr.id
+  )
+  SELECT COALESCE(array_agg(resolved.id), ARRAY[]::UUID[]) INTO v_report_ids FROM resolved;
+
+  IF cardinality(v_report_ids) = 0 THEN
+    RETURN 0;
+  END IF;
+
+  v_action_type := CASE p_new_status
+    WHEN 'RESOLVED_APPROVED' THEN 'REPORT_STATUS_CHANGE_APPROVE'
+    WHEN 'RESOLVED_REJECTED' THEN 'REPORT_STATUS_CHANGE_REJECT'
+    ELSE 'REPORT_STATUS_CHANGE_RESOLVED'
+  END::public.moderation_action_type;
+
+  PERFORM public.create_moderation_log_entry(
+    p_action_type      := v_action_type,
+    p_justification    := COALESCE(NULLIF(trim(p_moderator_notes), ''), 'Reports resolved by moderator via moderation panel.'),
+    p_target_post_id   := CASE WHEN p_content_type = 'post' THEN p_content_id END,
+    p_target_reply_id  := CASE WHEN p_content_type = 'reply' THEN p_content_id END,
+    -- The report itself when there is only one; the ids of all of them are in the details.
+    p_target_report_id := CASE WHEN cardinality(v_report_ids) = 1 THEN v_report_ids[1] END,
+    p_details          := jsonb_build_object(
+      'content_type', p_content_type,
+      'content_id', p_content_id,
+      'new_status', p_new_status,
+      'report_count', cardinality(v_report_ids),
+      'report_ids', to_jsonb(v_report_ids),
+      'resolution_message', NULLIF(trim(p_resolution_message), '')
+    )
+  );
+
+  RETURN cardinality(v_report_ids);
+END;
+$$;
+
+COMMENT ON FUNCTION public.resolve_content_reports(TEXT, UUID, public.report_status_type, TEXT, TEXT) IS 'Resolves every pending report on a post, reply or private message (MODERATOR and above) with a single log entry and an optional message for the reporters. Returns the number of resolved reports.';
+
+GRANT EXECUTE ON FUNCTION public.resolve_content_reports(TEXT, UUID, public.report_status_type, TEXT, TEXT) TO authenticated;
+
+-- 3. Moderation history with the resolution message
+DROP FUNCTION IF EXISTS public.get_resolved_reports(public.report_status_type, uuid, INT, INT);
+
+CREATE OR REPLACE FUNCTION public.get_resolved_reports(
+  p_status public.report_status_type DEFAULT NULL,
+  p_resolved_by uuid DEFAULT NULL,
+  p_page INT DEFAULT 1,
+  p_limit INT DEFAULT 20
+)
+RETURNS TABLE (
+  report_id UUID,
+  report_created_at TIMESTAMPTZ,
+  reporter_id UUID,
+  reporter_username TEXT,
+  reported_content_type TEXT, -- 'post', 'reply' or 'message'
+  reported_content_id UUID,
+  content_post_id UUID,
+  content_title TEXT,
+  content_excerpt TEXT,
+  content_author_id UUID,
+  content_author_username TEXT,
+  reason_category public.report_reason_category_type,
+  reason_details TEXT,
+  report_status public.report_status_type,
+  resolved_at TIMESTAMPTZ,
+  resolved_by_user_id UUID,
+  resolver_username TEXT,
+  moderator_notes TEXT,
+  resolution_message TEXT,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_limit INT := LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+  v_offset INT := (GREATEST(COALESCE(p_page, 1), 1) - 1) * LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+BEGIN
+  IF COALESCE(public.get_current_user_role(), 'USER') NOT IN ('MODERATOR', 'ADMIN', 'SUPER_ADMIN') THEN
+    RAISE EXCEPTION 'You do not have permission to view reports.';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    fr.id,
+    fr.created_at,
+    fr.reporter_user_id,
+    reporter_profile.username,
+    CASE
+      WHEN fr.reported_post_id IS NOT NULL THEN 'post'
+      WHEN fr.reported_reply_id IS NOT NULL THEN 'reply'
+      WHEN fr.reported_message_id IS NOT NULL THEN 'message'
+      ELSE 'unknown'
+    END,
+    COALESCE(fr.reported_post_id, fr.reported_reply_id, fr.reported_message_id),
+    COALESCE(fr.reported_post_id, f_reply.post_id),
+    COALESCE(fp.title, reply_post.title),
+    COALESCE(LEFT(fp.content, 100), LEFT(f_reply.content, 100), LEFT(pm.content, 100)),
+    COALESCE(fp.user_id, f_reply.user_id, pm.sender_id),
+    COALESCE(post_author_profile.username, reply_author_profile.username, message_author_profile.username),
+    fr.reason_category,
+    fr.reason_details,
+    fr.status,
+    fr.resolved_at,
+    fr.resolved_by_user_id,
+    resolver_profile.username,
+    fr.moderator_notes,
+    fr.resolution_message,
+    COUNT(*) OVER () AS total_count
+  FROM public.forum_reports fr
+  LEFT JOIN public.profiles reporter_profile ON fr.reporter_user_id = reporter_profile.id
+  LEFT JOIN public.profiles resolver_profile ON fr.resolved_by_user_id = resolver_profile.id
+  LEFT JOIN public.forum_posts fp ON fr.reported_post_id = fp.id
+  LEFT JOIN public.profiles post_author_profile ON fp.user_id = post_author_profile.id
+  LEFT JOIN public.forum_replies f_reply ON fr.reported_reply_id = f_reply.id
+  LEFT JOIN public.forum_posts reply_post ON f_reply.post_id = reply_post.id
+  LEFT JOIN public.profiles reply_author_profile ON f_reply.user_id = reply_author_profile.id
+  LEFT JOIN public.private_messages pm ON fr.reported_message_id = pm.id
+  LEFT JOIN public.profiles message_author_profile ON pm.sender_id = message_author_profile.id
+  WHERE fr.status <> 'PENDING'
+    AND (p_status IS NULL OR fr.status = p_status)
+    AND (p_resolved_by IS NULL OR fr.resolved_by_user_id = p_resolved_by)
+  ORDER BY fr.resolved_at DESC NULLS LAST, fr.id
+  LIMIT v_limit
+  OFFSET v_offset;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_resolved_reports(public.report_status_type, uuid, INT, INT) IS 'Resolved reports with their resolver, moderator notes and resolution message, filtered by status and resolver, paginated. Returns the total count on every row. Moderators only. SECURITY INVOKER.';
+
+GRANT EXECUTE ON FUNCTION public.get_resolved_reports(public.report_status_type, uuid, INT, INT) TO authenticated;
+
+DROP FUNCTION IF EXISTS public.get_content_reports(TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION public.get_content_reports(
+  p_content_type TEXT, -- 'post', 'reply' or 'message'
+  p_content_id UUID
+)
+RETURNS TABLE (
+  report_id UUID,
+  report_created_at TIMESTAMPTZ,
+  reporter_id UUID,
+  reporter_username TEXT,
+  reason_category public.report_reason_category_type,
+  reason_details TEXT,
+  report_status public.report_status_type,
+  resolved_at TIMESTAMPTZ,
+  resolver_username TEXT,
+  moderator_notes TEXT,
+  resolution_message TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(public.get_current_user_role(), 'USER') NOT IN ('MODERATOR', 'ADMIN', 'SUPER_ADMIN') THEN
+    RAISE EXCEPTION 'You do not have permission to view reports.';
+  END IF;
+
+  IF p_content_type NOT IN ('post', 'reply', 'message') THEN
+    RAISE EXCEPTION 'Invalid content type. Must be "post", "reply" or "message". Received: %', p_content_type;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    fr.id,
+    fr.created_at,
+    fr.reporter_user_id,
+    reporter_profile.username,
+    fr.reason_category,
+    fr.reason_details,
+    fr.status,
+    fr.resolved_at,
+    resolver_profile.username,
+    fr.moderator_notes,
+    fr.resolution_message
+  FROM public.forum_reports fr
+  LEFT JOIN public.profiles reporter_profile ON fr.reporter_user_id = reporter_profile.id
+  LEFT JOIN public.profiles resolver_profile ON fr.resolved_by_user_id = resolver_profile.id
+  WHERE (p_content_type = 'post' AND fr.reported_post_id = p_content_id)
+     OR (p_content_type = 'reply' AND fr.reported_reply_id = p_content_id)
+     OR (p_content_type = 'message' AND fr.reported_message_id = p_content_id)
+  ORDER BY fr.created_at DESC;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_content_reports(TEXT, UUID) IS 'Every report filed against one post, reply or private message, whatever its status. Moderators only. SECURITY INVOKER.';
+
+GRANT EXECUTE ON FUNCTION public.get_content_reports(TEXT, UUID) TO authenticated;
+
+-- 4. Reports of the caller
+CREATE OR REPLACE FUNCTION public.get_my_reports(
+  p_page INT DEFAULT 1,
+  p_limit INT DEFAULT 20
+)
+RETURNS TABLE (
+  report_id UUID,
+  report_created_at TIMESTAMPTZ,
+  reported_content_type TEXT, -- 'post', 'reply' or 'message'
+  reported_content_id UUID,
+  content_post_id UUID,
+  content_title TEXT,
+  content_excerpt TEXT,
+  reason_category public.report_reason_category_type,
+  reason_details TEXT,
+  report_status public.report_status_type,
+  resolved_at TIMESTAMPTZ,
+  resolution_message TEXT,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+  v_limit INT := LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+  v_offset INT := (GREATEST(COALESCE(p_page, 1), 1) - 1) * LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required.';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    fr.id,
+    fr.created_at,
+    CASE
+      WHEN fr.reported_post_id IS NOT NULL THEN 'post'
+      WHEN fr.reported_reply_id IS NOT NULL THEN 'reply'
+      WHEN fr.reported_message_id IS NOT NULL THEN 'message'
+      ELSE 'unknown'
+    END,
+    COALESCE(fr.reported_post_id, fr.reported_reply_id, fr.reported_message_id),
+    COALESCE(fp.id, f_reply.post_id),
+    COALESCE(fp.title, CASE WHEN f_reply.id IS NOT NULL THEN reply_post.title END),
+    COALESCE(LEFT(fp.content, 100), LEFT(f_reply.content, 100), LEFT(pm.content, 100)),
+    fr.reason_category,
+    fr.reason_details,
+    fr.status,
+    fr.resolved_at,
+    -- A reopened report is pending again: its previous message no longer applies.
+    CASE WHEN fr.status <> 'PENDING' THEN fr.resolution_message END,
+    COUNT(*) OVER () AS total_count
+  FROM public.forum_reports fr
+  -- SECURITY DEFINER bypasses RLS: the joins only keep content the caller can still read.
+  LEFT JOIN public.forum_posts fp
+    ON fr.reported_post_id = fp.id
+   AND fp.is_deleted = false
+   AND (fp.is_published = true OR fp.user_id = v_caller_id)
+   AND public.can_user_see_category(fp.category_id, v_caller_id)
+  LEFT JOIN public.forum_posts reply_post
+    ON reply_post.id = (SELECT r.post_id FROM public.forum_replies r WHERE r.id = fr.reported_reply_id)
+   AND reply_post.is_deleted = false
+   AND (reply_post.is_published = true OR reply_post.user_id = v_caller_id)
+   AND public.can_user_see_category(reply_post.category_id, v_caller_id)
+  LEFT JOIN public.forum_replies f_reply
+    ON fr.reported_reply_id = f_reply.id
+   AND f_reply.is_deleted = false
+   AND reply_post.id IS NOT NULL
+  LEFT JOIN public.private_messages pm
+    ON fr.reported_message_id = pm.id
+   AND pm.is_deleted = false
+   AND public.is_conversation_participant(pm.conversation_id)
+  WHERE fr.reporter_user_id = v_caller_id
+  ORDER BY fr.created_at DESC, fr.id
+  LIMIT v_limit
+  OFFSET v_offset;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_my_reports(INT, INT) IS 'Reports filed by the caller with their status and resolution message, without moderator notes, paginated. Returns the total count on every row.';
+
+GRANT EXECUTE ON FUNCTION public.get_my_reports(INT, INT) TO authenticated;
+
+-- 5. Resolution message in the reporter's notification
+CREATE OR REPLACE FUNCTION public.notify_on_report_resolved()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_post_id UUID := NEW.reported_post_id;
+  v_post_title TEXT;
+BEGIN
+  IF OLD.status <> 'PENDING' OR NEW.status = 'PENDING' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.reported_reply_id IS NOT NULL THEN
+    SELECT fr.post_id INTO v_post_id FROM public.forum_replies fr WHERE fr.id = NEW.reported_reply_id;
+  END IF;
+
+  SELECT fp.title INTO v_post_title FROM public.forum_posts fp WHERE fp.id = v_post_id;
+
+  PERFORM public.create_notification(
+    NEW.reporter_user_id,
+    'REPORT_RESOLVED',
+    NEW.resolved_by_user_id,
+    v_post_id,
+    NEW.reported_reply_id,
+    NEW.id,
+    jsonb_build_object(
+      'status', NEW.status,
+      'post_title', v_post_title,
+      'content_type', CASE
+        WHEN NEW.reported_message_id IS NOT NULL THEN 'message'
+        WHEN NEW.reported_reply_id IS NOT NULL THEN 'reply'
+        ELSE 'post'
+      END,
+      'resolution_message', NEW.resolution_message
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
@@ -35,7 +35,7 @@
         'APPROVE_USER_REGISTRATION', 'DELETE_USER', 'SEND_PASSWORD_RESET_EMAIL',
         'VIEW_MODERATION_PANEL', 'SOFT_DELETE_CONTENT', 'RESTORE_CONTENT',
         'PERMANENTLY_DELETE_CONTENT', 'VIEW_REPORTS', 'MANAGE_REPORTS',
-        'EDIT_ANY_POST', 'EDIT_ANY_REPLY', 'VIEW_AUDIT_LOGS', 'MANAGE_CATEGORIES',
+        'EDIT_ANY_POST', 'EDIT_ANY_REPLY', 'MANAGE_TOPICS', 'VIEW_AUDIT_LOGS', 'MANAGE_CATEGORIES',
         'MANAGE_TAGS', 'VIEW_FORUM_SETTINGS', 'EDIT_FORUM_SETTINGS', 'WARN_USER',
         'SUSPEND_USER', 'BAN_USER', 'VIEW_USER_SANCTIONS', 'MANAGE_USER_SANCTIONS'
       ];